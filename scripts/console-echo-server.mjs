@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+// Local stand-in for the console proxy: a dependency-free WebSocket server that
+// echoes serial input back like a dumb terminal. Pair it with VITE_USE_MOCK_API=true.
+//
+//   npm run console:echo                  # ws://localhost:6080
+//   PORT=7000 DROP_AFTER=15 npm run console:echo   # drop every connection after 15s to exercise reconnect
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 6080);
+const DROP_AFTER = Number(process.env.DROP_AFTER || 0);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (payload, opcode = 0x1) => {
+  const body = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+  let header;
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length]);
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(body.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(body.length), 2);
+  }
+  return Buffer.concat([header, body]);
+};
+
+// Parses as many complete client frames as `buffer` holds; returns them plus the leftover bytes
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket upgrade required\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const serverId = url.searchParams.get('server') ?? 'unknown';
+  const send = (text) => socket.write(encodeFrame(text));
+  console.log(`[console-echo] connected: ${serverId} (${url.searchParams.get('type') ?? 'serial'})`);
+
+  send(`\r\nConnected to ${serverId} (echo stand-in)\r\n\r\nlogin: root\r\n$ `);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(payload.subarray(0, 2), 0x8));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa));
+        continue;
+      }
+      if (opcode !== 0x1 && opcode !== 0x2) continue;
+      // Behave like a line-buffered shell: Enter starts a new prompt, Backspace erases
+      const text = payload.toString('utf8').replace(/\r/g, '\r\n$ ').replace(/\x7f/g, '\b \b');
+      send(text);
+    }
+  });
+
+  const dropTimer = DROP_AFTER > 0 ? setTimeout(() => socket.destroy(), DROP_AFTER * 1000) : null;
+  socket.on('close', () => {
+    if (dropTimer) clearTimeout(dropTimer);
+    console.log(`[console-echo] disconnected: ${serverId}`);
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`[console-echo] listening on ws://localhost:${PORT}`);
+});
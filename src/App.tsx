@@ -16,6 +16,14 @@ import { Signup } from './pages/Signup';
 
 import { Overview } from './pages/dashboard/Overview';
 import { MyServers } from './pages/dashboard/MyServers';
+import { ServerDetail } from './pages/dashboard/ServerDetail';
+import { Deploy } from './pages/dashboard/Deploy';
+import { Dns } from './pages/dashboard/Dns';
+import { DnsZoneDetail } from './pages/dashboard/DnsZoneDetail';
+import { Vpcs } from './pages/dashboard/Vpcs';
+import { Volumes } from './pages/dashboard/Volumes';
+import { LoadBalancers } from './pages/dashboard/LoadBalancers';
+import { LoadBalancerDetail } from './pages/dashboard/LoadBalancerDetail';
 import { Referrals } from './pages/dashboard/Referrals';
 import { Billing } from './pages/dashboard/Billing';
 import { Support } from './pages/dashboard/Support';
@@ -26,6 +34,7 @@ import { ReferralManagement } from './pages/admin/ReferralManagement';
 import { UserManagement } from './pages/admin/UserManagement';
 import { ServerManagement } from './pages/admin/ServerManagement';
 import { PlansManagement } from './pages/admin/PlansManagement';
+import { CouponsManagement } from './pages/admin/CouponsManagement';
 import { OrdersManagement } from './pages/admin/OrdersManagement';
 import { SupportManagement } from './pages/admin/SupportManagement';
 import SplashCursor from './components/SplashCurser';
@@ -59,6 +68,14 @@ function App() {
           >
             <Route index element={<Overview />} />
             <Route path="servers" element={<MyServers />} />
+            <Route path="servers/:id" element={<ServerDetail />} />
+            <Route path="deploy" element={<Deploy />} />
+            <Route path="volumes" element={<Volumes />} />
+            <Route path="load-balancers" element={<LoadBalancers />} />
+            <Route path="load-balancers/:loadBalancerId" element={<LoadBalancerDetail />} />
+            <Route path="vpcs" element={<Vpcs />} />
+            <Route path="dns" element={<Dns />} />
+            <Route path="dns/:zoneId" element={<DnsZoneDetail />} />
             <Route path="referrals" element={<Referrals />} />
             <Route path="billing" element={<Billing />} />
             <Route path="support" element={<Support />} />
@@ -77,6 +94,7 @@ function App() {
             <Route path="users" element={<UserManagement />} />
             <Route path="servers" element={<ServerManagement />} />
             <Route path="plans" element={<PlansManagement />} />
+            <Route path="coupons" element={<CouponsManagement />} />
             <Route path="orders" element={<OrdersManagement />} />
             <Route path="referrals" element={<ReferralManagement />} />
             <Route path="support" element={<SupportManagement />} />
@@ -0,0 +1,17 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { AddOn } from "../types";
+
+// ============================================================
+// ADD-ONS (/add-ons)
+// ============================================================
+
+export const addOnsApi = {
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<AddOn[]>("/add-ons", options);
+    return res.data;
+  },
+};
+
+// Add-ons priced per GB are charged on the server's full disk size
+export const addOnMonthlyPrice = (addOn: AddOn, storageGb: number) =>
+  Math.round(addOn.price_per_unit * (addOn.unit === "GB" ? storageGb : 1) * 100) / 100;
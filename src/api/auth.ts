@@ -0,0 +1,36 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { AuthResponse, LoginCredentials, ProfileUpdate, User } from "../types";
+
+export interface RegisterPayload {
+  email: string;
+  password: string;
+  full_name: string;
+  referral_code?: string;
+}
+
+// ============================================================
+// AUTH (/auth/*)
+// ============================================================
+
+export const authApi = {
+  login: async (credentials: LoginCredentials, options: RequestOptions = {}) => {
+    const res = await api.post<AuthResponse>("/auth/login", credentials, { ...options, skipAuthRefresh: true });
+    return res.data;
+  },
+
+  register: async (payload: RegisterPayload, options: RequestOptions = {}) => {
+    const res = await api.post<AuthResponse>("/auth/register", payload, { ...options, skipAuthRefresh: true });
+    return res.data;
+  },
+
+  me: async (options: RequestOptions = {}) => {
+    const res = await api.get<User>("/auth/me", options);
+    return res.data;
+  },
+
+  // A 422 carries field errors, e.g. on `gstin`
+  updateMe: async (data: ProfileUpdate, options: RequestOptions = {}) => {
+    const res = await api.put<User>("/auth/me", data, options);
+    return res.data;
+  },
+};
@@ -1,13 +1,34 @@
 import axios from "axios";
+import { toApiError } from "./errors";
+import { tokenStorage } from "./tokenStorage";
+import { TokenRefreshResponse } from "../types";
+
+// FastAPI base URL; override with VITE_API_BASE_URL for staging / local backends
+export const API_BASE_URL =
+  import.meta.env.VITE_API_BASE_URL || "https://api.ramaerahosting.com/api/v1";
+
+// Options every resource function accepts, so callers can cancel in-flight requests
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Set on requests whose 401 means "bad credentials", not "expired token" (login, register, refresh)
+    skipAuthRefresh?: boolean;
+    // Internal: marks a request that has already been retried after a refresh
+    _retried?: boolean;
+  }
+}
 
 const api = axios.create({
-  baseURL: "https://api.ramaerahosting.com/api/v1", // ✅ Your FastAPI base URL
+  baseURL: API_BASE_URL,
 });
 
 // Request interceptor to add the auth token to headers
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem("authToken");
+    const token = tokenStorage.getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -18,4 +39,73 @@ api.interceptors.request.use(
   }
 );
 
+// ============================================================
+// 🔄 Token refresh
+// ============================================================
+
+// Called once a refresh attempt fails; the auth store registers itself here
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Every 401 that arrives while a refresh is running waits on this same promise,
+// so only one POST /auth/refresh is ever in flight.
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = tokenStorage.getRefreshToken();
+    refreshPromise = (async () => {
+      if (!refreshToken) {
+        throw new Error("No refresh token available");
+      }
+      const res = await api.post<TokenRefreshResponse>(
+        "/auth/refresh",
+        { refresh_token: refreshToken },
+        { skipAuthRefresh: true }
+      );
+      tokenStorage.setTokens(res.data.access_token, res.data.refresh_token ?? refreshToken);
+      return res.data.access_token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Response interceptor: refresh once on 401, then hand every failure back as an ApiError
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const original = axios.isAxiosError(error) ? error.config : undefined;
+    const isExpiredToken =
+      axios.isAxiosError(error) &&
+      error.response?.status === 401 &&
+      original &&
+      !original.skipAuthRefresh &&
+      !original._retried &&
+      !!tokenStorage.getAccessToken();
+
+    if (!isExpiredToken || !original) {
+      return Promise.reject(toApiError(error));
+    }
+
+    original._retried = true;
+    try {
+      // A request that failed with a token another request has since replaced just needs a retry
+      const current = tokenStorage.getAccessToken();
+      const accessToken =
+        current && original.headers.Authorization !== `Bearer ${current}` ? current : await refreshAccessToken();
+      original.headers.Authorization = `Bearer ${accessToken}`;
+      return api(original);
+    } catch {
+      tokenStorage.clear();
+      sessionExpiredHandler?.();
+      return Promise.reject(toApiError(error));
+    }
+  }
+);
+
 export default api;
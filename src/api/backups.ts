@@ -0,0 +1,69 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { BackupFrequency, BackupPolicy, ServerJob, Snapshot, UserServer } from "../types";
+
+export interface BackupPolicyUpdate {
+  enabled: boolean;
+  frequency: BackupFrequency;
+  retention: number;
+}
+
+// Settings for the server created from a snapshot; it gets the source server's plan
+export interface SnapshotCloneRequest {
+  server_name: string;
+  hostname: string;
+}
+
+// ============================================================
+// SNAPSHOTS & BACKUPS (/servers/{id}/snapshots, /servers/{id}/backup-policy)
+// ============================================================
+
+export const backupsApi = {
+  // Newest first; includes scheduled backups as `kind: "scheduled"`
+  listSnapshots: async (serverId: string, options: RequestOptions = {}) => {
+    const res = await api.get<Snapshot[]>(`/servers/${serverId}/snapshots`, options);
+    return res.data;
+  },
+
+  // Returns immediately with status "creating"
+  createSnapshot: async (serverId: string, name: string, options: RequestOptions = {}) => {
+    const res = await api.post<Snapshot>(`/servers/${serverId}/snapshots`, { name }, options);
+    return res.data;
+  },
+
+  deleteSnapshot: async (serverId: string, snapshotId: string, options: RequestOptions = {}) => {
+    await api.delete(`/servers/${serverId}/snapshots/${snapshotId}`, options);
+  },
+
+  // Overwrites the server's disk with the snapshot; returns the job to poll
+  restoreSnapshot: async (serverId: string, snapshotId: string, options: RequestOptions = {}) => {
+    const res = await api.post<ServerJob>(`/servers/${serverId}/snapshots/${snapshotId}/restore`, undefined, options);
+    return res.data;
+  },
+
+  // Creates a new server (and its order) from the snapshot; it starts out provisioning
+  cloneSnapshot: async (
+    serverId: string,
+    snapshotId: string,
+    data: SnapshotCloneRequest,
+    options: RequestOptions = {}
+  ) => {
+    const res = await api.post<UserServer>(`/servers/${serverId}/snapshots/${snapshotId}/clone`, data, options);
+    return res.data;
+  },
+
+  getPolicy: async (serverId: string, options: RequestOptions = {}) => {
+    const res = await api.get<BackupPolicy>(`/servers/${serverId}/backup-policy`, options);
+    return res.data;
+  },
+
+  updatePolicy: async (serverId: string, data: BackupPolicyUpdate, options: RequestOptions = {}) => {
+    const res = await api.put<BackupPolicy>(`/servers/${serverId}/backup-policy`, data, options);
+    return res.data;
+  },
+};
+
+// Retention choices offered per schedule, in number of backups kept
+export const BACKUP_RETENTION_OPTIONS: Record<BackupFrequency, number[]> = {
+  daily: [7, 14, 30],
+  weekly: [4, 8, 12],
+};
@@ -0,0 +1,14 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { PlanCatalog } from "../types";
+
+// ============================================================
+// CATALOG (/catalog)
+// ============================================================
+
+export const catalogApi = {
+  // Public: plan types, plans, billing cycles, per-cycle prices and add-ons in one call
+  get: async (options: RequestOptions = {}) => {
+    const res = await api.get<PlanCatalog>("/catalog", options);
+    return res.data;
+  },
+};
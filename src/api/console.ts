@@ -0,0 +1,14 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { ConsoleSession, ConsoleType } from "../types";
+
+// ============================================================
+// CONSOLE (/servers/{id}/console)
+// ============================================================
+
+export const consoleApi = {
+  // Issues a one-time ticket for the WebSocket console proxy; request a new one on every reconnect
+  createSession: async (serverId: string, type: ConsoleType, options: RequestOptions = {}) => {
+    const res = await api.post<ConsoleSession>(`/servers/${serverId}/console`, { type }, options);
+    return res.data;
+  },
+};
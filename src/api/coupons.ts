@@ -0,0 +1,41 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { AppliedCoupon, CatalogCycle, Coupon } from "../types";
+import { CouponInput } from "../lib/coupons";
+
+export interface CouponCheck {
+  code: string;
+  plan_id: string;
+  billing_cycle: CatalogCycle;
+}
+
+// ============================================================
+// COUPONS (/coupons/*)
+// ============================================================
+
+export const couponsApi = {
+  // Admin only
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<Coupon[]>("/coupons", options);
+    return res.data;
+  },
+
+  create: async (data: CouponInput, options: RequestOptions = {}) => {
+    const res = await api.post<Coupon>("/coupons", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: Partial<CouponInput>, options: RequestOptions = {}) => {
+    const res = await api.put<Coupon>(`/coupons/${id}`, data, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/coupons/${id}`, options);
+  },
+
+  // Anyone: a 422 on `code` says why the code doesn't apply
+  validate: async (data: CouponCheck, options: RequestOptions = {}) => {
+    const res = await api.post<AppliedCoupon>("/coupons/validate", data, options);
+    return res.data;
+  },
+};
@@ -0,0 +1,74 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { DnsRecord, DnsZone } from "../types";
+import { DnsRecordInput } from "../lib/dns";
+
+export interface DnsZoneCreate {
+  domain: string;
+  default_ttl?: number;
+}
+
+export interface DnsZoneImportResult {
+  zone: DnsZone;
+  imported: number;
+  // Lines the backend understood but skipped, e.g. SOA and apex NS
+  warnings: { line: number; message: string }[];
+}
+
+// ============================================================
+// DNS ZONES (/dns/zones/*)
+// ============================================================
+
+export const dnsApi = {
+  listZones: async (options: RequestOptions = {}) => {
+    const res = await api.get<DnsZone[]>("/dns/zones", options);
+    return res.data;
+  },
+
+  getZone: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<DnsZone>(`/dns/zones/${id}`, options);
+    return res.data;
+  },
+
+  createZone: async (data: DnsZoneCreate, options: RequestOptions = {}) => {
+    const res = await api.post<DnsZone>("/dns/zones", data, options);
+    return res.data;
+  },
+
+  deleteZone: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/dns/zones/${id}`, options);
+  },
+
+  createRecord: async (zoneId: string, data: DnsRecordInput, options: RequestOptions = {}) => {
+    const res = await api.post<DnsRecord>(`/dns/zones/${zoneId}/records`, data, options);
+    return res.data;
+  },
+
+  updateRecord: async (zoneId: string, recordId: string, data: DnsRecordInput, options: RequestOptions = {}) => {
+    const res = await api.put<DnsRecord>(`/dns/zones/${zoneId}/records/${recordId}`, data, options);
+    return res.data;
+  },
+
+  deleteRecord: async (zoneId: string, recordId: string, options: RequestOptions = {}) => {
+    await api.delete(`/dns/zones/${zoneId}/records/${recordId}`, options);
+  },
+
+  // BIND zone file; with replace the existing records are dropped, otherwise new ones are merged in
+  importZone: async (zoneId: string, zoneFile: string, replace: boolean, options: RequestOptions = {}) => {
+    const res = await api.post<DnsZoneImportResult>(
+      `/dns/zones/${zoneId}/import`,
+      { zone_file: zoneFile, replace },
+      options
+    );
+    return res.data;
+  },
+
+  // Replaces the apex A/AAAA records with the server's primary addresses
+  pointToServer: async (zoneId: string, serverId: string, includeWww: boolean, options: RequestOptions = {}) => {
+    const res = await api.post<DnsZone>(
+      `/dns/zones/${zoneId}/point`,
+      { server_id: serverId, include_www: includeWww },
+      options
+    );
+    return res.data;
+  },
+};
@@ -0,0 +1,120 @@
+import axios from "axios";
+
+// ============================================================
+// 🧩 Normalized API errors
+// ============================================================
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "validation_error"
+  | "rate_limited"
+  | "server_error"
+  | "network_error"
+  | "cancelled"
+  | "unknown";
+
+// Field name -> first validation message, e.g. { email: "value is not a valid email address" }
+export type FieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  status: number | null;
+  code: ApiErrorCode;
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number | null, code: ApiErrorCode, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+
+  get isCancelled() {
+    return this.code === "cancelled";
+  }
+}
+
+// Shape of a single entry in a FastAPI 422 `detail` array
+interface FastApiValidationIssue {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 400) return "bad_request";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 422) return "validation_error";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "unknown";
+};
+
+const isValidationIssues = (detail: unknown): detail is FastApiValidationIssue[] =>
+  Array.isArray(detail) && detail.every((d) => d && typeof d === "object" && "loc" in d && "msg" in d);
+
+// Drop the "body" / "query" / "path" prefix FastAPI puts in front of the field name
+const fieldNameFromLoc = (loc: (string | number)[]) => {
+  const parts = ["body", "query", "path", "header"].includes(String(loc[0])) ? loc.slice(1) : loc;
+  return parts.join(".") || "_";
+};
+
+const parseFieldErrors = (issues: FastApiValidationIssue[]): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of issues) {
+    const field = fieldNameFromLoc(issue.loc);
+    if (!fieldErrors[field]) fieldErrors[field] = issue.msg;
+  }
+  return fieldErrors;
+};
+
+/**
+ * Convert anything thrown by axios (or our own code) into an ApiError.
+ * Understands FastAPI's `{ detail: string }` and 422 `{ detail: [...] }` bodies.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError("Request was cancelled", null, "cancelled");
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError("Unable to reach the server. Check your connection.", null, "network_error");
+    }
+
+    const { status, data } = error.response;
+    const code = codeForStatus(status);
+    const detail = (data as { detail?: unknown } | undefined)?.detail;
+
+    if (isValidationIssues(detail)) {
+      const fieldErrors = parseFieldErrors(detail);
+      const first = Object.values(fieldErrors)[0];
+      return new ApiError(first || "Validation failed", status, code, fieldErrors);
+    }
+
+    if (typeof detail === "string") {
+      return new ApiError(detail, status, code);
+    }
+
+    return new ApiError(error.message || `Request failed with status ${status}`, status, code);
+  }
+
+  if (error instanceof Error) {
+    return new ApiError(error.message, null, "unknown");
+  }
+
+  return new ApiError("Something went wrong", null, "unknown");
+}
+
+// Convenience for `catch` blocks that only need something to show the user
+export const getErrorMessage = (error: unknown, fallback = "Something went wrong"): string =>
+  toApiError(error).message || fallback;
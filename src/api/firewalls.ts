@@ -0,0 +1,51 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { Firewall } from "../types";
+import { FirewallRuleInput } from "../lib/firewall";
+
+export interface FirewallCreate {
+  name: string;
+  rules?: FirewallRuleInput[];
+  server_ids?: string[];
+}
+
+// Rules are replaced as a whole; rules without an id are new
+export interface FirewallUpdate {
+  name?: string;
+  rules?: FirewallRuleInput[];
+}
+
+// ============================================================
+// FIREWALLS (/firewalls/*)
+// ============================================================
+
+export const firewallsApi = {
+  // Pass server_id to get only the firewalls protecting that server
+  list: async (serverId?: string, options: RequestOptions = {}) => {
+    const res = await api.get<Firewall[]>("/firewalls", { params: { server_id: serverId }, ...options });
+    return res.data;
+  },
+
+  create: async (data: FirewallCreate, options: RequestOptions = {}) => {
+    const res = await api.post<Firewall>("/firewalls", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: FirewallUpdate, options: RequestOptions = {}) => {
+    const res = await api.put<Firewall>(`/firewalls/${id}`, data, options);
+    return res.data;
+  },
+
+  attach: async (id: string, serverId: string, options: RequestOptions = {}) => {
+    const res = await api.post<Firewall>(`/firewalls/${id}/servers`, { server_id: serverId }, options);
+    return res.data;
+  },
+
+  detach: async (id: string, serverId: string, options: RequestOptions = {}) => {
+    const res = await api.delete<Firewall>(`/firewalls/${id}/servers/${serverId}`, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/firewalls/${id}`, options);
+  },
+};
@@ -0,0 +1,19 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { OsImage } from "../types";
+
+// ============================================================
+// OS IMAGES (/images)
+// ============================================================
+
+export const imagesApi = {
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<OsImage[]>("/images", options);
+    return res.data;
+  },
+};
+
+// "Ubuntu 22.04 LTS", "LAMP Stack (Ubuntu 22.04 LTS)"
+export const imageLabel = (image: OsImage) =>
+  image.category === "application" && image.base_image
+    ? `${image.name} (${image.base_image})`
+    : `${image.name} ${image.version}`;
@@ -0,0 +1,18 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { Invoice } from "../types";
+
+// ============================================================
+// INVOICES (/invoices/*)
+// ============================================================
+
+export const invoicesApi = {
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<Invoice[]>("/invoices", options);
+    return res.data;
+  },
+
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<Invoice>(`/invoices/${id}`, options);
+    return res.data;
+  },
+};
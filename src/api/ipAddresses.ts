@@ -0,0 +1,32 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { ServerIpAddress } from "../types";
+
+// Extra public IPv4s a server can hold on top of its primary address
+export const MAX_ADDITIONAL_IPV4 = 4;
+
+// ============================================================
+// IP ADDRESSES (/servers/{id}/ip-addresses/*)
+// ============================================================
+
+export const ipAddressesApi = {
+  // POST /servers/{id}/ip-addresses — assigns an additional IPv4 and opens an add-on order for it
+  orderIpv4: async (serverId: string, options: RequestOptions = {}) => {
+    const res = await api.post<ServerIpAddress>(`/servers/${serverId}/ip-addresses`, { version: 4 }, options);
+    return res.data;
+  },
+
+  // Secondary addresses only; the add-on stops billing at the end of the month
+  release: async (serverId: string, ipId: string, options: RequestOptions = {}) => {
+    await api.delete(`/servers/${serverId}/ip-addresses/${ipId}`, options);
+  },
+
+  // PUT .../ptr — the name must already resolve to this address (forward-confirmed); "" restores the default
+  setPtr: async (serverId: string, ipId: string, ptrRecord: string, options: RequestOptions = {}) => {
+    const res = await api.put<ServerIpAddress>(
+      `/servers/${serverId}/ip-addresses/${ipId}/ptr`,
+      { ptr_record: ptrRecord },
+      options
+    );
+    return res.data;
+  },
+};
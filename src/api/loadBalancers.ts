@@ -0,0 +1,62 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { LoadBalancer, LoadBalancerAlgorithm, LoadBalancerHealthCheck, StickySessions } from "../types";
+import { ForwardingRuleInput } from "../lib/loadBalancers";
+
+export interface LoadBalancerCreate {
+  name: string;
+  region: string;
+  size: string;
+  algorithm?: LoadBalancerAlgorithm;
+  forwarding_rules: ForwardingRuleInput[];
+  health_check?: LoadBalancerHealthCheck;
+  sticky_sessions?: StickySessions;
+  server_ids?: string[];
+}
+
+// Rules are replaced as a whole; the region and IP address are fixed
+export interface LoadBalancerUpdate {
+  name?: string;
+  size?: string;
+  algorithm?: LoadBalancerAlgorithm;
+  forwarding_rules?: ForwardingRuleInput[];
+  health_check?: LoadBalancerHealthCheck;
+  sticky_sessions?: StickySessions;
+}
+
+// ============================================================
+// LOAD BALANCERS (/load-balancers/*)
+// ============================================================
+
+export const loadBalancersApi = {
+  // Admins get every account's load balancers
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<LoadBalancer[]>("/load-balancers", options);
+    return res.data;
+  },
+
+  // Backend health is re-evaluated on every read
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<LoadBalancer>(`/load-balancers/${id}`, options);
+    return res.data;
+  },
+
+  create: async (data: LoadBalancerCreate, options: RequestOptions = {}) => {
+    const res = await api.post<LoadBalancer>("/load-balancers", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: LoadBalancerUpdate, options: RequestOptions = {}) => {
+    const res = await api.put<LoadBalancer>(`/load-balancers/${id}`, data, options);
+    return res.data;
+  },
+
+  // Replaces the whole backend pool
+  setBackends: async (id: string, serverIds: string[], options: RequestOptions = {}) => {
+    const res = await api.put<LoadBalancer>(`/load-balancers/${id}/backends`, { server_ids: serverIds }, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/load-balancers/${id}`, options);
+  },
+};
@@ -0,0 +1,67 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { BillingCycle, Order, OrderAddOnLine, OrderStatus, PaymentStatus } from "../types";
+
+export interface OrderCreate {
+  plan_id: string;
+  billing_cycle: BillingCycle;
+  // Region slug; defaults to Mumbai. Prices follow the region's multiplier
+  region?: string;
+  payment_method?: string;
+  // The server to build once the order is paid; give a root password, SSH keys or both
+  server_name: string;
+  hostname: string;
+  os_image_id: string;
+  root_password?: string;
+  ssh_key_ids?: string[];
+  add_ons?: OrderAddOnLine[];
+  // Promo code; a 422 on `coupon_code` says why it doesn't apply
+  coupon_code?: string;
+}
+
+export interface OrderUpdate {
+  status?: OrderStatus;
+  payment_status?: PaymentStatus;
+}
+
+export interface OrderFilters {
+  search?: string;
+  status?: OrderStatus;
+  payment_status?: PaymentStatus;
+}
+
+// ============================================================
+// ORDERS (/orders/*)
+// ============================================================
+
+export const ordersApi = {
+  list: async (filters: OrderFilters = {}, options: RequestOptions = {}) => {
+    const res = await api.get<Order[]>("/orders", { params: filters, ...options });
+    return res.data;
+  },
+
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<Order>(`/orders/${id}`, options);
+    return res.data;
+  },
+
+  create: async (data: OrderCreate, options: RequestOptions = {}) => {
+    const res = await api.post<Order>("/orders", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: OrderUpdate, options: RequestOptions = {}) => {
+    const res = await api.patch<Order>(`/orders/${id}`, data, options);
+    return res.data;
+  },
+
+  // Charges the order; a new-server order comes back with server_id and provision_job_id set
+  pay: async (id: string, paymentMethod: string, options: RequestOptions = {}) => {
+    const res = await api.post<Order>(`/orders/${id}/pay`, { payment_method: paymentMethod }, options);
+    return res.data;
+  },
+
+  cancel: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.post<Order>(`/orders/${id}/cancel`, undefined, options);
+    return res.data;
+  },
+};
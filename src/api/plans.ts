@@ -0,0 +1,34 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { HostingPlan } from "../types";
+
+export type PlanInput = Omit<HostingPlan, "id" | "created_at" | "updated_at">;
+
+// ============================================================
+// PLANS (/plans/*)
+// ============================================================
+
+export const plansApi = {
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<HostingPlan[]>("/plans", options);
+    return res.data;
+  },
+
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<HostingPlan>(`/plans/${id}`, options);
+    return res.data;
+  },
+
+  create: async (data: PlanInput, options: RequestOptions = {}) => {
+    const res = await api.post<HostingPlan>("/plans", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: Partial<PlanInput>, options: RequestOptions = {}) => {
+    const res = await api.put<HostingPlan>(`/plans/${id}`, data, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/plans/${id}`, options);
+  },
+};
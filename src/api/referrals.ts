@@ -0,0 +1,58 @@
+import api, { RequestOptions } from "./axiosInstance";
+import {
+  AdminReferralStats,
+  PaymentMethod,
+  PayoutPaymentDetails,
+  ReferralEarning,
+  ReferralPayout,
+  ReferralStats,
+} from "../types";
+
+export interface PayoutRequest extends PayoutPaymentDetails {
+  amount: number;
+  payment_method: PaymentMethod;
+}
+
+// ============================================================
+// REFERRALS (/referrals/*, /admin/referrals/*)
+// ============================================================
+
+export const referralsApi = {
+  stats: async (options: RequestOptions = {}) => {
+    const res = await api.get<ReferralStats>("/referrals/stats", options);
+    return res.data;
+  },
+
+  earnings: async (options: RequestOptions = {}) => {
+    const res = await api.get<ReferralEarning[]>("/referrals/earnings", options);
+    return res.data;
+  },
+
+  payouts: async (options: RequestOptions = {}) => {
+    const res = await api.get<ReferralPayout[]>("/referrals/payouts", options);
+    return res.data;
+  },
+
+  requestPayout: async (data: PayoutRequest, options: RequestOptions = {}) => {
+    const res = await api.post<ReferralPayout>("/referrals/payouts", data, options);
+    return res.data;
+  },
+
+  adminStats: async (options: RequestOptions = {}) => {
+    const res = await api.get<AdminReferralStats>("/admin/referrals/stats", options);
+    return res.data;
+  },
+
+  adminPayouts: async (options: RequestOptions = {}) => {
+    const res = await api.get<ReferralPayout[]>("/admin/referrals/payouts", options);
+    return res.data;
+  },
+
+  approvePayout: async (id: string, paymentReference: string, options: RequestOptions = {}) => {
+    await api.post(`/admin/referrals/payouts/${id}/approve`, { payment_reference: paymentReference }, options);
+  },
+
+  rejectPayout: async (id: string, rejectedReason: string, options: RequestOptions = {}) => {
+    await api.post(`/admin/referrals/payouts/${id}/reject`, { rejected_reason: rejectedReason }, options);
+  },
+};
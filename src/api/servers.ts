@@ -0,0 +1,72 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { MetricsRange, Order, ServerActivity, ServerJob, ServerMetrics, ServerStatus, UserServer } from "../types";
+
+export type ServerPowerAction = "start" | "stop" | "reboot";
+
+// Either a root password or at least one saved SSH key is expected
+export interface ServerRebuildRequest {
+  image_id: string;
+  root_password?: string;
+  ssh_key_ids?: string[];
+}
+
+export interface ServerFilters {
+  search?: string;
+  status?: ServerStatus;
+  user_id?: string;
+}
+
+// ============================================================
+// SERVERS (/servers/*)
+// ============================================================
+
+export const serversApi = {
+  list: async (filters: ServerFilters = {}, options: RequestOptions = {}) => {
+    const res = await api.get<UserServer[]>("/servers", { params: filters, ...options });
+    return res.data;
+  },
+
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<UserServer>(`/servers/${id}`, options);
+    return res.data;
+  },
+
+  // POST /servers/{id}/start | stop | reboot — returns the server in its new state
+  power: async (id: string, action: ServerPowerAction, options: RequestOptions = {}) => {
+    const res = await api.post<UserServer>(`/servers/${id}/${action}`, undefined, options);
+    return res.data;
+  },
+
+  // POST /servers/{id}/rebuild — wipes the disk and reinstalls; returns the job to poll
+  rebuild: async (id: string, data: ServerRebuildRequest, options: RequestOptions = {}) => {
+    const res = await api.post<ServerJob>(`/servers/${id}/rebuild`, data, options);
+    return res.data;
+  },
+
+  job: async (id: string, jobId: string, options: RequestOptions = {}) => {
+    const res = await api.get<ServerJob>(`/servers/${id}/jobs/${jobId}`, options);
+    return res.data;
+  },
+
+  // POST /servers/{id}/resize — creates an upgrade/downgrade order; the plan changes once it completes
+  resize: async (id: string, planId: string, options: RequestOptions = {}) => {
+    const res = await api.post<Order>(`/servers/${id}/resize`, { plan_id: planId }, options);
+    return res.data;
+  },
+
+  // GET /servers/{id}/activity — newest first
+  activity: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<ServerActivity[]>(`/servers/${id}/activity`, options);
+    return res.data;
+  },
+
+  // GET /servers/{id}/metrics?range=24h — usage time series plus this month's bandwidth
+  metrics: async (id: string, range: MetricsRange, options: RequestOptions = {}) => {
+    const res = await api.get<ServerMetrics>(`/servers/${id}/metrics`, { params: { range }, ...options });
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/servers/${id}`, options);
+  },
+};
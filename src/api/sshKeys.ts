@@ -0,0 +1,33 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { SshKey } from "../types";
+
+export interface SshKeyCreate {
+  name: string;
+  public_key: string;
+}
+
+// ============================================================
+// SSH KEYS (/ssh-keys)
+// ============================================================
+
+export const sshKeysApi = {
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<SshKey[]>("/ssh-keys", options);
+    return res.data;
+  },
+
+  // The backend recomputes the fingerprint; 409 if the key is already saved
+  create: async (data: SshKeyCreate, options: RequestOptions = {}) => {
+    const res = await api.post<SshKey>("/ssh-keys", data, options);
+    return res.data;
+  },
+
+  rename: async (id: string, name: string, options: RequestOptions = {}) => {
+    const res = await api.patch<SshKey>(`/ssh-keys/${id}`, { name }, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/ssh-keys/${id}`, options);
+  },
+};
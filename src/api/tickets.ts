@@ -0,0 +1,57 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { SupportTicket, TicketCategory, TicketMessage, TicketPriority, TicketStatus } from "../types";
+
+export interface TicketCreate {
+  subject: string;
+  category: TicketCategory;
+  priority: TicketPriority;
+  message: string;
+}
+
+export interface TicketUpdate {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  assigned_to?: string | null;
+}
+
+export interface TicketFilters {
+  search?: string;
+  status?: TicketStatus;
+  priority?: TicketPriority;
+}
+
+// ============================================================
+// SUPPORT TICKETS (/tickets/*)
+// ============================================================
+
+export const ticketsApi = {
+  list: async (filters: TicketFilters = {}, options: RequestOptions = {}) => {
+    const res = await api.get<SupportTicket[]>("/tickets", { params: filters, ...options });
+    return res.data;
+  },
+
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<SupportTicket>(`/tickets/${id}`, options);
+    return res.data;
+  },
+
+  create: async (data: TicketCreate, options: RequestOptions = {}) => {
+    const res = await api.post<SupportTicket>("/tickets", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: TicketUpdate, options: RequestOptions = {}) => {
+    const res = await api.patch<SupportTicket>(`/tickets/${id}`, data, options);
+    return res.data;
+  },
+
+  messages: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<TicketMessage[]>(`/tickets/${id}/messages`, options);
+    return res.data;
+  },
+
+  reply: async (id: string, message: string, options: RequestOptions = {}) => {
+    const res = await api.post<TicketMessage>(`/tickets/${id}/messages`, { message }, options);
+    return res.data;
+  },
+};
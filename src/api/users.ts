@@ -0,0 +1,51 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { User, UserCreate, UserStats, UserUpdate } from "../types";
+
+export interface UserFilters {
+  search?: string;
+  role?: string;
+  status?: string;
+}
+
+// ============================================================
+// USERS (/users/*)
+// ============================================================
+
+export const usersApi = {
+  list: async (filters: UserFilters = {}, options: RequestOptions = {}) => {
+    const res = await api.get<User[]>("/users", { params: filters, ...options });
+    return res.data;
+  },
+
+  get: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<User>(`/users/${id}`, options);
+    return res.data;
+  },
+
+  create: async (data: UserCreate, options: RequestOptions = {}) => {
+    const res = await api.post<User>("/users", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: UserUpdate, options: RequestOptions = {}) => {
+    const res = await api.put<User>(`/users/${id}`, data, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/users/${id}`, options);
+  },
+
+  suspend: async (id: string, options: RequestOptions = {}) => {
+    await api.post(`/users/${id}/suspend`, undefined, options);
+  },
+
+  activate: async (id: string, options: RequestOptions = {}) => {
+    await api.post(`/users/${id}/activate`, undefined, options);
+  },
+
+  stats: async (options: RequestOptions = {}) => {
+    const res = await api.get<UserStats>("/users/stats", options);
+    return res.data;
+  },
+};
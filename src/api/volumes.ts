@@ -0,0 +1,64 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { Volume, VolumeSnapshot } from "../types";
+
+export interface VolumeCreate {
+  name: string;
+  size_gb: number;
+  region: string;
+  // Attach straight away
+  server_id?: string;
+  // Start from a copy of this snapshot's data instead of an empty disk
+  snapshot_id?: string;
+}
+
+// ============================================================
+// VOLUMES (/volumes/*)
+// ============================================================
+
+export const volumesApi = {
+  // Pass server_id to get only the volumes attached to that server
+  list: async (serverId?: string, options: RequestOptions = {}) => {
+    const res = await api.get<Volume[]>("/volumes", { params: { server_id: serverId }, ...options });
+    return res.data;
+  },
+
+  // Bills the prorated rest of this month on a new invoice
+  create: async (data: VolumeCreate, options: RequestOptions = {}) => {
+    const res = await api.post<Volume>("/volumes", data, options);
+    return res.data;
+  },
+
+  attach: async (id: string, serverId: string, options: RequestOptions = {}) => {
+    const res = await api.post<Volume>(`/volumes/${id}/attach`, { server_id: serverId }, options);
+    return res.data;
+  },
+
+  detach: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.post<Volume>(`/volumes/${id}/detach`, {}, options);
+    return res.data;
+  },
+
+  // Grow only; the extra GB are invoiced for the rest of the month
+  resize: async (id: string, sizeGb: number, options: RequestOptions = {}) => {
+    const res = await api.post<Volume>(`/volumes/${id}/resize`, { size_gb: sizeGb }, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/volumes/${id}`, options);
+  },
+
+  listSnapshots: async (id: string, options: RequestOptions = {}) => {
+    const res = await api.get<VolumeSnapshot[]>(`/volumes/${id}/snapshots`, options);
+    return res.data;
+  },
+
+  createSnapshot: async (id: string, name: string, options: RequestOptions = {}) => {
+    const res = await api.post<VolumeSnapshot>(`/volumes/${id}/snapshots`, { name }, options);
+    return res.data;
+  },
+
+  deleteSnapshot: async (id: string, snapshotId: string, options: RequestOptions = {}) => {
+    await api.delete(`/volumes/${id}/snapshots/${snapshotId}`, options);
+  },
+};
@@ -0,0 +1,51 @@
+import api, { RequestOptions } from "./axiosInstance";
+import { Vpc } from "../types";
+
+export interface VpcCreate {
+  name: string;
+  region: string;
+  cidr: string;
+  description?: string;
+}
+
+// The range and region are fixed once servers can be attached
+export interface VpcUpdate {
+  name?: string;
+  description?: string;
+}
+
+// ============================================================
+// VPCS (/vpcs/*)
+// ============================================================
+
+export const vpcsApi = {
+  list: async (options: RequestOptions = {}) => {
+    const res = await api.get<Vpc[]>("/vpcs", options);
+    return res.data;
+  },
+
+  create: async (data: VpcCreate, options: RequestOptions = {}) => {
+    const res = await api.post<Vpc>("/vpcs", data, options);
+    return res.data;
+  },
+
+  update: async (id: string, data: VpcUpdate, options: RequestOptions = {}) => {
+    const res = await api.put<Vpc>(`/vpcs/${id}`, data, options);
+    return res.data;
+  },
+
+  // Assigns the server a private address from the VPC's range
+  attach: async (id: string, serverId: string, options: RequestOptions = {}) => {
+    const res = await api.post<Vpc>(`/vpcs/${id}/servers`, { server_id: serverId }, options);
+    return res.data;
+  },
+
+  detach: async (id: string, serverId: string, options: RequestOptions = {}) => {
+    const res = await api.delete<Vpc>(`/vpcs/${id}/servers/${serverId}`, options);
+    return res.data;
+  },
+
+  remove: async (id: string, options: RequestOptions = {}) => {
+    await api.delete(`/vpcs/${id}`, options);
+  },
+};
@@ -0,0 +1,18 @@
+import { useUserStore } from '../store/authStore';
+
+// Shown when the saved session couldn't be checked on load; the user stays signed in and can try again
+export function AuthErrorBanner() {
+  const authError = useUserStore((state) => state.authError);
+  const checkAuth = useUserStore((state) => state.checkAuth);
+
+  if (!authError) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm mb-6">
+      <span>{authError}</span>
+      <button onClick={() => checkAuth()} className="font-semibold text-red-300 hover:text-red-200">
+        Retry
+      </button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useUserStore } from '../store/authStore'; // Import useUserStore
 
 interface ProtectedRouteProps {
@@ -9,6 +9,7 @@ interface ProtectedRouteProps {
 
 export function ProtectedRoute({ children, requireAdmin, requireSuperAdmin }: ProtectedRouteProps) {
   const { user, loading, isAuthenticated } = useUserStore(); // Get user, loading, isAuthenticated from the store
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -19,7 +20,9 @@ export function ProtectedRoute({ children, requireAdmin, requireSuperAdmin }: Pr
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Remember where the user was so Login can send them back after re-authenticating
+    const next = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?next=${next}`} replace />;
   }
 
   const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
@@ -0,0 +1,62 @@
+import { placeOfSupplyLabel, taxLines } from '../../lib/gst';
+import { formatCurrency } from '../../lib/referral';
+import { Invoice } from '../../types';
+
+// Line items and GST for one invoice, shown when its row on the Billing page is opened
+export function InvoiceBreakdown({ invoice }: { invoice: Invoice }) {
+  const breakdown = invoice.tax_breakdown;
+  // Invoices raised before tax was split only know the total
+  const rows = breakdown ? taxLines(breakdown) : [{ label: 'GST', amount: invoice.tax_amount }];
+
+  return (
+    <div className="bg-slate-950/60 border border-cyan-500/20 rounded-lg p-4 text-sm space-y-3">
+      <table className="w-full">
+        <thead>
+          <tr className="text-slate-400 text-xs uppercase">
+            <th className="text-left pb-2 font-semibold">Item</th>
+            <th className="text-left pb-2 font-semibold">SAC</th>
+            <th className="text-right pb-2 font-semibold">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.items.map((item, i) => (
+            <tr key={i}>
+              <td className={`py-1 ${item.amount < 0 ? 'text-green-400' : 'text-slate-300'}`}>{item.description}</td>
+              <td className="py-1 text-slate-400 font-mono">{item.sac_code ?? '—'}</td>
+              <td className={`py-1 text-right ${item.amount < 0 ? 'text-green-400' : 'text-white'}`}>
+                {formatCurrency(item.amount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="border-t border-cyan-500/20 pt-3 space-y-1 ml-auto max-w-xs">
+        <div className="flex justify-between">
+          <span className="text-slate-400">Taxable value</span>
+          <span className="text-white">{formatCurrency(invoice.amount)}</span>
+        </div>
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between">
+            <span className="text-slate-400">{row.label}</span>
+            <span className="text-white">{formatCurrency(row.amount)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-semibold">
+          <span className="text-white">Total</span>
+          <span className="text-cyan-400">{formatCurrency(invoice.total_amount)}</span>
+        </div>
+      </div>
+
+      {breakdown && (
+        <p className="text-xs text-slate-400">
+          Place of supply: {placeOfSupplyLabel(breakdown)}
+          {invoice.buyer_gstin && <> · Your GSTIN {invoice.buyer_gstin}</>}
+          {breakdown.reverse_charge && (
+            <> · Export of services without payment of IGST; tax payable by the recipient under reverse charge</>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
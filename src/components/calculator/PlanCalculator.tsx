@@ -1,83 +1,15 @@
-import { useState } from 'react';
-import { Server, Zap, Database, Cpu, MemoryStick, HardDrive, Network, Calculator, RefreshCw, ChevronDown } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Server, Cpu, MemoryStick, HardDrive, Network, Calculator, RefreshCw, ChevronDown, MapPin, AlertTriangle } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { MobileDropdown } from './MobileDropdown';
-
-type PlanType = 'general_purpose' | 'cpu_optimized' | 'memory_optimized';
-type BillingCycle = 'monthly' | 'quarterly' | 'semiannually' | 'annually' | 'biennially' | 'triennially';
-
-interface PlanConfig {
-  ram: number;
-  vcpu: number;
-  storage: number;
-  basePrice: number;
-}
-
-const planConfigurations: Record<PlanType, Record<number, PlanConfig>> = {
-  general_purpose: {
-    4: { ram: 4, vcpu: 2, storage: 80, basePrice: 1120 },
-    8: { ram: 8, vcpu: 4, storage: 160, basePrice: 2240 },
-    16: { ram: 16, vcpu: 6, storage: 320, basePrice: 4080 },
-    32: { ram: 32, vcpu: 8, storage: 480, basePrice: 6720 },
-    48: { ram: 48, vcpu: 10, storage: 512, basePrice: 8848 },
-    64: { ram: 64, vcpu: 12, storage: 640, basePrice: 11360 },
-    96: { ram: 96, vcpu: 16, storage: 740, basePrice: 15760 },
-    128: { ram: 128, vcpu: 16, storage: 840, basePrice: 19360 },
-    256: { ram: 256, vcpu: 24, storage: 1280, basePrice: 35520 }
-  },
-  cpu_optimized: {
-    4: { ram: 4, vcpu: 2, storage: 80, basePrice: 1520 },
-    8: { ram: 8, vcpu: 4, storage: 160, basePrice: 3040 },
-    16: { ram: 16, vcpu: 6, storage: 320, basePrice: 5280 },
-    32: { ram: 32, vcpu: 8, storage: 480, basePrice: 8320 },
-    48: { ram: 48, vcpu: 10, storage: 512, basePrice: 10848 },
-    64: { ram: 64, vcpu: 12, storage: 640, basePrice: 13760 },
-    96: { ram: 96, vcpu: 16, storage: 740, basePrice: 18960 },
-    128: { ram: 128, vcpu: 16, storage: 840, basePrice: 22560 },
-    256: { ram: 256, vcpu: 24, storage: 1280, basePrice: 40320 }
-  },
-  memory_optimized: {
-    8: { ram: 8, vcpu: 1, storage: 80, basePrice: 1320 },
-    16: { ram: 16, vcpu: 2, storage: 160, basePrice: 2640 },
-    32: { ram: 32, vcpu: 4, storage: 320, basePrice: 5280 },
-    64: { ram: 64, vcpu: 6, storage: 480, basePrice: 9520 },
-    96: { ram: 96, vcpu: 8, storage: 512, basePrice: 13248 },
-    128: { ram: 128, vcpu: 10, storage: 640, basePrice: 17360 },
-    192: { ram: 192, vcpu: 12, storage: 740, basePrice: 24560 },
-    256: { ram: 256, vcpu: 16, storage: 840, basePrice: 32160 },
-    384: { ram: 384, vcpu: 24, storage: 1280, basePrice: 48320 }
-  }
-};
-
-const billingCycles: Record<BillingCycle, { name: string; months: number; discount: number }> = {
-  monthly: { name: 'Monthly', months: 1, discount: 0 },
-  quarterly: { name: 'Quarterly', months: 3, discount: 10 },
-  semiannually: { name: 'Semi-Annually', months: 6, discount: 15 },
-  annually: { name: 'Annually', months: 12, discount: 20 },
-  biennially: { name: 'Biennially', months: 24, discount: 25 },
-  triennially: { name: 'Triennially', months: 36, discount: 35 }
-};
-
-const planTypeInfo = {
-  general_purpose: {
-    name: 'General Purpose VM',
-    icon: Server,
-    color: 'cyan',
-    description: 'Balanced resources for web apps'
-  },
-  cpu_optimized: {
-    name: 'CPU Optimized VM',
-    icon: Zap,
-    color: 'orange',
-    description: 'Dedicated CPU for compute tasks'
-  },
-  memory_optimized: {
-    name: 'Memory Optimized VM',
-    icon: Database,
-    color: 'green',
-    description: 'High RAM for databases'
-  }
-};
+import { STORAGE_PRICE_PER_GB } from '../../lib/volumes';
+import { plansOfType, termPrice, toOrderCycle } from '../../lib/catalog';
+import { GST_RATE, planItem, quotePrice } from '../../lib/pricing';
+import { CouponField } from '../coupons/CouponField';
+import { planTypeIcon } from '../pricing/planTypeIcons';
+import { DEFAULT_REGION, REGIONS, isPlanAvailable, regionName, regionalPrice } from '../../lib/regions';
+import { useCatalogStore } from '../../store/catalogStore';
+import { AppliedCoupon, CatalogBillingCycle, CatalogCycle, PlanType } from '../../types';
 
 const storageOptions = [0, 50, 100, 200, 300, 500];
 const bandwidthOptions = [0, 1, 2, 3, 5, 10];
@@ -85,40 +17,76 @@ const bandwidthOptions = [0, 1, 2, 3, 5, 10];
 export function PlanCalculator() {
   const [planType, setPlanType] = useState<PlanType>('general_purpose');
   const [selectedRam, setSelectedRam] = useState<number>(8);
-  const [billingCycle, setBillingCycle] = useState<BillingCycle>('monthly');
+  const [billingCycle, setBillingCycle] = useState<CatalogCycle>('monthly');
+  const [region, setRegion] = useState(DEFAULT_REGION);
   const [extraStorage, setExtraStorage] = useState<number>(0);
   const [extraBandwidth, setExtraBandwidth] = useState<number>(0);
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
   const [showPriceSummary, setShowPriceSummary] = useState(false);
   const [expandedSection, setExpandedSection] = useState<string | null>('plan');
 
-  const availableRamOptions = Object.keys(planConfigurations[planType]).map(Number).sort((a, b) => a - b);
-  const currentConfig = planConfigurations[planType][selectedRam];
-  const cycleInfo = billingCycles[billingCycle];
+  const { catalog, fetchCatalog } = useCatalogStore();
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  // Dedicated servers are fixed builds, so only the VM families can be sized here
+  const planTypes = catalog.plan_types
+    .filter(type => type.slug !== 'dedicated' && plansOfType(catalog, type.slug).length > 0)
+    .map(type => type.slug);
+  const planTypeInfo = Object.fromEntries(
+    catalog.plan_types.map(type => [
+      type.slug,
+      { name: type.name, icon: planTypeIcon(type.icon), color: type.color, description: type.description }
+    ])
+  );
+  const billingCycles = [...catalog.billing_cycles].sort((a, b) => a.sort_order - b.sort_order);
+
+  const typePlans = plansOfType(catalog, planType);
+  const availableRamOptions = typePlans.map(plan => plan.ram_gb);
+  const currentPlan = typePlans.find(plan => plan.ram_gb === selectedRam) ?? typePlans[0];
+  const cycleInfo = billingCycles.find(cycle => cycle.slug === billingCycle) ?? billingCycles[0];
+  const planSlug = (ram: number) => typePlans.find(plan => plan.ram_gb === ram)?.slug ?? '';
+  const planAvailable = isPlanAvailable(region, currentPlan.slug);
+  // Checkout bills monthly or annually; the other cycles can be priced here but not deployed
+  const orderCycle = toOrderCycle(billingCycle);
+  const deployLink = `/dashboard/deploy?plan=${currentPlan.slug}&cycle=${orderCycle}&region=${region}`;
+
+  const selectPlanType = (type: PlanType) => {
+    setPlanType(type);
+    setSelectedRam(plansOfType(catalog, type)[0]?.ram_gb ?? 0);
+  };
 
-  const STORAGE_PRICE_PER_GB = 2;
   const BANDWIDTH_PRICE_PER_TB = 100;
 
-  const calculatePricing = () => {
-    const baseMonthly = currentConfig.basePrice;
-    const storageAddon = extraStorage * STORAGE_PRICE_PER_GB;
-    const bandwidthAddon = extraBandwidth * BANDWIDTH_PRICE_PER_TB;
+  // The comparison across cycles leaves the coupon out, since a code may only apply to some cycles
+  const quoteCycle = (cycle: CatalogBillingCycle, withCoupon = false) =>
+    quotePrice(
+      [
+        planItem(currentPlan, termPrice(catalog, currentPlan, cycle.slug), region),
+        { description: 'Extra storage', monthly: extraStorage * STORAGE_PRICE_PER_GB },
+        { description: 'Extra bandwidth', monthly: extraBandwidth * BANDWIDTH_PRICE_PER_TB }
+      ],
+      cycle,
+      withCoupon ? coupon : null
+    );
 
-    const monthlyTotal = baseMonthly + storageAddon + bandwidthAddon;
-    const totalBeforeDiscount = monthlyTotal * cycleInfo.months;
-    const discount = (totalBeforeDiscount * cycleInfo.discount) / 100;
-    const totalAfterDiscount = totalBeforeDiscount - discount;
-    const effectiveMonthly = totalAfterDiscount / cycleInfo.months;
+  const calculatePricing = () => {
+    const quote = quoteCycle(cycleInfo, true);
 
     return {
-      baseMonthly,
-      storageAddon,
-      bandwidthAddon,
-      monthlyTotal,
-      totalBeforeDiscount,
-      discount,
-      totalAfterDiscount,
-      effectiveMonthly,
-      savingsPercent: cycleInfo.discount
+      baseMonthly: regionalPrice(currentPlan.monthly_price, region),
+      storageAddon: extraStorage * STORAGE_PRICE_PER_GB,
+      bandwidthAddon: extraBandwidth * BANDWIDTH_PRICE_PER_TB,
+      totalBeforeDiscount: quote.list,
+      discount: quote.cycle_discount,
+      couponDiscount: quote.coupon_discount,
+      totalAfterDiscount: quote.subtotal,
+      tax: quote.tax,
+      total: quote.total,
+      effectiveMonthly: quote.effective_monthly,
+      savingsPercent: cycleInfo.discount_percent
     };
   };
 
@@ -128,15 +96,17 @@ export function PlanCalculator() {
     setPlanType('general_purpose');
     setSelectedRam(8);
     setBillingCycle('monthly');
+    setRegion(DEFAULT_REGION);
     setExtraStorage(0);
     setExtraBandwidth(0);
+    setCoupon(null);
     setExpandedSection('plan');
   };
 
   const planInfo = planTypeInfo[planType];
   const PlanIcon = planInfo.icon;
 
-  const planTypeOptions = (Object.keys(planTypeInfo) as PlanType[]).map(type => ({
+  const planTypeOptions = planTypes.map(type => ({
     value: type,
     label: planTypeInfo[type].name,
     sublabel: planTypeInfo[type].description,
@@ -144,22 +114,27 @@ export function PlanCalculator() {
   }));
 
   const ramOptions = availableRamOptions.map(ram => {
-    const config = planConfigurations[planType][ram];
+    const plan = typePlans.find(p => p.ram_gb === ram)!;
     return {
       value: ram,
       label: `${ram}GB RAM`,
-      sublabel: `${config.vcpu} vCPU • ${config.storage}GB Storage • ₹${config.basePrice.toLocaleString()}/mo`
+      sublabel: isPlanAvailable(region, plan.slug)
+        ? `${plan.vcpu} vCPU • ${plan.storage_gb}GB Storage • ₹${regionalPrice(plan.monthly_price, region).toLocaleString()}/mo`
+        : `Not available in ${regionName(region)}`
     };
   });
 
-  const billingOptions = (Object.keys(billingCycles) as BillingCycle[]).map(cycle => {
-    const info = billingCycles[cycle];
-    return {
-      value: cycle,
-      label: info.name,
-      sublabel: info.discount > 0 ? `Save ${info.discount}%` : 'No discount'
-    };
-  });
+  const regionOptions = REGIONS.map(r => ({
+    value: r.slug,
+    label: `${r.name}, ${r.country}`,
+    sublabel: r.price_multiplier === 1 ? 'Standard pricing' : `+${Math.round((r.price_multiplier - 1) * 100)}% on plan prices`
+  }));
+
+  const billingOptions = billingCycles.map(info => ({
+    value: info.slug,
+    label: info.name,
+    sublabel: info.discount_percent > 0 ? `Save ${info.discount_percent}%` : 'No discount'
+  }));
 
   const storageDropdownOptions = storageOptions.map(storage => ({
     value: storage,
@@ -216,27 +191,19 @@ export function PlanCalculator() {
                   <MobileDropdown
                     options={planTypeOptions}
                     value={planType}
-                    onChange={(value) => {
-                      setPlanType(value as PlanType);
-                      const firstRam = Object.keys(planConfigurations[value as PlanType])[0];
-                      setSelectedRam(Number(firstRam));
-                    }}
+                    onChange={(value) => selectPlanType(value as PlanType)}
                     label="Select Plan Type"
                   />
                 </div>
 
                 <div className="hidden lg:grid lg:grid-cols-3 gap-4">
-                  {(Object.keys(planTypeInfo) as PlanType[]).map((type) => {
+                  {planTypes.map((type) => {
                     const info = planTypeInfo[type];
                     const TypeIcon = info.icon;
                     return (
                       <button
                         key={type}
-                        onClick={() => {
-                          setPlanType(type);
-                          const firstRam = Object.keys(planConfigurations[type])[0];
-                          setSelectedRam(Number(firstRam));
-                        }}
+                        onClick={() => selectPlanType(type)}
                         className={`flex flex-col items-center space-y-2 p-4 rounded-lg transition-all ${
                           planType === type
                             ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-500/30'
@@ -254,6 +221,51 @@ export function PlanCalculator() {
             </div>
           </div>
 
+          <div className="bg-slate-900 rounded-xl border-2 border-cyan-500/30 overflow-hidden shadow-lg">
+            <button
+              onClick={() => toggleSection('region')}
+              className="w-full flex items-center justify-between p-4 lg:p-6 hover:bg-slate-800/50 active:bg-slate-800 transition-all touch-manipulation min-h-[64px]"
+            >
+              <h3 className="text-lg lg:text-xl font-bold text-white flex items-center space-x-2">
+                <MapPin className="h-5 w-5 text-cyan-400" />
+                <span>Region</span>
+              </h3>
+              <ChevronDown className={`h-5 w-5 text-cyan-400 transition-transform duration-300 ${expandedSection === 'region' ? 'rotate-180' : ''}`} />
+            </button>
+
+            <div className={`transition-all duration-300 ease-in-out ${expandedSection === 'region' ? 'max-h-[2000px] opacity-100' : 'max-h-0 opacity-0 overflow-hidden'}`}>
+              <div className="px-4 pb-4 lg:px-6 lg:pb-6">
+                <div className="block lg:hidden">
+                  <MobileDropdown
+                    options={regionOptions}
+                    value={region}
+                    onChange={(value) => setRegion(value as string)}
+                    label="Select Region"
+                  />
+                </div>
+
+                <div className="hidden lg:grid lg:grid-cols-4 gap-3">
+                  {REGIONS.map((r) => (
+                    <button
+                      key={r.slug}
+                      onClick={() => setRegion(r.slug)}
+                      className={`p-3 rounded-lg transition-all ${
+                        region === r.slug
+                          ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-500/30'
+                          : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border-2 border-cyan-500/30'
+                      }`}
+                    >
+                      <div className="font-semibold text-sm">{r.name}</div>
+                      <div className={`text-xs mt-1 ${region === r.slug ? 'opacity-80' : 'text-slate-400'}`}>
+                        {r.price_multiplier === 1 ? r.country : `+${Math.round((r.price_multiplier - 1) * 100)}%`}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
           <div className="bg-slate-900 rounded-xl border-2 border-cyan-500/30 overflow-hidden shadow-lg">
             <button
               onClick={() => toggleSection('ram')}
@@ -291,7 +303,9 @@ export function PlanCalculator() {
                   />
                   <div className="flex justify-between text-xs text-slate-400 mt-2">
                     {availableRamOptions.map((ram) => (
-                      <span key={ram}>{ram}GB</span>
+                      <span key={ram} className={isPlanAvailable(region, planSlug(ram)) ? '' : 'line-through text-slate-600'}>
+                        {ram}GB
+                      </span>
                     ))}
                   </div>
                 </div>
@@ -300,17 +314,17 @@ export function PlanCalculator() {
                   <div className="bg-slate-800 p-3 rounded-lg border-2 border-cyan-500/20">
                     <Cpu className="h-5 w-5 text-cyan-400 mb-1" />
                     <div className="text-xs text-slate-400">vCPU Cores</div>
-                    <div className="text-lg font-bold text-white">{currentConfig.vcpu}</div>
+                    <div className="text-lg font-bold text-white">{currentPlan.vcpu}</div>
                   </div>
                   <div className="bg-slate-800 p-3 rounded-lg border-2 border-green-500/20">
                     <MemoryStick className="h-5 w-5 text-green-400 mb-1" />
                     <div className="text-xs text-slate-400">RAM</div>
-                    <div className="text-lg font-bold text-white">{currentConfig.ram}GB</div>
+                    <div className="text-lg font-bold text-white">{currentPlan.ram_gb}GB</div>
                   </div>
                   <div className="bg-slate-800 p-3 rounded-lg border-2 border-orange-500/20">
                     <HardDrive className="h-5 w-5 text-orange-400 mb-1" />
                     <div className="text-xs text-slate-400">NVMe Storage</div>
-                    <div className="text-lg font-bold text-white">{currentConfig.storage}GB</div>
+                    <div className="text-lg font-bold text-white">{currentPlan.storage_gb}GB</div>
                   </div>
                   <div className="bg-slate-800 p-3 rounded-lg border-2 border-blue-500/20">
                     <Network className="h-5 w-5 text-blue-400 mb-1" />
@@ -402,14 +416,14 @@ export function PlanCalculator() {
                   <MobileDropdown
                     options={billingOptions}
                     value={billingCycle}
-                    onChange={(value) => setBillingCycle(value as BillingCycle)}
+                    onChange={(value) => setBillingCycle(value as CatalogCycle)}
                     label="Select Billing Cycle"
                   />
                 </div>
 
                 <div className="hidden lg:grid lg:grid-cols-3 gap-3">
-                  {(Object.keys(billingCycles) as BillingCycle[]).map((cycle) => {
-                    const info = billingCycles[cycle];
+                  {billingCycles.map((info) => {
+                    const cycle = info.slug;
                     return (
                       <button
                         key={cycle}
@@ -421,9 +435,9 @@ export function PlanCalculator() {
                         }`}
                       >
                         <div className="font-semibold text-sm">{info.name}</div>
-                        {info.discount > 0 && (
+                        {info.discount_percent > 0 && (
                           <div className={`text-xs mt-1 ${billingCycle === cycle ? 'opacity-80' : 'text-green-400'}`}>
-                            Save {info.discount}%
+                            Save {info.discount_percent}%
                           </div>
                         )}
                       </button>
@@ -445,7 +459,7 @@ export function PlanCalculator() {
 
               <div className="space-y-3 mb-6">
                 <div className="flex justify-between text-sm">
-                  <span className="text-slate-300">Base Plan</span>
+                  <span className="text-slate-300">Base Plan ({regionName(region)})</span>
                   <span className="text-white font-semibold">₹{pricing.baseMonthly.toLocaleString()}/mo</span>
                 </div>
                 {pricing.storageAddon > 0 && (
@@ -462,6 +476,10 @@ export function PlanCalculator() {
                 )}
               </div>
 
+              <div className="mb-4">
+                <CouponField planId={currentPlan.id} cycle={billingCycle} applied={coupon} onChange={setCoupon} />
+              </div>
+
               <div className="border-t border-cyan-500/30 pt-4 mb-4">
                 <div className="flex justify-between text-sm mb-2">
                   <span className="text-slate-300">Subtotal ({cycleInfo.months} months)</span>
@@ -473,39 +491,56 @@ export function PlanCalculator() {
                     <span className="text-green-400">-₹{pricing.discount.toLocaleString()}</span>
                   </div>
                 )}
+                {coupon && pricing.couponDiscount > 0 && (
+                  <div className="flex justify-between text-sm mb-2">
+                    <span className="text-green-400">Coupon {coupon.code}</span>
+                    <span className="text-green-400">-₹{pricing.couponDiscount.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-slate-300">GST ({Math.round(GST_RATE * 100)}%)</span>
+                  <span className="text-white">₹{pricing.tax.toLocaleString()}</span>
+                </div>
               </div>
 
               <div className="bg-slate-950 rounded-lg p-4 mb-4">
                 <div className="flex justify-between items-baseline mb-2">
-                  <span className="text-slate-300 text-sm">Total Price</span>
-                  <span className="text-3xl font-bold text-white">₹{Math.round(pricing.totalAfterDiscount).toLocaleString()}</span>
+                  <span className="text-slate-300 text-sm">Total incl. GST</span>
+                  <span className="text-3xl font-bold text-white">₹{pricing.total.toLocaleString()}</span>
                 </div>
                 <div className="text-sm text-cyan-400">
-                  ₹{Math.round(pricing.effectiveMonthly).toLocaleString()}/month effective
+                  ₹{pricing.effectiveMonthly.toLocaleString()}/month effective, before GST
                 </div>
               </div>
 
-              <Link
-                to="/signup"
-                className="block w-full text-center px-6 py-4 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg font-bold hover:from-cyan-400 hover:to-teal-400 active:from-cyan-600 active:to-teal-600 transition-all shadow-lg shadow-cyan-500/50 hover:shadow-cyan-500/70"
-              >
-                Deploy This Configuration
-              </Link>
+              {planAvailable && orderCycle ? (
+                <Link
+                  to={deployLink}
+                  className="block w-full text-center px-6 py-4 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg font-bold hover:from-cyan-400 hover:to-teal-400 active:from-cyan-600 active:to-teal-600 transition-all shadow-lg shadow-cyan-500/50 hover:shadow-cyan-500/70"
+                >
+                  Deploy This Configuration
+                </Link>
+              ) : (
+                <div className="flex gap-2 bg-orange-500/10 border border-orange-500/30 rounded-lg p-3 text-sm text-orange-300">
+                  <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                  {planAvailable
+                    ? `${cycleInfo.name} billing can't be ordered yet. Choose Monthly or Annually to deploy.`
+                    : `${selectedRam}GB ${planInfo.name} is not available in ${regionName(region)}. Choose another region or size.`}
+                </div>
+              )}
             </div>
 
             <div className="bg-slate-900 rounded-xl p-6 border-2 border-cyan-500/30">
               <h4 className="font-bold text-white mb-3">Comparison Across Cycles</h4>
               <div className="space-y-2 text-sm">
-                {(Object.keys(billingCycles) as BillingCycle[]).map((cycle) => {
-                  const info = billingCycles[cycle];
-                  const cyclePrice = pricing.monthlyTotal * info.months;
-                  const cycleDiscount = (cyclePrice * info.discount) / 100;
-                  const finalPrice = cyclePrice - cycleDiscount;
+                {billingCycles.map((info) => {
+                  const cycle = info.slug;
+                  const finalPrice = quoteCycle(info).subtotal;
 
                   return (
                     <div key={cycle} className={`flex justify-between p-2 rounded transition-colors ${billingCycle === cycle ? 'bg-cyan-600/20' : ''}`}>
                       <span className="text-slate-300">{info.name}</span>
-                      <span className="text-white font-semibold">₹{Math.round(finalPrice).toLocaleString()}</span>
+                      <span className="text-white font-semibold">₹{finalPrice.toLocaleString()}</span>
                     </div>
                   );
                 })}
@@ -523,8 +558,8 @@ export function PlanCalculator() {
           <div className="flex items-center space-x-3">
             <PlanIcon className="h-6 w-6 text-cyan-400 flex-shrink-0" />
             <div className="text-left">
-              <div className="text-xs text-slate-300">Total Price</div>
-              <div className="text-xl font-bold">₹{Math.round(pricing.totalAfterDiscount).toLocaleString()}</div>
+              <div className="text-xs text-slate-300">Total incl. GST</div>
+              <div className="text-xl font-bold">₹{pricing.total.toLocaleString()}</div>
             </div>
           </div>
           <div className="flex items-center space-x-2">
@@ -537,7 +572,7 @@ export function PlanCalculator() {
           <div className="px-4 pb-4 max-h-[60vh] overflow-y-auto animate-slideUp">
             <div className="space-y-3 mb-4">
               <div className="flex justify-between text-sm">
-                <span className="text-slate-300">Base Plan</span>
+                <span className="text-slate-300">Base Plan ({regionName(region)})</span>
                 <span className="text-white font-semibold">₹{pricing.baseMonthly.toLocaleString()}/mo</span>
               </div>
               {pricing.storageAddon > 0 && (
@@ -554,6 +589,10 @@ export function PlanCalculator() {
               )}
             </div>
 
+            <div className="mb-3">
+              <CouponField planId={currentPlan.id} cycle={billingCycle} applied={coupon} onChange={setCoupon} />
+            </div>
+
             <div className="border-t border-cyan-500/30 pt-3 mb-3">
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-slate-300">Subtotal ({cycleInfo.months} months)</span>
@@ -565,20 +604,39 @@ export function PlanCalculator() {
                   <span className="text-green-400">-₹{pricing.discount.toLocaleString()}</span>
                 </div>
               )}
+              {coupon && pricing.couponDiscount > 0 && (
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-green-400">Coupon {coupon.code}</span>
+                  <span className="text-green-400">-₹{pricing.couponDiscount.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-slate-300">GST ({Math.round(GST_RATE * 100)}%)</span>
+                <span className="text-white">₹{pricing.tax.toLocaleString()}</span>
+              </div>
             </div>
 
             <div className="bg-slate-950 rounded-lg p-3 mb-3">
               <div className="text-xs text-cyan-400 mb-1">
-                ₹{Math.round(pricing.effectiveMonthly).toLocaleString()}/month effective rate
+                ₹{pricing.effectiveMonthly.toLocaleString()}/month effective rate, before GST
               </div>
             </div>
 
-            <Link
-              to="/signup"
-              className="block w-full text-center px-6 py-3.5 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg font-bold hover:from-cyan-400 hover:to-teal-400 active:from-cyan-600 active:to-teal-600 transition-all shadow-lg touch-manipulation"
-            >
-              Deploy This Configuration
-            </Link>
+            {planAvailable && orderCycle ? (
+              <Link
+                to={deployLink}
+                className="block w-full text-center px-6 py-3.5 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg font-bold hover:from-cyan-400 hover:to-teal-400 active:from-cyan-600 active:to-teal-600 transition-all shadow-lg touch-manipulation"
+              >
+                Deploy This Configuration
+              </Link>
+            ) : (
+              <div className="flex gap-2 bg-orange-500/10 border border-orange-500/30 rounded-lg p-3 text-sm text-orange-300">
+                <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                {planAvailable
+                  ? `${cycleInfo.name} billing can't be ordered yet; choose Monthly or Annually.`
+                  : `${selectedRam}GB ${planInfo.name} is not available in ${regionName(region)}.`}
+              </div>
+            )}
           </div>
         )}
       </div>
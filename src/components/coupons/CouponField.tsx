@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { couponsApi } from '../../api/coupons';
+import { toApiError } from '../../api/errors';
+import { couponLabel, validateCouponCode } from '../../lib/coupons';
+import { AppliedCoupon, CatalogCycle } from '../../types';
+
+interface CouponFieldProps {
+  planId: string;
+  cycle: CatalogCycle;
+  applied: AppliedCoupon | null;
+  onChange: (coupon: AppliedCoupon | null) => void;
+  // Set when placing the order refused the code
+  error?: string;
+}
+
+// Promo code entry for checkout and the calculator; the code is checked against the plan and cycle shown
+export function CouponField({ planId, cycle, applied, onChange, error }: CouponFieldProps) {
+  const [code, setCode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [codeError, setCodeError] = useState('');
+  // The code, plan and cycle last confirmed by the API
+  const [checkedFor, setCheckedFor] = useState('');
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  // A code that applied to one plan or cycle may not apply to the next, so check it again
+  const appliedCode = applied?.code;
+  const checkKey = `${appliedCode}|${planId}|${cycle}`;
+  useEffect(() => {
+    if (!appliedCode || checkedFor === checkKey) return;
+    const controller = new AbortController();
+    couponsApi
+      .validate({ code: appliedCode, plan_id: planId, billing_cycle: cycle }, { signal: controller.signal })
+      .then((coupon) => {
+        setCheckedFor(checkKey);
+        onChangeRef.current(coupon);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        const apiError = toApiError(err);
+        onChangeRef.current(null);
+        setCode(appliedCode);
+        setCodeError(apiError.fieldErrors.code ?? apiError.message);
+      });
+    return () => controller.abort();
+  }, [appliedCode, planId, cycle, checkKey, checkedFor]);
+
+  const handleApply = async () => {
+    const formatError = validateCouponCode(code);
+    if (formatError) {
+      setCodeError(formatError);
+      return;
+    }
+    setChecking(true);
+    setCodeError('');
+    try {
+      const coupon = await couponsApi.validate({ code, plan_id: planId, billing_cycle: cycle });
+      setCheckedFor(`${coupon.code}|${planId}|${cycle}`);
+      onChange(coupon);
+      setCode('');
+    } catch (err) {
+      const apiError = toApiError(err);
+      setCodeError(apiError.fieldErrors.code ?? apiError.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between gap-3 bg-green-500/10 border border-green-500/30 rounded-lg px-3 py-2 text-sm">
+        <span className="flex items-center gap-2 text-green-400">
+          <Tag className="h-4 w-4 flex-shrink-0" />
+          {couponLabel(applied)}
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="text-slate-400 hover:text-white transition"
+          title="Remove code"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setCodeError('');
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+          placeholder="Promo code"
+          className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white uppercase placeholder:normal-case placeholder-slate-500 text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={checking || !code.trim()}
+          className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm disabled:opacity-50"
+        >
+          {checking ? 'Checking...' : 'Apply'}
+        </button>
+      </div>
+      {(codeError || error) && <p className="text-sm text-red-400 mt-1">{codeError || error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { dnsApi } from '../../api/dns';
+import { toApiError } from '../../api/errors';
+import { CAA_TAGS, DNS_RECORD_TYPES, DnsRecordInput, absoluteName, normalizeDnsRecord, validateDnsRecord } from '../../lib/dns';
+import { CaaTag, DnsRecord, DnsRecordType, DnsZone } from '../../types';
+
+interface DnsRecordFormProps {
+  zone: DnsZone;
+  // Omit to add a new record
+  record?: DnsRecord;
+  onSaved: (record: DnsRecord) => void;
+  onCancel: () => void;
+}
+
+const VALUE_LABELS: Record<DnsRecordType, { label: string; placeholder: string }> = {
+  A: { label: 'IPv4 address', placeholder: '203.0.113.10' },
+  AAAA: { label: 'IPv6 address', placeholder: '2001:db8::10' },
+  CNAME: { label: 'Target host', placeholder: 'example.com' },
+  MX: { label: 'Mail server', placeholder: 'mail.example.com' },
+  TXT: { label: 'Text', placeholder: 'v=spf1 mx -all' },
+  SRV: { label: 'Target host', placeholder: 'sip.example.com' },
+  CAA: { label: 'Value', placeholder: 'letsencrypt.org' },
+};
+
+// The value field fills whatever the type-specific fields leave of the row
+const VALUE_SPANS: Partial<Record<DnsRecordType, string>> = { MX: 'md:col-span-3', SRV: 'md:col-span-1', CAA: 'md:col-span-2' };
+
+const TTL_OPTIONS = [
+  { value: 60, label: '1 minute' },
+  { value: 300, label: '5 minutes' },
+  { value: 3600, label: '1 hour' },
+  { value: 14400, label: '4 hours' },
+  { value: 86400, label: '1 day' },
+];
+
+const inputClass = 'w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white';
+
+// Empty inputs stay undefined so the validator reports them as missing
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export function DnsRecordForm({ zone, record, onSaved, onCancel }: DnsRecordFormProps) {
+  const [type, setType] = useState<DnsRecordType>(record?.type ?? 'A');
+  const [name, setName] = useState(record?.name ?? '@');
+  const [ttl, setTtl] = useState(record?.ttl ?? zone.default_ttl);
+  const [value, setValue] = useState(record?.value ?? '');
+  const [priority, setPriority] = useState(String(record?.priority ?? 10));
+  const [weight, setWeight] = useState(String(record?.weight ?? 0));
+  const [port, setPort] = useState(String(record?.port ?? ''));
+  const [flags, setFlags] = useState(String(record?.flags ?? 0));
+  const [tag, setTag] = useState<CaaTag>(record?.tag ?? 'issue');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const build = (): DnsRecordInput =>
+    normalizeDnsRecord(
+      {
+        type,
+        name: name.trim() || '@',
+        ttl,
+        value,
+        priority: toNumber(priority),
+        weight: toNumber(weight),
+        port: toNumber(port),
+        flags: toNumber(flags),
+        tag,
+      },
+      zone.domain
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = build();
+    const localErrors = validateDnsRecord(input);
+    setErrors(localErrors);
+    if (Object.keys(localErrors).length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = record
+        ? await dnsApi.updateRecord(zone.id, record.id, input)
+        : await dnsApi.createRecord(zone.id, input);
+      onSaved(saved);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setErrors(Object.keys(apiError.fieldErrors).length > 0 ? apiError.fieldErrors : { form: apiError.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldError = (field: string) => errors[field] && <p className="text-xs text-red-400 mt-1">{errors[field]}</p>;
+  const needsPriority = type === 'MX' || type === 'SRV';
+  const previewName = build().name;
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 space-y-4">
+      {errors.form && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{errors.form}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Type</label>
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as DnsRecordType);
+              setErrors({});
+            }}
+            disabled={!!record}
+            className={inputClass}
+          >
+            {DNS_RECORD_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs text-slate-400 mb-1">Name</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={type === 'SRV' ? '_sip._tcp' : '@'}
+              className={`${inputClass} font-mono`}
+            />
+            <span className="text-sm text-slate-500 font-mono whitespace-nowrap">.{zone.domain}</span>
+          </div>
+          {errors.name ? (
+            fieldError('name')
+          ) : (
+            <p className="text-xs text-slate-500 mt-1">
+              {previewName === '@' ? `"@" is ${zone.domain} itself` : absoluteName(previewName, zone.domain)}
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">TTL</label>
+          <select value={ttl} onChange={(e) => setTtl(Number(e.target.value))} className={inputClass}>
+            {TTL_OPTIONS.some((o) => o.value === ttl) ? null : <option value={ttl}>{ttl} seconds</option>}
+            {TTL_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          {fieldError('ttl')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {needsPriority && (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Priority</label>
+            <input type="number" value={priority} onChange={(e) => setPriority(e.target.value)} className={inputClass} />
+            {fieldError('priority')}
+          </div>
+        )}
+        {type === 'SRV' && (
+          <>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Weight</label>
+              <input type="number" value={weight} onChange={(e) => setWeight(e.target.value)} className={inputClass} />
+              {fieldError('weight')}
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Port</label>
+              <input type="number" value={port} onChange={(e) => setPort(e.target.value)} className={inputClass} />
+              {fieldError('port')}
+            </div>
+          </>
+        )}
+        {type === 'CAA' && (
+          <>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Flags</label>
+              <input type="number" value={flags} onChange={(e) => setFlags(e.target.value)} className={inputClass} />
+              {fieldError('flags')}
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Tag</label>
+              <select value={tag} onChange={(e) => setTag(e.target.value as CaaTag)} className={inputClass}>
+                {CAA_TAGS.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+              {fieldError('tag')}
+            </div>
+          </>
+        )}
+        <div className={VALUE_SPANS[type] ?? 'md:col-span-4'}>
+          <label className="block text-xs text-slate-400 mb-1">{VALUE_LABELS[type].label}</label>
+          {type === 'TXT' ? (
+            <textarea
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={VALUE_LABELS[type].placeholder}
+              rows={3}
+              className={`${inputClass} font-mono`}
+            />
+          ) : (
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={VALUE_LABELS[type].placeholder}
+              className={`${inputClass} font-mono`}
+            />
+          )}
+          {fieldError('value')}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : record ? 'Save Record' : 'Add Record'}
+        </button>
+      </div>
+    </form>
+  );
+}
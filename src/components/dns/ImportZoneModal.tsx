@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react';
+import { X, Upload } from 'lucide-react';
+import { dnsApi } from '../../api/dns';
+import { toApiError } from '../../api/errors';
+import { parseZoneFile } from '../../lib/bindZone';
+import { DnsZone } from '../../types';
+
+interface ImportZoneModalProps {
+  zone: DnsZone;
+  onClose: () => void;
+  onImported: (zone: DnsZone, imported: number) => void;
+}
+
+export function ImportZoneModal({ zone, onClose, onImported }: ImportZoneModalProps) {
+  const [text, setText] = useState('');
+  const [replace, setReplace] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Parse as the user types so problems show up before anything is sent
+  const parsed = useMemo(() => (text.trim() ? parseZoneFile(text, zone.domain, zone.default_ttl) : null), [text, zone]);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(setText);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError('');
+    try {
+      const result = await dnsApi.importZone(zone.id, text, replace);
+      onImported(result.zone, result.imported);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setError(apiError.fieldErrors.zone_file ?? apiError.message);
+      setImporting(false);
+    }
+  };
+
+  const issues = parsed ? [...parsed.errors.map((e) => ({ ...e, error: true })), ...parsed.warnings] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white">Import zone file for {zone.domain}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400 mb-3">
+          Paste a BIND zone file exported from your current DNS provider, or choose the file. SOA and NS records are
+          skipped because the zone is served by our nameservers.
+        </p>
+
+        <label className="inline-flex items-center gap-2 px-3 py-1.5 mb-3 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition text-sm font-semibold cursor-pointer">
+          <Upload className="h-4 w-4" />
+          Choose file
+          <input
+            type="file"
+            accept=".zone,.txt,.db,text/plain"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </label>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={12}
+          spellCheck={false}
+          placeholder={`$ORIGIN ${zone.domain}.\n@    3600 IN A     203.0.113.10\nwww  3600 IN CNAME ${zone.domain}.`}
+          className="w-full px-3 py-2 bg-slate-950 border border-cyan-500/30 rounded-lg text-sm text-white font-mono"
+        />
+
+        {parsed && (
+          <div className="mt-3 bg-slate-950 rounded-lg border border-cyan-500/30 p-4 text-sm space-y-1 max-h-48 overflow-y-auto">
+            <p className={parsed.errors.length > 0 ? 'text-red-400' : 'text-green-400'}>
+              {parsed.records.length} record{parsed.records.length === 1 ? '' : 's'} found
+              {parsed.errors.length > 0 &&
+                `, ${parsed.errors.length} line${parsed.errors.length === 1 ? '' : 's'} must be fixed first`}
+            </p>
+            {issues.map((issue, i) => (
+              <p key={i} className={`font-mono text-xs ${'error' in issue ? 'text-red-400' : 'text-yellow-400'}`}>
+                Line {issue.line}: {issue.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-3 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+        )}
+
+        <label className="flex items-center gap-2 mt-4 text-sm text-slate-300">
+          <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+          Replace the {zone.records.length} existing records instead of adding to them
+        </label>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!parsed || parsed.errors.length > 0 || parsed.records.length === 0 || importing}
+            className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:shadow-lg hover:shadow-cyan-500/30 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Importing...' : 'Import Records'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { dnsApi } from '../../api/dns';
+import { getErrorMessage } from '../../api/errors';
+import { useServersStore } from '../../store/serversStore';
+import { DnsZone } from '../../types';
+
+interface PointDomainModalProps {
+  zone: DnsZone;
+  onClose: () => void;
+  onPointed: (zone: DnsZone) => void;
+}
+
+export function PointDomainModal({ zone, onClose, onPointed }: PointDomainModalProps) {
+  const { servers, fetchServers } = useServersStore();
+  const [serverId, setServerId] = useState('');
+  const [includeWww, setIncludeWww] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchServers();
+  }, [fetchServers]);
+
+  // Only servers of the zone's account that already have addresses can be targets
+  const candidates = servers.filter((s) => s.user_id === zone.user_id && s.ip_address);
+  const server = candidates.find((s) => s.id === serverId);
+  const targets = (server?.ip_addresses ?? []).filter((a) => a.role === 'primary' && a.scope === 'public');
+  const replaced = zone.records.filter(
+    (r) => (r.name === '@' && (r.type === 'A' || r.type === 'AAAA')) || (includeWww && r.name === 'www')
+  );
+
+  const handlePoint = async () => {
+    if (!server) return;
+    setSaving(true);
+    setError('');
+    try {
+      onPointed(await dnsApi.pointToServer(zone.id, server.id, includeWww));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update records'));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-xl w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white">Point {zone.domain} at a server</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <select
+          value={serverId}
+          onChange={(e) => setServerId(e.target.value)}
+          className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white mb-4"
+        >
+          <option value="">Choose a server...</option>
+          {candidates.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.server_name} ({s.ip_address})
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-2 mb-4 text-sm text-slate-300">
+          <input type="checkbox" checked={includeWww} onChange={(e) => setIncludeWww(e.target.checked)} />
+          Also point www.{zone.domain} here
+        </label>
+
+        {server && (
+          <div className="bg-slate-950 rounded-lg border border-cyan-500/30 p-4 font-mono text-sm space-y-1 mb-4">
+            {replaced.map((r) => (
+              <p key={r.id} className="text-red-400">
+                - {r.name} {r.type} {r.value}
+              </p>
+            ))}
+            {targets.map((a) => (
+              <p key={a.id} className="text-green-400">
+                + @ {a.version === 6 ? 'AAAA' : 'A'} {a.address}
+              </p>
+            ))}
+            {includeWww && (
+              <p className="text-green-400">
+                + www CNAME {zone.domain}
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePoint}
+            disabled={!server || saving}
+            className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:shadow-lg hover:shadow-cyan-500/30 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Updating...' : 'Point Domain'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
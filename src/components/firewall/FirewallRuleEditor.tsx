@@ -0,0 +1,305 @@
+import { useState, useMemo } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { firewallsApi } from '../../api/firewalls';
+import { toApiError } from '../../api/errors';
+import { FIREWALL_PRESETS, FirewallRuleInput, describeRule, diffRules, validateRule } from '../../lib/firewall';
+import { useServersStore } from '../../store/serversStore';
+import { Firewall, FirewallDirection, FirewallProtocol } from '../../types';
+
+interface FirewallRuleEditorProps {
+  firewall: Firewall;
+  onSaved: (firewall: Firewall) => void;
+}
+
+// Addresses are edited as one comma-separated field per row
+interface DraftRule {
+  key: number;
+  id?: string;
+  direction: FirewallDirection;
+  protocol: FirewallProtocol;
+  ports: string;
+  addresses: string;
+  description: string;
+}
+
+let draftKey = 0;
+
+const toDraft = (rule: FirewallRuleInput): DraftRule => ({
+  key: ++draftKey,
+  id: rule.id,
+  direction: rule.direction,
+  protocol: rule.protocol,
+  ports: rule.ports,
+  addresses: rule.addresses.join(', '),
+  description: rule.description ?? '',
+});
+
+const fromDraft = (draft: DraftRule): FirewallRuleInput => ({
+  id: draft.id,
+  direction: draft.direction,
+  protocol: draft.protocol,
+  ports: draft.ports.trim(),
+  addresses: draft.addresses
+    .split(',')
+    .map((a) => a.trim())
+    .filter(Boolean),
+  description: draft.description.trim() || undefined,
+});
+
+const cellClass = 'w-full px-2 py-1.5 bg-slate-800 border rounded text-sm text-white disabled:opacity-40';
+
+export function FirewallRuleEditor({ firewall, onSaved }: FirewallRuleEditorProps) {
+  const servers = useServersStore((state) => state.servers);
+  const [drafts, setDrafts] = useState<DraftRule[]>(() => firewall.rules.map(toDraft));
+  const [reviewing, setReviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+
+  const rules = useMemo(() => drafts.map(fromDraft), [drafts]);
+  const rowErrors = useMemo(() => rules.map(validateRule), [rules]);
+  const valid = rowErrors.every((errors) => Object.keys(errors).length === 0);
+  const diff = useMemo(() => diffRules(firewall.rules, rules), [firewall.rules, rules]);
+  // Descriptions and order don't show in the diff but still need saving
+  const changed = useMemo(
+    () => JSON.stringify(rules) !== JSON.stringify(firewall.rules.map((r) => fromDraft(toDraft(r)))),
+    [rules, firewall.rules]
+  );
+
+  const protectedNames = firewall.server_ids.map((id) => servers.find((s) => s.id === id)?.server_name ?? id);
+
+  const updateDraft = (key: number, changes: Partial<DraftRule>) => {
+    setServerErrors({});
+    setDrafts(drafts.map((d) => (d.key === key ? { ...d, ...changes } : d)));
+  };
+
+  const addRule = () =>
+    setDrafts([
+      ...drafts,
+      toDraft({ direction: 'inbound', protocol: 'tcp', ports: '', addresses: ['0.0.0.0/0', '::/0'] }),
+    ]);
+
+  const addPreset = (presetId: string) => {
+    const preset = FIREWALL_PRESETS.find((p) => p.id === presetId);
+    if (preset) setDrafts([...drafts, ...preset.rules.map(toDraft)]);
+  };
+
+  const handleApply = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const saved = await firewallsApi.update(firewall.id, { rules });
+      setDrafts(saved.rules.map(toDraft));
+      setReviewing(false);
+      onSaved(saved);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setServerErrors(apiError.fieldErrors);
+      setError(apiError.message);
+      setReviewing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Client-side checks first; the API's `rules.<i>.<field>` errors cover anything they miss
+  const errorFor = (index: number, field: string) => rowErrors[index][field] ?? serverErrors[`rules.${index}.${field}`];
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-cyan-500/30 text-left text-slate-400">
+              <th className="py-2 px-2 font-semibold w-32">Direction</th>
+              <th className="py-2 px-2 font-semibold w-24">Protocol</th>
+              <th className="py-2 px-2 font-semibold w-32">Ports</th>
+              <th className="py-2 px-2 font-semibold">Sources / Destinations</th>
+              <th className="py-2 px-2 font-semibold w-40">Description</th>
+              <th className="py-2 px-2 w-10" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-cyan-500/20">
+            {drafts.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-slate-400">
+                  No rules yet. All inbound traffic is blocked until you allow something.
+                </td>
+              </tr>
+            )}
+            {drafts.map((draft, index) => (
+              <tr key={draft.key} className="align-top">
+                <td className="py-2 px-2">
+                  <select
+                    value={draft.direction}
+                    onChange={(e) => updateDraft(draft.key, { direction: e.target.value as FirewallDirection })}
+                    className={`${cellClass} border-cyan-500/30`}
+                  >
+                    <option value="inbound">Inbound</option>
+                    <option value="outbound">Outbound</option>
+                  </select>
+                </td>
+                <td className="py-2 px-2">
+                  <select
+                    value={draft.protocol}
+                    onChange={(e) => {
+                      const protocol = e.target.value as FirewallProtocol;
+                      updateDraft(draft.key, { protocol, ports: protocol === 'icmp' ? '' : draft.ports });
+                    }}
+                    className={`${cellClass} border-cyan-500/30`}
+                  >
+                    <option value="tcp">TCP</option>
+                    <option value="udp">UDP</option>
+                    <option value="icmp">ICMP</option>
+                  </select>
+                </td>
+                <td className="py-2 px-2">
+                  <input
+                    type="text"
+                    value={draft.ports}
+                    disabled={draft.protocol === 'icmp'}
+                    onChange={(e) => updateDraft(draft.key, { ports: e.target.value })}
+                    placeholder={draft.protocol === 'icmp' ? 'n/a' : '443 or 8000-8100'}
+                    className={`${cellClass} font-mono ${errorFor(index, 'ports') ? 'border-red-500/60' : 'border-cyan-500/30'}`}
+                  />
+                  {errorFor(index, 'ports') && <p className="text-xs text-red-400 mt-1">{errorFor(index, 'ports')}</p>}
+                </td>
+                <td className="py-2 px-2">
+                  <input
+                    type="text"
+                    value={draft.addresses}
+                    onChange={(e) => updateDraft(draft.key, { addresses: e.target.value })}
+                    placeholder="0.0.0.0/0, ::/0"
+                    className={`${cellClass} font-mono ${errorFor(index, 'addresses') ? 'border-red-500/60' : 'border-cyan-500/30'}`}
+                  />
+                  {errorFor(index, 'addresses') && (
+                    <p className="text-xs text-red-400 mt-1">{errorFor(index, 'addresses')}</p>
+                  )}
+                </td>
+                <td className="py-2 px-2">
+                  <input
+                    type="text"
+                    value={draft.description}
+                    onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                    maxLength={64}
+                    className={`${cellClass} border-cyan-500/30`}
+                  />
+                </td>
+                <td className="py-2 px-2">
+                  <button
+                    onClick={() => setDrafts(drafts.filter((d) => d.key !== draft.key))}
+                    className="p-1.5 text-red-400 hover:bg-red-500/20 rounded transition"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={addRule}
+            className="px-3 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </button>
+          <span className="text-xs text-slate-500">Presets:</span>
+          {FIREWALL_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => addPreset(preset.id)}
+              className="px-3 py-1.5 border border-cyan-500/30 text-cyan-400 rounded-lg hover:bg-cyan-500/10 transition text-xs font-semibold"
+            >
+              + {preset.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {changed && (
+            <button
+              onClick={() => setDrafts(firewall.rules.map(toDraft))}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+            >
+              Discard
+            </button>
+          )}
+          <button
+            onClick={() => setReviewing(true)}
+            disabled={!valid || !changed}
+            className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Review Changes
+          </button>
+        </div>
+      </div>
+
+      {reviewing && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-2xl w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-white">Apply changes to {firewall.name}?</h3>
+              <button onClick={() => setReviewing(false)} className="text-slate-400 hover:text-white">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="bg-slate-950 rounded-lg border border-cyan-500/30 p-4 font-mono text-sm space-y-1 max-h-80 overflow-y-auto">
+              {diff.removed.map((rule, i) => (
+                <p key={`removed-${i}`} className="text-red-400">
+                  - {describeRule(rule)}
+                </p>
+              ))}
+              {diff.added.map((rule, i) => (
+                <p key={`added-${i}`} className="text-green-400">
+                  + {describeRule(rule)}
+                </p>
+              ))}
+              {diff.added.length + diff.removed.length === 0 && (
+                <p className="text-slate-400">Only descriptions or rule order changed; traffic is unaffected.</p>
+              )}
+              {diff.unchanged.length > 0 && (
+                <p className="text-slate-500">
+                  {diff.unchanged.length} unchanged rule{diff.unchanged.length === 1 ? '' : 's'}
+                </p>
+              )}
+            </div>
+
+            <p className="text-sm text-slate-400 mt-4">
+              {protectedNames.length === 0
+                ? 'This firewall is not attached to any servers yet.'
+                : `Takes effect within a few seconds on ${protectedNames.join(', ')}.`}{' '}
+              {diff.removed.some((r) => r.direction === 'inbound' && r.ports === '22') &&
+                'You are removing an SSH rule; make sure you still have a way in.'}
+            </p>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setReviewing(false)}
+                className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={saving}
+                className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Applying...' : 'Apply Rules'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
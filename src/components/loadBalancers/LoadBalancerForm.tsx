@@ -0,0 +1,388 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { loadBalancersApi } from '../../api/loadBalancers';
+import { toApiError } from '../../api/errors';
+import { formatCurrency } from '../../lib/referral';
+import { DEFAULT_REGION, REGIONS, regionName } from '../../lib/regions';
+import {
+  DEFAULT_FORWARDING_RULE,
+  DEFAULT_HEALTH_CHECK,
+  DEFAULT_LOAD_BALANCER_SIZE,
+  DEFAULT_STICKY_SESSIONS,
+  ForwardingRuleInput,
+  LOAD_BALANCER_SIZES,
+  PROTOCOL_LABELS,
+  loadBalancerSize,
+  validateForwardingRules,
+  validateHealthCheck,
+  validateStickySessions,
+} from '../../lib/loadBalancers';
+import { LoadBalancer, LoadBalancerAlgorithm, LoadBalancerProtocol, UserServer } from '../../types';
+
+interface LoadBalancerFormProps {
+  // Edit this load balancer; without it the form creates one
+  loadBalancer?: LoadBalancer;
+  // Backend choices when creating; the pool of an existing load balancer is edited separately
+  servers?: UserServer[];
+  onSaved: (loadBalancer: LoadBalancer) => void;
+  onCancel?: () => void;
+}
+
+const PROTOCOLS: LoadBalancerProtocol[] = ['http', 'https', 'tcp'];
+
+const inputClass = 'w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white text-sm';
+
+export function LoadBalancerForm({ loadBalancer, servers = [], onSaved, onCancel }: LoadBalancerFormProps) {
+  const [name, setName] = useState(loadBalancer?.name ?? '');
+  const [region, setRegion] = useState(loadBalancer?.region ?? DEFAULT_REGION);
+  const [size, setSize] = useState(loadBalancer?.size ?? DEFAULT_LOAD_BALANCER_SIZE);
+  const [algorithm, setAlgorithm] = useState<LoadBalancerAlgorithm>(loadBalancer?.algorithm ?? 'round_robin');
+  const [rules, setRules] = useState<ForwardingRuleInput[]>(loadBalancer?.forwarding_rules ?? [DEFAULT_FORWARDING_RULE]);
+  const [healthCheck, setHealthCheck] = useState(loadBalancer?.health_check ?? DEFAULT_HEALTH_CHECK);
+  const [sticky, setSticky] = useState(loadBalancer?.sticky_sessions ?? DEFAULT_STICKY_SESSIONS);
+  const [serverIds, setServerIds] = useState<string[]>([]);
+  // Backends have to be in the load balancer's region
+  const regionServers = servers.filter((s) => s.region === region);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const plan = loadBalancerSize(size)!;
+  const rulesError = validateForwardingRules(rules, plan.max_rules);
+  const healthError = validateHealthCheck(healthCheck);
+  const stickyError = validateStickySessions(sticky, rules);
+
+  const updateRule = (index: number, patch: Partial<ForwardingRuleInput>) =>
+    setRules((current) =>
+      current.map((rule, i) => {
+        if (i !== index) return rule;
+        const next = { ...rule, ...patch };
+        // Keep the pair consistent so switching protocols never leaves an invalid combination behind
+        if (patch.entry_protocol === 'tcp') next.target_protocol = 'tcp';
+        if (patch.entry_protocol && patch.entry_protocol !== 'tcp' && next.target_protocol === 'tcp') next.target_protocol = 'http';
+        if (next.entry_protocol !== 'https' || next.target_protocol !== 'https') next.tls_passthrough = false;
+        return next;
+      })
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rulesError || healthError || stickyError) return;
+    setSaving(true);
+    setErrors({});
+    const settings = {
+      name: name.trim(),
+      size,
+      algorithm,
+      forwarding_rules: rules,
+      health_check: healthCheck,
+      sticky_sessions: sticky,
+    };
+    try {
+      onSaved(
+        loadBalancer
+          ? await loadBalancersApi.update(loadBalancer.id, settings)
+          : await loadBalancersApi.create({
+              ...settings,
+              region,
+              server_ids: serverIds.filter((id) => regionServers.some((s) => s.id === id)),
+            })
+      );
+    } catch (err) {
+      const apiError = toApiError(err);
+      setErrors(Object.keys(apiError.fieldErrors).length > 0 ? apiError.fieldErrors : { form: apiError.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {errors.form && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{errors.form}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm text-slate-400 mb-1">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="web-lb"
+            maxLength={64}
+            className={inputClass}
+          />
+          {errors.name && <p className="text-xs text-red-400 mt-1">{errors.name}</p>}
+        </div>
+        <div>
+          <label className="block text-sm text-slate-400 mb-1">Region</label>
+          <select
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            disabled={!!loadBalancer}
+            className={`${inputClass} disabled:opacity-60`}
+          >
+            {REGIONS.map((r) => (
+              <option key={r.slug} value={r.slug}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+          {errors.region && <p className="text-xs text-red-400 mt-1">{errors.region}</p>}
+        </div>
+        <div>
+          <label className="block text-sm text-slate-400 mb-1">Algorithm</label>
+          <select
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value as LoadBalancerAlgorithm)}
+            className={inputClass}
+          >
+            <option value="round_robin">Round robin</option>
+            <option value="least_connections">Least connections</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-white mb-2">Size</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {LOAD_BALANCER_SIZES.map((option) => (
+            <button
+              key={option.slug}
+              type="button"
+              onClick={() => setSize(option.slug)}
+              className={`text-left p-4 rounded-lg border-2 transition ${
+                size === option.slug ? 'border-cyan-500 bg-cyan-500/10' : 'border-cyan-500/30 bg-slate-950 hover:border-cyan-500/60'
+              }`}
+            >
+              <p className="font-semibold text-white">{option.name}</p>
+              <p className="text-xs text-slate-400">
+                {option.max_connections.toLocaleString()} connections · {option.max_rules} rules · {option.max_backends} backends
+              </p>
+              <p className="text-sm text-cyan-400 mt-1">{formatCurrency(option.monthly_price)}/month</p>
+            </button>
+          ))}
+        </div>
+        {errors.size && <p className="text-xs text-red-400 mt-1">{errors.size}</p>}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-white">Forwarding rules</h4>
+          <button
+            type="button"
+            onClick={() => setRules((current) => [...current, { ...DEFAULT_FORWARDING_RULE, entry_port: 443, entry_protocol: 'https' }])}
+            disabled={rules.length >= plan.max_rules}
+            className="text-sm text-cyan-400 hover:text-cyan-300 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add rule
+          </button>
+        </div>
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div key={rule.id ?? index} className="flex flex-wrap items-center gap-2 bg-slate-950 border border-cyan-500/30 rounded-lg p-3">
+              <select
+                value={rule.entry_protocol}
+                onChange={(e) => updateRule(index, { entry_protocol: e.target.value as LoadBalancerProtocol })}
+                className="px-2 py-1.5 bg-slate-800 border border-cyan-500/30 rounded text-white text-sm"
+              >
+                {PROTOCOLS.map((p) => (
+                  <option key={p} value={p}>
+                    {PROTOCOL_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={rule.entry_port}
+                onChange={(e) => updateRule(index, { entry_port: Number(e.target.value) })}
+                className="w-24 px-2 py-1.5 bg-slate-800 border border-cyan-500/30 rounded text-white text-sm"
+              />
+              <span className="text-slate-400">→</span>
+              <select
+                value={rule.target_protocol}
+                onChange={(e) => updateRule(index, { target_protocol: e.target.value as LoadBalancerProtocol })}
+                className="px-2 py-1.5 bg-slate-800 border border-cyan-500/30 rounded text-white text-sm"
+              >
+                {PROTOCOLS.filter((p) => (rule.entry_protocol === 'tcp') === (p === 'tcp')).map((p) => (
+                  <option key={p} value={p}>
+                    {PROTOCOL_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={rule.target_port}
+                onChange={(e) => updateRule(index, { target_port: Number(e.target.value) })}
+                className="w-24 px-2 py-1.5 bg-slate-800 border border-cyan-500/30 rounded text-white text-sm"
+              />
+              {rule.entry_protocol === 'https' && rule.target_protocol === 'https' && (
+                <label className="flex items-center gap-1 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={rule.tls_passthrough}
+                    onChange={(e) => updateRule(index, { tls_passthrough: e.target.checked })}
+                  />
+                  TLS passthrough
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={() => setRules((current) => current.filter((_, i) => i !== index))}
+                className="ml-auto p-1.5 text-red-400 hover:bg-red-500/20 rounded transition"
+                title="Remove rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        {(rulesError || errors.forwarding_rules) && (
+          <p className="text-xs text-red-400 mt-1">{rulesError ?? errors.forwarding_rules}</p>
+        )}
+        <p className="text-xs text-slate-500 mt-1">
+          HTTPS rules without passthrough terminate TLS on the load balancer with a managed certificate.
+        </p>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-white mb-2">Health check</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Protocol</label>
+            <select
+              value={healthCheck.protocol}
+              onChange={(e) => setHealthCheck({ ...healthCheck, protocol: e.target.value as LoadBalancerProtocol })}
+              className={inputClass}
+            >
+              {PROTOCOLS.map((p) => (
+                <option key={p} value={p}>
+                  {PROTOCOL_LABELS[p]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Port</label>
+            <input
+              type="number"
+              value={healthCheck.port}
+              onChange={(e) => setHealthCheck({ ...healthCheck, port: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs text-slate-400 mb-1">Path</label>
+            <input
+              type="text"
+              value={healthCheck.path}
+              onChange={(e) => setHealthCheck({ ...healthCheck, path: e.target.value })}
+              disabled={healthCheck.protocol === 'tcp'}
+              className={`${inputClass} font-mono disabled:opacity-60`}
+            />
+          </div>
+          {(
+            [
+              ['interval_seconds', 'Interval (s)'],
+              ['timeout_seconds', 'Timeout (s)'],
+              ['healthy_threshold', 'Healthy after'],
+              ['unhealthy_threshold', 'Unhealthy after'],
+            ] as const
+          ).map(([field, label]) => (
+            <div key={field}>
+              <label className="block text-xs text-slate-400 mb-1">{label}</label>
+              <input
+                type="number"
+                value={healthCheck[field]}
+                onChange={(e) => setHealthCheck({ ...healthCheck, [field]: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+        {(healthError || errors.health_check) && (
+          <p className="text-xs text-red-400 mt-1">{healthError ?? errors.health_check}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-white mb-2">
+          <input type="checkbox" checked={sticky.enabled} onChange={(e) => setSticky({ ...sticky, enabled: e.target.checked })} />
+          Sticky sessions
+        </label>
+        {sticky.enabled && (
+          <div className="grid grid-cols-2 gap-3 max-w-md">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Cookie name</label>
+              <input
+                type="text"
+                value={sticky.cookie_name}
+                onChange={(e) => setSticky({ ...sticky, cookie_name: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Cookie lifetime (s)</label>
+              <input
+                type="number"
+                value={sticky.cookie_ttl_seconds}
+                onChange={(e) => setSticky({ ...sticky, cookie_ttl_seconds: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+        {(stickyError || errors.sticky_sessions) && (
+          <p className="text-xs text-red-400 mt-1">{stickyError ?? errors.sticky_sessions}</p>
+        )}
+      </div>
+
+      {!loadBalancer && (
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">Backends</h4>
+          {regionServers.length === 0 ? (
+            <p className="text-sm text-slate-400">No servers in {regionName(region)} yet; you can add backends later.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {regionServers.map((server) => (
+                <label key={server.id} className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={serverIds.includes(server.id)}
+                    onChange={(e) =>
+                      setServerIds((current) =>
+                        e.target.checked ? [...current, server.id] : current.filter((id) => id !== server.id)
+                      )
+                    }
+                  />
+                  {server.server_name} <span className="text-slate-500">({server.ip_address ?? 'pending'})</span>
+                </label>
+              ))}
+            </div>
+          )}
+          {errors.server_ids && <p className="text-xs text-red-400 mt-1">{errors.server_ids}</p>}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!name.trim() || !!rulesError || !!healthError || !!stickyError || saving}
+          className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:shadow-lg hover:shadow-cyan-500/30 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : loadBalancer ? 'Save Changes' : `Create for ${formatCurrency(plan.monthly_price)}/month`}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,78 @@
+import { Link } from 'react-router-dom';
+import { CheckCircle, Shuffle, Network, Server } from 'lucide-react';
+import { LOAD_BALANCER_SIZES } from '../../lib/loadBalancers';
+
+const FEATURES = [
+  'HTTP, HTTPS and TCP forwarding',
+  'Managed TLS certificates',
+  'Health checks with automatic failover',
+  'Cookie-based sticky sessions',
+  'Dedicated static IPv4 address',
+];
+
+export function LoadBalancerPlans() {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {LOAD_BALANCER_SIZES.map((size, index) => (
+        <div
+          key={size.slug}
+          className={`bg-slate-900 rounded-2xl shadow-lg overflow-hidden transition-all transform hover:scale-105 hover:shadow-2xl hover:shadow-cyan-500/30 ${
+            index === 1 ? 'ring-2 ring-cyan-500 border-2 border-cyan-500' : 'border-2 border-cyan-500'
+          }`}
+        >
+          {index === 1 && (
+            <div className="bg-gradient-to-r from-cyan-600 to-teal-600 text-white text-center py-2.5 text-sm font-bold">
+              ⭐ MOST POPULAR
+            </div>
+          )}
+          <div className="p-6">
+            <h3 className="text-2xl font-bold text-white mb-4">LB {size.name}</h3>
+
+            <div className="mb-6">
+              <div className="flex items-baseline">
+                <span className="text-4xl font-bold text-white">₹{size.monthly_price.toLocaleString()}</span>
+                <span className="text-slate-400 ml-2">/month</span>
+              </div>
+              <p className="text-sm text-slate-400 mt-2">Billed monthly, no term commitment</p>
+            </div>
+
+            <div className="space-y-3 mb-6 border-t border-b border-cyan-500/30 py-4">
+              <div className="flex items-center text-sm">
+                <Shuffle className="h-4 w-4 text-cyan-400 mr-2 flex-shrink-0" />
+                <span className="font-semibold text-white">{size.max_connections.toLocaleString()} concurrent connections</span>
+              </div>
+              <div className="flex items-center text-sm">
+                <Network className="h-4 w-4 text-purple-600 mr-2 flex-shrink-0" />
+                <span className="font-semibold text-white">{size.max_rules} forwarding rules</span>
+              </div>
+              <div className="flex items-center text-sm">
+                <Server className="h-4 w-4 text-green-600 mr-2 flex-shrink-0" />
+                <span className="font-semibold text-white">Up to {size.max_backends} backend servers</span>
+              </div>
+            </div>
+
+            <ul className="space-y-2 mb-6">
+              {FEATURES.map((feature) => (
+                <li key={feature} className="flex items-start text-sm">
+                  <CheckCircle className="h-4 w-4 text-green-500 mr-2 flex-shrink-0 mt-0.5" />
+                  <span className="text-slate-300">{feature}</span>
+                </li>
+              ))}
+            </ul>
+
+            <Link
+              to="/dashboard/load-balancers"
+              className={`block w-full text-center px-6 py-3.5 rounded-lg font-bold transition-all ${
+                index === 1
+                  ? 'bg-gradient-to-r from-cyan-600 to-teal-600 text-white hover:from-cyan-500 hover:to-teal-500 shadow-md'
+                  : 'bg-slate-800 text-cyan-400 hover:bg-slate-700 border-2 border-cyan-500'
+              }`}
+            >
+              Deploy Now
+            </Link>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
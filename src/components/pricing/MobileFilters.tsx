@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { ChevronDown, Filter } from 'lucide-react';
-
-type BillingCycle = 'monthly' | 'quarterly' | 'semiannually' | 'annually' | 'biennially' | 'triennially';
+import { REGIONS, regionName } from '../../lib/regions';
+import { CatalogCycle } from '../../types';
 
 interface PlanType {
   id: string;
@@ -11,12 +11,14 @@ interface PlanType {
 }
 
 interface MobileFiltersProps {
-  billingCycle: BillingCycle;
-  setBillingCycle: (cycle: BillingCycle) => void;
+  billingCycle: CatalogCycle;
+  setBillingCycle: (cycle: CatalogCycle) => void;
   selectedType: string;
   setSelectedType: (type: string) => void;
   planTypes: PlanType[];
-  billingCycles: Array<{ id: BillingCycle; name: string; discount: number }>;
+  billingCycles: Array<{ id: CatalogCycle; name: string; discount: number }>;
+  region: string;
+  setRegion: (region: string) => void;
 }
 
 export function MobileFilters({
@@ -26,6 +28,8 @@ export function MobileFilters({
   setSelectedType,
   planTypes,
   billingCycles,
+  region,
+  setRegion,
 }: MobileFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -45,7 +49,7 @@ export function MobileFilters({
               {selectedPlanType?.name}
             </div>
             <div className="text-xs text-slate-400">
-              {selectedCycle?.name} • Save {selectedCycle?.discount}%
+              {selectedCycle?.name} • Save {selectedCycle?.discount}% • {regionName(region)}
             </div>
           </div>
         </div>
@@ -109,6 +113,30 @@ export function MobileFilters({
               ))}
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-white mb-2">
+              Region
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {REGIONS.map((r) => (
+                <button
+                  key={r.slug}
+                  onClick={() => {
+                    setRegion(r.slug);
+                    setIsExpanded(false);
+                  }}
+                  className={`px-4 py-3 rounded-lg font-medium text-sm transition-all ${
+                    region === r.slug
+                      ? 'bg-cyan-600 text-white shadow-md'
+                      : 'bg-slate-800 text-slate-300 border border-cyan-500/30'
+                  }`}
+                >
+                  {r.name}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,13 @@
+import { ComponentType } from 'react';
+import { Database, HardDrive, Server, Zap } from 'lucide-react';
+
+// lucide icons for the `icon` column of plan_types
+const PLAN_TYPE_ICONS: Record<string, ComponentType<{ className?: string }>> = {
+  server: Server,
+  zap: Zap,
+  database: Database,
+  'hard-drive': HardDrive,
+};
+
+// Icons the backend names that we don't ship fall back to a plain server
+export const planTypeIcon = (icon: string) => PLAN_TYPE_ICONS[icon] ?? Server;
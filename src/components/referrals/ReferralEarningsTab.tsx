@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { TrendingUp, Users } from 'lucide-react';
-import { getReferralEarnings, formatCurrency } from '../../lib/referral';
+import { formatCurrency } from '../../lib/referral';
+import { referralRepository } from '../../repositories';
 import { ReferralEarning } from '../../types';
 
 export function ReferralEarningsTab() {
@@ -13,7 +14,7 @@ export function ReferralEarningsTab() {
 
   const loadEarnings = async () => {
     try {
-      const data = await getReferralEarnings();
+      const data = await referralRepository.getEarnings();
       setEarnings(data);
     } catch (error) {
       console.error('Failed to load earnings:', error);
@@ -44,7 +45,7 @@ export function ReferralEarningsTab() {
 
   return (
     <div className="space-y-4">
-      {earnings.map((earning: any) => (
+      {earnings.map((earning) => (
         <div
           key={earning.id}
           className="bg-slate-800 rounded-lg p-4 border border-cyan-500/30"
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { DollarSign, Plus, CreditCard, Building2, Smartphone } from 'lucide-react';
-import { getReferralPayouts, requestPayout, formatCurrency, getStatusColor } from '../../lib/referral';
-import { ReferralPayout, ReferralStats, PaymentMethod } from '../../types';
+import { formatCurrency, getStatusColor } from '../../lib/referral';
+import { referralRepository } from '../../repositories';
+import { ReferralPayout, ReferralStats, PaymentMethod, PayoutPaymentDetails } from '../../types';
 
 interface ReferralPayoutsTabProps {
   stats: ReferralStats | null;
@@ -28,7 +29,7 @@ export function ReferralPayoutsTab({ stats, onPayoutCreated }: ReferralPayoutsTa
 
   const loadPayouts = async () => {
     try {
-      const data = await getReferralPayouts();
+      const data = await referralRepository.getPayouts();
       setPayouts(data);
     } catch (error) {
       console.error('Failed to load payouts:', error);
@@ -60,7 +61,7 @@ export function ReferralPayoutsTab({ stats, onPayoutCreated }: ReferralPayoutsTa
 
     setProcessing(true);
     try {
-      const paymentDetails: any = {};
+      const paymentDetails: PayoutPaymentDetails = {};
 
       if (paymentMethod === 'bank_transfer') {
         paymentDetails.bank_account_details = {
@@ -75,7 +76,7 @@ export function ReferralPayoutsTab({ stats, onPayoutCreated }: ReferralPayoutsTa
         paymentDetails.paypal_email = paypalEmail;
       }
 
-      const result = await requestPayout(stats.available_balance, paymentMethod, paymentDetails);
+      const result = await referralRepository.requestPayout(stats.available_balance, paymentMethod, paymentDetails);
 
       if (result.success) {
         setShowRequestForm(false);
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { backupsApi } from '../../api/backups';
+import { toApiError } from '../../api/errors';
+import { formatCurrency } from '../../lib/referral';
+import { planPrice } from '../../lib/proration';
+import { regionName } from '../../lib/regions';
+import { useCatalogStore } from '../../store/catalogStore';
+import { Snapshot, UserServer } from '../../types';
+
+interface CreateFromSnapshotModalProps {
+  server: UserServer;
+  snapshot: Snapshot;
+  onClose: () => void;
+}
+
+export function CreateFromSnapshotModal({ server, snapshot, onClose }: CreateFromSnapshotModalProps) {
+  const navigate = useNavigate();
+  const [serverName, setServerName] = useState(`${server.server_name} (copy)`);
+  const [hostname, setHostname] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { catalog, fetchCatalog } = useCatalogStore();
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  const cycle = server.billing_cycle ?? 'monthly';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const created = await backupsApi.cloneSnapshot(server.id, snapshot.id, { server_name: serverName, hostname });
+      navigate(`/dashboard/servers/${created.id}`);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setFieldErrors(apiError.fieldErrors);
+      if (Object.keys(apiError.fieldErrors).length === 0) setError(apiError.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-lg w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white">New Server from Snapshot</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400 mb-4">
+          Creates a new {server.plan?.name ?? 'server'} in {regionName(server.region)} with the disk from "{snapshot.name}" ({snapshot.os_type}).
+          {server.plan && ` It is billed at ${formatCurrency(planPrice(catalog, server.plan, cycle, server.region))}/${cycle === 'annual' ? 'year' : 'month'}.`}
+        </p>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-300 mb-2">Server Name</label>
+            <input
+              type="text"
+              value={serverName}
+              onChange={(e) => setServerName(e.target.value)}
+              className={inputClass}
+              required
+            />
+            {fieldErrors.server_name && <p className="text-sm text-red-400 mt-1">{fieldErrors.server_name}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-300 mb-2">Hostname</label>
+            <input
+              type="text"
+              value={hostname}
+              onChange={(e) => setHostname(e.target.value)}
+              placeholder="web-02.example.com"
+              className={inputClass}
+              required
+            />
+            {fieldErrors.hostname && <p className="text-sm text-red-400 mt-1">{fieldErrors.hostname}</p>}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Creating...' : 'Create Server'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState, useMemo } from 'react';
+import { OsImage, OsImageCategory } from '../../types';
+
+interface ImagePickerProps {
+  images: OsImage[];
+  loading: boolean;
+  selectedId: string;
+  onSelect: (imageId: string) => void;
+  // Size of the server the image goes on; images needing more are shown disabled
+  ramGb: number;
+  storageGb: number;
+}
+
+// Distributions and one-click applications, as used by both deploy and rebuild
+export function ImagePicker({ images, loading, selectedId, onSelect, ramGb, storageGb }: ImagePickerProps) {
+  const [category, setCategory] = useState<OsImageCategory>('distribution');
+
+  // Distributions are grouped by family so each distro shows once with a version picker
+  const families = useMemo(() => {
+    const groups = new Map<string, OsImage[]>();
+    for (const image of images.filter((i) => i.category === 'distribution')) {
+      groups.set(image.family, [...(groups.get(image.family) ?? []), image]);
+    }
+    return [...groups.values()];
+  }, [images]);
+
+  const applications = images.filter((i) => i.category === 'application');
+  const fits = (image: OsImage) =>
+    (!image.min_ram_gb || ramGb >= image.min_ram_gb) && (!image.min_storage_gb || storageGb >= image.min_storage_gb);
+
+  const renderImageCard = (image: OsImage, versions?: OsImage[]) => {
+    const selected = versions ? versions.some((v) => v.id === selectedId) : image.id === selectedId;
+    const disabled = !fits(image);
+    return (
+      <div
+        key={image.id}
+        onClick={() => !disabled && onSelect(versions ? (versions.find((v) => v.id === selectedId) ?? image).id : image.id)}
+        className={`p-4 rounded-lg border-2 transition ${
+          disabled
+            ? 'border-slate-700 opacity-50 cursor-not-allowed'
+            : selected
+              ? 'border-cyan-400 bg-cyan-500/10 cursor-pointer'
+              : 'border-cyan-500/30 hover:border-cyan-500/60 cursor-pointer'
+        }`}
+      >
+        <p className="font-semibold text-white">{image.name}</p>
+        {versions ? (
+          <select
+            value={versions.some((v) => v.id === selectedId) ? selectedId : image.id}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => onSelect(e.target.value)}
+            className="mt-2 w-full px-2 py-1 bg-slate-800 border border-cyan-500/30 rounded text-sm text-white"
+          >
+            {versions.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.version}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-xs text-slate-400 mt-1">{image.description}</p>
+        )}
+        {disabled && <p className="text-xs text-orange-400 mt-2">Needs at least {image.min_ram_gb} GB RAM</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(['distribution', 'application'] as OsImageCategory[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setCategory(option)}
+            className={`px-4 py-2 rounded-lg font-semibold text-sm transition ${
+              category === option ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            {option === 'distribution' ? 'Distributions' : 'Applications'}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-slate-400 py-8 text-center">Loading images...</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+          {category === 'distribution'
+            ? families.map((versions) => renderImageCard(versions[0], versions))
+            : applications.map((image) => renderImageCard(image))}
+        </div>
+      )}
+    </div>
+  );
+}
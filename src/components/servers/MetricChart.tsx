@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { MetricsPoint, MetricsRange } from '../../types';
+
+export type MetricKey = Exclude<keyof MetricsPoint, 'timestamp'>;
+
+export interface MetricSeries {
+  key: MetricKey;
+  label: string;
+  color: string;
+}
+
+interface MetricChartProps {
+  title: string;
+  unit: string;
+  range: MetricsRange;
+  points: MetricsPoint[];
+  series: MetricSeries[];
+  // Fixed ceiling for percentages; rates scale to the largest sample
+  max?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+const formatTime = (value: string, range: MetricsRange) =>
+  new Date(value).toLocaleString(
+    'en-IN',
+    range === '1h' || range === '24h'
+      ? { hour: '2-digit', minute: '2-digit' }
+      : { day: 'numeric', month: 'short', ...(range === '7d' ? { hour: '2-digit' } : {}) }
+  );
+
+// Round the y-axis up to a readable ceiling, e.g. 7.3 -> 8, 43 -> 50
+const niceCeiling = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+export function MetricChart({ title, unit, range, points, series, max }: MetricChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const ceiling = max ?? niceCeiling(Math.max(0, ...points.flatMap((p) => series.map((s) => p[s.key]))));
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * WIDTH : WIDTH / 2);
+  const y = (value: number) => HEIGHT - (value / ceiling) * HEIGHT;
+  const shown = points[hovered ?? points.length - 1];
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    setHovered(Math.min(points.length - 1, Math.max(0, Math.round(ratio * (points.length - 1)))));
+  };
+
+  return (
+    <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm font-semibold text-white">{title}</h4>
+        {shown && (
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            {series.map((s) => (
+              <span key={s.key} className="flex items-center gap-1 text-slate-300">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                {s.label} <span className="text-white font-semibold">{shown[s.key]} {unit}</span>
+              </span>
+            ))}
+            <span className="text-slate-500">{formatTime(shown.timestamp, range)}</span>
+          </div>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-12">No data for this period yet</p>
+      ) : (
+        <div className="flex gap-2">
+          <div className="flex flex-col justify-between text-[10px] text-slate-500 text-right w-10 h-40">
+            <span>
+              {ceiling} {unit}
+            </span>
+            <span>0</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-40 cursor-crosshair"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHovered(null)}
+            >
+              {[0.25, 0.5, 0.75].map((fraction) => (
+                <line
+                  key={fraction}
+                  x1={0}
+                  x2={WIDTH}
+                  y1={HEIGHT * fraction}
+                  y2={HEIGHT * fraction}
+                  stroke="#334155"
+                  strokeDasharray="4 4"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {series.map((s) => (
+                <polyline
+                  key={s.key}
+                  points={points.map((p, i) => `${x(i)},${y(p[s.key])}`).join(' ')}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {hovered !== null && (
+                <line
+                  x1={x(hovered)}
+                  x2={x(hovered)}
+                  y1={0}
+                  y2={HEIGHT}
+                  stroke="#94a3b8"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+            <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+              <span>{formatTime(points[0].timestamp, range)}</span>
+              <span>{formatTime(points[points.length - 1].timestamp, range)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import { X, AlertTriangle, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
+import { imagesApi, imageLabel } from '../../api/images';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { useServersStore } from '../../store/serversStore';
+import { AccessMethod, accessError } from '../../lib/rootPassword';
+import { OsImage, UserServer } from '../../types';
+import { ImagePicker } from './ImagePicker';
+import { RootAccessFields } from './RootAccessFields';
+
+interface RebuildWizardProps {
+  server: UserServer;
+  onClose: () => void;
+}
+
+type WizardStep = 'image' | 'access' | 'confirm' | 'progress';
+
+const STEPS: { id: Exclude<WizardStep, 'progress'>; label: string }[] = [
+  { id: 'image', label: 'Image' },
+  { id: 'access', label: 'Access' },
+  { id: 'confirm', label: 'Confirm' },
+];
+
+export function RebuildWizard({ server, onClose }: RebuildWizardProps) {
+  const rebuildServer = useServersStore((state) => state.rebuildServer);
+  const job = useServersStore((state) => state.jobs[server.id]);
+
+  const [step, setStep] = useState<WizardStep>('image');
+  const [images, setImages] = useState<OsImage[]>([]);
+  const [loadingImages, setLoadingImages] = useState(true);
+  const [imageId, setImageId] = useState('');
+  const [accessMethod, setAccessMethod] = useState<AccessMethod>(server.ssh_key_ids?.length ? 'ssh_key' : 'password');
+  const [rootPassword, setRootPassword] = useState('');
+  const [sshKeyIds, setSshKeyIds] = useState<string[]>(server.ssh_key_ids ?? []);
+  const [confirmName, setConfirmName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    imagesApi
+      .list({ signal: controller.signal })
+      .then(setImages)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load images'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingImages(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const selectedImage = images.find((i) => i.id === imageId);
+  const accessInvalid = !!accessError(accessMethod, rootPassword, sshKeyIds);
+
+  const handleSubmit = async () => {
+    if (!selectedImage) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      await rebuildServer(server.id, {
+        image_id: selectedImage.id,
+        ...(accessMethod === 'password' ? { root_password: rootPassword } : { ssh_key_ids: sshKeyIds }),
+      });
+      setStep('progress');
+    } catch (err) {
+      const apiError = toApiError(err);
+      setError(Object.values(apiError.fieldErrors)[0] ?? apiError.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white';
+  const primaryButton =
+    'px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed';
+  const secondaryButton = 'px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-3xl w-full my-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-white">Rebuild {server.server_name}</h3>
+          {step !== 'progress' && (
+            <button onClick={onClose} className="text-slate-400 hover:text-white">
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+
+        {step !== 'progress' && (
+          <div className="flex items-center gap-2 mb-6 text-sm">
+            {STEPS.map((s, index) => (
+              <div key={s.id} className="flex items-center gap-2">
+                {index > 0 && <span className="text-slate-600">›</span>}
+                <span className={step === s.id ? 'text-cyan-400 font-semibold' : 'text-slate-500'}>
+                  {index + 1}. {s.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {step === 'image' && (
+          <div className="space-y-4">
+            <ImagePicker
+              images={images}
+              loading={loadingImages}
+              selectedId={imageId}
+              onSelect={setImageId}
+              ramGb={server.ram_gb}
+              storageGb={server.storage_gb}
+            />
+
+            <p className="text-sm text-slate-400">
+              Currently running: <span className="text-white">{server.os_type}</span>
+            </p>
+
+            <div className="flex justify-end gap-3">
+              <button onClick={onClose} className={secondaryButton}>
+                Cancel
+              </button>
+              <button onClick={() => setStep('access')} disabled={!selectedImage} className={primaryButton}>
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'access' && (
+          <div className="space-y-4">
+            <RootAccessFields
+              method={accessMethod}
+              onMethodChange={setAccessMethod}
+              rootPassword={rootPassword}
+              onRootPasswordChange={setRootPassword}
+              sshKeyIds={sshKeyIds}
+              onSshKeyIdsChange={setSshKeyIds}
+              sshKeyHint="Password login for root is disabled; the selected keys replace any installed before."
+            />
+
+            <div className="flex justify-between gap-3">
+              <button onClick={() => setStep('image')} className={secondaryButton}>
+                Back
+              </button>
+              <button onClick={() => setStep('confirm')} disabled={accessInvalid} className={primaryButton}>
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'confirm' && selectedImage && (
+          <div className="space-y-4">
+            <div className="flex gap-3 bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+              <AlertTriangle className="h-6 w-6 text-red-400 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-semibold text-red-400 mb-1">All data on this server will be permanently erased</p>
+                <p className="text-slate-300">
+                  The disk is wiped and {imageLabel(selectedImage)} is installed in place of {server.os_type}. The IP
+                  address and plan stay the same. This cannot be undone.
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-300 mb-2">
+                Type <span className="font-mono text-white">{server.server_name}</span> to confirm
+              </label>
+              <input
+                type="text"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex justify-between gap-3">
+              <button onClick={() => setStep('access')} className={secondaryButton}>
+                Back
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={confirmName !== server.server_name || submitting}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-500 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Starting rebuild...' : 'Rebuild Server'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'progress' && job && (
+          <div className="space-y-6 text-center">
+            {job.status === 'completed' ? (
+              <CheckCircle className="h-14 w-14 text-green-400 mx-auto" />
+            ) : job.status === 'failed' ? (
+              <XCircle className="h-14 w-14 text-red-400 mx-auto" />
+            ) : (
+              <RefreshCw className="h-14 w-14 text-cyan-400 mx-auto animate-spin" />
+            )}
+            <div>
+              <p className="text-white font-semibold">
+                {job.status === 'completed'
+                  ? 'Rebuild complete'
+                  : job.status === 'failed'
+                    ? 'Rebuild failed'
+                    : job.message || 'Rebuilding...'}
+              </p>
+              {selectedImage && <p className="text-sm text-slate-400 mt-1">{imageLabel(selectedImage)}</p>}
+            </div>
+            <div className="w-full bg-slate-800 rounded-full h-3 overflow-hidden">
+              <div
+                className={`h-3 transition-all duration-500 ${job.status === 'failed' ? 'bg-red-500' : 'bg-gradient-to-r from-cyan-500 to-teal-500'}`}
+                style={{ width: `${job.progress}%` }}
+              />
+            </div>
+            {job.status === 'failed' && job.message && <p className="text-sm text-red-400">{job.message}</p>}
+            <div className="flex justify-center">
+              <button onClick={onClose} className={secondaryButton}>
+                {job.status === 'completed' || job.status === 'failed' ? 'Close' : 'Continue in background'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
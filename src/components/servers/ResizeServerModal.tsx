@@ -0,0 +1,216 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { X, ArrowUpCircle, ArrowDownCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { plansApi } from '../../api/plans';
+import { serversApi } from '../../api/servers';
+import { getErrorMessage } from '../../api/errors';
+import { formatCurrency } from '../../lib/referral';
+import { planPrice, quoteResize, resizeOptions } from '../../lib/proration';
+import { isPlanAvailable, regionName } from '../../lib/regions';
+import { useCatalogStore } from '../../store/catalogStore';
+import { HostingPlan, Order, UserServer } from '../../types';
+
+interface ResizeServerModalProps {
+  server: UserServer;
+  onClose: () => void;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function ResizeServerModal({ server, onClose }: ResizeServerModalProps) {
+  const [plans, setPlans] = useState<HostingPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [order, setOrder] = useState<Order | null>(null);
+  const { catalog, fetchCatalog } = useCatalogStore();
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    plansApi
+      .list({ signal: controller.signal })
+      .then(setPlans)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load plans'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const currentPlan = plans.find((p) => p.id === server.plan_id) ?? server.plan;
+  // A server can't change data center, so only plans stocked in its region are offered
+  const options = useMemo(
+    () => (currentPlan ? resizeOptions(plans, currentPlan).filter((p) => isPlanAvailable(server.region, p.slug)) : []),
+    [plans, currentPlan, server.region]
+  );
+  const selected = options.find((p) => p.id === selectedId);
+  const quote = currentPlan && selected ? quoteResize(catalog, server, currentPlan, selected) : null;
+  const cycle = server.billing_cycle ?? 'monthly';
+  const cycleLabel = cycle === 'annual' ? 'year' : 'month';
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      setOrder(await serversApi.resize(server.id, selected.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create resize order'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-3xl w-full my-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-white">Resize {server.server_name}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {order ? (
+          <div className="text-center space-y-4 py-4">
+            <CheckCircle className="h-14 w-14 text-green-400 mx-auto" />
+            <div>
+              <p className="text-white font-semibold">Resize order {order.order_number} created</p>
+              <p className="text-sm text-slate-400 mt-1">
+                {order.amount > 0
+                  ? `${formatCurrency(order.amount)} is due now. `
+                  : `${formatCurrency(-order.amount)} will be credited to your account. `}
+                The server moves to {order.plan?.name} in our next maintenance window; we will email you before it
+                restarts.
+              </p>
+            </div>
+            <div className="flex justify-center gap-3">
+              <Link
+                to="/dashboard/billing"
+                className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold"
+              >
+                Go to Billing
+              </Link>
+              <button onClick={onClose} className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold">
+                Close
+              </button>
+            </div>
+          </div>
+        ) : loading ? (
+          <p className="text-slate-400 text-center py-8">Loading plans...</p>
+        ) : !currentPlan ? (
+          <p className="text-slate-400 text-center py-8">This server's plan is no longer available for resizing.</p>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-slate-400">
+              Currently on <span className="text-white font-semibold">{currentPlan.name}</span> ({currentPlan.vcpu} vCPU,{' '}
+              {currentPlan.ram_gb} GB RAM, {currentPlan.storage_gb} GB SSD) at {formatCurrency(planPrice(catalog, currentPlan, cycle, server.region))}/
+              {cycleLabel}.
+            </p>
+
+            {options.length === 0 ? (
+              <p className="text-slate-400 text-center py-4">There are no other plans in this family available in {regionName(server.region)}.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                {options.map((plan) => {
+                  const upgrade = plan.monthly_price > currentPlan.monthly_price;
+                  const planQuote = quoteResize(catalog, server, currentPlan, plan);
+                  return (
+                    <button
+                      key={plan.id}
+                      onClick={() => setSelectedId(plan.id)}
+                      className={`p-4 rounded-lg border-2 text-left transition ${
+                        selectedId === plan.id ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-500/30 hover:border-cyan-500/60'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-bold text-white">{plan.name}</span>
+                        {upgrade ? (
+                          <ArrowUpCircle className="h-5 w-5 text-green-400" />
+                        ) : (
+                          <ArrowDownCircle className="h-5 w-5 text-orange-400" />
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        {plan.vcpu} vCPU · {plan.ram_gb} GB RAM · {plan.storage_gb} GB SSD
+                      </p>
+                      <p className="text-sm text-white mt-2">
+                        {formatCurrency(planPrice(catalog, plan, cycle, server.region))}/{cycleLabel}
+                      </p>
+                      <p className={`text-xs mt-1 ${planQuote.amount > 0 ? 'text-cyan-400' : 'text-green-400'}`}>
+                        {planQuote.amount > 0
+                          ? `${formatCurrency(planQuote.amount)} due now`
+                          : `${formatCurrency(-planQuote.amount)} credit`}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {selected && quote && (
+              <div className="bg-slate-950 rounded-lg border border-cyan-500/30 p-4 space-y-2 text-sm">
+                <p className="text-slate-400">
+                  {quote.days_remaining} of {quote.days_in_period} days left in the current period (
+                  {formatDate(quote.period_start)} – {formatDate(quote.period_end)})
+                </p>
+                <div className="flex justify-between text-slate-300">
+                  <span>Unused time on {currentPlan.name}</span>
+                  <span>-{formatCurrency(quote.unused_credit)}</span>
+                </div>
+                <div className="flex justify-between text-slate-300">
+                  <span>Remaining time on {selected.name}</span>
+                  <span>{formatCurrency(quote.new_plan_charge)}</span>
+                </div>
+                <div className="flex justify-between text-white font-semibold pt-2 border-t border-cyan-500/30">
+                  <span>{quote.amount > 0 ? 'Due now' : 'Credit to your account'}</span>
+                  <span>{formatCurrency(Math.abs(quote.amount))}</span>
+                </div>
+                <p className="text-slate-400 pt-1">
+                  From {formatDate(quote.period_end)} you pay {formatCurrency(planPrice(catalog, selected, cycle, server.region))}/{cycleLabel}.
+                </p>
+              </div>
+            )}
+
+            {selected && selected.storage_gb < server.storage_gb && (
+              <div className="flex gap-3 bg-orange-500/10 border border-orange-500/30 rounded-lg p-4 text-sm">
+                <AlertTriangle className="h-5 w-5 text-orange-400 flex-shrink-0" />
+                <p className="text-slate-300">
+                  The disk shrinks from {server.storage_gb} GB to {selected.storage_gb} GB. Everything on it must fit
+                  in the smaller disk; our team will check with you before applying the change.
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button onClick={onClose} className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold">
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={!selected || submitting}
+                className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Creating order...' : 'Resize Server'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
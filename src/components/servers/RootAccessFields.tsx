@@ -0,0 +1,82 @@
+import { KeyRound, Lock } from 'lucide-react';
+import { AccessMethod, accessError, generatePassword } from '../../lib/rootPassword';
+import { SshKeyPicker } from '../sshKeys/SshKeyPicker';
+
+interface RootAccessFieldsProps {
+  method: AccessMethod;
+  onMethodChange: (method: AccessMethod) => void;
+  rootPassword: string;
+  onRootPasswordChange: (password: string) => void;
+  sshKeyIds: string[];
+  onSshKeyIdsChange: (ids: string[]) => void;
+  sshKeyHint: string;
+}
+
+// Root password or SSH keys for a freshly installed image
+export function RootAccessFields({
+  method,
+  onMethodChange,
+  rootPassword,
+  onRootPasswordChange,
+  sshKeyIds,
+  onSshKeyIdsChange,
+  sshKeyHint,
+}: RootAccessFieldsProps) {
+  const error = accessError(method, rootPassword, sshKeyIds);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        {(
+          [
+            { id: 'password', label: 'Root password', icon: Lock },
+            { id: 'ssh_key', label: 'SSH key', icon: KeyRound },
+          ] as const
+        ).map((option) => (
+          <button
+            key={option.id}
+            onClick={() => onMethodChange(option.id)}
+            className={`p-4 rounded-lg border-2 flex items-center gap-3 transition ${
+              method === option.id ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-500/30 hover:border-cyan-500/60'
+            }`}
+          >
+            <option.icon className="h-5 w-5 text-cyan-400" />
+            <span className="font-semibold text-white">{option.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {method === 'password' ? (
+        <div>
+          <label className="block text-sm font-semibold text-slate-300 mb-2">Root Password</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={rootPassword}
+              onChange={(e) => onRootPasswordChange(e.target.value)}
+              className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white font-mono"
+              autoComplete="new-password"
+            />
+            <button
+              onClick={() => onRootPasswordChange(generatePassword())}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold whitespace-nowrap"
+            >
+              Generate
+            </button>
+          </div>
+          <p className="text-xs text-slate-400 mt-2">
+            Save this password now; it is not shown again and we will not email it.
+          </p>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-semibold text-slate-300 mb-2">SSH Keys</label>
+          <SshKeyPicker selected={sshKeyIds} onChange={onSshKeyIdsChange} />
+          <p className="text-xs text-slate-400 mt-2">{sshKeyHint}</p>
+        </div>
+      )}
+
+      {method === 'password' && rootPassword && error && <p className="text-sm text-orange-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { History } from 'lucide-react';
+import { serversApi } from '../../api/servers';
+import { getErrorMessage } from '../../api/errors';
+import { ServerActivity, UserServer } from '../../types';
+
+interface ServerActivityTabProps {
+  server: UserServer;
+}
+
+const STATUS_COLORS: Record<ServerActivity['status'], string> = {
+  success: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  pending: 'bg-yellow-500/20 text-yellow-400',
+};
+
+export function ServerActivityTab({ server }: ServerActivityTabProps) {
+  const [activity, setActivity] = useState<ServerActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Reload whenever the server changes state so new power events show up
+  useEffect(() => {
+    const controller = new AbortController();
+    serversApi
+      .activity(server.id, { signal: controller.signal })
+      .then((data) => {
+        setActivity(data);
+        setError('');
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load activity'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [server.id, server.status, server.last_reboot]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-slate-400">Loading activity...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>;
+  }
+
+  if (activity.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <History className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+        <p className="text-slate-400">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-cyan-500/20">
+      {activity.map((entry) => (
+        <div key={entry.id} className="py-4 flex items-start justify-between">
+          <div>
+            <p className="font-medium text-white">{entry.message}</p>
+            <p className="text-sm text-slate-400 mt-1">
+              {new Date(entry.created_at).toLocaleString()}
+              {entry.actor_email && ` • ${entry.actor_email}`}
+            </p>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_COLORS[entry.status]}`}>
+            {entry.action}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Archive, Camera, RotateCcw, Copy, Trash2, CalendarClock } from 'lucide-react';
+import { addOnsApi, addOnMonthlyPrice } from '../../api/addOns';
+import { backupsApi, BACKUP_RETENTION_OPTIONS, BackupPolicyUpdate } from '../../api/backups';
+import { getErrorMessage } from '../../api/errors';
+import { formatCurrency } from '../../lib/referral';
+import { useServersStore } from '../../store/serversStore';
+import { AddOn, BackupFrequency, BackupPolicy, Snapshot, UserServer } from '../../types';
+import { CreateFromSnapshotModal } from './CreateFromSnapshotModal';
+
+interface ServerBackupsTabProps {
+  server: UserServer;
+}
+
+// How often the list refreshes while a snapshot is still being taken
+const SNAPSHOT_POLL_INTERVAL_MS = 3000;
+
+const FREQUENCIES: { id: BackupFrequency; label: string }[] = [
+  { id: 'daily', label: 'Daily' },
+  { id: 'weekly', label: 'Weekly' },
+];
+
+const SNAPSHOT_STATUS_STYLES: Record<Snapshot['status'], string> = {
+  creating: 'bg-yellow-500/20 text-yellow-400',
+  available: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+const formatDateTime = (value?: string) =>
+  value
+    ? new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : '—';
+
+export function ServerBackupsTab({ server }: ServerBackupsTabProps) {
+  const restoreSnapshot = useServersStore((state) => state.restoreSnapshot);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [policy, setPolicy] = useState<BackupPolicy | null>(null);
+  const [draft, setDraft] = useState<BackupPolicyUpdate | null>(null);
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [snapshotName, setSnapshotName] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [cloneFrom, setCloneFrom] = useState<Snapshot | null>(null);
+
+  const idle = server.status === 'active' || server.status === 'stopped';
+
+  const loadSnapshots = useCallback(
+    async (signal?: AbortSignal) => {
+      const list = await backupsApi.listSnapshots(server.id, { signal });
+      if (!signal?.aborted) setSnapshots(list);
+    },
+    [server.id]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      loadSnapshots(controller.signal),
+      backupsApi.getPolicy(server.id, { signal: controller.signal }),
+      addOnsApi.list({ signal: controller.signal }),
+    ])
+      .then(([, loadedPolicy, loadedAddOns]) => {
+        if (controller.signal.aborted) return;
+        setPolicy(loadedPolicy);
+        setDraft({ enabled: loadedPolicy.enabled, frequency: loadedPolicy.frequency, retention: loadedPolicy.retention });
+        setAddOns(loadedAddOns);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load backups'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+    // A finished restore flips the status back, which is when the list may have changed
+  }, [server.id, server.status, loadSnapshots]);
+
+  const creating = snapshots.some((s) => s.status === 'creating');
+  useEffect(() => {
+    if (!creating) return;
+    const timer = setInterval(() => {
+      loadSnapshots().catch((err) => console.error('Failed to refresh snapshots:', err));
+    }, SNAPSHOT_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [creating, loadSnapshots]);
+
+  const run = async (key: string, action: () => Promise<unknown>, fallback: string) => {
+    setBusy(key);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTakeSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = snapshotName.trim() || `Snapshot ${new Date().toLocaleDateString('en-IN')}`;
+    run(
+      'snapshot',
+      async () => {
+        const snapshot = await backupsApi.createSnapshot(server.id, name);
+        setSnapshots([snapshot, ...snapshots]);
+        setSnapshotName('');
+      },
+      'Failed to take snapshot'
+    );
+  };
+
+  const handleRestore = (snapshot: Snapshot) => {
+    if (!confirm(`Restore ${server.server_name} from "${snapshot.name}"? Everything written since then will be lost.`)) return;
+    run(snapshot.id, () => restoreSnapshot(server.id, snapshot.id), 'Failed to start restore');
+  };
+
+  const handleDelete = (snapshot: Snapshot) => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"? This cannot be undone.`)) return;
+    run(
+      snapshot.id,
+      async () => {
+        await backupsApi.deleteSnapshot(server.id, snapshot.id);
+        setSnapshots(snapshots.filter((s) => s.id !== snapshot.id));
+      },
+      'Failed to delete snapshot'
+    );
+  };
+
+  const handleSavePolicy = () => {
+    if (!draft) return;
+    run(
+      'policy',
+      async () => {
+        const saved = await backupsApi.updatePolicy(server.id, draft);
+        setPolicy(saved);
+        await loadSnapshots();
+      },
+      'Failed to save backup schedule'
+    );
+  };
+
+  if (loading) {
+    return <div className="text-slate-400 text-center py-12">Loading backups...</div>;
+  }
+
+  const priceFor = (frequency: BackupFrequency) => {
+    const addOn = addOns.find((a) => a.slug === `backups-${frequency}`);
+    return addOn ? addOnMonthlyPrice(addOn, server.storage_gb) : null;
+  };
+  const snapshotAddOn = addOns.find((a) => a.slug === 'snapshot-storage');
+  const dirty =
+    !!draft &&
+    !!policy &&
+    (draft.enabled !== policy.enabled || draft.frequency !== policy.frequency || draft.retention !== policy.retention);
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {draft && (
+        <section className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <CalendarClock className="h-5 w-5 text-cyan-400" />
+              <h3 className="text-lg font-semibold text-white">Scheduled Backups</h3>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="w-5 h-5 text-cyan-500 border-cyan-500/30 rounded focus:ring-cyan-500 bg-slate-800"
+              />
+              Enabled
+            </label>
+          </div>
+
+          <div className={`grid grid-cols-1 md:grid-cols-2 gap-3 ${draft.enabled ? '' : 'opacity-50'}`}>
+            {FREQUENCIES.map((option) => {
+              const price = priceFor(option.id);
+              return (
+                <button
+                  key={option.id}
+                  disabled={!draft.enabled}
+                  onClick={() =>
+                    setDraft({ ...draft, frequency: option.id, retention: BACKUP_RETENTION_OPTIONS[option.id][0] })
+                  }
+                  className={`p-4 rounded-lg border-2 text-left transition ${
+                    draft.frequency === option.id ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-500/30 hover:border-cyan-500/60'
+                  }`}
+                >
+                  <p className="font-semibold text-white">{option.label}</p>
+                  <p className="text-sm text-slate-400">
+                    {price === null ? 'Unavailable' : `${formatCurrency(price)}/month for ${server.storage_gb} GB`}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <label className="flex items-center gap-3 text-sm text-slate-300">
+              Keep the last
+              <select
+                value={draft.retention}
+                disabled={!draft.enabled}
+                onChange={(e) => setDraft({ ...draft, retention: Number(e.target.value) })}
+                className="px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+              >
+                {BACKUP_RETENTION_OPTIONS[draft.frequency].map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+              {draft.frequency} backups
+            </label>
+            <button
+              onClick={handleSavePolicy}
+              disabled={!dirty || busy === 'policy'}
+              className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'policy' ? 'Saving...' : 'Save Schedule'}
+            </button>
+          </div>
+
+          {policy?.enabled && (
+            <p className="text-sm text-slate-400">
+              Last backup {formatDateTime(policy.last_run_at)} · Next backup {formatDateTime(policy.next_run_at)} ·{' '}
+              {formatCurrency(policy.monthly_price)}/month
+            </p>
+          )}
+        </section>
+      )}
+
+      <section className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Camera className="h-5 w-5 text-cyan-400" />
+            <h3 className="text-lg font-semibold text-white">Snapshots</h3>
+          </div>
+          <form onSubmit={handleTakeSnapshot} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              placeholder="Snapshot name"
+              maxLength={64}
+              className="px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+            />
+            <button
+              type="submit"
+              disabled={!idle || busy === 'snapshot'}
+              className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'snapshot' ? 'Starting...' : 'Take Snapshot'}
+            </button>
+          </form>
+        </div>
+        {snapshotAddOn && (
+          <p className="text-xs text-slate-400">
+            On-demand snapshots are billed at {formatCurrency(snapshotAddOn.price_per_unit)} per GB stored per month.
+          </p>
+        )}
+
+        {snapshots.length === 0 ? (
+          <div className="text-center py-8">
+            <Archive className="h-12 w-12 text-slate-600 mx-auto mb-3" />
+            <p className="text-slate-400">No snapshots or backups yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-cyan-500/30 text-left text-slate-400">
+                  <th className="py-3 px-3 font-semibold">Name</th>
+                  <th className="py-3 px-3 font-semibold">Type</th>
+                  <th className="py-3 px-3 font-semibold">Size</th>
+                  <th className="py-3 px-3 font-semibold">Taken</th>
+                  <th className="py-3 px-3 font-semibold">Status</th>
+                  <th className="py-3 px-3 font-semibold text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-cyan-500/20">
+                {snapshots.map((snapshot) => {
+                  const usable = snapshot.status === 'available' && busy !== snapshot.id;
+                  return (
+                    <tr key={snapshot.id} className="text-slate-300">
+                      <td className="py-3 px-3">
+                        <div className="text-white">{snapshot.name}</div>
+                        <div className="text-xs text-slate-500">{snapshot.os_type}</div>
+                      </td>
+                      <td className="py-3 px-3 capitalize">{snapshot.kind === 'scheduled' ? 'Backup' : 'Snapshot'}</td>
+                      <td className="py-3 px-3">{snapshot.size_gb} GB</td>
+                      <td className="py-3 px-3">{formatDateTime(snapshot.created_at)}</td>
+                      <td className="py-3 px-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${SNAPSHOT_STATUS_STYLES[snapshot.status]}`}>
+                          {snapshot.status}
+                        </span>
+                      </td>
+                      <td className="py-3 px-3">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => handleRestore(snapshot)}
+                            disabled={!usable || !idle}
+                            className="p-2 text-cyan-400 hover:bg-cyan-500/20 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed"
+                            title="Restore this server"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setCloneFrom(snapshot)}
+                            disabled={!usable}
+                            className="p-2 text-cyan-400 hover:bg-cyan-500/20 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed"
+                            title="Create a new server"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(snapshot)}
+                            disabled={busy === snapshot.id}
+                            className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {cloneFrom && <CreateFromSnapshotModal server={server} snapshot={cloneFrom} onClose={() => setCloneFrom(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Terminal, MonitorPlay, Copy, ClipboardPaste, Keyboard, RotateCw, Check } from 'lucide-react';
+import { consoleApi } from '../../api/console';
+import { getErrorMessage } from '../../api/errors';
+import { ConsoleSession, ConsoleType, UserServer } from '../../types';
+import { SerialConsole } from './console/SerialConsole';
+import { VncConsole } from './console/VncConsole';
+import { ConsoleConnectionStatus, ConsoleViewerHandle } from './console/types';
+
+interface ServerConsoleTabProps {
+  server: UserServer;
+}
+
+// Automatic reconnects after an unexpected drop, with 1s, 2s, 4s backoff
+const MAX_AUTO_RECONNECTS = 3;
+
+const STATUS_STYLES: Record<ConsoleConnectionStatus, { label: string; className: string }> = {
+  idle: { label: 'Not connected', className: 'bg-slate-800 text-slate-300' },
+  connecting: { label: 'Connecting...', className: 'bg-yellow-500/20 text-yellow-400' },
+  connected: { label: 'Connected', className: 'bg-green-500/20 text-green-400' },
+  disconnected: { label: 'Disconnected', className: 'bg-red-500/20 text-red-400' },
+};
+
+export function ServerConsoleTab({ server }: ServerConsoleTabProps) {
+  const [type, setType] = useState<ConsoleType>('serial');
+  const [session, setSession] = useState<ConsoleSession | null>(null);
+  const [status, setStatus] = useState<ConsoleConnectionStatus>('idle');
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const viewerRef = useRef<ConsoleViewerHandle>(null);
+  const attemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const available = server.status === 'active';
+
+  // Every connection needs a fresh ticket, so (re)connecting always starts with a new session
+  const openSession = useCallback(async () => {
+    setStatus('connecting');
+    setError('');
+    try {
+      setSession(await consoleApi.createSession(server.id, type));
+    } catch (err) {
+      setSession(null);
+      setStatus('disconnected');
+      setError(getErrorMessage(err, 'Failed to open console'));
+    }
+  }, [server.id, type]);
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if (!available) return;
+    attemptsRef.current = 0;
+    openSession();
+    return () => {
+      clearReconnectTimer();
+      setSession(null);
+      setStatus('idle');
+    };
+  }, [available, openSession]);
+
+  const handleStatusChange = useCallback(
+    (next: ConsoleConnectionStatus, reason?: string) => {
+      setStatus(next);
+      if (next === 'connected') {
+        attemptsRef.current = 0;
+        setError('');
+        return;
+      }
+      if (next !== 'disconnected' || !reason) return;
+
+      if (attemptsRef.current < MAX_AUTO_RECONNECTS) {
+        const delay = 1000 * 2 ** attemptsRef.current;
+        attemptsRef.current += 1;
+        setError(`${reason}. Reconnecting in ${delay / 1000}s...`);
+        clearReconnectTimer();
+        reconnectTimerRef.current = setTimeout(openSession, delay);
+      } else {
+        setError(`${reason}. Click Reconnect to try again.`);
+      }
+    },
+    [openSession]
+  );
+
+  const handleReconnect = () => {
+    clearReconnectTimer();
+    attemptsRef.current = 0;
+    openSession();
+  };
+
+  const handleCopy = async () => {
+    const text = viewerRef.current?.copyText();
+    if (!text) {
+      setError(type === 'serial' ? 'Select text in the console to copy it' : 'The server has not shared any clipboard text');
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Clipboard access was denied'));
+    }
+  };
+
+  const handlePaste = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      viewerRef.current?.paste(text);
+      viewerRef.current?.focus();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Clipboard access was denied'));
+    }
+  };
+
+  if (!available) {
+    return (
+      <div className="text-center py-12">
+        <Terminal className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+        <p className="text-slate-400">The console is available once the server is running.</p>
+      </div>
+    );
+  }
+
+  const connected = status === 'connected';
+  const statusStyle = STATUS_STYLES[status];
+  const toolbarButton =
+    'px-3 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition text-sm font-semibold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-950 border border-cyan-500/30 rounded-lg p-1">
+            {(['serial', 'vnc'] as ConsoleType[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setType(option)}
+                className={`px-3 py-1.5 rounded-md text-sm font-semibold flex items-center gap-2 transition ${
+                  type === option ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {option === 'serial' ? <Terminal className="h-4 w-4" /> : <MonitorPlay className="h-4 w-4" />}
+                {option === 'serial' ? 'Serial' : 'Graphical'}
+              </button>
+            ))}
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs font-semibold ${statusStyle.className}`}>
+            {statusStyle.label}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={handleCopy} disabled={!connected} className={toolbarButton}>
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button onClick={handlePaste} disabled={!connected} className={toolbarButton}>
+            <ClipboardPaste className="h-4 w-4" />
+            Paste
+          </button>
+          <button
+            onClick={() => viewerRef.current?.sendCtrlAltDel()}
+            disabled={!connected || type !== 'vnc'}
+            className={toolbarButton}
+            title={type === 'vnc' ? 'Send Ctrl+Alt+Del' : 'Only available on the graphical console'}
+          >
+            <Keyboard className="h-4 w-4" />
+            Ctrl+Alt+Del
+          </button>
+          <button onClick={handleReconnect} disabled={status === 'connecting'} className={toolbarButton}>
+            <RotateCw className="h-4 w-4" />
+            Reconnect
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="rounded-lg border-2 border-cyan-500/50 overflow-hidden">
+        {session ? (
+          session.type === 'vnc' ? (
+            <VncConsole key={session.token} ref={viewerRef} session={session} onStatusChange={handleStatusChange} />
+          ) : (
+            <SerialConsole key={session.token} ref={viewerRef} session={session} onStatusChange={handleStatusChange} />
+          )
+        ) : (
+          <div className="h-[28rem] bg-slate-950 flex items-center justify-center text-slate-500">
+            {status === 'connecting' ? 'Opening console session...' : 'Console not connected'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
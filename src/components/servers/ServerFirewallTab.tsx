@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { Shield, Plus, Unlink, Trash2 } from 'lucide-react';
+import { firewallsApi } from '../../api/firewalls';
+import { getErrorMessage } from '../../api/errors';
+import { FirewallRuleEditor } from '../firewall/FirewallRuleEditor';
+import { Firewall, UserServer } from '../../types';
+
+interface ServerFirewallTabProps {
+  server: UserServer;
+}
+
+export function ServerFirewallTab({ server }: ServerFirewallTabProps) {
+  const [firewalls, setFirewalls] = useState<Firewall[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [attachId, setAttachId] = useState('');
+  const [newName, setNewName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    firewallsApi
+      .list(undefined, { signal: controller.signal })
+      .then(setFirewalls)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load firewalls'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const attached = firewalls.filter((f) => f.server_ids.includes(server.id));
+  const available = firewalls.filter((f) => !f.server_ids.includes(server.id) && f.user_id === server.user_id);
+  const selected = attached.find((f) => f.id === selectedId) ?? attached[0];
+
+  const replace = (firewall: Firewall) =>
+    setFirewalls((current) =>
+      current.some((f) => f.id === firewall.id)
+        ? current.map((f) => (f.id === firewall.id ? firewall : f))
+        : [...current, firewall]
+    );
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(async () => {
+      const created = await firewallsApi.create({ name: newName.trim(), server_ids: [server.id] });
+      replace(created);
+      setSelectedId(created.id);
+      setNewName('');
+    }, 'Failed to create firewall');
+  };
+
+  const handleAttach = () => {
+    if (!attachId) return;
+    run(async () => {
+      const updated = await firewallsApi.attach(attachId, server.id);
+      replace(updated);
+      setSelectedId(updated.id);
+      setAttachId('');
+    }, 'Failed to attach firewall');
+  };
+
+  const handleDetach = (firewall: Firewall) => {
+    if (!confirm(`Detach "${firewall.name}" from ${server.server_name}? Its rules stop applying to this server.`)) return;
+    run(async () => replace(await firewallsApi.detach(firewall.id, server.id)), 'Failed to detach firewall');
+  };
+
+  const handleDelete = (firewall: Firewall) => {
+    const others = firewall.server_ids.length - 1;
+    const warning = others > 0 ? ` It also protects ${others} other server${others === 1 ? '' : 's'}.` : '';
+    if (!confirm(`Delete the firewall "${firewall.name}"?${warning}`)) return;
+    run(async () => {
+      await firewallsApi.remove(firewall.id);
+      setFirewalls((current) => current.filter((f) => f.id !== firewall.id));
+    }, 'Failed to delete firewall');
+  };
+
+  if (loading) {
+    return <div className="text-slate-400 text-center py-12">Loading firewalls...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+            <Shield className="h-5 w-5 text-cyan-400" />
+            Cloud Firewall
+          </h3>
+          <p className="text-sm text-slate-400">
+            Rules are allow-lists enforced before traffic reaches {server.ip_address ?? 'the server'}. With no outbound
+            rules, all outbound traffic is allowed.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {available.length > 0 && (
+            <>
+              <select
+                value={attachId}
+                onChange={(e) => setAttachId(e.target.value)}
+                className="px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+              >
+                <option value="">Attach existing...</option>
+                {available.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.name} ({f.rules.length} rules)
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAttach}
+                disabled={!attachId || busy}
+                className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Attach
+              </button>
+            </>
+          )}
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New firewall name"
+              maxLength={64}
+              className="px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim() || busy}
+              className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4" />
+              Create
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {attached.length === 0 ? (
+        <div className="text-center py-10 border border-dashed border-cyan-500/30 rounded-lg">
+          <Shield className="h-12 w-12 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-400">No firewall protects this server; every port is reachable.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {attached.map((firewall) => (
+              <div
+                key={firewall.id}
+                className={`flex items-center rounded-lg border-2 transition ${
+                  selected?.id === firewall.id ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-500/30'
+                }`}
+              >
+                <button onClick={() => setSelectedId(firewall.id)} className="px-4 py-2 text-left">
+                  <span className="block text-sm font-semibold text-white">{firewall.name}</span>
+                  <span className="block text-xs text-slate-400">
+                    {firewall.rules.length} rules · {firewall.server_ids.length} server
+                    {firewall.server_ids.length === 1 ? '' : 's'}
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleDetach(firewall)}
+                  disabled={busy}
+                  className="p-2 text-slate-400 hover:text-white transition"
+                  title="Detach from this server"
+                >
+                  <Unlink className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(firewall)}
+                  disabled={busy}
+                  className="p-2 pr-3 text-red-400 hover:text-red-300 transition"
+                  title="Delete firewall"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {selected && <FirewallRuleEditor key={selected.id} firewall={selected} onSaved={replace} />}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Network } from 'lucide-react';
+import { serversApi } from '../../api/servers';
+import { getErrorMessage } from '../../api/errors';
+import { formatTransfer } from '../../lib/metrics';
+import { MetricsRange, ServerMetrics, UserServer } from '../../types';
+import { MetricChart } from './MetricChart';
+
+interface ServerMetricsTabProps {
+  server: UserServer;
+}
+
+const RANGES: { id: MetricsRange; label: string }[] = [
+  { id: '1h', label: '1 Hour' },
+  { id: '24h', label: '24 Hours' },
+  { id: '7d', label: '7 Days' },
+  { id: '30d', label: '30 Days' },
+];
+
+// New samples arrive every minute on the 1h view; longer ranges barely move
+const REFRESH_MS = 60000;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+export function ServerMetricsTab({ server }: ServerMetricsTabProps) {
+  const [range, setRange] = useState<MetricsRange>('24h');
+  const [metrics, setMetrics] = useState<ServerMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = () =>
+      serversApi
+        .metrics(server.id, range, { signal: controller.signal })
+        .then((data) => {
+          setMetrics(data);
+          setError('');
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load metrics'));
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+
+    setLoading(true);
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [server.id, range]);
+
+  const bandwidth = metrics?.bandwidth;
+  const usedPercent = bandwidth ? Math.min(100, (bandwidth.used_gb / bandwidth.allowance_gb) * 100) : 0;
+  const projectedPercent = bandwidth ? Math.min(100, (bandwidth.projected_gb / bandwidth.allowance_gb) * 100) : 0;
+  const overage = bandwidth ? bandwidth.projected_gb - bandwidth.allowance_gb : 0;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {bandwidth && (
+        <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+              <Network className="h-4 w-4 text-cyan-400" />
+              Bandwidth this month
+            </h4>
+            <span className="text-sm text-slate-300">
+              <span className="text-white font-semibold">{formatTransfer(bandwidth.used_gb)}</span> of{' '}
+              {formatTransfer(bandwidth.allowance_gb)}
+            </span>
+          </div>
+          <div className="relative w-full bg-slate-800 rounded-full h-3 overflow-hidden">
+            <div
+              className="absolute inset-y-0 left-0 bg-cyan-500/25"
+              style={{ width: `${projectedPercent}%` }}
+              title="Projected by month end"
+            />
+            <div
+              className={`absolute inset-y-0 left-0 ${usedPercent >= 90 ? 'bg-orange-500' : 'bg-gradient-to-r from-cyan-500 to-teal-500'}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+          <p className="text-xs text-slate-400">
+            {formatDate(bandwidth.period_start)} – {formatDate(bandwidth.period_end)} · Projected{' '}
+            <span className="text-white">{formatTransfer(bandwidth.projected_gb)}</span> by month end at the current rate
+          </p>
+          {overage > 0 && (
+            <div className="flex gap-3 bg-orange-500/10 border border-orange-500/30 rounded-lg p-3 text-sm">
+              <AlertTriangle className="h-5 w-5 text-orange-400 flex-shrink-0" />
+              <p className="text-slate-300">
+                At this rate {server.server_name} will go {formatTransfer(overage)} over its{' '}
+                {formatTransfer(bandwidth.allowance_gb)} allowance before {formatDate(bandwidth.period_end)}. Consider
+                resizing to a plan with more bandwidth.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {RANGES.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setRange(option.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+              range === option.id ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {loading && <span className="self-center text-xs text-slate-500">Loading...</span>}
+      </div>
+
+      {metrics && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <MetricChart
+            title="CPU"
+            unit="%"
+            range={metrics.range}
+            points={metrics.points}
+            max={100}
+            series={[{ key: 'cpu_percent', label: 'Used', color: '#22d3ee' }]}
+          />
+          <MetricChart
+            title="Memory"
+            unit="%"
+            range={metrics.range}
+            points={metrics.points}
+            max={100}
+            series={[{ key: 'ram_percent', label: 'Used', color: '#2dd4bf' }]}
+          />
+          <MetricChart
+            title="Disk I/O"
+            unit="MB/s"
+            range={metrics.range}
+            points={metrics.points}
+            series={[
+              { key: 'disk_read_mbps', label: 'Read', color: '#22d3ee' },
+              { key: 'disk_write_mbps', label: 'Write', color: '#a78bfa' },
+            ]}
+          />
+          <MetricChart
+            title="Network"
+            unit="Mbps"
+            range={metrics.range}
+            points={metrics.points}
+            series={[
+              { key: 'net_in_mbps', label: 'In', color: '#2dd4bf' },
+              { key: 'net_out_mbps', label: 'Out', color: '#f59e0b' },
+            ]}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
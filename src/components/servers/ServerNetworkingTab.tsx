@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Globe, Copy, Check, Edit2, X, Plus, Trash2, Network } from 'lucide-react';
+import { addOnsApi } from '../../api/addOns';
+import { ipAddressesApi, MAX_ADDITIONAL_IPV4 } from '../../api/ipAddresses';
+import { vpcsApi } from '../../api/vpcs';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { defaultPtrRecord, validatePtrRecord } from '../../lib/dns';
+import { formatCurrency } from '../../lib/referral';
+import { useServersStore } from '../../store/serversStore';
+import { AddOn, ServerIpAddress, UserServer, Vpc } from '../../types';
+
+interface ServerNetworkingTabProps {
+  server: UserServer;
+}
+
+const badgeClass = 'px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide';
+
+export function ServerNetworkingTab({ server }: ServerNetworkingTabProps) {
+  const fetchServer = useServersStore((state) => state.fetchServer);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [ipAddOn, setIpAddOn] = useState<AddOn | null>(null);
+  const [vpcs, setVpcs] = useState<Vpc[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [ptrValue, setPtrValue] = useState('');
+  const [ptrError, setPtrError] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    addOnsApi
+      .list({ signal: controller.signal })
+      .then((addOns) => setIpAddOn(addOns.find((a) => a.slug === 'additional-ipv4' && a.is_active) ?? null))
+      .catch((err) => {
+        if (!controller.signal.aborted) console.error('Failed to load add-ons:', err);
+      });
+    vpcsApi
+      .list({ signal: controller.signal })
+      .then(setVpcs)
+      .catch((err) => {
+        if (!controller.signal.aborted) console.error('Failed to load VPCs:', err);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const copy = (value: string) => {
+    navigator.clipboard.writeText(value);
+    setCopied(value);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const addresses = [...(server.ip_addresses ?? [])].sort(
+    (a, b) => a.scope.localeCompare(b.scope) || a.version - b.version || a.role.localeCompare(b.role)
+  );
+  const additionalCount = addresses.filter((a) => a.role === 'secondary' && a.scope === 'public').length;
+  const vpc = vpcs.find((v) => v.server_ids.includes(server.id));
+
+  const startEditing = (address: ServerIpAddress) => {
+    setEditingId(address.id);
+    setPtrValue(address.ptr_record ?? '');
+    setPtrError('');
+  };
+
+  const savePtr = async (address: ServerIpAddress) => {
+    const localError = ptrValue.trim() ? validatePtrRecord(ptrValue) : null;
+    if (localError) {
+      setPtrError(localError);
+      return;
+    }
+    setBusy(address.id);
+    try {
+      await ipAddressesApi.setPtr(server.id, address.id, ptrValue.trim());
+      await fetchServer(server.id);
+      setEditingId(null);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setPtrError(apiError.fieldErrors.ptr_record ?? apiError.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const run = async (key: string, action: () => Promise<unknown>, fallback: string) => {
+    setBusy(key);
+    setError('');
+    try {
+      await action();
+      await fetchServer(server.id);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleOrder = () => {
+    if (!ipAddOn) return;
+    if (!confirm(`Add an IPv4 address to ${server.server_name} for ${formatCurrency(ipAddOn.price_per_unit)}/month?`)) return;
+    run('order', () => ipAddressesApi.orderIpv4(server.id), 'Failed to order an IPv4 address');
+  };
+
+  const handleRelease = (address: ServerIpAddress) => {
+    if (!confirm(`Release ${address.address}? It goes back to the pool and may be given to another customer.`)) return;
+    run(address.id, () => ipAddressesApi.release(server.id, address.id), 'Failed to release address');
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-cyan-500/30 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Globe className="h-4 w-4 text-cyan-400" />
+            <h4 className="text-sm font-semibold text-white">Addresses</h4>
+          </div>
+          <span className="text-xs text-slate-400 font-mono">{server.hostname}</span>
+        </div>
+
+        {addresses.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-slate-400">Addresses are assigned once the server is provisioned.</p>
+        ) : (
+          <div className="divide-y divide-cyan-500/20">
+            {addresses.map((address) => (
+              <div key={address.id} className="px-4 py-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-white">
+                      {address.address}
+                      {address.version === 6 && <span className="text-slate-500">/{address.prefix_length}</span>}
+                    </span>
+                    <span className={`${badgeClass} bg-cyan-500/20 text-cyan-400`}>IPv{address.version}</span>
+                    <span
+                      className={`${badgeClass} ${
+                        address.scope === 'public' ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 text-slate-300'
+                      }`}
+                    >
+                      {address.scope}
+                    </span>
+                    {address.vpc_id ? (
+                      <span className={`${badgeClass} bg-teal-500/20 text-teal-400`}>
+                        VPC {vpcs.find((v) => v.id === address.vpc_id)?.name}
+                      </span>
+                    ) : (
+                      address.role === 'secondary' && (
+                        <span className={`${badgeClass} bg-purple-500/20 text-purple-400`}>Additional</span>
+                      )
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => copy(address.address)}
+                      className="p-2 text-slate-400 hover:text-cyan-400 transition"
+                      title="Copy"
+                    >
+                      {copied === address.address ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </button>
+                    {address.role === 'secondary' && !address.vpc_id && (
+                      <button
+                        onClick={() => handleRelease(address)}
+                        disabled={busy === address.id}
+                        className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition disabled:opacity-40"
+                        title="Release address"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {address.scope === 'public' &&
+                  (editingId === address.id ? (
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input
+                          type="text"
+                          value={ptrValue}
+                          onChange={(e) => {
+                            setPtrValue(e.target.value);
+                            setPtrError('');
+                          }}
+                          placeholder={defaultPtrRecord(address.address)}
+                          autoFocus
+                          className="flex-1 min-w-[16rem] px-3 py-1.5 bg-slate-800 border border-cyan-500/30 rounded text-sm text-white font-mono"
+                        />
+                        <button
+                          onClick={() => savePtr(address)}
+                          disabled={busy === address.id}
+                          className="px-3 py-1.5 bg-cyan-600 text-white rounded hover:bg-cyan-700 transition text-sm font-semibold disabled:opacity-50"
+                        >
+                          {busy === address.id ? 'Checking...' : 'Save'}
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="p-1.5 text-slate-400 hover:text-white transition"
+                          title="Cancel"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                      {ptrError ? (
+                        <p className="text-xs text-red-400">{ptrError}</p>
+                      ) : (
+                        <p className="text-xs text-slate-500">
+                          The name must already resolve to {address.address}. Leave empty to restore the default.
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-slate-400">Reverse DNS</span>
+                      <span className={`font-mono ${address.ptr_record ? 'text-white' : 'text-slate-500'}`}>
+                        {address.ptr_record ?? defaultPtrRecord(address.address)}
+                      </span>
+                      <button
+                        onClick={() => startEditing(address)}
+                        className="p-1 text-slate-400 hover:text-cyan-400 transition"
+                        title="Edit reverse DNS"
+                      >
+                        <Edit2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {server.ip_address && (
+        <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Network className="h-5 w-5 text-cyan-400 mt-0.5" />
+            <div>
+              <h4 className="text-sm font-semibold text-white">Private network</h4>
+              <p className="text-sm text-slate-400">
+                {vpc
+                  ? `Member of ${vpc.name} (${vpc.cidr}) with ${vpc.server_ids.length - 1} other server${vpc.server_ids.length === 2 ? '' : 's'}.`
+                  : 'Not in a VPC. Servers in the same VPC reach each other on private addresses without public traffic.'}
+              </p>
+            </div>
+          </div>
+          <Link
+            to="/dashboard/vpcs"
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+          >
+            {vpc ? 'Manage VPC' : 'Join a VPC'}
+          </Link>
+        </div>
+      )}
+
+      {ipAddOn && server.ip_address && (
+        <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h4 className="text-sm font-semibold text-white">Additional IPv4</h4>
+            <p className="text-sm text-slate-400">
+              {formatCurrency(ipAddOn.price_per_unit)}/month per address, billed from today. {additionalCount} of{' '}
+              {MAX_ADDITIONAL_IPV4} in use. Charges appear under{' '}
+              <Link to="/dashboard/billing" className="text-cyan-400 hover:text-cyan-300">
+                Billing
+              </Link>
+              .
+            </p>
+          </div>
+          <button
+            onClick={handleOrder}
+            disabled={busy === 'order' || additionalCount >= MAX_ADDITIONAL_IPV4}
+            className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            {busy === 'order' ? 'Assigning...' : 'Add IPv4'}
+          </button>
+        </div>
+      )}
+
+      <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 text-sm">
+        <p className="text-slate-400">
+          Included bandwidth: <span className="text-white font-semibold">{server.bandwidth_tb} TB / month</span>
+        </p>
+        {server.ip_address && (
+          <p className="text-slate-400 mt-2">
+            Connect with <code className="text-cyan-400 font-mono">ssh root@{server.ip_address}</code>
+          </p>
+        )}
+        {additionalCount > 0 && (
+          <p className="text-slate-400 mt-2">
+            Additional addresses are routed to the server but must be configured on its network interface.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
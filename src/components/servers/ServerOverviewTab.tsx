@@ -0,0 +1,78 @@
+import { Cpu, MemoryStick, HardDrive, Network, Monitor, Calendar } from 'lucide-react';
+import { UserServer } from '../../types';
+
+interface ServerOverviewTabProps {
+  server: UserServer;
+}
+
+const DAY_MS = 86400000;
+
+export function ServerOverviewTab({ server }: ServerOverviewTabProps) {
+  const ipv6 = server.ip_addresses?.find((a) => a.version === 6 && a.role === 'primary');
+  const daysLeft = Math.ceil((new Date(server.expires_at).getTime() - Date.now()) / DAY_MS);
+
+  const specs = [
+    { icon: Cpu, label: 'vCPU', value: `${server.vcpu} Cores` },
+    { icon: MemoryStick, label: 'Memory', value: `${server.ram_gb} GB` },
+    { icon: HardDrive, label: 'Storage', value: `${server.storage_gb} GB NVMe` },
+    { icon: Network, label: 'Bandwidth', value: `${server.bandwidth_tb} TB / month` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {specs.map((spec) => (
+          <div key={spec.label} className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4">
+            <div className="flex items-center space-x-2 text-slate-400 text-xs mb-2">
+              <spec.icon className="h-4 w-4 text-cyan-400" />
+              <span>{spec.label}</span>
+            </div>
+            <p className="font-semibold text-white">{spec.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 space-y-3">
+          <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Monitor className="h-4 w-4 text-cyan-400" />
+            System
+          </h4>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-slate-400">Plan</dt>
+            <dd className="text-white">{server.plan?.name ?? '—'}</dd>
+            <dt className="text-slate-400">Operating System</dt>
+            <dd className="text-white">{server.os_type}</dd>
+            <dt className="text-slate-400">Hostname</dt>
+            <dd className="text-white font-mono break-all">{server.hostname}</dd>
+            <dt className="text-slate-400">Primary IP</dt>
+            <dd className="text-white font-mono">{server.ip_address ?? 'Assigning...'}</dd>
+            {ipv6 && (
+              <>
+                <dt className="text-slate-400">IPv6</dt>
+                <dd className="text-white font-mono break-all">{ipv6.address}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+
+        <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 space-y-3">
+          <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-cyan-400" />
+            Billing Period
+          </h4>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-slate-400">Created</dt>
+            <dd className="text-white">{new Date(server.created_at).toLocaleDateString()}</dd>
+            <dt className="text-slate-400">Expires</dt>
+            <dd className="text-white">{new Date(server.expires_at).toLocaleDateString()}</dd>
+            <dt className="text-slate-400">Renewal</dt>
+            <dd className={daysLeft <= 7 ? 'text-orange-400 font-semibold' : 'text-white'}>
+              {daysLeft > 0 ? `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}` : 'Expired'}
+            </dd>
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+}
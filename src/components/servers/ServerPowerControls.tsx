@@ -0,0 +1,45 @@
+import { Power, PowerOff, RefreshCw, Loader2 } from 'lucide-react';
+import { useServersStore, isTransitional } from '../../store/serversStore';
+import { UserServer } from '../../types';
+
+interface ServerPowerControlsProps {
+  server: UserServer;
+}
+
+export function ServerPowerControls({ server }: ServerPowerControlsProps) {
+  const action = useServersStore((state) => state.pending[server.id]);
+  const powerAction = useServersStore((state) => state.powerAction);
+  const busy = !!action || isTransitional(server);
+
+  return (
+    <div className="flex items-center space-x-2">
+      {(server.status === 'active' && action !== 'start') || action === 'stop' ? (
+        <button
+          onClick={() => powerAction(server.id, 'stop')}
+          disabled={busy}
+          className="px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition font-semibold flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {action === 'stop' ? <Loader2 className="h-4 w-4 animate-spin" /> : <PowerOff className="h-4 w-4" />}
+          <span>Stop</span>
+        </button>
+      ) : (
+        <button
+          onClick={() => powerAction(server.id, 'start')}
+          disabled={busy || server.status !== 'stopped'}
+          className="px-4 py-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition font-semibold flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {action === 'start' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Power className="h-4 w-4" />}
+          <span>Start</span>
+        </button>
+      )}
+      <button
+        onClick={() => powerAction(server.id, 'reboot')}
+        disabled={busy || server.status !== 'active'}
+        className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition font-semibold flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <RefreshCw className={`h-4 w-4 ${action === 'reboot' ? 'animate-spin' : ''}`} />
+        <span>Reboot</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Power } from 'lucide-react';
+import { UserServer } from '../../types';
+import { ServerPowerControls } from './ServerPowerControls';
+import { ServerStatusBadge } from './ServerStatusBadge';
+
+interface ServerPowerTabProps {
+  server: UserServer;
+}
+
+export function ServerPowerTab({ server }: ServerPowerTabProps) {
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="w-12 h-12 bg-cyan-500/20 rounded-lg flex items-center justify-center">
+            <Power className="h-6 w-6 text-cyan-400" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-white font-semibold">Power State</span>
+              <ServerStatusBadge server={server} />
+            </div>
+            <p className="text-sm text-slate-400">
+              Last reboot: {server.last_reboot ? new Date(server.last_reboot).toLocaleString() : 'Never'}
+            </p>
+          </div>
+        </div>
+        <ServerPowerControls server={server} />
+      </div>
+
+      <ul className="text-sm text-slate-400 space-y-2 list-disc list-inside">
+        <li>Stopping a server shuts it down but keeps its disk, IPs and billing.</li>
+        <li>Reboot sends an ACPI restart; unsaved data in memory is lost.</li>
+        <li>Power actions are unavailable while a server is provisioning or suspended.</li>
+      </ul>
+    </div>
+  );
+}
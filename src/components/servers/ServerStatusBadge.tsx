@@ -0,0 +1,28 @@
+import { Loader2 } from 'lucide-react';
+import { useServersStore, isTransitional } from '../../store/serversStore';
+import { UserServer } from '../../types';
+
+const STATUS_COLORS: Record<string, string> = {
+  active: 'bg-green-100 text-green-700',
+  stopped: 'bg-slate-800 text-slate-300',
+  provisioning: 'bg-blue-100 text-blue-700',
+  rebuilding: 'bg-blue-100 text-blue-700',
+  restoring: 'bg-blue-100 text-blue-700',
+  suspended: 'bg-orange-100 text-orange-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+export function ServerStatusBadge({ server }: { server: UserServer }) {
+  const action = useServersStore((state) => state.pending[server.id]);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold ${
+        STATUS_COLORS[server.status] || STATUS_COLORS.stopped
+      }`}
+    >
+      {isTransitional(server) && <Loader2 className="h-3 w-3 animate-spin" />}
+      {action === 'reboot' ? 'rebooting' : server.status}
+    </span>
+  );
+}
@@ -0,0 +1,82 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import { ConsoleViewerHandle, ConsoleViewerProps } from './types';
+
+// xterm-style serial console: raw bytes both ways over the proxy WebSocket
+export const SerialConsole = forwardRef<ConsoleViewerHandle, ConsoleViewerProps>(function SerialConsole(
+  { session, onStatusChange },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onStatusChangeRef = useRef(onStatusChange);
+
+  useEffect(() => {
+    onStatusChangeRef.current = onStatusChange;
+  }, [onStatusChange]);
+
+  useImperativeHandle(ref, () => ({
+    copyText: () => terminalRef.current?.getSelection() ?? '',
+    paste: (text) => terminalRef.current?.paste(text),
+    // A serial line has no keyboard chord to send; the toolbar disables the button
+    sendCtrlAltDel: () => undefined,
+    focus: () => terminalRef.current?.focus(),
+  }));
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+      fontSize: 14,
+      theme: { background: '#020617', foreground: '#e2e8f0', cursor: '#22d3ee' },
+    });
+    const fitAddon = new FitAddon();
+    terminal.loadAddon(fitAddon);
+    terminal.open(container);
+    fitAddon.fit();
+    terminalRef.current = terminal;
+
+    const resizeObserver = new ResizeObserver(() => fitAddon.fit());
+    resizeObserver.observe(container);
+
+    const socket = new WebSocket(session.url);
+    socket.binaryType = 'arraybuffer';
+    socketRef.current = socket;
+    onStatusChangeRef.current('connecting');
+
+    socket.onopen = () => {
+      onStatusChangeRef.current('connected');
+      terminal.focus();
+    };
+    socket.onmessage = (event) => {
+      terminal.write(typeof event.data === 'string' ? event.data : new Uint8Array(event.data));
+    };
+    socket.onclose = (event) => {
+      terminal.write('\r\n\x1b[33m[console disconnected]\x1b[0m\r\n');
+      onStatusChangeRef.current('disconnected', event.wasClean ? undefined : event.reason || 'Connection lost');
+    };
+
+    // Keystrokes and pasted text both arrive here
+    const input = terminal.onData((data) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+    });
+
+    return () => {
+      input.dispose();
+      resizeObserver.disconnect();
+      socket.onclose = null;
+      socket.close();
+      socketRef.current = null;
+      terminal.dispose();
+      terminalRef.current = null;
+    };
+  }, [session.url]);
+
+  return <div ref={containerRef} className="h-[28rem] w-full bg-slate-950 p-2" />;
+});
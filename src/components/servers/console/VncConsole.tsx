@@ -0,0 +1,85 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import RFB from '@novnc/novnc';
+import { ConsoleViewerHandle, ConsoleViewerProps } from './types';
+
+const XK_RETURN = 0xff0d;
+const XK_TAB = 0xff09;
+
+// X11 keysym for a character: Latin-1 maps directly, everything else uses the Unicode range
+const keysymFor = (char: string) => {
+  if (char === '\n') return XK_RETURN;
+  if (char === '\t') return XK_TAB;
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x100 ? code : 0x01000000 + code;
+};
+
+// noVNC-style graphical console rendered into a canvas by noVNC's RFB client
+export const VncConsole = forwardRef<ConsoleViewerHandle, ConsoleViewerProps>(function VncConsole(
+  { session, onStatusChange },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rfbRef = useRef<RFB | null>(null);
+  // Last text the guest put on its clipboard, offered by the Copy button
+  const remoteClipboardRef = useRef('');
+  const onStatusChangeRef = useRef(onStatusChange);
+
+  useEffect(() => {
+    onStatusChangeRef.current = onStatusChange;
+  }, [onStatusChange]);
+
+  useImperativeHandle(ref, () => ({
+    copyText: () => remoteClipboardRef.current,
+    // Most guests run no clipboard agent, so paste is typed out key by key
+    paste: (text) => {
+      const rfb = rfbRef.current;
+      if (!rfb) return;
+      rfb.clipboardPasteFrom(text);
+      for (const char of text.replace(/\r\n/g, '\n')) {
+        rfb.sendKey(keysymFor(char), null);
+      }
+    },
+    sendCtrlAltDel: () => rfbRef.current?.sendCtrlAltDel(),
+    focus: () => rfbRef.current?.focus(),
+  }));
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const rfb = new RFB(container, session.url, { credentials: { password: session.token } });
+    rfb.scaleViewport = true;
+    rfb.background = '#020617';
+    rfbRef.current = rfb;
+    onStatusChangeRef.current('connecting');
+
+    const handleConnect = () => onStatusChangeRef.current('connected');
+    const handleDisconnect = (event: Event) => {
+      const { clean } = (event as CustomEvent<{ clean: boolean }>).detail ?? { clean: false };
+      onStatusChangeRef.current('disconnected', clean ? undefined : 'Connection lost');
+    };
+    const handleSecurityFailure = (event: Event) => {
+      const { reason } = (event as CustomEvent<{ reason?: string }>).detail ?? {};
+      onStatusChangeRef.current('disconnected', reason || 'Console authentication failed');
+    };
+    const handleClipboard = (event: Event) => {
+      remoteClipboardRef.current = (event as CustomEvent<{ text: string }>).detail.text;
+    };
+
+    rfb.addEventListener('connect', handleConnect);
+    rfb.addEventListener('disconnect', handleDisconnect);
+    rfb.addEventListener('securityfailure', handleSecurityFailure);
+    rfb.addEventListener('clipboard', handleClipboard);
+
+    return () => {
+      rfb.removeEventListener('connect', handleConnect);
+      rfb.removeEventListener('disconnect', handleDisconnect);
+      rfb.removeEventListener('securityfailure', handleSecurityFailure);
+      rfb.removeEventListener('clipboard', handleClipboard);
+      rfb.disconnect();
+      rfbRef.current = null;
+    };
+  }, [session.url, session.token]);
+
+  return <div ref={containerRef} className="h-[28rem] w-full bg-slate-950" />;
+});
@@ -0,0 +1,17 @@
+import { ConsoleSession } from '../../../types';
+
+export type ConsoleConnectionStatus = 'idle' | 'connecting' | 'connected' | 'disconnected';
+
+export interface ConsoleViewerProps {
+  session: ConsoleSession;
+  // `reason` is set when the connection dropped rather than being closed on purpose
+  onStatusChange: (status: ConsoleConnectionStatus, reason?: string) => void;
+}
+
+// What the toolbar can ask of whichever viewer is mounted
+export interface ConsoleViewerHandle {
+  copyText: () => string;
+  paste: (text: string) => void;
+  sendCtrlAltDel: () => void;
+  focus: () => void;
+}
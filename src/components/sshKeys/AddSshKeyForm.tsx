@@ -0,0 +1,131 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { toApiError } from '../../api/errors';
+import { parseSshPublicKey, sshKeyFingerprint } from '../../lib/sshKeys';
+import { useSshKeysStore } from '../../store/sshKeysStore';
+import { SshKey } from '../../types';
+
+interface AddSshKeyFormProps {
+  onAdded?: (key: SshKey) => void;
+  onCancel?: () => void;
+}
+
+// Validates and fingerprints the key as it is typed, so mistakes show before saving
+export function AddSshKeyForm({ onAdded, onCancel }: AddSshKeyFormProps) {
+  const addKey = useSshKeysStore((state) => state.addKey);
+  const [name, setName] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [fingerprint, setFingerprint] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const parsed = useMemo(() => {
+    if (!publicKey.trim()) return { key: null, error: '' };
+    try {
+      return { key: parseSshPublicKey(publicKey), error: '' };
+    } catch (err) {
+      return { key: null, error: (err as Error).message };
+    }
+  }, [publicKey]);
+
+  useEffect(() => {
+    setFingerprint('');
+    if (!parsed.key) return;
+    let cancelled = false;
+    sshKeyFingerprint(parsed.key).then((value) => {
+      if (!cancelled) setFingerprint(value);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsed.key]);
+
+  const handleKeyChange = (value: string) => {
+    setPublicKey(value);
+    // Default the label to the key comment, as most people put user@host there
+    const comment = value.trim().split(/\s+/).slice(2).join(' ');
+    if (!name && comment) setName(comment);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const key = await addKey({ name: name.trim(), public_key: publicKey.trim() });
+      setName('');
+      setPublicKey('');
+      onAdded?.(key);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setError(apiError.fieldErrors.public_key ?? apiError.fieldErrors.name ?? apiError.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-semibold text-slate-200 mb-2">Public Key</label>
+        <textarea
+          value={publicKey}
+          onChange={(e) => handleKeyChange(e.target.value)}
+          rows={4}
+          placeholder="ssh-ed25519 AAAA... you@laptop"
+          className={`${inputClass} font-mono text-sm`}
+        />
+        {parsed.error && <p className="text-sm text-orange-400 mt-2">{parsed.error}</p>}
+        {parsed.key && fingerprint && (
+          <p className="flex items-center gap-2 text-sm text-green-400 mt-2">
+            <CheckCircle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              {parsed.key.type} · {parsed.key.bits} bits · <span className="font-mono break-all">{fingerprint}</span>
+            </span>
+          </p>
+        )}
+        <p className="text-xs text-slate-400 mt-2">
+          Paste the contents of your <span className="font-mono">.pub</span> file, e.g. ~/.ssh/id_ed25519.pub
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-semibold text-slate-200 mb-2">Label</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Work laptop"
+          maxLength={64}
+          className={inputClass}
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!fingerprint || !name.trim() || saving}
+          className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Add SSH Key'}
+        </button>
+      </div>
+    </form>
+  );
+}
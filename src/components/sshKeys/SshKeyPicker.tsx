@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { KeyRound, Plus } from 'lucide-react';
+import { useSshKeysStore } from '../../store/sshKeysStore';
+import { AddSshKeyForm } from './AddSshKeyForm';
+
+interface SshKeyPickerProps {
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// Checkbox list of the account's saved keys; a key added here is saved and selected at once
+export function SshKeyPicker({ selected, onChange }: SshKeyPickerProps) {
+  const { keys, loading, loaded, error, fetchKeys } = useSshKeysStore();
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    if (!loaded) fetchKeys();
+  }, [loaded, fetchKeys]);
+
+  const toggle = (id: string) =>
+    onChange(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+
+  if (loading && keys.length === 0) {
+    return <p className="text-slate-400 text-sm py-4">Loading SSH keys...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {keys.length === 0 && !adding && (
+        <p className="text-sm text-slate-400">You have no saved SSH keys yet.</p>
+      )}
+
+      {keys.map((key) => (
+        <label
+          key={key.id}
+          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition ${
+            selected.includes(key.id) ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-500/30 hover:border-cyan-500/60'
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={selected.includes(key.id)}
+            onChange={() => toggle(key.id)}
+            className="mt-1 w-4 h-4 text-cyan-500 border-cyan-500/30 rounded focus:ring-cyan-500 bg-slate-800"
+          />
+          <KeyRound className="h-4 w-4 text-cyan-400 mt-1 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-white">{key.name}</p>
+            <p className="text-xs text-slate-400 font-mono break-all">{key.fingerprint}</p>
+          </div>
+        </label>
+      ))}
+
+      {adding ? (
+        <div className="p-4 bg-slate-950 rounded-lg border border-cyan-500/30">
+          <AddSshKeyForm
+            onAdded={(key) => {
+              onChange([...selected, key.id]);
+              setAdding(false);
+            }}
+            onCancel={() => setAdding(false)}
+          />
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setAdding(true)}
+          className="flex items-center gap-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300 transition"
+        >
+          <Plus className="h-4 w-4" />
+          Add a new key
+        </button>
+      )}
+    </div>
+  );
+}
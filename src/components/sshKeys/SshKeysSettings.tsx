@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { KeyRound, Plus, Trash2, Edit2, Check, X } from 'lucide-react';
+import { useSshKeysStore } from '../../store/sshKeysStore';
+import { AddSshKeyForm } from './AddSshKeyForm';
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString('en-IN') : 'Never');
+
+export function SshKeysSettings() {
+  const { keys, loading, error, fetchKeys, renameKey, deleteKey } = useSshKeysStore();
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const saveName = async (id: string) => {
+    if (editName.trim()) await renameKey(id, editName.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (!confirm(`Delete the SSH key "${name}"? Servers that already have it installed keep it.`)) return;
+    deleteKey(id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">SSH Keys</h3>
+          <p className="text-sm text-slate-400">
+            Saved keys can be installed for root when you deploy or rebuild a server, so no password has to be sent.
+          </p>
+        </div>
+        {!adding && (
+          <button
+            onClick={() => setAdding(true)}
+            className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2 whitespace-nowrap"
+          >
+            <Plus className="h-4 w-4" />
+            Add Key
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {adding && (
+        <div className="p-4 bg-slate-950 rounded-lg border border-cyan-500/30">
+          <AddSshKeyForm onAdded={() => setAdding(false)} onCancel={() => setAdding(false)} />
+        </div>
+      )}
+
+      {loading && keys.length === 0 ? (
+        <p className="text-slate-400 text-center py-8">Loading SSH keys...</p>
+      ) : keys.length === 0 ? (
+        <div className="text-center py-8">
+          <KeyRound className="h-12 w-12 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-400">No SSH keys yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {keys.map((key) => (
+            <div
+              key={key.id}
+              className="flex items-start justify-between gap-4 p-4 bg-slate-950 rounded-lg border border-cyan-500/30"
+            >
+              <div className="flex items-start gap-3 min-w-0">
+                <KeyRound className="h-5 w-5 text-cyan-400 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  {editingId === key.id ? (
+                    <div className="flex items-center gap-2 mb-1">
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveName(key.id)}
+                        maxLength={64}
+                        autoFocus
+                        className="px-2 py-1 bg-slate-800 border border-cyan-500/30 rounded text-sm text-white"
+                      />
+                      <button onClick={() => saveName(key.id)} className="text-green-400 hover:text-green-300">
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="text-slate-400 hover:text-white">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm font-semibold text-white">{key.name}</p>
+                  )}
+                  <p className="text-xs text-slate-400 font-mono break-all">{key.fingerprint}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {key.key_type} · {key.bits} bits · Added {formatDate(key.created_at)} · Last used{' '}
+                    {formatDate(key.last_used_at)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => {
+                    setEditingId(key.id);
+                    setEditName(key.name);
+                  }}
+                  className="p-2 text-cyan-400 hover:bg-cyan-500/20 rounded-lg transition"
+                  title="Rename"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(key.id, key.name)}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
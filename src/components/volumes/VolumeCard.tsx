@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { HardDrive, Camera, Trash2, Unlink, Maximize2, RotateCcw } from 'lucide-react';
+import { volumesApi } from '../../api/volumes';
+import { getErrorMessage } from '../../api/errors';
+import { formatCurrency } from '../../lib/referral';
+import { regionName } from '../../lib/regions';
+import { quoteStorageCharge, validateVolumeSize, volumeDevicePath, volumePrice } from '../../lib/volumes';
+import { UserServer, Volume, VolumeSnapshot } from '../../types';
+
+interface VolumeCardProps {
+  volume: Volume;
+  servers: UserServer[];
+  // Servers this volume could be attached to right now
+  candidates: UserServer[];
+  onChange: (volume: Volume) => void;
+  onRemoved: (id: string) => void;
+  // Prefill the create form with a new volume restored from this snapshot
+  onRestore: (snapshot: VolumeSnapshot, volume: Volume) => void;
+}
+
+export function VolumeCard({ volume, servers, candidates, onChange, onRemoved, onRestore }: VolumeCardProps) {
+  const [attachId, setAttachId] = useState('');
+  const [resizeTo, setResizeTo] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<VolumeSnapshot[] | null>(null);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const server = servers.find((s) => s.id === volume.server_id);
+  const newSize = resizeTo === null ? NaN : Number(resizeTo);
+  const resizeError = resizeTo ? validateVolumeSize(newSize, volume.size_gb) : null;
+
+  const run = async (key: string, action: () => Promise<void>, fallback: string) => {
+    setBusy(key);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAttach = () =>
+    run(
+      'attach',
+      async () => {
+        onChange(await volumesApi.attach(volume.id, attachId));
+        setAttachId('');
+      },
+      'Failed to attach volume'
+    );
+
+  const handleDetach = () => {
+    if (!server) return;
+    if (!confirm(`Detach ${volume.name} from ${server.server_name}? Unmount it on the server first to avoid data loss.`)) return;
+    run('detach', async () => onChange(await volumesApi.detach(volume.id)), 'Failed to detach volume');
+  };
+
+  const handleResize = () => {
+    if (resizeError || !resizeTo) return;
+    run(
+      'resize',
+      async () => {
+        onChange(await volumesApi.resize(volume.id, newSize));
+        setResizeTo(null);
+      },
+      'Failed to resize volume'
+    );
+  };
+
+  const toggleSnapshots = () => {
+    if (snapshots) {
+      setSnapshots(null);
+      return;
+    }
+    run('snapshots', async () => setSnapshots(await volumesApi.listSnapshots(volume.id)), 'Failed to load snapshots');
+  };
+
+  const handleSnapshot = () =>
+    run(
+      'snapshot',
+      async () => {
+        const created = await volumesApi.createSnapshot(volume.id, snapshotName.trim());
+        setSnapshots((current) => [created, ...(current ?? [])]);
+        setSnapshotName('');
+      },
+      'Failed to create snapshot'
+    );
+
+  const handleDeleteSnapshot = (snapshot: VolumeSnapshot) => {
+    if (!confirm(`Delete the snapshot "${snapshot.name}"?`)) return;
+    run(
+      snapshot.id,
+      async () => {
+        await volumesApi.deleteSnapshot(volume.id, snapshot.id);
+        setSnapshots((current) => (current ?? []).filter((s) => s.id !== snapshot.id));
+      },
+      'Failed to delete snapshot'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the volume "${volume.name}" and its snapshots? Its data cannot be recovered.`)) return;
+    run(
+      'delete',
+      async () => {
+        await volumesApi.remove(volume.id);
+        onRemoved(volume.id);
+      },
+      'Failed to delete volume'
+    );
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 overflow-hidden">
+      <div className="px-6 py-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5 text-cyan-400" />
+            <h3 className="text-lg font-semibold text-white">{volume.name}</h3>
+            <span
+              className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                volume.status === 'attached' ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 text-slate-300'
+              }`}
+            >
+              {volume.status}
+            </span>
+          </div>
+          <p className="text-sm text-slate-400 mt-1">
+            {volume.size_gb} GB · {regionName(volume.region)} · {formatCurrency(volume.monthly_price)}/month
+          </p>
+          {server ? (
+            <p className="text-sm text-slate-400 mt-1">
+              Attached to{' '}
+              <Link to={`/dashboard/servers/${server.id}`} className="text-cyan-400 hover:text-cyan-300">
+                {server.server_name}
+              </Link>{' '}
+              as <code className="font-mono text-xs text-slate-300">{volumeDevicePath(volume.name)}</code>
+            </p>
+          ) : (
+            <p className="text-sm text-slate-500 mt-1">Not attached. Detached volumes keep their data and stay billed.</p>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setResizeTo(resizeTo === null ? String(volume.size_gb + 50) : null)}
+            className="p-2 text-slate-400 hover:text-cyan-400 transition"
+            title="Resize volume"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={toggleSnapshots}
+            disabled={busy === 'snapshots'}
+            className="p-2 text-slate-400 hover:text-cyan-400 transition"
+            title="Snapshots"
+          >
+            <Camera className="h-4 w-4" />
+          </button>
+          {server && (
+            <button
+              onClick={handleDetach}
+              disabled={busy === 'detach'}
+              className="p-2 text-slate-400 hover:text-white transition"
+              title="Detach from server"
+            >
+              <Unlink className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={handleDelete}
+            disabled={!!server || busy === 'delete'}
+            className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed"
+            title={server ? 'Detach the volume first' : 'Delete volume'}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mb-4 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {resizeTo !== null && (
+        <div className="px-6 py-4 bg-slate-950 border-t border-cyan-500/30 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              min={volume.size_gb + 1}
+              value={resizeTo}
+              onChange={(e) => setResizeTo(e.target.value)}
+              className="w-32 px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+            />
+            <span className="text-sm text-slate-400">GB</span>
+            <button
+              onClick={handleResize}
+              disabled={!!resizeError || busy === 'resize'}
+              className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'resize' ? 'Resizing...' : 'Resize'}
+            </button>
+          </div>
+          {resizeError ? (
+            <p className="text-xs text-red-400">{resizeError}</p>
+          ) : (
+            <p className="text-xs text-slate-400">
+              {formatCurrency(volumePrice(newSize))}/month from next month, plus{' '}
+              {formatCurrency(quoteStorageCharge(newSize - volume.size_gb).amount)} now for the rest of this one. Volumes
+              can grow but not shrink; extend the filesystem on the server afterwards.
+            </p>
+          )}
+        </div>
+      )}
+
+      {snapshots && (
+        <div className="px-6 py-4 bg-slate-950 border-t border-cyan-500/30 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              placeholder="Snapshot name"
+              maxLength={100}
+              className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+            />
+            <button
+              onClick={handleSnapshot}
+              disabled={!snapshotName.trim() || busy === 'snapshot'}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Take Snapshot
+            </button>
+          </div>
+          {snapshots.length === 0 && <p className="text-sm text-slate-400">No snapshots of this volume yet.</p>}
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="flex items-center justify-between gap-4 text-sm">
+              <div>
+                <p className="text-white">{snapshot.name}</p>
+                <p className="text-xs text-slate-400">
+                  {snapshot.size_gb} GB · {new Date(snapshot.created_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onRestore(snapshot, volume)}
+                  className="p-2 text-slate-400 hover:text-cyan-400 transition"
+                  title="Create a volume from this snapshot"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDeleteSnapshot(snapshot)}
+                  disabled={busy === snapshot.id}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                  title="Delete snapshot"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!server && candidates.length > 0 && (
+        <div className="px-6 py-4 bg-slate-950 border-t border-cyan-500/30 flex flex-wrap items-center gap-2">
+          <select
+            value={attachId}
+            onChange={(e) => setAttachId(e.target.value)}
+            className="px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+          >
+            <option value="">Attach to a server...</option>
+            {candidates.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.server_name} ({s.hostname})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAttach}
+            disabled={!attachId || busy === 'attach'}
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Attach
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,9 +10,11 @@ import {
   Users,
   ShoppingCart,
   Gift,
-  Package
+  Package,
+  Ticket
 } from 'lucide-react';
 import { useUserStore } from '../store/authStore';
+import { AuthErrorBanner } from '../components/AuthErrorBanner';
 
 export function AdminLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -30,6 +32,7 @@ export function AdminLayout() {
     { to: '/admin/users', icon: Users, label: 'User Management' },
     { to: '/admin/servers', icon: Server, label: 'Server Management' },
     { to: '/admin/plans', icon: Package, label: 'Plans Management' },
+    { to: '/admin/coupons', icon: Ticket, label: 'Coupons Management' },
     { to: '/admin/orders', icon: ShoppingCart, label: 'Orders Management' },
     { to: '/admin/referrals', icon: Gift, label: 'Referral Management' },
     { to: '/admin/support', icon: MessageSquare, label: 'Support Management' },
@@ -137,6 +140,7 @@ export function AdminLayout() {
         </header>
 
         <main className="flex-1 p-4 sm:p-6 lg:p-8">
+          <AuthErrorBanner />
           <Outlet />
         </main>
       </div>
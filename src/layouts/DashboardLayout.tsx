@@ -158,9 +158,14 @@ import {
   X,
   LayoutDashboard,
   Users,
-  Gift
+  Gift,
+  Globe,
+  Network,
+  HardDrive,
+  Shuffle
 } from 'lucide-react';
 import { useUserStore } from '../store/authStore';
+import { AuthErrorBanner } from '../components/AuthErrorBanner';
 
 export function DashboardLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -176,6 +181,10 @@ export function DashboardLayout() {
   const links = [
     { to: '/dashboard', icon: LayoutDashboard, label: 'Overview' },
     { to: '/dashboard/servers', icon: Server, label: 'My Servers' },
+    { to: '/dashboard/volumes', icon: HardDrive, label: 'Volumes' },
+    { to: '/dashboard/load-balancers', icon: Shuffle, label: 'Load Balancers' },
+    { to: '/dashboard/vpcs', icon: Network, label: 'VPC' },
+    { to: '/dashboard/dns', icon: Globe, label: 'DNS' },
     { to: '/dashboard/referrals', icon: Gift, label: 'Referrals' },
     { to: '/dashboard/billing', icon: CreditCard, label: 'Billing' },
     { to: '/dashboard/support', icon: MessageSquare, label: 'Support' },
@@ -214,7 +223,9 @@ export function DashboardLayout() {
           {/* No overflow-y-auto so the aside stays non-scrollable */}
           <nav className="flex-1 px-4 py-6 space-y-1">
             {links.map((link) => {
-              const isActive = location.pathname === link.to;
+              const isActive =
+                location.pathname === link.to ||
+                (link.to !== '/dashboard' && location.pathname.startsWith(`${link.to}/`));
               return (
                 <Link
                   key={link.to}
@@ -286,6 +297,7 @@ export function DashboardLayout() {
         </header>
 
         <main className="flex-1 p-4 sm:p-6 lg:p-8">
+          <AuthErrorBanner />
           <Outlet />
         </main>
       </div>
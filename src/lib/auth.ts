@@ -0,0 +1,9 @@
+/**
+ * The `?next=` path to return to after signing in or up. Only same-origin paths are
+ * followed, so the parameter can't be used as an open redirect: `//evil.com` and
+ * `/\evil.com` are both read by browsers as another host.
+ */
+export const safeNextPath = (searchParams: URLSearchParams): string | null => {
+  const next = searchParams.get('next');
+  return next && next.startsWith('/') && !/^\/[/\\]/.test(next) ? next : null;
+};
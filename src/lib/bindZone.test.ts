@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+import { parseTtl, parseZoneFile, serializeZone } from './bindZone';
+import { DnsRecord } from '../types';
+
+const zoneFile = (lines: string[]) => lines.join('\n');
+
+describe('parseTtl', () => {
+  it('reads plain seconds, single units and BIND combined units', () => {
+    expect(parseTtl('3600')).toBe(3600);
+    expect(parseTtl('5m')).toBe(300);
+    expect(parseTtl('1H')).toBe(3600);
+    expect(parseTtl('2d')).toBe(172800);
+    expect(parseTtl('1w')).toBe(604800);
+    expect(parseTtl('1h30m')).toBe(5400);
+  });
+
+  it('returns null for anything that is not a TTL', () => {
+    expect(parseTtl('IN')).toBeNull();
+    expect(parseTtl('1x')).toBeNull();
+    expect(parseTtl('h1')).toBeNull();
+  });
+});
+
+describe('parseZoneFile', () => {
+  it('resolves names against $ORIGIN and applies $TTL to records without one', () => {
+    const { records, errors } = parseZoneFile(
+      zoneFile([
+        '$TTL 1h',
+        '@          IN A     203.0.113.10',
+        'www   300  IN A     203.0.113.11',
+        '$ORIGIN mail.example.com.',
+        'smtp          A     203.0.113.12',
+        '$TTL 600',
+        'imap.example.com. A 203.0.113.13',
+      ]),
+      'example.com'
+    );
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      { type: 'A', name: '@', ttl: 3600, value: '203.0.113.10' },
+      { type: 'A', name: 'www', ttl: 300, value: '203.0.113.11' },
+      { type: 'A', name: 'smtp.mail', ttl: 3600, value: '203.0.113.12' },
+      { type: 'A', name: 'imap', ttl: 600, value: '203.0.113.13' },
+    ]);
+  });
+
+  it('falls back to the default TTL before any $TTL', () => {
+    const { records } = parseZoneFile('@ A 203.0.113.10', 'example.com', 1800);
+    expect(records[0].ttl).toBe(1800);
+  });
+
+  it('reads a parenthesised SOA spanning several lines and skips it with a warning', () => {
+    const { records, errors, warnings } = parseZoneFile(
+      zoneFile([
+        '@ IN SOA ns1.example.net. hostmaster.example.com. (',
+        '        2024010101 ; serial',
+        '        3600       ; refresh',
+        '        900        ; retry',
+        '        1209600    ; expire',
+        '        300 )      ; minimum',
+        'www IN A 203.0.113.10',
+      ]),
+      'example.com'
+    );
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([{ line: 1, message: 'SOA record skipped; we publish our own' }]);
+    // The SOA's continuation lines are not read as records of their own
+    expect(records).toEqual([{ type: 'A', name: 'www', ttl: 3600, value: '203.0.113.10' }]);
+  });
+
+  it('gives indented lines the previous owner', () => {
+    const { records } = parseZoneFile(
+      zoneFile(['mail  IN A     203.0.113.20', '      IN AAAA  2001:DB8::20', '      IN MX 10 mx.example.com.']),
+      'example.com'
+    );
+    expect(records.map((r) => [r.name, r.type])).toEqual([
+      ['mail', 'A'],
+      ['mail', 'AAAA'],
+      ['mail', 'MX'],
+    ]);
+    expect(records[1].value).toBe('2001:db8::20');
+  });
+
+  it('accepts TTL units and TTL and class in either order', () => {
+    const { records } = parseZoneFile(
+      zoneFile(['a 1h30m IN A 203.0.113.1', 'b IN 2d A 203.0.113.2', 'c 1w A 203.0.113.3']),
+      'example.com'
+    );
+    expect(records.map((r) => r.ttl)).toEqual([5400, 172800, 604800]);
+  });
+
+  it('unescapes \\" and \\DDD inside quoted strings', () => {
+    const { records, errors } = parseZoneFile(
+      zoneFile(['@ TXT "say \\"hi\\""', 'note TXT "caf\\233 \\059 done"']),
+      'example.com'
+    );
+    expect(errors).toEqual([]);
+    expect(records.map((r) => r.value)).toEqual(['say "hi"', 'café ; done']);
+  });
+
+  it('joins the character-strings of a split TXT record', () => {
+    const { records } = parseZoneFile(
+      zoneFile(['default._domainkey TXT ( "v=DKIM1; k=rsa; "', '   "p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQC" )']),
+      'example.com'
+    );
+    expect(records).toEqual([
+      {
+        type: 'TXT',
+        name: 'default._domainkey',
+        ttl: 3600,
+        value: 'v=DKIM1; k=rsa; p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQC',
+      },
+    ]);
+  });
+
+  it('reads MX, SRV and CAA fields', () => {
+    const { records, errors } = parseZoneFile(
+      zoneFile([
+        '@ MX 10 mx1',
+        '_sip._tcp SRV 10 60 5060 sip.example.com.',
+        '@ CAA 0 issue "letsencrypt.org"',
+      ]),
+      'example.com'
+    );
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      { type: 'MX', name: '@', ttl: 3600, value: 'mx1.example.com', priority: 10 },
+      { type: 'SRV', name: '_sip._tcp', ttl: 3600, value: 'sip.example.com', priority: 10, weight: 60, port: 5060 },
+      { type: 'CAA', name: '@', ttl: 3600, value: 'letsencrypt.org', flags: 0, tag: 'issue' },
+    ]);
+  });
+
+  it('warns about the records it skips on purpose', () => {
+    const { records, warnings } = parseZoneFile(
+      zoneFile(['@ NS ns1.example.net.', 'version CH TXT "9.18"', 'www A 203.0.113.10']),
+      'example.com'
+    );
+    expect(warnings).toEqual([
+      { line: 1, message: 'Apex NS record skipped; the zone uses our nameservers' },
+      { line: 2, message: 'Skipped CH-class TXT record' },
+    ]);
+    expect(records).toHaveLength(1);
+  });
+
+  it('reports each bad line and keeps the good ones', () => {
+    const { records, errors } = parseZoneFile(
+      zoneFile([
+        '$INCLUDE other.zone',
+        'mx MX mail.example.com.',
+        'dev NS ns1.example.net.',
+        'web HINFO "x86" "Linux"',
+        'other.test. A 203.0.113.1',
+        'bad A 999.0.0.1',
+        'ok A 203.0.113.2',
+        'txt TXT "never closed',
+      ]),
+      'example.com'
+    );
+    expect(errors.map((e) => e.line)).toEqual([1, 2, 3, 4, 5, 6, 8]);
+    expect(errors[0].message).toBe('$INCLUDE is not supported');
+    expect(errors[1].message).toBe('MX records take 2 fields, found 1');
+    expect(errors[2].message).toBe('Delegating subdomains with NS records is not supported');
+    expect(errors[3].message).toBe('Unsupported record type HINFO');
+    expect(errors[4].message).toBe('other.test is outside example.com');
+    expect(errors[5].message).toMatch(/^A bad\.example\.com: /);
+    expect(errors[6].message).toBe('Unterminated quoted string');
+    expect(records.map((r) => r.name)).toEqual(['ok', 'txt']);
+  });
+
+  it('reports unbalanced parentheses and a first record without an owner', () => {
+    expect(parseZoneFile('www A 203.0.113.1 )', 'example.com').errors).toEqual([{ line: 1, message: 'Unexpected ")"' }]);
+    expect(parseZoneFile('www A ( 203.0.113.1', 'example.com').errors).toEqual([
+      { line: 1, message: 'Unclosed "(" at end of file' },
+    ]);
+    expect(parseZoneFile('   A 203.0.113.1', 'example.com').errors).toEqual([
+      { line: 1, message: 'The first record must name its owner' },
+    ]);
+  });
+});
+
+describe('serializeZone', () => {
+  const record = (fields: Omit<DnsRecord, 'id' | 'zone_id'>, i: number): DnsRecord => ({
+    id: `rec_${i}`,
+    zone_id: 'zone_1',
+    ...fields,
+  });
+  const dkim = `v=DKIM1; k=rsa; p=${'A'.repeat(400)}`;
+  const zone = {
+    domain: 'example.com',
+    default_ttl: 3600,
+    updated_at: '2025-10-14T09:30:00.000Z',
+    records: [
+      { type: 'TXT', name: '@', ttl: 3600, value: 'quote " and backslash \\ kept' },
+      { type: 'A', name: 'www', ttl: 300, value: '203.0.113.11' },
+      { type: 'A', name: '@', ttl: 3600, value: '203.0.113.10' },
+      { type: 'MX', name: '@', ttl: 3600, value: 'mx.example.com', priority: 10 },
+      { type: 'CNAME', name: 'blog', ttl: 3600, value: 'hosting.example.net' },
+      { type: 'TXT', name: 'default._domainkey', ttl: 3600, value: dkim },
+      { type: 'SRV', name: '_sip._tcp', ttl: 3600, value: 'sip.example.com', priority: 10, weight: 60, port: 5060 },
+      { type: 'CAA', name: '@', ttl: 3600, value: 'letsencrypt.org', flags: 0, tag: 'issue' },
+    ].map((r, i) => record(r as Omit<DnsRecord, 'id' | 'zone_id'>, i)),
+  };
+
+  it('writes the origin, TTL, our SOA and nameservers, then the apex records first', () => {
+    const lines = serializeZone(zone).split('\n');
+    expect(lines.slice(0, 3)).toEqual(['; Zone file for example.com', '$ORIGIN example.com.', '$TTL 3600']);
+    expect(lines[3]).toMatch(/^@\s+3600\s+IN\s+SOA\s+ns1\.ramaera\.cloud\. hostmaster\.ramaera\.cloud\. 2025101401 /);
+    expect(lines.filter((l) => /\sNS\s/.test(l))).toHaveLength(2);
+    const body = lines.slice(7).filter(Boolean);
+    expect(body[0]).toMatch(/^@\s+3600\s+IN\s+A\s+203\.0\.113\.10$/);
+    expect(body[body.length - 1]).toMatch(/^www\s/);
+  });
+
+  it('splits TXT values longer than 255 bytes into several strings', () => {
+    const line = serializeZone(zone)
+      .split('\n')
+      .find((l) => l.startsWith('default._domainkey'))!;
+    const strings = line.match(/"[^"]*"/g)!;
+    expect(strings).toHaveLength(2);
+    expect(strings[0]).toHaveLength(255 + 2);
+  });
+
+  it('round-trips through parseZoneFile', () => {
+    const text = serializeZone(zone);
+    const parsed = parseZoneFile(text, zone.domain);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.warnings.map((w) => w.message)).toEqual([
+      'SOA record skipped; we publish our own',
+      'Apex NS record skipped; the zone uses our nameservers',
+      'Apex NS record skipped; the zone uses our nameservers',
+    ]);
+    // Compare without ids, in a fixed order
+    const comparable = (records: Omit<DnsRecord, 'id' | 'zone_id'>[]) =>
+      records
+        .map(({ type, name, ttl, value, priority, weight, port, flags, tag }) => ({
+          type, name, ttl, value, priority, weight, port, flags, tag,
+        }))
+        .sort((a, b) => `${a.name}|${a.type}|${a.value}`.localeCompare(`${b.name}|${b.type}|${b.value}`));
+    expect(comparable(parsed.records)).toEqual(comparable(zone.records));
+
+    // And the file it writes back is the same file
+    expect(serializeZone({ ...zone, records: parsed.records.map(record) })).toBe(text);
+  });
+});
@@ -0,0 +1,343 @@
+import { DnsRecordType, DnsZone } from '../types';
+import {
+  DNS_RECORD_TYPES,
+  DnsRecordInput,
+  RAMAERA_NAMESERVERS,
+  absoluteName,
+  normalizeDnsRecord,
+  normalizeHostname,
+  relativeName,
+  validateDnsRecord,
+} from './dns';
+
+export interface ZoneFileIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedZoneFile {
+  records: DnsRecordInput[];
+  // Lines that make the file unusable as a whole, e.g. a malformed MX
+  errors: ZoneFileIssue[];
+  // Lines we understood but deliberately skip, e.g. SOA and apex NS
+  warnings: ZoneFileIssue[];
+}
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+interface Token {
+  text: string;
+  quoted: boolean;
+}
+
+// One logical entry; parentheses let an entry span several physical lines
+interface Entry {
+  line: number;
+  tokens: Token[];
+  // Entries starting with whitespace reuse the previous owner name
+  inheritsOwner: boolean;
+}
+
+const isSpace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\r';
+
+const tokenize = (text: string) => {
+  const entries: Entry[] = [];
+  const errors: ZoneFileIssue[] = [];
+  let line = 1;
+  let depth = 0;
+  let current: Entry | null = null;
+  let lineStart = true;
+
+  const flush = () => {
+    if (current && current.tokens.length > 0) entries.push(current);
+    current = null;
+  };
+  const push = (token: Token) => {
+    current ??= { line, tokens: [], inheritsOwner: false };
+    current.tokens.push(token);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') {
+      line++;
+      lineStart = true;
+      if (depth === 0) flush();
+      continue;
+    }
+    if (lineStart && depth === 0) {
+      current = { line, tokens: [], inheritsOwner: isSpace(ch) };
+    }
+    lineStart = false;
+
+    if (isSpace(ch)) continue;
+    if (ch === ';') {
+      while (i + 1 < text.length && text[i + 1] !== '\n') i++;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      if (depth === 0) errors.push({ line, message: 'Unexpected ")"' });
+      else depth--;
+    } else if (ch === '"') {
+      let value = '';
+      let closed = false;
+      while (++i < text.length && text[i] !== '\n') {
+        if (text[i] === '"') {
+          closed = true;
+          break;
+        }
+        if (text[i] === '\\' && i + 1 < text.length) {
+          // \DDD is a decimal byte value; anything else is the escaped character itself
+          const digits = /^\d{3}/.exec(text.slice(i + 1, i + 4));
+          if (digits) {
+            value += String.fromCharCode(Number(digits[0]));
+            i += 3;
+          } else {
+            value += text[++i];
+          }
+        } else {
+          value += text[i];
+        }
+      }
+      if (!closed) {
+        errors.push({ line, message: 'Unterminated quoted string' });
+        if (text[i] === '\n') i--;
+      }
+      push({ text: value, quoted: true });
+    } else {
+      let value = ch;
+      while (i + 1 < text.length && !/[\s;()"]/.test(text[i + 1])) value += text[++i];
+      push({ text: value, quoted: false });
+    }
+  }
+  if (depth > 0) errors.push({ line, message: 'Unclosed "(" at end of file' });
+  flush();
+  return { entries, errors };
+};
+
+// ============================================================
+// Parser
+// ============================================================
+
+const TTL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+// "3600", "1h" or BIND's combined form "1h30m"; null when the token isn't a TTL
+export const parseTtl = (token: string): number | null => {
+  if (/^\d+$/.test(token)) return Number(token);
+  if (!/^(\d+[smhdw])+$/i.test(token)) return null;
+  let seconds = 0;
+  for (const [, amount, unit] of token.matchAll(/(\d+)([smhdw])/gi)) {
+    seconds += Number(amount) * TTL_UNITS[unit.toLowerCase()];
+  }
+  return seconds;
+};
+
+const CLASSES = ['IN', 'CH', 'HS', 'CS'];
+
+// Number of RDATA fields each type takes (TXT takes one or more)
+const RDATA_FIELDS: Partial<Record<DnsRecordType, number>> = { A: 1, AAAA: 1, CNAME: 1, MX: 2, SRV: 4, CAA: 3 };
+
+/**
+ * Parse a BIND-format zone file for `domain` into records in our canonical form.
+ * Supports $ORIGIN/$TTL, relative and absolute names, inherited owners, parenthesised
+ * multi-line entries, TTL units and the record types we host. SOA and apex NS records
+ * are skipped with a warning because we generate them ourselves.
+ */
+export const parseZoneFile = (text: string, domain: string, defaultTtl = 3600): ParsedZoneFile => {
+  const zone = normalizeHostname(domain);
+  const { entries, errors } = tokenize(text);
+  const warnings: ZoneFileIssue[] = [];
+  const records: DnsRecordInput[] = [];
+
+  let origin = zone;
+  let ttl = defaultTtl;
+  let owner: string | null = null;
+
+  // Resolve a name in the file against the current $ORIGIN
+  const absolute = (name: string) => {
+    if (name === '@') return origin;
+    if (name.endsWith('.')) return normalizeHostname(name);
+    return `${name.toLowerCase()}.${origin}`;
+  };
+
+  for (const entry of entries) {
+    const tokens = [...entry.tokens];
+    const fail = (message: string) => errors.push({ line: entry.line, message });
+    const first = tokens[0].text;
+
+    if (!tokens[0].quoted && first.startsWith('$')) {
+      const directive = first.toUpperCase();
+      if (directive === '$ORIGIN' && tokens[1]) origin = absolute(tokens[1].text);
+      else if (directive === '$TTL' && tokens[1] && parseTtl(tokens[1].text) !== null) ttl = parseTtl(tokens[1].text)!;
+      else fail(`${directive} is not supported`);
+      continue;
+    }
+
+    if (!entry.inheritsOwner) owner = absolute(tokens.shift()!.text);
+    if (owner === null) {
+      fail('The first record must name its owner');
+      continue;
+    }
+
+    // TTL and class may come in either order, and both are optional
+    let recordTtl = ttl;
+    let recordClass = 'IN';
+    while (tokens.length > 0 && !tokens[0].quoted) {
+      const parsedTtl = parseTtl(tokens[0].text);
+      if (parsedTtl !== null) recordTtl = parsedTtl;
+      else if (CLASSES.includes(tokens[0].text.toUpperCase())) recordClass = tokens[0].text.toUpperCase();
+      else break;
+      tokens.shift();
+    }
+    const typeToken = tokens.shift();
+    if (!typeToken) {
+      fail('Missing record type');
+      continue;
+    }
+    const type = typeToken.text.toUpperCase();
+    const rdata = tokens;
+
+    if (recordClass !== 'IN') {
+      warnings.push({ line: entry.line, message: `Skipped ${recordClass}-class ${type} record` });
+      continue;
+    }
+    if (owner !== zone && !owner.endsWith(`.${zone}`)) {
+      fail(`${owner} is outside ${zone}`);
+      continue;
+    }
+    const name = relativeName(owner, zone);
+
+    if (type === 'SOA') {
+      warnings.push({ line: entry.line, message: 'SOA record skipped; we publish our own' });
+      continue;
+    }
+    if (type === 'NS') {
+      if (name === '@') warnings.push({ line: entry.line, message: 'Apex NS record skipped; the zone uses our nameservers' });
+      else fail('Delegating subdomains with NS records is not supported');
+      continue;
+    }
+    if (!DNS_RECORD_TYPES.includes(type as DnsRecordType)) {
+      fail(`Unsupported record type ${type}`);
+      continue;
+    }
+
+    const recordType = type as DnsRecordType;
+    const expected = RDATA_FIELDS[recordType];
+    if (expected !== undefined ? rdata.length !== expected : rdata.length === 0) {
+      fail(`${type} records take ${expected ?? 'at least 1'} field${expected === 1 ? '' : 's'}, found ${rdata.length}`);
+      continue;
+    }
+    const target = (token: Token) => (token.text === '.' ? '.' : absolute(token.text));
+    const int = (token: Token) => (/^\d+$/.test(token.text) ? Number(token.text) : NaN);
+
+    const record: DnsRecordInput = { type: recordType, name, ttl: recordTtl, value: '' };
+    switch (recordType) {
+      case 'A':
+      case 'AAAA':
+        record.value = rdata[0].text;
+        break;
+      case 'CNAME':
+        record.value = target(rdata[0]);
+        break;
+      case 'MX':
+        Object.assign(record, { priority: int(rdata[0]), value: target(rdata[1]) });
+        break;
+      case 'TXT':
+        // Several character-strings in one TXT record are concatenated
+        record.value = rdata.map((t) => t.text).join('');
+        break;
+      case 'SRV':
+        Object.assign(record, {
+          priority: int(rdata[0]),
+          weight: int(rdata[1]),
+          port: int(rdata[2]),
+          value: target(rdata[3]),
+        });
+        break;
+      case 'CAA':
+        Object.assign(record, { flags: int(rdata[0]), tag: rdata[1].text.toLowerCase(), value: rdata[2].text });
+        break;
+    }
+
+    const normalized = normalizeDnsRecord(record, zone);
+    const invalid = Object.values(validateDnsRecord(normalized));
+    if (invalid.length > 0) fail(`${type} ${absoluteName(name, zone)}: ${invalid[0]}`);
+    else records.push(normalized);
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { records, errors, warnings };
+};
+
+// ============================================================
+// Serializer
+// ============================================================
+
+const TYPE_ORDER: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'CAA'];
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// TXT character-strings are at most 255 bytes, so long values (DKIM keys) are split
+const quoteTxt = (value: string) =>
+  (value.match(/[\s\S]{1,255}/g) ?? ['']).map(quote).join(' ');
+
+// Sorts the apex above every other name
+const apexFirst = (name: string) => (name === '@' ? '' : name);
+
+const fqdn = (host: string) => (host === '.' ? '.' : `${host}.`);
+
+const rdataFor = (record: DnsRecordInput) => {
+  switch (record.type) {
+    case 'CNAME':
+      return fqdn(record.value);
+    case 'MX':
+      return `${record.priority} ${fqdn(record.value)}`;
+    case 'TXT':
+      return quoteTxt(record.value);
+    case 'SRV':
+      return `${record.priority} ${record.weight} ${record.port} ${fqdn(record.value)}`;
+    case 'CAA':
+      return `${record.flags} ${record.tag} ${quote(record.value)}`;
+    default:
+      return record.value;
+  }
+};
+
+// YYYYMMDDnn from the last change, so an unchanged zone always exports the same serial
+const soaSerial = (updatedAt: string) => `${updatedAt.slice(0, 10).replace(/-/g, '')}01`;
+
+/**
+ * Write a zone as a BIND zone file that parseZoneFile reads back to the same records.
+ * Names are relative to $ORIGIN; the SOA and NS records describe our nameservers.
+ */
+export const serializeZone = (zone: Pick<DnsZone, 'domain' | 'default_ttl' | 'records' | 'updated_at'>) => {
+  const nameservers = RAMAERA_NAMESERVERS;
+  const records = [...zone.records].sort(
+    (a, b) =>
+      apexFirst(a.name).localeCompare(apexFirst(b.name)) ||
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+      (a.priority ?? 0) - (b.priority ?? 0) ||
+      a.value.localeCompare(b.value)
+  );
+  const width = Math.max(1, ...records.map((r) => r.name.length));
+  const row = (name: string, ttl: number, type: string, rdata: string) =>
+    `${name.padEnd(width)}\t${ttl}\tIN\t${type.padEnd(5)}\t${rdata}`;
+
+  return [
+    `; Zone file for ${zone.domain}`,
+    `$ORIGIN ${zone.domain}.`,
+    `$TTL ${zone.default_ttl}`,
+    row(
+      '@',
+      zone.default_ttl,
+      'SOA',
+      `${fqdn(nameservers[0])} hostmaster.ramaera.cloud. ${soaSerial(zone.updated_at)} 3600 900 1209600 300`
+    ),
+    ...nameservers.map((ns) => row('@', zone.default_ttl, 'NS', fqdn(ns))),
+    '',
+    ...records.map((r) => row(r.name, r.ttl, r.type, rdataFor(r))),
+    '',
+  ].join('\n');
+};
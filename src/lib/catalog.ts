@@ -0,0 +1,264 @@
+import {
+  AddOn,
+  BillingCycle,
+  CatalogBillingCycle,
+  CatalogCycle,
+  CatalogPlanType,
+  DedicatedHardware,
+  HostingPlan,
+  PlanCatalog,
+  PlanPricing,
+  PlanType,
+} from '../types';
+import { SAC_CODES } from './gst';
+import { discountedTerm, planTermPrice } from './pricing';
+
+// ============================================================
+// Bundled catalog: shown until the backend's copy loads, and kept if it can't be loaded.
+// The mock backend seeds from it too. Mirrors supabase/migrations/*_plans_and_pricing_tables.sql
+// ============================================================
+
+const CATALOG_DATE = '2025-10-14T00:00:00.000Z';
+
+export const PLAN_TYPES: CatalogPlanType[] = [
+  { id: 'type_general_purpose', name: 'General Purpose VM', slug: 'general_purpose', description: 'Balanced resources for web apps', icon: 'server', color: 'blue' },
+  { id: 'type_cpu_optimized', name: 'CPU Optimized VM', slug: 'cpu_optimized', description: 'Dedicated CPU for compute tasks', icon: 'zap', color: 'orange' },
+  { id: 'type_memory_optimized', name: 'Memory Optimized VM', slug: 'memory_optimized', description: 'High RAM for databases', icon: 'database', color: 'green' },
+  { id: 'type_dedicated', name: 'Dedicated Server', slug: 'dedicated', description: 'Bare metal with no shared resources', icon: 'hard-drive', color: 'cyan' },
+];
+
+export const BILLING_CYCLES: CatalogBillingCycle[] = [
+  { id: 'cycle_monthly', name: 'Monthly', slug: 'monthly', months: 1, discount_percent: 0, sort_order: 1 },
+  { id: 'cycle_quarterly', name: 'Quarterly', slug: 'quarterly', months: 3, discount_percent: 10, sort_order: 2 },
+  { id: 'cycle_semiannually', name: 'Semi-Annually', slug: 'semiannually', months: 6, discount_percent: 15, sort_order: 3 },
+  { id: 'cycle_annually', name: 'Annually', slug: 'annually', months: 12, discount_percent: 20, sort_order: 4 },
+  { id: 'cycle_biennially', name: 'Biennially', slug: 'biennially', months: 24, discount_percent: 25, sort_order: 5 },
+  { id: 'cycle_triennially', name: 'Triennially', slug: 'triennially', months: 36, discount_percent: 35, sort_order: 6 },
+];
+
+// Mirrors supabase/migrations/*_seed_*_add_ons.sql
+const ADD_ONS: AddOn[] = [
+  { id: 'addon_backups-daily', name: 'Daily Backups', slug: 'backups-daily', description: 'Automatic daily backups of the whole server disk', unit: 'GB', price_per_unit: 1.5, sac_code: SAC_CODES.hosting, is_active: true },
+  { id: 'addon_backups-weekly', name: 'Weekly Backups', slug: 'backups-weekly', description: 'Automatic weekly backups of the whole server disk', unit: 'GB', price_per_unit: 1, sac_code: SAC_CODES.hosting, is_active: true },
+  { id: 'addon_snapshot-storage', name: 'Snapshot Storage', slug: 'snapshot-storage', description: 'On-demand snapshots, billed for the space they use', unit: 'GB', price_per_unit: 3, sac_code: SAC_CODES.hosting, is_active: true },
+  { id: 'addon_additional-ipv4', name: 'Additional IPv4', slug: 'additional-ipv4', description: 'An extra public IPv4 address routed to your server', unit: 'IP', price_per_unit: 150, sac_code: SAC_CODES.network, is_active: true },
+];
+
+const cycleBySlug = (slug: CatalogCycle) => BILLING_CYCLES.find((c) => c.slug === slug)!;
+
+interface PlanSeed {
+  slug: string;
+  name: string;
+  planType: PlanType;
+  vcpu: number;
+  ramGb: number;
+  storageGb: number;
+  bandwidthTb: number;
+  monthlyPrice: number;
+  displayOrder: number;
+  features: string[];
+  isFeatured?: boolean;
+  hardware?: DedicatedHardware;
+}
+
+const planRow = (seed: PlanSeed): HostingPlan => ({
+  id: `plan_${seed.slug}`,
+  name: seed.name,
+  slug: seed.slug,
+  description: seed.hardware
+    ? `${seed.hardware.cpu}, ${seed.hardware.memory}, ${seed.hardware.storage}`
+    : `${seed.vcpu} vCPU, ${seed.ramGb}GB RAM, ${seed.storageGb}GB SSD`,
+  plan_type: seed.planType,
+  vcpu: seed.vcpu,
+  ram_gb: seed.ramGb,
+  storage_gb: seed.storageGb,
+  bandwidth_tb: seed.bandwidthTb,
+  monthly_price: seed.monthlyPrice,
+  annual_price: discountedTerm(seed.monthlyPrice, cycleBySlug('annually')),
+  features: seed.features,
+  is_active: true,
+  is_featured: seed.isFeatured ?? false,
+  display_order: seed.displayOrder,
+  sac_code: SAC_CODES.hosting,
+  hardware: seed.hardware,
+  created_at: CATALOG_DATE,
+  updated_at: CATALOG_DATE,
+});
+
+// [vcpu, ram GB, storage GB, monthly price, most popular]
+type VmTier = [number, number, number, number, boolean?];
+
+// The VM families differ only in their letter, the vCPU wording and one selling point
+const vmFamily = (
+  planType: PlanType,
+  letter: string,
+  firstDisplayOrder: number,
+  cpuLabel: string,
+  highlight: string,
+  tiers: VmTier[]
+) =>
+  tiers.map(([vcpu, ramGb, storageGb, monthlyPrice, isFeatured], index) =>
+    planRow({
+      slug: `${letter.toLowerCase()}-${ramGb}gb`,
+      name: `${letter}.${ramGb}GB`,
+      planType,
+      vcpu,
+      ramGb,
+      storageGb,
+      bandwidthTb: 1,
+      monthlyPrice,
+      displayOrder: firstDisplayOrder + index,
+      isFeatured,
+      features: [
+        `${vcpu} ${cpuLabel}`,
+        `${ramGb}GB RAM`,
+        `${storageGb}GB SSD Storage`,
+        '1TB Bandwidth',
+        highlight,
+        'Console Access',
+        'Full Root Access',
+      ],
+    })
+  );
+
+const PLANS: HostingPlan[] = [
+  ...vmFamily('general_purpose', 'G', 1, 'vCPU', 'IPv4 Address', [
+    [2, 4, 80, 1120],
+    [4, 8, 160, 2240, true],
+    [6, 16, 320, 4080],
+    [8, 32, 480, 6720],
+    [10, 48, 512, 8848],
+    [12, 64, 640, 11360],
+    [16, 96, 740, 15760],
+    [16, 128, 840, 19360],
+    [24, 256, 1280, 35520],
+  ]),
+  ...vmFamily('cpu_optimized', 'C', 10, 'Dedicated vCPU', 'Intel® Xeon® Gold', [
+    [2, 4, 80, 1520],
+    [4, 8, 160, 3040, true],
+    [6, 16, 320, 5280],
+    [8, 32, 480, 8320],
+    [10, 48, 512, 10848],
+    [12, 64, 640, 13760],
+    [16, 96, 740, 18960],
+    [16, 128, 840, 22560],
+    [24, 256, 1280, 40320],
+  ]),
+  ...vmFamily('memory_optimized', 'M', 20, 'vCPU', 'High Memory Ratio', [
+    [1, 8, 80, 1320],
+    [2, 16, 160, 2640, true],
+    [4, 32, 320, 5280],
+    [6, 64, 480, 9520],
+    [8, 96, 512, 13248],
+    [10, 128, 640, 17360],
+    [12, 192, 740, 24560],
+    [16, 256, 840, 32160],
+    [24, 384, 1280, 48320],
+  ]),
+  planRow({
+    slug: 'dedicated-entry',
+    name: 'Entry Server',
+    planType: 'dedicated',
+    vcpu: 12,
+    ramGb: 32,
+    storageGb: 1024,
+    bandwidthTb: 10,
+    monthlyPrice: 8960,
+    displayOrder: 30,
+    features: ['Full Root Access', 'IPMI Access', 'DDoS Protection', '24/7 Support'],
+    hardware: {
+      cpu: 'Intel Xeon E-2136',
+      cores: '6 Cores / 12 Threads',
+      memory: '32GB DDR4',
+      storage: '2x 512GB NVMe SSD',
+      network: '10TB @ 1Gbps',
+      ipv4_count: 1,
+    },
+  }),
+  planRow({
+    slug: 'dedicated-professional',
+    name: 'Professional Server',
+    planType: 'dedicated',
+    vcpu: 16,
+    ramGb: 64,
+    storageGb: 2048,
+    bandwidthTb: 20,
+    monthlyPrice: 15680,
+    displayOrder: 31,
+    isFeatured: true,
+    features: ['Full Root Access', 'IPMI Access', 'Advanced DDoS Protection', 'Priority Support'],
+    hardware: {
+      cpu: 'Intel Xeon E-2288G',
+      cores: '8 Cores / 16 Threads',
+      memory: '64GB DDR4',
+      storage: '2x 1TB NVMe SSD',
+      network: '20TB @ 1Gbps',
+      ipv4_count: 5,
+    },
+  }),
+  planRow({
+    slug: 'dedicated-enterprise',
+    name: 'Enterprise Server',
+    planType: 'dedicated',
+    vcpu: 24,
+    ramGb: 128,
+    storageGb: 4096,
+    bandwidthTb: 50,
+    monthlyPrice: 26880,
+    displayOrder: 32,
+    features: ['Full Root Access', 'IPMI Access', 'Enterprise DDoS Protection', 'Dedicated Manager'],
+    hardware: {
+      cpu: 'Intel Xeon Silver 4214',
+      cores: '12 Cores / 24 Threads',
+      memory: '128GB DDR4',
+      storage: '4x 1TB NVMe SSD',
+      network: '50TB @ 10Gbps',
+      ipv4_count: 16,
+    },
+  }),
+];
+
+// One `plan_pricing` row per plan and cycle
+export const buildPlanPricing = (plans: HostingPlan[], cycles: CatalogBillingCycle[]): PlanPricing[] =>
+  plans.flatMap((plan) =>
+    cycles.map((cycle) => ({ plan_id: plan.id, billing_cycle_id: cycle.id, price: planTermPrice(plan, cycle) }))
+  );
+
+export const FALLBACK_CATALOG: PlanCatalog = {
+  plan_types: PLAN_TYPES,
+  plans: PLANS,
+  billing_cycles: BILLING_CYCLES,
+  plan_pricing: buildPlanPricing(PLANS, BILLING_CYCLES),
+  add_ons: ADD_ONS,
+};
+
+// ============================================================
+// Lookups
+// ============================================================
+
+export const plansOfType = (catalog: PlanCatalog, planType: PlanType) =>
+  catalog.plans
+    .filter((p) => p.is_active && p.plan_type === planType)
+    .sort((a, b) => a.display_order - b.display_order);
+
+// What a whole term of the plan costs before any regional adjustment
+export const termPrice = (catalog: PlanCatalog, plan: HostingPlan, cycleSlug: CatalogCycle): number => {
+  const cycle = catalog.billing_cycles.find((c) => c.slug === cycleSlug);
+  if (!cycle) return plan.monthly_price;
+  const row = catalog.plan_pricing.find((p) => p.plan_id === plan.id && p.billing_cycle_id === cycle.id);
+  return row?.price ?? planTermPrice(plan, cycle);
+};
+
+// Checkout only bills monthly or yearly; the other terms are quoted on the pricing pages
+// but can't be ordered, so they have no order cycle
+export const toOrderCycle = (cycleSlug: CatalogCycle): BillingCycle | null => {
+  if (cycleSlug === 'monthly') return 'monthly';
+  if (cycleSlug === 'annually') return 'annual';
+  return null;
+};
+
+export const fromOrderCycle = (cycle: BillingCycle): CatalogCycle => (cycle === 'annual' ? 'annually' : 'monthly');
+
+// The months and discount behind a checkout cycle
+export const orderCycleTerms = (cycle: BillingCycle, cycles: CatalogBillingCycle[] = BILLING_CYCLES) =>
+  cycles.find((c) => c.slug === fromOrderCycle(cycle)) ?? cycleBySlug(fromOrderCycle(cycle));
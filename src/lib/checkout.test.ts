@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { quoteDeploy } from './checkout';
+import { FALLBACK_CATALOG } from './catalog';
+import { withTax } from './pricing';
+import { planPrice } from './proration';
+import { BillingCycle, PlanCatalog } from '../types';
+
+const g4 = FALLBACK_CATALOG.plans.find((p) => p.slug === 'g-4gb')!;
+
+// The backend's copy with its own annual discount and a repriced plan, so nothing matches the bundled prices
+const catalog: PlanCatalog = {
+  ...FALLBACK_CATALOG,
+  billing_cycles: FALLBACK_CATALOG.billing_cycles.map((c) => (c.slug === 'annually' ? { ...c, discount_percent: 30 } : c)),
+  plan_pricing: FALLBACK_CATALOG.plan_pricing.map((row) =>
+    row.plan_id === g4.id ? { ...row, price: row.price - 120 } : row
+  ),
+};
+
+beforeEach(() => {
+  vi.stubEnv('VITE_SELLER_NAME', 'Example Hosting Pvt Ltd');
+  vi.stubEnv('VITE_SELLER_GSTIN', '27AAPFU0939F1ZV');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('quoteDeploy', () => {
+  it.each<[BillingCycle, string]>([
+    ['monthly', 'mumbai'],
+    ['annual', 'mumbai'],
+    ['monthly', 'singapore'],
+    ['annual', 'singapore'],
+  ])('charges %s in %s what the plan card shows, from the loaded catalog', (cycle, region) => {
+    const card = planPrice(catalog, g4, cycle, region);
+    expect(card).not.toBe(planPrice(FALLBACK_CATALOG, g4, cycle, region));
+
+    const quote = quoteDeploy(catalog, g4, cycle, region);
+    expect(quote.subtotal).toBe(card);
+    expect(quote.total).toBe(withTax(card).total);
+  });
+
+  it("spreads the term over the catalog's months and discount", () => {
+    const quote = quoteDeploy(catalog, g4, 'annual', 'mumbai');
+    expect(quote.list).toBe(g4.monthly_price * 12);
+    expect(quote.subtotal).toBe(g4.annual_price - 120);
+    expect(quote.cycle_discount).toBe(g4.monthly_price * 12 - quote.subtotal);
+  });
+
+  it('prices add-ons over the same term at the cycle discount', () => {
+    const ipv4 = catalog.add_ons.find((a) => a.slug === 'additional-ipv4')!;
+    const quote = quoteDeploy(catalog, g4, 'annual', 'mumbai', [{ add_on_id: ipv4.id, quantity: 2 }]);
+    // 150 x 2 x 12 months, less the catalog's 30%
+    expect(quote.lines[1]).toMatchObject({ list: 3600, amount: 2520 });
+  });
+});
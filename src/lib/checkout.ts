@@ -0,0 +1,52 @@
+import { BillingCycle, HostingPlan, OrderAddOnLine, PlanCatalog } from '../types';
+import { addOnMonthlyPrice } from '../api/addOns';
+import { fromOrderCycle, orderCycleTerms, termPrice } from './catalog';
+import { GstBuyer } from './gst';
+import { CouponTerms, planItem, PriceItem, PriceQuote, quotePrice } from './pricing';
+import { regionName } from './regions';
+
+// Add-ons that can be bought with a new server; snapshot storage is billed by use instead
+export const DEPLOY_ADD_ON_SLUGS = ['backups-daily', 'backups-weekly', 'additional-ipv4'];
+
+export const PAYMENT_METHODS = [
+  { id: 'upi', label: 'UPI' },
+  { id: 'card', label: 'Credit / Debit Card' },
+  { id: 'netbanking', label: 'Net Banking' },
+];
+
+/**
+ * What a new server costs for its first billing period: the plan at the region's price
+ * plus each add-on for the same number of months, less the cycle discount and any coupon,
+ * with GST on top as it applies to the buyer. Term prices and cycles come from the
+ * catalog, as on the pricing pages.
+ */
+export const quoteDeploy = (
+  catalog: PlanCatalog,
+  plan: HostingPlan,
+  cycle: BillingCycle,
+  region: string,
+  lines: OrderAddOnLine[] = [],
+  coupon?: CouponTerms | null,
+  buyer?: GstBuyer | null
+): PriceQuote => {
+  const terms = orderCycleTerms(cycle, catalog.billing_cycles);
+  const items: PriceItem[] = [
+    planItem(
+      plan,
+      termPrice(catalog, plan, fromOrderCycle(cycle)),
+      region,
+      `${plan.name} in ${regionName(region)}, billed ${cycle}`
+    ),
+  ];
+  for (const line of lines) {
+    const addOn = catalog.add_ons.find((a) => a.id === line.add_on_id);
+    if (!addOn || line.quantity < 1) continue;
+    items.push({
+      description: line.quantity > 1 ? `${addOn.name} × ${line.quantity}` : addOn.name,
+      monthly: addOnMonthlyPrice(addOn, plan.storage_gb),
+      quantity: line.quantity,
+      sac_code: addOn.sac_code,
+    });
+  }
+  return quotePrice(items, terms, coupon, buyer);
+};
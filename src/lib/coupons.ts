@@ -0,0 +1,63 @@
+import { CatalogCycle, Coupon } from '../types';
+
+export type CouponInput = Omit<Coupon, 'id' | 'redemptions' | 'created_at' | 'updated_at'>;
+
+// Codes are matched case-insensitively and stored upper-case
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export const validateCouponCode = (code: string): string | null => {
+  const value = normalizeCouponCode(code);
+  if (!value) return 'Enter a code';
+  if (!/^[A-Z0-9][A-Z0-9_-]{2,31}$/.test(value)) return 'Use 3-32 letters, digits, hyphens or underscores';
+  return null;
+};
+
+// Field errors for the admin form, keyed like the API's 422 response
+export const validateCoupon = (coupon: CouponInput): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const codeError = validateCouponCode(coupon.code);
+  if (codeError) errors.code = codeError;
+  if (!(coupon.discount_value > 0)) {
+    errors.discount_value = 'Enter a discount above zero';
+  } else if (coupon.discount_type === 'percent' && coupon.discount_value > 100) {
+    errors.discount_value = 'A percentage can be at most 100';
+  }
+  if (coupon.max_redemptions !== null && !(Number.isInteger(coupon.max_redemptions) && coupon.max_redemptions >= 1)) {
+    errors.max_redemptions = 'Enter a whole number of uses, or leave empty for no limit';
+  }
+  if (coupon.expires_at && Number.isNaN(new Date(coupon.expires_at).getTime())) errors.expires_at = 'Enter a valid date';
+  return errors;
+};
+
+export interface CouponContext {
+  planId: string;
+  cycle: CatalogCycle;
+  // Unknown before sign-in, e.g. in the calculator; checkout checks it when the order is placed
+  isFirstOrder?: boolean;
+  now?: Date;
+}
+
+// Why a code can't be used for this order, or null when it applies
+export const couponIneligibility = (coupon: Coupon, context: CouponContext): string | null => {
+  const now = context.now ?? new Date();
+  if (!coupon.is_active) return 'This code is no longer active';
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) {
+    return `This code expired on ${new Date(coupon.expires_at).toLocaleDateString('en-IN')}`;
+  }
+  if (coupon.max_redemptions !== null && coupon.redemptions >= coupon.max_redemptions) {
+    return 'This code has been fully redeemed';
+  }
+  if (coupon.plan_ids.length > 0 && !coupon.plan_ids.includes(context.planId)) {
+    return "This code doesn't apply to the selected plan";
+  }
+  if (coupon.billing_cycles.length > 0 && !coupon.billing_cycles.includes(context.cycle)) {
+    return "This code doesn't apply to the selected billing cycle";
+  }
+  if (coupon.first_order_only && context.isFirstOrder === false) return 'This code is only for your first order';
+  return null;
+};
+
+export const couponLabel = (coupon: Pick<Coupon, 'code' | 'discount_type' | 'discount_value'>) =>
+  coupon.discount_type === 'percent'
+    ? `${coupon.code} (${coupon.discount_value}% off)`
+    : `${coupon.code} (₹${coupon.discount_value.toLocaleString('en-IN')} off)`;
@@ -0,0 +1,177 @@
+import { CaaTag, DnsRecord, DnsRecordType } from '../types';
+import { isIpv4, isIpv6 } from './ipAddress';
+
+// RFC 1123 host name: dot-separated labels of letters, digits and inner hyphens
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// Trailing dots (FQDN form) are accepted and dropped
+export const normalizeHostname = (value: string) => value.trim().toLowerCase().replace(/\.$/, '');
+
+export const isValidHostname = (value: string) => HOSTNAME_PATTERN.test(normalizeHostname(value));
+
+// Reverse DNS needs a real name under a domain, not a bare label or an address
+export const validatePtrRecord = (value: string): string | null => {
+  const name = normalizeHostname(value);
+  if (!isValidHostname(name) || !name.includes('.')) return 'Enter a fully qualified host name, e.g. mail.example.com';
+  if (/^[\d.]+$/.test(name)) return 'Reverse DNS must be a host name, not an IP address';
+  return null;
+};
+
+// Name our resolvers answer for an address with no custom PTR, e.g. 103-21-58-10.ip.ramaera.cloud
+export const defaultPtrRecord = (address: string) => `${address.replace(/[.:]+/g, '-')}.ip.ramaera.cloud`;
+
+// ============================================================
+// Zone records
+// ============================================================
+
+export type DnsRecordInput = Omit<DnsRecord, 'id' | 'zone_id'> & { id?: string };
+
+export const DNS_RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'CAA'];
+export const CAA_TAGS: CaaTag[] = ['issue', 'issuewild', 'iodef'];
+
+export const MIN_TTL = 60;
+export const MAX_TTL = 604800;
+export const DEFAULT_TTL = 3600;
+
+// Our authoritative servers; customers point their registrar at these
+export const RAMAERA_NAMESERVERS = ['ns1.ramaera.cloud', 'ns2.ramaera.cloud'];
+
+// Owner-name labels may start with "_" (_dmarc, _sip._tcp) and the first may be a "*" wildcard
+const RECORD_LABEL = /^[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?$/i;
+
+// "www.example.com." or "www.example.com" in example.com -> "www"; the apex -> "@"
+export const relativeName = (name: string, domain: string) => {
+  const host = normalizeHostname(name);
+  if (host === '' || host === '@' || host === domain) return '@';
+  return host.endsWith(`.${domain}`) ? host.slice(0, -(domain.length + 1)) : host;
+};
+
+export const absoluteName = (name: string, domain: string) => (name === '@' ? domain : `${name}.${domain}`);
+
+const validateRecordName = (name: string): string | null => {
+  if (name === '@') return null;
+  const labels = name.split('.');
+  const valid = labels.every((label, i) => (label === '*' && i === 0) || RECORD_LABEL.test(label));
+  return valid && name.length <= 200 ? null : 'Use "@" for the domain itself or a name like www, mail or _dmarc';
+};
+
+const isUint = (value: number | undefined, max: number) =>
+  value !== undefined && Number.isInteger(value) && value >= 0 && value <= max;
+
+const validateTarget = (value: string) =>
+  isValidHostname(value) && !/^[\d.]+$/.test(normalizeHostname(value)) ? null : 'Enter a host name, e.g. mail.example.com';
+
+/**
+ * Type-specific checks for one record, keyed by field like the API's 422 errors.
+ * An empty object means the record is valid on its own (see findRecordConflicts for the zone).
+ */
+export const validateDnsRecord = (record: DnsRecordInput) => {
+  const errors: Record<string, string> = {};
+  const nameError = validateRecordName(record.name);
+  if (nameError) errors.name = nameError;
+  if (!isUint(record.ttl, MAX_TTL) || record.ttl < MIN_TTL) {
+    errors.ttl = `TTL must be between ${MIN_TTL} and ${MAX_TTL} seconds`;
+  }
+
+  const value = record.value.trim();
+  switch (record.type) {
+    case 'A':
+      if (!isIpv4(value)) errors.value = 'Enter an IPv4 address, e.g. 203.0.113.10';
+      break;
+    case 'AAAA':
+      if (!isIpv6(value)) errors.value = 'Enter an IPv6 address, e.g. 2001:db8::10';
+      break;
+    case 'CNAME': {
+      if (record.name === '@') errors.name = 'The domain itself cannot be a CNAME; use A/AAAA records instead';
+      const targetError = validateTarget(value);
+      if (targetError) errors.value = targetError;
+      break;
+    }
+    case 'MX': {
+      if (!isUint(record.priority, 65535)) errors.priority = 'Priority must be 0-65535; lower is preferred';
+      const targetError = validateTarget(value);
+      if (targetError) errors.value = targetError;
+      break;
+    }
+    case 'TXT':
+      if (!value) errors.value = 'Enter the text value';
+      else if (value.length > 4000) errors.value = 'TXT values are limited to 4000 characters';
+      break;
+    case 'SRV':
+      if (!/^_[a-z0-9-]+\._(tcp|udp|tls)(\.|$)/i.test(record.name)) {
+        errors.name = 'SRV names look like _service._proto, e.g. _sip._tcp';
+      }
+      if (!isUint(record.priority, 65535)) errors.priority = 'Priority must be 0-65535';
+      if (!isUint(record.weight, 65535)) errors.weight = 'Weight must be 0-65535';
+      if (!isUint(record.port, 65535)) errors.port = 'Port must be 0-65535';
+      // "." means the service is explicitly not available at this domain
+      if (value !== '.' && validateTarget(value)) errors.value = 'Enter the target host name, or "." for none';
+      break;
+    case 'CAA':
+      if (!isUint(record.flags, 255)) errors.flags = 'Flags must be 0-255 (usually 0)';
+      if (!record.tag || !CAA_TAGS.includes(record.tag)) errors.tag = `Tag must be one of ${CAA_TAGS.join(', ')}`;
+      if (record.tag === 'iodef') {
+        if (!/^(mailto:\S+@\S+|https?:\/\/\S+)$/.test(value)) errors.value = 'Enter a mailto: or https:// URL for reports';
+      } else {
+        // issue/issuewild: a CA domain, optionally with parameters, or ";" to forbid issuance
+        const issuer = value.split(';')[0].trim();
+        if (!value || (issuer && !isValidHostname(issuer))) errors.value = 'Enter a CA domain, e.g. letsencrypt.org, or ";"';
+      }
+      break;
+    default:
+      errors.type = 'Unsupported record type';
+  }
+  return errors;
+};
+
+// Canonical form for storage and comparison: relative lower-case names, targets without trailing dots
+export const normalizeDnsRecord = (record: DnsRecordInput, domain: string): DnsRecordInput => {
+  const hostTarget = ['CNAME', 'MX', 'SRV'].includes(record.type) && record.value.trim() !== '.';
+  const value = record.value.trim();
+  const base: DnsRecordInput = {
+    type: record.type,
+    name: relativeName(record.name, domain),
+    ttl: record.ttl,
+    value: hostTarget ? normalizeHostname(value) : record.type === 'AAAA' ? value.toLowerCase() : value,
+  };
+  if (record.type === 'MX' || record.type === 'SRV') base.priority = record.priority;
+  if (record.type === 'SRV') Object.assign(base, { weight: record.weight, port: record.port });
+  if (record.type === 'CAA') Object.assign(base, { flags: record.flags, tag: record.tag });
+  return record.id ? { id: record.id, ...base } : base;
+};
+
+const recordKey = (record: DnsRecordInput) =>
+  [record.type, record.name, record.value, record.priority, record.weight, record.port, record.flags, record.tag].join('|');
+
+/**
+ * Zone-wide rules one record can't check alone: a CNAME must be the only record at its
+ * name, and the same record can't be listed twice. Returns one message per offending index.
+ */
+export const findRecordConflicts = (records: DnsRecordInput[]) => {
+  const conflicts: Record<number, string> = {};
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const key = recordKey(record);
+    if (seen.has(key)) conflicts[index] = 'This record already exists';
+    seen.add(key);
+    const others = records.filter((r, i) => i !== index && r.name === record.name);
+    if (record.type === 'CNAME' && others.length > 0) {
+      conflicts[index] = `${record.name} already has other records; a CNAME must be the only record at its name`;
+    }
+  });
+  return conflicts;
+};
+
+// One-line presentation of a record's data, as shown in the records table
+export const formatRecordValue = (record: DnsRecordInput) => {
+  switch (record.type) {
+    case 'MX':
+      return `${record.priority} ${record.value}`;
+    case 'SRV':
+      return `${record.priority} ${record.weight} ${record.port} ${record.value}`;
+    case 'CAA':
+      return `${record.flags} ${record.tag} "${record.value}"`;
+    default:
+      return record.value;
+  }
+};
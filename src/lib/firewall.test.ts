@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCidr, validateCidr } from './firewall';
+
+describe('validateCidr', () => {
+  it('accepts network blocks and bare addresses', () => {
+    expect(validateCidr('10.0.0.0/8')).toBeNull();
+    expect(validateCidr('192.168.1.128/25')).toBeNull();
+    expect(validateCidr('203.0.113.7')).toBeNull();
+    expect(validateCidr(' 10.0.0.0/8 ')).toBeNull();
+    expect(validateCidr('2001:db8::/32')).toBeNull();
+    expect(validateCidr('2001:db8::1')).toBeNull();
+  });
+
+  it('accepts the whole internet as /0 and single hosts as /32 or /128', () => {
+    expect(validateCidr('0.0.0.0/0')).toBeNull();
+    expect(validateCidr('::/0')).toBeNull();
+    expect(validateCidr('203.0.113.7/32')).toBeNull();
+    expect(validateCidr('2001:db8::1/128')).toBeNull();
+  });
+
+  it('rejects addresses that are not the start of their network and suggests the network', () => {
+    expect(validateCidr('10.0.0.5/8')).toBe('"10.0.0.5/8" has host bits set; did you mean 10.0.0.0/8?');
+    expect(validateCidr('192.168.1.129/25')).toBe('"192.168.1.129/25" has host bits set; did you mean 192.168.1.128/25?');
+    expect(validateCidr('1.2.3.4/0')).toBe('"1.2.3.4/0" has host bits set; did you mean 0.0.0.0/0?');
+    expect(validateCidr('2001:db8::1/32')).toBe('"2001:db8::1/32" has host bits set; did you mean 2001:db8::/32?');
+  });
+
+  it('rejects out-of-range octets and malformed addresses', () => {
+    expect(validateCidr('256.1.1.1')).toBe('"256.1.1.1" is not a valid IPv4 address');
+    expect(validateCidr('10.0.0.300/32')).toBe('"10.0.0.300/32" is not a valid IPv4 address');
+    expect(validateCidr('1.2.3/24')).toBe('"1.2.3/24" is not a valid IPv4 address');
+    expect(validateCidr('2001:db8::g/64')).toBe('"2001:db8::g/64" is not a valid IPv6 address');
+    expect(validateCidr('1.2.3.4/24/1')).toBe('"1.2.3.4/24/1" is not a valid IP address or CIDR block');
+    expect(validateCidr('/24')).toBe('"/24" is not a valid IP address or CIDR block');
+  });
+
+  it('rejects prefixes outside the address family', () => {
+    expect(validateCidr('1.2.3.4/33')).toBe('Prefix length in "1.2.3.4/33" must be between 0 and 32');
+    expect(validateCidr('10.0.0.0/-1')).toMatch(/must be between 0 and 32/);
+    expect(validateCidr('10.0.0.0/')).toMatch(/must be between 0 and 32/);
+    expect(validateCidr('2001:db8::/129')).toBe('Prefix length in "2001:db8::/129" must be between 0 and 128');
+  });
+});
+
+describe('normalizeCidr', () => {
+  it('writes bare addresses as single-host blocks', () => {
+    expect(normalizeCidr('203.0.113.7')).toBe('203.0.113.7/32');
+    expect(normalizeCidr('2001:DB8::1')).toBe('2001:db8::1/128');
+    expect(normalizeCidr(' 10.0.0.0/8 ')).toBe('10.0.0.0/8');
+  });
+});
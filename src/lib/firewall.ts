@@ -0,0 +1,151 @@
+import { FirewallProtocol, FirewallRule } from '../types';
+import { parseIpv4, parseIpv6 } from './ipAddress';
+
+// A rule as edited in the UI or sent to the API, before the backend assigns an id
+export type FirewallRuleInput = Omit<FirewallRule, 'id'> & { id?: string };
+
+export const ANY_IPV4 = '0.0.0.0/0';
+export const ANY_IPV6 = '::/0';
+export const PRIVATE_NETWORKS = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16'];
+
+// ============================================================
+// Addresses
+// ============================================================
+
+// True when any bit after the prefix is set, e.g. 10.0.0.5/8
+const hasHostBits = (words: number[], wordBits: number, prefix: number) =>
+  words.some((word, i) => {
+    const keep = Math.min(wordBits, Math.max(0, prefix - i * wordBits));
+    return (word & ((1 << (wordBits - keep)) - 1)) !== 0;
+  });
+
+const formatNetwork = (words: number[], wordBits: number, prefix: number, ipv6: boolean) => {
+  const masked = words.map((word, i) => {
+    const keep = Math.min(wordBits, Math.max(0, prefix - i * wordBits));
+    return keep === 0 ? 0 : word & ~((1 << (wordBits - keep)) - 1) & ((1 << wordBits) - 1);
+  });
+  const address = ipv6
+    ? // Collapse the first run of zero groups: 2001:db8:0:0:0:0:0:0 -> 2001:db8::
+      masked.map((w) => w.toString(16)).join(':').replace(/(^|:)0(:0)+(:|$)/, '::')
+    : masked.join('.');
+  return `${address}/${prefix}`;
+};
+
+/**
+ * Validate an IPv4/IPv6 address or CIDR block. A bare address means that single host.
+ * Returns a user-facing message, or null when the value is fine.
+ */
+export const validateCidr = (value: string): string | null => {
+  const [address, prefixText, ...rest] = value.trim().split('/');
+  if (rest.length > 0 || !address) return `"${value}" is not a valid IP address or CIDR block`;
+  const ipv6 = address.includes(':');
+  const words = ipv6 ? parseIpv6(address) : parseIpv4(address);
+  if (!words) return `"${value}" is not a valid ${ipv6 ? 'IPv6' : 'IPv4'} address`;
+
+  const maxPrefix = ipv6 ? 128 : 32;
+  if (prefixText === undefined) return null;
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > maxPrefix) {
+    return `Prefix length in "${value}" must be between 0 and ${maxPrefix}`;
+  }
+  const prefix = Number(prefixText);
+  const wordBits = ipv6 ? 16 : 8;
+  if (hasHostBits(words, wordBits, prefix)) {
+    return `"${value}" has host bits set; did you mean ${formatNetwork(words, wordBits, prefix, ipv6)}?`;
+  }
+  return null;
+};
+
+// "203.0.113.7" -> "203.0.113.7/32" so equal rules compare equal
+export const normalizeCidr = (value: string) => {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed.includes('/')) return trimmed;
+  return `${trimmed}/${trimmed.includes(':') ? 128 : 32}`;
+};
+
+// ============================================================
+// Ports
+// ============================================================
+
+// "22" or "8000-8100"; ICMP has no ports
+export const validatePorts = (protocol: FirewallProtocol, ports: string): string | null => {
+  const value = ports.trim();
+  if (protocol === 'icmp') return value ? 'ICMP rules do not take ports' : null;
+  if (!value) return 'Enter a port or range, e.g. 443 or 8000-8100';
+  const match = /^(\d{1,5})(?:-(\d{1,5}))?$/.exec(value);
+  if (!match) return 'Use a single port (443) or a range (8000-8100)';
+  const low = Number(match[1]);
+  const high = match[2] === undefined ? low : Number(match[2]);
+  if (low < 1 || high > 65535) return 'Ports must be between 1 and 65535';
+  if (low > high) return 'The range must start with the lower port';
+  return null;
+};
+
+// Field errors keyed like the API's, e.g. { ports: '...', addresses: '...' }
+export const validateRule = (rule: FirewallRuleInput) => {
+  const errors: Record<string, string> = {};
+  const portError = validatePorts(rule.protocol, rule.ports);
+  if (portError) errors.ports = portError;
+  if (rule.addresses.length === 0) {
+    errors.addresses = `Add at least one address, e.g. ${ANY_IPV4} for anywhere`;
+  } else {
+    const addressError = rule.addresses.map(validateCidr).find(Boolean);
+    if (addressError) errors.addresses = addressError;
+  }
+  return errors;
+};
+
+// ============================================================
+// Presets and diffs
+// ============================================================
+
+export const FIREWALL_PRESETS: { id: string; label: string; rules: FirewallRuleInput[] }[] = [
+  {
+    id: 'ssh',
+    label: 'SSH',
+    rules: [{ direction: 'inbound', protocol: 'tcp', ports: '22', addresses: [ANY_IPV4, ANY_IPV6], description: 'SSH' }],
+  },
+  {
+    id: 'web',
+    label: 'HTTP/HTTPS',
+    rules: [
+      { direction: 'inbound', protocol: 'tcp', ports: '80', addresses: [ANY_IPV4, ANY_IPV6], description: 'HTTP' },
+      { direction: 'inbound', protocol: 'tcp', ports: '443', addresses: [ANY_IPV4, ANY_IPV6], description: 'HTTPS' },
+    ],
+  },
+  {
+    id: 'mysql-private',
+    label: 'MySQL (private network)',
+    rules: [
+      { direction: 'inbound', protocol: 'tcp', ports: '3306', addresses: PRIVATE_NETWORKS, description: 'MySQL' },
+    ],
+  },
+];
+
+const ruleKey = (rule: FirewallRuleInput) =>
+  [rule.direction, rule.protocol, rule.ports.trim(), rule.addresses.map(normalizeCidr).sort().join(',')].join('|');
+
+export const describeRule = (rule: FirewallRuleInput) => {
+  const ports = rule.protocol === 'icmp' ? '' : ` ${rule.ports}`;
+  const preposition = rule.direction === 'inbound' ? 'from' : 'to';
+  return `${rule.direction === 'inbound' ? 'Inbound' : 'Outbound'} ${rule.protocol.toUpperCase()}${ports} ${preposition} ${rule.addresses.join(', ')}`;
+};
+
+export interface FirewallRuleDiff {
+  added: FirewallRuleInput[];
+  removed: FirewallRuleInput[];
+  unchanged: FirewallRuleInput[];
+}
+
+/**
+ * Compare two rule lists by what they allow rather than by id or order, so an edited
+ * rule shows up as one removed and one added line, and reordering is not a change.
+ */
+export const diffRules = (before: FirewallRuleInput[], after: FirewallRuleInput[]): FirewallRuleDiff => {
+  const beforeKeys = new Set(before.map(ruleKey));
+  const afterKeys = new Set(after.map(ruleKey));
+  return {
+    added: after.filter((r) => !beforeKeys.has(ruleKey(r))),
+    removed: before.filter((r) => !afterKeys.has(ruleKey(r))),
+    unchanged: after.filter((r) => beforeKeys.has(ruleKey(r))),
+  };
+};
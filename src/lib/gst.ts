@@ -0,0 +1,185 @@
+import { GstTreatment, TaxBreakdown, User } from '../types';
+
+// ============================================================
+// GST rules for what we sell: who the supply is to, where it is supplied, and
+// how the tax is split. The rates and rounding live in the pricing engine.
+// ============================================================
+
+// State codes as they lead a GSTIN and name a place of supply on invoices
+export const GST_STATES = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+];
+
+export const gstStateName = (code?: string | null) => GST_STATES.find((s) => s.code === code)?.name;
+
+const SELLER_EMAIL = 'support@ramaerahosting.com';
+
+// Services accounting codes for what appears on an invoice
+export const SAC_CODES = {
+  hosting: '998315', // Hosting and IT infrastructure provisioning
+  network: '998316', // IT infrastructure and network management
+};
+
+export const DEFAULT_SAC_CODE = SAC_CODES.hosting;
+
+// The billing details on a customer's profile that decide how they are taxed
+export type GstBuyer = Pick<User, 'country' | 'billing_state' | 'gstin'>;
+
+export const isIndia = (country?: string | null) => !country || /^(india|in|ind)$/i.test(country.trim());
+
+export const normalizeGstin = (gstin: string) => gstin.replace(/\s/g, '').toUpperCase();
+
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// The 15th character: each of the first 14 weighted 1, 2, 1, 2..., summed in base 36
+const gstinCheckChar = (body: string) => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(body[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36];
+};
+
+/**
+ * A GSTIN is the state code, the holder's PAN, an entity number, a `Z` and a check
+ * character. Returns an error message, or `null` when it is well formed.
+ */
+export const validateGstin = (value: string): string | null => {
+  const gstin = normalizeGstin(value);
+  if (gstin.length !== 15) return 'A GSTIN is 15 characters';
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) {
+    return 'Enter a GSTIN like 27AAPFU0939F1ZV';
+  }
+  if (!gstStateName(gstin.slice(0, 2))) return `${gstin.slice(0, 2)} is not a GST state code`;
+  if (gstinCheckChar(gstin) !== gstin[14]) return 'This GSTIN has a typo: its check character does not match';
+  return null;
+};
+
+/**
+ * Who issues our invoices: the registered legal name and GSTIN, set per deployment in
+ * VITE_SELLER_NAME and VITE_SELLER_GSTIN. The GSTIN's state is our state, which decides
+ * CGST + SGST or IGST for every buyer, so nothing is priced or invoiced without it.
+ * The address (VITE_SELLER_ADDRESS, lines split by `|`) and the UPI ID payments go to
+ * (VITE_SELLER_UPI_ID) are optional; invoices leave out whatever isn't set.
+ */
+export const getSeller = () => {
+  const name = import.meta.env.VITE_SELLER_NAME?.trim();
+  const gstin = normalizeGstin(import.meta.env.VITE_SELLER_GSTIN ?? '');
+  if (!name || !gstin) {
+    throw new Error(
+      'Missing seller details for GST. Please ensure VITE_SELLER_NAME and VITE_SELLER_GSTIN are set in your .env file.'
+    );
+  }
+  const gstinError = validateGstin(gstin);
+  if (gstinError) throw new Error(`VITE_SELLER_GSTIN is not a valid GSTIN: ${gstinError}`);
+  const address = (import.meta.env.VITE_SELLER_ADDRESS ?? '')
+    .split('|')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return {
+    name,
+    gstin,
+    state_code: gstin.slice(0, 2),
+    address,
+    email: SELLER_EMAIL,
+    upi_id: import.meta.env.VITE_SELLER_UPI_ID?.trim() || null,
+  };
+};
+
+// Field errors for the billing details on a profile; a GSTIN must be registered in the billing state
+export const validateGstBuyer = (buyer: GstBuyer): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  if (!isIndia(buyer.country)) {
+    if (buyer.gstin) errors.gstin = 'Only customers billed in India can add a GSTIN';
+    return errors;
+  }
+  if (buyer.billing_state && !gstStateName(buyer.billing_state)) errors.billing_state = 'Choose a state';
+  if (buyer.gstin) {
+    const gstinState = normalizeGstin(buyer.gstin).slice(0, 2);
+    const gstinError = validateGstin(buyer.gstin);
+    if (gstinError) errors.gstin = gstinError;
+    else if (buyer.billing_state && gstinState !== buyer.billing_state) {
+      errors.gstin = `This GSTIN is registered in ${gstStateName(gstinState)}, not ${gstStateName(buyer.billing_state)}`;
+    }
+  }
+  return errors;
+};
+
+/**
+ * The state a supply is made in: a registered buyer's GSTIN state, else their billing
+ * state, else (no address on file) our own state. `null` for customers abroad.
+ */
+export const placeOfSupply = (buyer?: GstBuyer | null): string | null => {
+  if (!isIndia(buyer?.country)) return null;
+  if (buyer?.gstin) return normalizeGstin(buyer.gstin).slice(0, 2);
+  return buyer?.billing_state || getSeller().state_code;
+};
+
+// CGST + SGST within our state, IGST across states, and no GST on exports (the buyer accounts for it)
+export const gstTreatment = (buyer?: GstBuyer | null): GstTreatment => {
+  const state = placeOfSupply(buyer);
+  if (state === null) return 'export';
+  return state === getSeller().state_code ? 'intra_state' : 'inter_state';
+};
+
+export const GST_TREATMENT_LABELS: Record<GstTreatment, string> = {
+  intra_state: 'CGST + SGST',
+  inter_state: 'IGST',
+  export: 'Export of services, reverse charge',
+};
+
+const percent = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+// The tax rows printed under a subtotal, in the order the GST rules name them
+export const taxLines = (breakdown: TaxBreakdown) => {
+  const { treatment, rate } = breakdown;
+  if (treatment === 'intra_state') {
+    return [
+      { label: `CGST (${percent(rate / 2)})`, amount: breakdown.cgst },
+      { label: `SGST (${percent(rate / 2)})`, amount: breakdown.sgst },
+    ];
+  }
+  if (treatment === 'inter_state') return [{ label: `IGST (${percent(rate)})`, amount: breakdown.igst }];
+  return [{ label: 'IGST (0%, reverse charge)', amount: 0 }];
+};
+
+export const placeOfSupplyLabel = (breakdown: TaxBreakdown) =>
+  breakdown.place_of_supply
+    ? `${gstStateName(breakdown.place_of_supply)} (${breakdown.place_of_supply})`
+    : 'Outside India (export)';
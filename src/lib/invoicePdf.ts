@@ -0,0 +1,216 @@
+import type { jsPDF } from 'jspdf';
+import { Invoice, InvoiceBuyer } from '../types';
+import { getSeller, gstStateName, placeOfSupplyLabel, taxLines } from './gst';
+import { amountInWords, upiPaymentLink } from './invoices';
+
+// ============================================================
+// Tax invoice as an A4 PDF, drawn in the browser. jsPDF and the QR encoder are
+// only loaded when someone downloads an invoice.
+// ============================================================
+
+const PAGE_WIDTH = 210;
+const MARGIN = 15;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const PAGE_BOTTOM = 280;
+
+// The built-in PDF fonts have no rupee sign, so amounts are printed as plain figures in INR
+const money = (amount: number) =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const printDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const stateLine = (code?: string | null) => (code ? `${gstStateName(code)} (State code ${code})` : undefined);
+
+const buyerLines = (buyer: InvoiceBuyer) =>
+  [
+    buyer.company,
+    buyer.company ? `Attn: ${buyer.name}` : buyer.name,
+    buyer.address,
+    buyer.city,
+    stateLine(buyer.state),
+    buyer.country,
+    buyer.email,
+  ].filter((line): line is string => !!line);
+
+const label = (doc: jsPDF, text: string, x: number, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  doc.text(text.toUpperCase(), x, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(20);
+};
+
+const ITEM_COLUMNS = { index: MARGIN + 2, description: MARGIN + 10, sac: 122, quantity: 150, rate: 172, amount: RIGHT - 2 };
+
+const itemsHeader = (doc: jsPDF, y: number) => {
+  doc.setFillColor(236, 254, 255);
+  doc.rect(MARGIN, y - 5, RIGHT - MARGIN, 7, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.text('#', ITEM_COLUMNS.index, y);
+  doc.text('Description', ITEM_COLUMNS.description, y);
+  doc.text('SAC', ITEM_COLUMNS.sac, y);
+  doc.text('Qty', ITEM_COLUMNS.quantity, y, { align: 'right' });
+  doc.text('Rate', ITEM_COLUMNS.rate, y, { align: 'right' });
+  doc.text('Amount (INR)', ITEM_COLUMNS.amount, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  return y + 7;
+};
+
+/**
+ * Lays out the invoice: our details and the buyer's, the items with their SAC codes, the
+ * GST split for the place of supply, the total in words, and a UPI QR code while unpaid.
+ */
+export const renderInvoicePdf = async (invoice: Invoice, buyer: InvoiceBuyer) => {
+  // Before loading anything: an invoice without our GSTIN can't be issued
+  const seller = getSeller();
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `Invoice ${invoice.invoice_number}`, author: seller.name });
+  doc.setTextColor(20);
+
+  // Seller and invoice details
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(seller.name, MARGIN, 20);
+  doc.setFontSize(14);
+  doc.setTextColor(8, 145, 178);
+  doc.text('TAX INVOICE', RIGHT, 20, { align: 'right' });
+  doc.setTextColor(20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const sellerLines = [...seller.address, stateLine(seller.state_code)!, `GSTIN: ${seller.gstin}`, seller.email];
+  doc.text(sellerLines, MARGIN, 26);
+
+  const facts = [
+    ['Invoice No.', invoice.invoice_number],
+    ['Invoice Date', printDate(invoice.created_at)],
+    ['Due Date', printDate(invoice.due_date)],
+    ['Status', invoice.status.toUpperCase()],
+  ];
+  facts.forEach(([name, value], i) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(name, 130, 26 + i * 4.5);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, RIGHT, 26 + i * 4.5, { align: 'right' });
+  });
+
+  // Buyer
+  let y = 56;
+  doc.setDrawColor(200);
+  doc.line(MARGIN, y - 6, RIGHT, y - 6);
+  label(doc, 'Bill To', MARGIN, y);
+  const billTo = buyerLines(buyer);
+  doc.text(billTo, MARGIN, y + 5);
+  label(doc, 'Buyer GSTIN', 130, y);
+  doc.text(invoice.buyer_gstin || 'Unregistered', 130, y + 5);
+  if (invoice.tax_breakdown) {
+    label(doc, 'Place of Supply', 130, y + 12);
+    doc.text(doc.splitTextToSize(placeOfSupplyLabel(invoice.tax_breakdown), RIGHT - 130), 130, y + 17);
+  }
+  y += 5 + Math.max(billTo.length * 4, 20) + 6;
+
+  // Items
+  y = itemsHeader(doc, y);
+  invoice.items.forEach((item, i) => {
+    const description: string[] = doc.splitTextToSize(item.description, ITEM_COLUMNS.sac - ITEM_COLUMNS.description - 4);
+    if (y + description.length * 4 > PAGE_BOTTOM) {
+      doc.addPage();
+      y = itemsHeader(doc, 20);
+    }
+    doc.text(String(i + 1), ITEM_COLUMNS.index, y);
+    doc.text(description, ITEM_COLUMNS.description, y);
+    doc.text(item.sac_code ?? '', ITEM_COLUMNS.sac, y);
+    doc.text(String(item.quantity), ITEM_COLUMNS.quantity, y, { align: 'right' });
+    doc.text(money(item.unit_price), ITEM_COLUMNS.rate, y, { align: 'right' });
+    doc.text(money(item.amount), ITEM_COLUMNS.amount, y, { align: 'right' });
+    y += description.length * 4 + 2;
+  });
+  doc.line(MARGIN, y - 1, RIGHT, y - 1);
+
+  // Totals, with GST split the way it was charged
+  const rows: [string, number][] = [
+    ['Taxable Value', invoice.amount],
+    ...(invoice.tax_breakdown
+      ? taxLines(invoice.tax_breakdown).map((line): [string, number] => [line.label, line.amount])
+      : [['GST', invoice.tax_amount] as [string, number]]),
+  ];
+  if (y + rows.length * 5 + 40 > PAGE_BOTTOM) {
+    doc.addPage();
+    y = 20;
+  }
+  y += 4;
+  rows.forEach(([name, amount]) => {
+    doc.text(name, 150, y, { align: 'right' });
+    doc.text(money(amount), ITEM_COLUMNS.amount, y, { align: 'right' });
+    y += 5;
+  });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('Total (INR)', 150, y + 1, { align: 'right' });
+  doc.text(money(invoice.total_amount), ITEM_COLUMNS.amount, y + 1, { align: 'right' });
+  doc.setFontSize(9);
+  y += 9;
+
+  label(doc, 'Amount in Words', MARGIN, y);
+  doc.text(doc.splitTextToSize(amountInWords(invoice.total_amount), RIGHT - MARGIN), MARGIN, y + 5);
+  y += 14;
+
+  const reverseCharge = invoice.tax_breakdown?.reverse_charge ?? false;
+  doc.text(`Tax payable on reverse charge: ${reverseCharge ? 'Yes' : 'No'}`, MARGIN, y);
+  if (reverseCharge) {
+    doc.text('Export of services under LUT without payment of IGST.', MARGIN, y + 4.5);
+    y += 4.5;
+  }
+  y += 10;
+
+  // Payment
+  if (invoice.status === 'paid') {
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(22, 163, 74);
+    doc.text(`PAID${invoice.paid_at ? ` on ${printDate(invoice.paid_at)}` : ''}`, MARGIN, y);
+    doc.setTextColor(20);
+    doc.setFont('helvetica', 'normal');
+  } else if (invoice.total_amount > 0 && seller.upi_id) {
+    if (y + 40 > PAGE_BOTTOM) {
+      doc.addPage();
+      y = 20;
+    }
+    const link = upiPaymentLink(invoice)!;
+    const { toDataURL } = await import('qrcode');
+    doc.addImage(await toDataURL(link, { margin: 1, width: 240 }), 'PNG', MARGIN, y - 4, 32, 32);
+    label(doc, 'Pay by UPI', MARGIN + 38, y);
+    doc.text(
+      [
+        `Scan with any UPI app, or pay ${seller.upi_id}`,
+        `Amount INR ${money(invoice.total_amount)}, reference ${invoice.invoice_number}`,
+        `Due by ${printDate(invoice.due_date)}`,
+      ],
+      MARGIN + 38,
+      y + 5
+    );
+    doc.setTextColor(8, 145, 178);
+    doc.textWithLink('Open in a UPI app', MARGIN + 38, y + 19, { url: link });
+    doc.setTextColor(20);
+  }
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7.5);
+    doc.setTextColor(120);
+    doc.text('This is a computer-generated invoice and needs no signature.', MARGIN, 290);
+    doc.text(`${invoice.invoice_number} · Page ${page} of ${pages}`, RIGHT, 290, { align: 'right' });
+  }
+  return doc;
+};
+
+export const downloadInvoicePdf = async (invoice: Invoice, buyer: InvoiceBuyer) => {
+  const doc = await renderInvoicePdf(invoice, buyer);
+  doc.save(`${invoice.invoice_number}.pdf`);
+};
@@ -0,0 +1,74 @@
+import { Invoice, InvoiceBuyer, User } from '../types';
+import { getSeller } from './gst';
+
+// ============================================================
+// What a printed invoice says beyond its line items: who it is billed to, the total
+// in words, and how to pay it.
+// ============================================================
+
+// A customer's billing details as they stand, frozen onto each invoice raised for them
+export const invoiceBuyer = (user: User): InvoiceBuyer => ({
+  name: user.full_name,
+  company: user.company_name ?? null,
+  email: user.email,
+  address: user.address,
+  city: user.city,
+  state: user.billing_state ?? null,
+  country: user.country,
+});
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => (n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' '));
+
+const belowThousand = (n: number) =>
+  [n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+
+// Grouped the Indian way: crores, lakhs, thousands, then hundreds
+const wholeInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const crores = Math.floor(n / 10000000);
+  const lakhs = Math.floor((n % 10000000) / 100000);
+  const thousands = Math.floor((n % 100000) / 1000);
+  return [
+    crores ? `${wholeInWords(crores)} Crore` : '',
+    lakhs ? `${belowHundred(lakhs)} Lakh` : '',
+    thousands ? `${belowHundred(thousands)} Thousand` : '',
+    belowThousand(n % 1000),
+  ]
+    .filter(Boolean)
+    .join(' ');
+};
+
+// 2820.2 -> "Indian Rupees Two Thousand Eight Hundred Twenty and Twenty Paise Only"
+export const amountInWords = (amount: number) => {
+  const paise = Math.round(Math.abs(amount) * 100);
+  const rupees = wholeInWords(Math.floor(paise / 100));
+  const cents = paise % 100;
+  return `Indian Rupees ${rupees}${cents ? ` and ${belowHundred(cents)} Paise` : ''} Only`;
+};
+
+/**
+ * A UPI deep link that opens any UPI app with our account, the amount due and the
+ * invoice number filled in, so the payment can be matched to the invoice. `null` when
+ * no UPI ID is configured.
+ */
+export const upiPaymentLink = (invoice: Invoice) => {
+  const seller = getSeller();
+  if (!seller.upi_id) return null;
+  const params = [
+    ['pa', seller.upi_id],
+    ['pn', seller.name],
+    ['am', invoice.total_amount.toFixed(2)],
+    ['cu', 'INR'],
+    ['tr', invoice.invoice_number],
+    ['tn', `Invoice ${invoice.invoice_number}`],
+  ];
+  // Some UPI apps don't decode %40, so the @ in the address stays as it is
+  const encode = (value: string) => encodeURIComponent(value).replace(/%40/g, '@');
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encode(value)}`).join('&')}`;
+};
@@ -0,0 +1,55 @@
+// Returns the four octets, or null if the address is malformed
+export const parseIpv4 = (value: string) => {
+  const parts = value.split('.');
+  if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+  return parts.map(Number);
+};
+
+// Expands "::" and returns the eight 16-bit groups, or null if the address is malformed
+export const parseIpv6 = (value: string) => {
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+};
+
+export const isIpv4 = (value: string) => parseIpv4(value.trim()) !== null;
+export const isIpv6 = (value: string) => parseIpv6(value.trim()) !== null;
+
+// ============================================================
+// IPv4 networks
+// ============================================================
+
+export interface Ipv4Network {
+  // First address as a 32-bit integer
+  network: number;
+  prefix: number;
+  // Number of addresses, including network and broadcast
+  size: number;
+}
+
+export const ipv4ToInt = (octets: number[]) => octets.reduce((n, octet) => n * 256 + octet, 0);
+
+export const intToIpv4 = (value: number) => [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+
+// "10.10.0.0/24" -> its range; null when malformed. Host bits are ignored, see validateCidr for those
+export const parseIpv4Cidr = (value: string): Ipv4Network | null => {
+  const [address, prefixText, ...rest] = value.trim().split('/');
+  const octets = parseIpv4(address);
+  if (!octets || rest.length > 0 || !/^\d{1,2}$/.test(prefixText ?? '') || Number(prefixText) > 32) return null;
+  const prefix = Number(prefixText);
+  const size = 2 ** (32 - prefix);
+  return { network: Math.floor(ipv4ToInt(octets) / size) * size, prefix, size };
+};
+
+export const networksOverlap = (a: Ipv4Network, b: Ipv4Network) =>
+  a.network < b.network + b.size && b.network < a.network + a.size;
+
+export const networkContains = (outer: Ipv4Network, inner: Ipv4Network) =>
+  inner.network >= outer.network && inner.network + inner.size <= outer.network + outer.size;
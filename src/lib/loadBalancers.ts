@@ -0,0 +1,130 @@
+import {
+  ForwardingRule,
+  LoadBalancerBackend,
+  LoadBalancerHealthCheck,
+  LoadBalancerProtocol,
+  LoadBalancerStatus,
+  StickySessions,
+} from '../types';
+
+export type ForwardingRuleInput = Omit<ForwardingRule, 'id'> & { id?: string };
+
+// Sold per month with no term discount; the limits are enforced per load balancer
+export const LOAD_BALANCER_SIZES = [
+  { slug: 'lb-small', name: 'Small', max_connections: 10000, max_rules: 5, max_backends: 10, monthly_price: 999 },
+  { slug: 'lb-medium', name: 'Medium', max_connections: 50000, max_rules: 15, max_backends: 25, monthly_price: 2499 },
+  { slug: 'lb-large', name: 'Large', max_connections: 200000, max_rules: 50, max_backends: 100, monthly_price: 5999 },
+];
+
+export const DEFAULT_LOAD_BALANCER_SIZE = 'lb-small';
+
+export const loadBalancerSize = (slug: string) => LOAD_BALANCER_SIZES.find((s) => s.slug === slug);
+
+export const PROTOCOL_LABELS: Record<LoadBalancerProtocol, string> = { http: 'HTTP', https: 'HTTPS', tcp: 'TCP' };
+
+export const DEFAULT_FORWARDING_RULE: ForwardingRuleInput = {
+  entry_protocol: 'http',
+  entry_port: 80,
+  target_protocol: 'http',
+  target_port: 80,
+  tls_passthrough: false,
+};
+
+export const DEFAULT_HEALTH_CHECK: LoadBalancerHealthCheck = {
+  protocol: 'http',
+  port: 80,
+  path: '/',
+  interval_seconds: 10,
+  timeout_seconds: 5,
+  healthy_threshold: 3,
+  unhealthy_threshold: 3,
+};
+
+export const DEFAULT_STICKY_SESSIONS: StickySessions = {
+  enabled: false,
+  cookie_name: 'RAMAERA_LB',
+  cookie_ttl_seconds: 300,
+};
+
+const isPort = (port: number) => Number.isInteger(port) && port >= 1 && port <= 65535;
+
+// TCP rules forward raw connections, so only HTTP(S) entries can be read for cookies or paths
+const terminatesHttp = (rule: ForwardingRuleInput) => rule.entry_protocol !== 'tcp' && !rule.tls_passthrough;
+
+export const validateForwardingRule = (rule: ForwardingRuleInput): string | null => {
+  if (!isPort(rule.entry_port) || !isPort(rule.target_port)) return 'Ports must be between 1 and 65535';
+  if ((rule.entry_protocol === 'tcp') !== (rule.target_protocol === 'tcp')) {
+    return 'TCP can only forward to TCP, and HTTP(S) only to HTTP(S)';
+  }
+  if (rule.tls_passthrough && (rule.entry_protocol !== 'https' || rule.target_protocol !== 'https')) {
+    return 'TLS passthrough needs HTTPS on both sides';
+  }
+  return null;
+};
+
+/**
+ * Check a load balancer's rules against each other and its size: every rule must be valid
+ * on its own and each entry port can only be listened on once. Returns a message naming
+ * the offending rule, or null.
+ */
+export const validateForwardingRules = (rules: ForwardingRuleInput[], maxRules: number): string | null => {
+  if (rules.length === 0) return 'Add at least one forwarding rule';
+  if (rules.length > maxRules) return `This size allows up to ${maxRules} forwarding rules`;
+  for (let i = 0; i < rules.length; i++) {
+    const error = validateForwardingRule(rules[i]);
+    if (error) return `Rule ${i + 1}: ${error}`;
+    const duplicate = rules.findIndex((r, j) => j < i && r.entry_port === rules[i].entry_port);
+    if (duplicate !== -1) return `Rule ${i + 1}: port ${rules[i].entry_port} is already used by rule ${duplicate + 1}`;
+  }
+  return null;
+};
+
+export const validateHealthCheck = (check: LoadBalancerHealthCheck): string | null => {
+  if (!isPort(check.port)) return 'Health check port must be between 1 and 65535';
+  if (check.protocol !== 'tcp' && !check.path.startsWith('/')) return 'Health check path must start with /';
+  if (!Number.isInteger(check.interval_seconds) || check.interval_seconds < 3 || check.interval_seconds > 300) {
+    return 'Check every 3-300 seconds';
+  }
+  // A check still waiting when the next one is due would overlap it
+  if (!Number.isInteger(check.timeout_seconds) || check.timeout_seconds < 1 || check.timeout_seconds >= check.interval_seconds) {
+    return 'Timeout must be at least 1 second and shorter than the interval';
+  }
+  for (const threshold of [check.healthy_threshold, check.unhealthy_threshold]) {
+    if (!Number.isInteger(threshold) || threshold < 2 || threshold > 10) return 'Thresholds must be 2-10 checks';
+  }
+  return null;
+};
+
+export const validateStickySessions = (sticky: StickySessions, rules: ForwardingRuleInput[]): string | null => {
+  if (!sticky.enabled) return null;
+  if (!rules.some(terminatesHttp)) return 'Sticky sessions need an HTTP or HTTPS rule without TLS passthrough';
+  if (!/^[A-Za-z0-9_-]{1,40}$/.test(sticky.cookie_name)) {
+    return 'Cookie name: up to 40 letters, digits, hyphens or underscores';
+  }
+  if (!Number.isInteger(sticky.cookie_ttl_seconds) || sticky.cookie_ttl_seconds < 60 || sticky.cookie_ttl_seconds > 604800) {
+    return 'Cookie lifetime must be between 60 seconds and 7 days';
+  }
+  return null;
+};
+
+export const loadBalancerStatus = (backends: LoadBalancerBackend[]): LoadBalancerStatus => {
+  const healthy = backends.filter((b) => b.health === 'healthy').length;
+  if (healthy === 0) return 'down';
+  return healthy === backends.length ? 'active' : 'degraded';
+};
+
+export const describeForwardingRule = (rule: ForwardingRuleInput) =>
+  `${PROTOCOL_LABELS[rule.entry_protocol]} ${rule.entry_port} → ${PROTOCOL_LABELS[rule.target_protocol]} ${rule.target_port}` +
+  (rule.tls_passthrough ? ' (passthrough)' : '');
+
+// Badge classes shared by a load balancer's status and its backends' health
+export const getHealthColor = (status: string): string => {
+  const colors: Record<string, string> = {
+    active: 'bg-green-500/20 text-green-400 border border-green-500/30',
+    healthy: 'bg-green-500/20 text-green-400 border border-green-500/30',
+    degraded: 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30',
+    down: 'bg-red-500/20 text-red-400 border border-red-500/30',
+    unhealthy: 'bg-red-500/20 text-red-400 border border-red-500/30',
+  };
+  return colors[status] || 'bg-slate-500/20 text-slate-400 border border-slate-500/30';
+};
@@ -0,0 +1,20 @@
+// Bandwidth allowances reset on the 1st of each month (UTC), independent of the billing anniversary
+export const bandwidthPeriod = (now = new Date()) => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+});
+
+/**
+ * Straight-line projection of month-end transfer from what has been used so far.
+ * `since` is when metering started, which is later than the period start for a server
+ * created mid-month; the projection only covers the time the server will exist.
+ */
+export const projectUsage = (usedGb: number, since: Date, end: Date, now = new Date()) => {
+  const elapsed = now.getTime() - since.getTime();
+  if (elapsed <= 0) return usedGb;
+  const remaining = Math.max(0, end.getTime() - now.getTime());
+  return Math.round((usedGb + (usedGb / elapsed) * remaining) * 10) / 10;
+};
+
+export const formatTransfer = (gb: number) =>
+  gb >= 1000 ? `${(gb / 1000).toFixed(2)} TB` : `${gb.toFixed(gb >= 100 ? 0 : 1)} GB`;
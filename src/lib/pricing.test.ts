@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  couponDiscount,
+  discountedTerm,
+  planItem,
+  planTermPrice,
+  quotePrice,
+  roundMoney,
+  withTax,
+} from './pricing';
+import { BILLING_CYCLES, FALLBACK_CATALOG, termPrice } from './catalog';
+
+const cycle = (slug: string) => BILLING_CYCLES.find((c) => c.slug === slug)!;
+const plan = (slug: string) => FALLBACK_CATALOG.plans.find((p) => p.slug === slug)!;
+
+// Buyers by where they are supplied; the seller below is registered in Maharashtra (27)
+const MAHARASHTRA = { country: 'India', billing_state: '27' };
+const KARNATAKA = { country: 'India', billing_state: '29' };
+const ABROAD = { country: 'Singapore' };
+
+beforeEach(() => {
+  vi.stubEnv('VITE_SELLER_NAME', 'Example Hosting Pvt Ltd');
+  vi.stubEnv('VITE_SELLER_GSTIN', '27AAPFU0939F1ZV');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('roundMoney', () => {
+  it('rounds to whole paise, halves up', () => {
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(2820.199999)).toBe(2820.2);
+    expect(roundMoney(9.0027)).toBe(9);
+  });
+});
+
+describe('cycle discounts', () => {
+  it('prices every plan and cycle at its published term price', () => {
+    for (const p of FALLBACK_CATALOG.plans) {
+      for (const c of FALLBACK_CATALOG.billing_cycles) {
+        const published = termPrice(FALLBACK_CATALOG, p, c.slug);
+        const quote = quotePrice([planItem(p, published, 'mumbai')], c);
+        expect(quote.subtotal).toBe(published);
+        expect(quote.list).toBe(p.monthly_price * c.months);
+        expect(quote.cycle_discount).toBe(roundMoney(p.monthly_price * c.months - published));
+      }
+    }
+  });
+
+  it('takes the cycle discount off the monthly price, rounded to the rupee', () => {
+    const g8 = plan('g-8gb');
+    expect(g8.monthly_price).toBe(2240);
+    expect(planTermPrice(g8, cycle('monthly'))).toBe(2240);
+    expect(planTermPrice(g8, cycle('quarterly'))).toBe(6048);
+    expect(planTermPrice(g8, cycle('annually'))).toBe(g8.annual_price);
+    expect(g8.annual_price).toBe(21504);
+    expect(planTermPrice(g8, cycle('triennially'))).toBe(52416);
+    // 1320 x 6 x 0.85 = 6732; 1321 x 6 x 0.85 = 6737.1
+    expect(discountedTerm(1321, cycle('semiannually'))).toBe(6737);
+  });
+
+  it('discounts items without a published term price by the cycle percentage', () => {
+    const quote = quotePrice([{ description: 'Daily Backups', monthly: 33.33 }], cycle('quarterly'));
+    expect(quote.lines).toEqual([{ description: 'Daily Backups', sac_code: '998315', list: 99.99, amount: 89.99 }]);
+    expect(quote.cycle_discount).toBe(10);
+    expect(quote.effective_monthly).toBe(30);
+  });
+});
+
+describe('couponDiscount', () => {
+  it('takes a percentage of the amount, never more than all of it', () => {
+    expect(couponDiscount(999.99, { discount_type: 'percent', discount_value: 10 })).toBe(100);
+    expect(couponDiscount(1000, { discount_type: 'percent', discount_value: 150 })).toBe(1000);
+  });
+
+  it('takes a flat amount off, never below zero', () => {
+    expect(couponDiscount(1000, { discount_type: 'flat', discount_value: 250 })).toBe(250);
+    expect(couponDiscount(1000, { discount_type: 'flat', discount_value: 5000 })).toBe(1000);
+  });
+
+  it('takes nothing without a coupon or an amount', () => {
+    expect(couponDiscount(1000)).toBe(0);
+    expect(couponDiscount(0, { discount_type: 'flat', discount_value: 100 })).toBe(0);
+  });
+
+  it('leaves nothing to tax when a coupon covers the whole term', () => {
+    const quote = quotePrice(
+      [{ description: 'G.4GB', monthly: 1120 }],
+      cycle('monthly'),
+      { discount_type: 'flat', discount_value: 5000 },
+      KARNATAKA
+    );
+    expect(quote.coupon_discount).toBe(1120);
+    expect(quote.taxable).toBe(0);
+    expect(quote.tax).toBe(0);
+    expect(quote.total).toBe(0);
+  });
+});
+
+describe('withTax', () => {
+  it('splits GST into CGST and SGST within our state, rounding each half', () => {
+    const { tax, breakdown, total } = withTax(100.03, MAHARASHTRA);
+    expect(breakdown).toEqual({
+      treatment: 'intra_state',
+      place_of_supply: '27',
+      rate: 0.18,
+      cgst: 9,
+      sgst: 9,
+      igst: 0,
+      reverse_charge: false,
+    });
+    // Rounded whole this would be 18.01
+    expect(tax).toBe(18);
+    expect(total).toBe(118.03);
+  });
+
+  it('charges IGST to other states', () => {
+    const { tax, breakdown, total } = withTax(100.03, KARNATAKA);
+    expect(breakdown).toMatchObject({ treatment: 'inter_state', place_of_supply: '29', cgst: 0, sgst: 0, igst: 18.01 });
+    expect(tax).toBe(18.01);
+    expect(total).toBe(118.04);
+  });
+
+  it('supplies to the GSTIN state over the billing state', () => {
+    expect(withTax(100, { ...KARNATAKA, gstin: '27AAPFU0939F1ZV' }).breakdown.treatment).toBe('intra_state');
+  });
+
+  it('charges nothing on exports and marks them reverse charge', () => {
+    const { tax, breakdown, total } = withTax(100.03, ABROAD);
+    expect(breakdown).toEqual({
+      treatment: 'export',
+      place_of_supply: null,
+      rate: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      reverse_charge: true,
+    });
+    expect(tax).toBe(0);
+    expect(total).toBe(100.03);
+  });
+
+  it('takes a signed-out visitor to be in our state', () => {
+    expect(withTax(1000).breakdown).toMatchObject({ treatment: 'intra_state', cgst: 90, sgst: 90 });
+  });
+
+  it('refuses to tax anything until the seller is configured', () => {
+    vi.stubEnv('VITE_SELLER_GSTIN', '');
+    expect(() => withTax(1000)).toThrow(/VITE_SELLER_NAME and VITE_SELLER_GSTIN/);
+    vi.stubEnv('VITE_SELLER_GSTIN', '27AAPFU0939F1ZW');
+    expect(() => withTax(1000, KARNATAKA)).toThrow(/not a valid GSTIN/);
+  });
+
+  it("takes our state from the seller's GSTIN", () => {
+    vi.stubEnv('VITE_SELLER_GSTIN', '29AAPFU0939F1ZR');
+    expect(withTax(100, KARNATAKA).breakdown.treatment).toBe('intra_state');
+    expect(withTax(100, MAHARASHTRA).breakdown.treatment).toBe('inter_state');
+  });
+});
+
+describe('regional prices', () => {
+  const g4 = plan('g-4gb');
+
+  it('scales the monthly and term prices and rounds them to the rupee', () => {
+    expect(planItem(g4, 10752, 'mumbai')).toMatchObject({ monthly: 1120, term: 10752 });
+    expect(planItem(g4, 10752, 'bangalore')).toMatchObject({ monthly: 1176, term: 11290 });
+    expect(planItem(g4, 10752, 'singapore')).toMatchObject({ monthly: 1400, term: 13440 });
+  });
+
+  it('prices an unknown region like Mumbai', () => {
+    expect(planItem(g4, 10752, 'atlantis')).toMatchObject({ monthly: 1120, term: 10752 });
+  });
+
+  it('quotes a regional annual term with its own list price and discount', () => {
+    const quote = quotePrice([planItem(g4, 10752, 'singapore')], cycle('annually'), null, ABROAD);
+    expect(quote.list).toBe(16800);
+    expect(quote.subtotal).toBe(13440);
+    expect(quote.cycle_discount).toBe(3360);
+    expect(quote.total).toBe(13440);
+    expect(quote.effective_monthly).toBe(1120);
+  });
+});
+
+describe('quotePrice', () => {
+  it('applies the cycle discount, then the coupon, then GST', () => {
+    const quote = quotePrice(
+      [
+        planItem(plan('g-4gb'), 3024, 'mumbai', 'G.4GB'),
+        { description: 'Additional IPv4 × 2', monthly: 150, quantity: 2, sac_code: '998316' },
+      ],
+      cycle('quarterly'),
+      { discount_type: 'percent', discount_value: 15 },
+      MAHARASHTRA
+    );
+    expect(quote.lines).toEqual([
+      { description: 'G.4GB', sac_code: '998315', list: 3360, amount: 3024 },
+      { description: 'Additional IPv4 × 2', sac_code: '998316', list: 900, amount: 810 },
+    ]);
+    expect(quote.list).toBe(4260);
+    expect(quote.subtotal).toBe(3834);
+    expect(quote.cycle_discount).toBe(426);
+    expect(quote.coupon_discount).toBe(575.1);
+    expect(quote.taxable).toBe(3258.9);
+    // 3258.9 x 9% = 293.301 each half
+    expect(quote.tax_breakdown).toMatchObject({ cgst: 293.3, sgst: 293.3 });
+    expect(quote.tax).toBe(586.6);
+    expect(quote.total).toBe(3845.5);
+    expect(quote.effective_monthly).toBe(1086.3);
+  });
+});
@@ -0,0 +1,146 @@
+import { CatalogBillingCycle, HostingPlan, TaxBreakdown } from '../types';
+import { DEFAULT_SAC_CODE, GstBuyer, gstTreatment, placeOfSupply } from './gst';
+import { regionalPrice } from './regions';
+
+// ============================================================
+// Pricing engine: every quoted or charged amount goes through here, so the pricing
+// pages, the calculator, checkout and invoices can't disagree. Amounts are rupees,
+// rounded to whole paise at each step.
+// ============================================================
+
+// GST charged on everything we sell, including add-ons
+export const GST_RATE = 0.18;
+
+export const roundMoney = (amount: number) => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+export type CycleTerms = Pick<CatalogBillingCycle, 'slug' | 'months' | 'discount_percent'>;
+
+export interface CouponTerms {
+  discount_type: 'percent' | 'flat';
+  discount_value: number;
+}
+
+export interface PriceItem {
+  description: string;
+  // Per unit, at the monthly rate
+  monthly: number;
+  quantity?: number;
+  // Per unit for the whole term, where the catalog publishes one (plans); otherwise the cycle discount applies
+  term?: number;
+  sac_code?: string;
+}
+
+export interface PriceLine {
+  description: string;
+  sac_code: string;
+  // The whole term at the monthly rate
+  list: number;
+  // What is charged for the term, after the cycle discount
+  amount: number;
+}
+
+export interface PriceQuote {
+  lines: PriceLine[];
+  list: number;
+  cycle_discount: number;
+  subtotal: number;
+  coupon_discount: number;
+  taxable: number;
+  tax: number;
+  tax_breakdown: TaxBreakdown;
+  total: number;
+  // Before tax, spread over the months of the term
+  effective_monthly: number;
+}
+
+const sum = (amounts: number[]) => roundMoney(amounts.reduce((total, amount) => total + amount, 0));
+
+// A whole term at the cycle's discount, rounded to the rupee like the published prices
+export const discountedTerm = (monthlyPrice: number, cycle: CycleTerms) =>
+  Math.round(monthlyPrice * cycle.months * (1 - cycle.discount_percent / 100));
+
+/**
+ * What a plan costs for a whole term in Mumbai. Monthly and annual prices are set per
+ * plan; the other terms apply the cycle's discount to the monthly price.
+ */
+export const planTermPrice = (plan: HostingPlan, cycle: CycleTerms) => {
+  if (cycle.slug === 'monthly') return plan.monthly_price;
+  if (cycle.slug === 'annually') return plan.annual_price;
+  return discountedTerm(plan.monthly_price, cycle);
+};
+
+// A plan as a price item; other regions scale each published price and round to the rupee
+export const planItem = (plan: HostingPlan, termPrice: number, region: string, description = plan.name): PriceItem => ({
+  description,
+  monthly: regionalPrice(plan.monthly_price, region),
+  term: regionalPrice(termPrice, region),
+  sac_code: plan.sac_code,
+});
+
+// Percent coupons take their share of the amount; flat ones never take it below zero
+export const couponDiscount = (amount: number, coupon?: CouponTerms | null) => {
+  if (!coupon || amount <= 0) return 0;
+  if (coupon.discount_type === 'percent') return roundMoney((amount * Math.min(coupon.discount_value, 100)) / 100);
+  return roundMoney(Math.min(coupon.discount_value, amount));
+};
+
+/**
+ * GST on an amount for this buyer. Within our state it is half CGST and half SGST, each
+ * rounded on its own as the invoice prints them; other states pay IGST; exports pay none.
+ * Without a buyer (signed out) the supply is taken to be in our state.
+ */
+export const withTax = (amount: number, buyer?: GstBuyer | null, taxRate = GST_RATE) => {
+  const treatment = gstTreatment(buyer);
+  const rate = treatment === 'export' ? 0 : taxRate;
+  const half = treatment === 'intra_state' ? roundMoney((amount * rate) / 2) : 0;
+  const breakdown: TaxBreakdown = {
+    treatment,
+    place_of_supply: placeOfSupply(buyer),
+    rate,
+    cgst: half,
+    sgst: half,
+    igst: treatment === 'inter_state' ? roundMoney(amount * rate) : 0,
+    reverse_charge: treatment === 'export',
+  };
+  const tax = roundMoney(breakdown.cgst + breakdown.sgst + breakdown.igst);
+  return { tax, breakdown, total: roundMoney(amount + tax) };
+};
+
+/**
+ * Price a term: each item for the cycle's months less the cycle discount, then the
+ * coupon on what's left, then GST on the result for the buyer's place of supply.
+ */
+export const quotePrice = (
+  items: PriceItem[],
+  cycle: CycleTerms,
+  coupon?: CouponTerms | null,
+  buyer?: GstBuyer | null,
+  taxRate = GST_RATE
+): PriceQuote => {
+  const lines = items.map((item) => {
+    const quantity = item.quantity ?? 1;
+    const list = roundMoney(item.monthly * quantity * cycle.months);
+    const amount =
+      item.term !== undefined
+        ? roundMoney(item.term * quantity)
+        : roundMoney(list - roundMoney((list * cycle.discount_percent) / 100));
+    return { description: item.description, sac_code: item.sac_code ?? DEFAULT_SAC_CODE, list, amount };
+  });
+  const list = sum(lines.map((line) => line.list));
+  const subtotal = sum(lines.map((line) => line.amount));
+  const coupon_discount = couponDiscount(subtotal, coupon);
+  const taxable = roundMoney(subtotal - coupon_discount);
+  const { tax, breakdown, total } = withTax(taxable, buyer, taxRate);
+  return {
+    lines,
+    list,
+    cycle_discount: roundMoney(list - subtotal),
+    subtotal,
+    coupon_discount,
+    taxable,
+    tax,
+    tax_breakdown: breakdown,
+    total,
+    effective_monthly: roundMoney(taxable / cycle.months),
+  };
+};
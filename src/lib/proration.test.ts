@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { currentBillingPeriod, quoteResize } from './proration';
+import { FALLBACK_CATALOG } from './catalog';
+import { BillingCycle, UserServer } from '../types';
+
+const plan = (slug: string) => FALLBACK_CATALOG.plans.find((p) => p.slug === slug)!;
+const g4 = plan('g-4gb');
+const g8 = plan('g-8gb');
+
+const server = (billing_cycle: BillingCycle, created_at: string, region = 'mumbai') =>
+  ({ id: 'srv_1', billing_cycle, created_at, region }) as UserServer;
+
+const period = (anchor: string, cycle: BillingCycle, now: string) => {
+  const { start, end } = currentBillingPeriod(anchor, cycle, new Date(now));
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+describe('currentBillingPeriod', () => {
+  it('finds the period around now from the anchor', () => {
+    expect(period('2025-01-15T00:00:00.000Z', 'monthly', '2025-03-25T00:00:00.000Z')).toEqual({
+      start: '2025-03-15T00:00:00.000Z',
+      end: '2025-04-15T00:00:00.000Z',
+    });
+  });
+
+  it('keeps a month-end anchor on the last day of shorter months without drifting', () => {
+    const anchor = '2025-01-31T00:00:00.000Z';
+    expect(period(anchor, 'monthly', '2025-02-15T00:00:00.000Z').end).toBe('2025-02-28T00:00:00.000Z');
+    expect(period(anchor, 'monthly', '2025-03-15T00:00:00.000Z')).toEqual({
+      start: '2025-02-28T00:00:00.000Z',
+      end: '2025-03-31T00:00:00.000Z',
+    });
+    expect(period(anchor, 'monthly', '2025-04-15T00:00:00.000Z').end).toBe('2025-04-30T00:00:00.000Z');
+  });
+});
+
+describe('quoteResize', () => {
+  const monthly = server('monthly', '2025-01-15T00:00:00.000Z');
+  // 21 of the 31 days from Mar 15 to Apr 15 are left
+  const midPeriod = new Date('2025-03-25T00:00:00.000Z');
+
+  it('charges the difference for the rest of the period on an upgrade', () => {
+    expect(quoteResize(FALLBACK_CATALOG, monthly, g4, g8, midPeriod)).toEqual({
+      server_id: 'srv_1',
+      current_plan_id: g4.id,
+      target_plan_id: g8.id,
+      billing_cycle: 'monthly',
+      period_start: '2025-03-15T00:00:00.000Z',
+      period_end: '2025-04-15T00:00:00.000Z',
+      days_in_period: 31,
+      days_remaining: 21,
+      // 1120 x 21/31 and 2240 x 21/31
+      unused_credit: 758.71,
+      new_plan_charge: 1517.42,
+      amount: 758.71,
+    });
+  });
+
+  it('credits the difference on a downgrade', () => {
+    const quote = quoteResize(FALLBACK_CATALOG, monthly, g8, g4, midPeriod);
+    expect(quote).toMatchObject({ unused_credit: 1517.42, new_plan_charge: 758.71, amount: -758.71 });
+  });
+
+  it('charges a partly used last day as a whole one', () => {
+    const quote = quoteResize(FALLBACK_CATALOG, monthly, g4, g8, new Date('2025-04-14T12:00:00.000Z'));
+    expect(quote).toMatchObject({ days_in_period: 31, days_remaining: 1, unused_credit: 36.13, new_plan_charge: 72.26 });
+    expect(quote.amount).toBe(36.13);
+  });
+
+  it('prices a resize at the renewal instant against the whole new period', () => {
+    const quote = quoteResize(FALLBACK_CATALOG, monthly, g4, g8, new Date('2025-04-15T00:00:00.000Z'));
+    expect(quote).toMatchObject({
+      period_start: '2025-04-15T00:00:00.000Z',
+      days_in_period: 30,
+      days_remaining: 30,
+      unused_credit: g4.monthly_price,
+      new_plan_charge: g8.monthly_price,
+      amount: 1120,
+    });
+  });
+
+  it('prorates an annual term from its annual prices', () => {
+    // Taken on Feb 29, so it renews on Feb 28 in other years
+    const annual = server('annual', '2024-02-29T00:00:00.000Z');
+    const quote = quoteResize(FALLBACK_CATALOG, annual, g4, g8, new Date('2025-08-01T00:00:00.000Z'));
+    expect(quote).toMatchObject({
+      billing_cycle: 'annual',
+      period_start: '2025-02-28T00:00:00.000Z',
+      period_end: '2026-02-28T00:00:00.000Z',
+      days_in_period: 365,
+      days_remaining: 211,
+      // 10752 x 211/365 and 21504 x 211/365
+      unused_credit: 6215.54,
+      new_plan_charge: 12431.08,
+      amount: 6215.54,
+    });
+  });
+
+  it("prorates at the server's regional price", () => {
+    const annual = server('annual', '2024-02-29T00:00:00.000Z', 'singapore');
+    const quote = quoteResize(FALLBACK_CATALOG, annual, g4, g8, new Date('2025-08-01T00:00:00.000Z'));
+    // 13440 and 26880 a year in Singapore; each side is rounded before taking the difference
+    expect(quote).toMatchObject({ unused_credit: 7769.42, new_plan_charge: 15538.85, amount: 7769.43 });
+  });
+});
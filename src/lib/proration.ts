@@ -0,0 +1,75 @@
+import { BillingCycle, HostingPlan, PlanCatalog, ResizeQuote, UserServer } from '../types';
+import { fromOrderCycle, termPrice } from './catalog';
+import { roundMoney } from './pricing';
+import { regionalPrice } from './regions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Catalog prices are for Mumbai; pass the region to get what a server there costs, as checkout charges it
+export const planPrice = (catalog: PlanCatalog, plan: HostingPlan, cycle: BillingCycle, region?: string) => {
+  const base = termPrice(catalog, plan, fromOrderCycle(cycle));
+  return region ? regionalPrice(base, region) : base;
+};
+
+// Jan 31 + 1 month is Feb 28/29, not Mar 3; the day clamps to the end of the target month
+const addCycles = (anchor: Date, cycle: BillingCycle, count: number) => {
+  const months = anchor.getUTCMonth() + (cycle === 'annual' ? 12 : 1) * count;
+  const year = anchor.getUTCFullYear() + Math.floor(months / 12);
+  const month = ((months % 12) + 12) % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const next = new Date(anchor);
+  next.setUTCFullYear(year, month, Math.min(anchor.getUTCDate(), lastDay));
+  return next;
+};
+
+// Servers renew on the anniversary of their creation date, every month or year
+export const currentBillingPeriod = (anchor: string, cycle: BillingCycle, now = new Date()) => {
+  const start = new Date(anchor);
+  let count = 0;
+  // Always step from the anchor so a clamped Feb 28 doesn't drift the later periods
+  while (addCycles(start, cycle, count + 1) <= now) count++;
+  return { start: addCycles(start, cycle, count), end: addCycles(start, cycle, count + 1) };
+};
+
+/**
+ * Price a plan change for the rest of the current billing period: the unused part of
+ * the current plan is credited and the same share of the new plan is charged. A
+ * negative `amount` is a credit to the account (downgrades).
+ */
+export const quoteResize = (
+  catalog: PlanCatalog,
+  server: UserServer,
+  currentPlan: HostingPlan,
+  targetPlan: HostingPlan,
+  now = new Date()
+): ResizeQuote => {
+  const cycle = server.billing_cycle ?? 'monthly';
+  const { start, end } = currentBillingPeriod(server.created_at, cycle, now);
+  const daysInPeriod = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+  // A part-used day counts as unused, in the customer's favour
+  const daysRemaining = Math.min(daysInPeriod, Math.ceil((end.getTime() - now.getTime()) / DAY_MS));
+  const share = daysRemaining / daysInPeriod;
+
+  const unusedCredit = roundMoney(planPrice(catalog, currentPlan, cycle, server.region) * share);
+  const newPlanCharge = roundMoney(planPrice(catalog, targetPlan, cycle, server.region) * share);
+
+  return {
+    server_id: server.id,
+    current_plan_id: currentPlan.id,
+    target_plan_id: targetPlan.id,
+    billing_cycle: cycle,
+    period_start: start.toISOString(),
+    period_end: end.toISOString(),
+    days_in_period: daysInPeriod,
+    days_remaining: daysRemaining,
+    unused_credit: unusedCredit,
+    new_plan_charge: newPlanCharge,
+    amount: roundMoney(newPlanCharge - unusedCredit),
+  };
+};
+
+// Same family only, since a G. server can't become an M. server in place
+export const resizeOptions = (plans: HostingPlan[], currentPlan: HostingPlan) =>
+  plans
+    .filter((p) => p.is_active && p.plan_type === currentPlan.plan_type && p.id !== currentPlan.id)
+    .sort((a, b) => a.monthly_price - b.monthly_price);
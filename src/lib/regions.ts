@@ -0,0 +1,36 @@
+import { Region } from '../types';
+
+// Data centers we deploy into; the slug is what the API stores
+export const REGIONS: Region[] = [
+  { slug: 'mumbai', name: 'Mumbai', country: 'India', price_multiplier: 1, unavailable_plans: [] },
+  { slug: 'delhi', name: 'Delhi', country: 'India', price_multiplier: 1, unavailable_plans: ['m-384gb'] },
+  {
+    slug: 'bangalore',
+    name: 'Bangalore',
+    country: 'India',
+    price_multiplier: 1.05,
+    unavailable_plans: ['g-256gb', 'c-256gb', 'm-256gb', 'm-384gb'],
+  },
+  {
+    slug: 'singapore',
+    name: 'Singapore',
+    country: 'Singapore',
+    price_multiplier: 1.25,
+    unavailable_plans: ['g-128gb', 'g-256gb', 'c-128gb', 'c-256gb', 'm-192gb', 'm-256gb', 'm-384gb'],
+  },
+];
+
+export const DEFAULT_REGION = 'mumbai';
+
+export const getRegion = (slug: string) => REGIONS.find((r) => r.slug === slug);
+
+export const regionName = (slug: string) => getRegion(slug)?.name ?? slug;
+
+export const isPlanAvailable = (regionSlug: string, planSlug: string) => {
+  const region = getRegion(regionSlug);
+  return !!region && !region.unavailable_plans.includes(planSlug);
+};
+
+// Base (Mumbai) price adjusted for the region, rounded to whole rupees like the price list
+export const regionalPrice = (price: number, regionSlug: string) =>
+  Math.round(price * (getRegion(regionSlug)?.price_multiplier ?? 1));
@@ -0,0 +1,23 @@
+// Returns an error message, or '' when the password is strong enough
+export const validateRootPassword = (password: string) => {
+  if (password.length < 12) return 'Use at least 12 characters';
+  if (!/[a-z]/.test(password) || !/[A-Z]/.test(password) || !/\d/.test(password)) {
+    return 'Mix upper and lower case letters with at least one digit';
+  }
+  return '';
+};
+
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789!@#%^*-_';
+
+export const generatePassword = (length = 20): string => {
+  const bytes = crypto.getRandomValues(new Uint32Array(length));
+  // Regenerate until the result passes our own rules (almost always first try)
+  const password = Array.from(bytes, (b) => PASSWORD_ALPHABET[b % PASSWORD_ALPHABET.length]).join('');
+  return validateRootPassword(password) ? generatePassword(length) : password;
+};
+
+export type AccessMethod = 'password' | 'ssh_key';
+
+// The error for whichever way in was chosen, or '' once it is usable
+export const accessError = (method: AccessMethod, password: string, sshKeyIds: string[]) =>
+  method === 'password' ? validateRootPassword(password) : sshKeyIds.length > 0 ? '' : 'Select at least one SSH key';
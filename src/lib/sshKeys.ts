@@ -0,0 +1,112 @@
+import { SshKeyType } from '../types';
+
+export interface ParsedSshKey {
+  type: SshKeyType;
+  // Raw key blob (the base64 part, decoded); fingerprints are computed over this
+  blob: Uint8Array;
+  bits: number;
+  comment: string;
+}
+
+// Curve name embedded in the key blob and the size of its uncompressed point
+const ECDSA_CURVES: Record<string, { curve: string; bits: number; pointLength: number }> = {
+  'ecdsa-sha2-nistp256': { curve: 'nistp256', bits: 256, pointLength: 65 },
+  'ecdsa-sha2-nistp384': { curve: 'nistp384', bits: 384, pointLength: 97 },
+  'ecdsa-sha2-nistp521': { curve: 'nistp521', bits: 521, pointLength: 133 },
+};
+
+export const SSH_KEY_TYPES: SshKeyType[] = ['ssh-ed25519', 'ssh-rsa', ...(Object.keys(ECDSA_CURVES) as SshKeyType[])];
+
+// Matches OpenSSH's own lower bound for new RSA keys
+export const MIN_RSA_BITS = 2048;
+
+const decodeBase64 = (value: string) => {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(value) || value.length % 4 !== 0) return null;
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+// Reads the length-prefixed strings of the SSH wire format (RFC 4251 section 5)
+const createReader = (blob: Uint8Array) => {
+  let offset = 0;
+  return {
+    next: () => {
+      if (offset + 4 > blob.length) return null;
+      const length = new DataView(blob.buffer, blob.byteOffset + offset, 4).getUint32(0);
+      if (offset + 4 + length > blob.length) return null;
+      const value = blob.subarray(offset + 4, offset + 4 + length);
+      offset += 4 + length;
+      return value;
+    },
+    done: () => offset === blob.length,
+  };
+};
+
+const text = (bytes: Uint8Array | null) => (bytes ? new TextDecoder().decode(bytes) : null);
+
+// mpints carry a leading zero byte when the high bit is set
+const mpintBits = (bytes: Uint8Array) => {
+  let start = 0;
+  while (start < bytes.length && bytes[start] === 0) start++;
+  if (start === bytes.length) return 0;
+  return (bytes.length - start - 1) * 8 + Math.floor(Math.log2(bytes[start])) + 1;
+};
+
+/**
+ * Parse an OpenSSH public key line ("ssh-ed25519 AAAA... comment") and check the
+ * blob really is a key of the declared type. Throws an Error with a user-facing
+ * message when it isn't.
+ */
+export const parseSshPublicKey = (input: string): ParsedSshKey => {
+  if (input.includes('PRIVATE KEY')) {
+    throw new Error('That looks like a private key. Paste the .pub file instead');
+  }
+  const [type, data, ...comment] = input.trim().split(/\s+/);
+  if (!type || !data) {
+    throw new Error('Paste the full public key, e.g. "ssh-ed25519 AAAA... you@laptop"');
+  }
+  if (!SSH_KEY_TYPES.includes(type as SshKeyType)) {
+    throw new Error(`Unsupported key type "${type}". Use ed25519, RSA or ECDSA`);
+  }
+
+  const blob = decodeBase64(data);
+  if (!blob) throw new Error('The key data is not valid base64');
+
+  const reader = createReader(blob);
+  if (text(reader.next()) !== type) throw new Error(`The key data does not match its "${type}" prefix`);
+
+  let bits: number;
+  if (type === 'ssh-ed25519') {
+    const key = reader.next();
+    if (key?.length !== 32) throw new Error('Invalid ed25519 key: expected a 32-byte public key');
+    bits = 256;
+  } else if (type === 'ssh-rsa') {
+    const exponent = reader.next();
+    const modulus = reader.next();
+    if (!exponent?.length || !modulus?.length) throw new Error('Invalid RSA key: missing exponent or modulus');
+    bits = mpintBits(modulus);
+    if (bits < MIN_RSA_BITS) throw new Error(`RSA keys must be at least ${MIN_RSA_BITS} bits (this one is ${bits})`);
+  } else {
+    const { curve, bits: curveBits, pointLength } = ECDSA_CURVES[type];
+    if (text(reader.next()) !== curve) throw new Error(`Invalid ECDSA key: expected curve ${curve}`);
+    const point = reader.next();
+    if (point?.length !== pointLength || point[0] !== 0x04) throw new Error('Invalid ECDSA key: malformed public point');
+    bits = curveBits;
+  }
+  if (!reader.done()) throw new Error('The key data has unexpected trailing bytes');
+
+  return { type: type as SshKeyType, blob, bits, comment: comment.join(' ') };
+};
+
+// "SHA256:..." exactly as `ssh-keygen -lf key.pub` prints it
+export const sshKeyFingerprint = async (key: ParsedSshKey) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', key.blob));
+  return `SHA256:${btoa(String.fromCharCode(...digest)).replace(/=+$/, '')}`;
+};
+
+// Normalised "type base64 comment" form, so the same key pasted twice compares equal
+export const formatSshPublicKey = (key: ParsedSshKey) =>
+  [key.type, btoa(String.fromCharCode(...key.blob)), key.comment].filter(Boolean).join(' ');
@@ -0,0 +1,56 @@
+import { roundMoney } from './pricing';
+
+// Monthly rate per GB, shared by block volumes and the calculator's extra-storage option
+export const STORAGE_PRICE_PER_GB = 2;
+
+export const MIN_VOLUME_GB = 10;
+export const MAX_VOLUME_GB = 4000;
+
+// A server can have this many volumes attached at once
+export const MAX_VOLUMES_PER_SERVER = 7;
+
+// Quick picks in the create form; any whole number of GB in range is allowed
+export const VOLUME_SIZE_PRESETS = [50, 100, 200, 300, 500];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const volumePrice = (sizeGb: number) => sizeGb * STORAGE_PRICE_PER_GB;
+
+// Names become part of the device path, so they follow the same rules as host name labels
+export const validateVolumeName = (name: string): string | null => {
+  const value = name.trim();
+  if (!value) return 'Enter a name, e.g. pg-data';
+  if (!/^[a-z0-9]([a-z0-9-]{0,62}[a-z0-9])?$/.test(value)) {
+    return 'Use lowercase letters, digits and inner hyphens (up to 64 characters)';
+  }
+  return null;
+};
+
+// Volumes only grow: shrinking would cut off a filesystem that fills the disk
+export const validateVolumeSize = (sizeGb: number, currentGb?: number): string | null => {
+  if (!Number.isInteger(sizeGb)) return 'Enter a whole number of GB';
+  if (currentGb !== undefined && sizeGb <= currentGb) return `Enter more than the current ${currentGb} GB`;
+  if (sizeGb < MIN_VOLUME_GB || sizeGb > MAX_VOLUME_GB) return `Volumes are ${MIN_VOLUME_GB}-${MAX_VOLUME_GB} GB`;
+  return null;
+};
+
+// Stable path on the server, independent of the order disks were attached in
+export const volumeDevicePath = (name: string) => `/dev/disk/by-id/scsi-0Ramaera_Volume_${name}`;
+
+/**
+ * Charge for storage added part-way through the month, by creating or growing a volume:
+ * the new GB are billed for the days left until the 1st (UTC), after which the full
+ * size is on every monthly invoice.
+ */
+export const quoteStorageCharge = (addedGb: number, now = new Date()) => {
+  const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  const end = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  const daysInPeriod = Math.round((end - start) / DAY_MS);
+  const daysRemaining = Math.min(daysInPeriod, Math.ceil((end - now.getTime()) / DAY_MS));
+  return {
+    added_gb: addedGb,
+    days_in_period: daysInPeriod,
+    days_remaining: daysRemaining,
+    amount: roundMoney((volumePrice(addedGb) * daysRemaining) / daysInPeriod),
+  };
+};
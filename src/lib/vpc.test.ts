@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { nextVpcAddress, suggestVpcCidr, validateVpcCidr, vpcGateway } from './vpc';
+
+const others = [
+  { name: 'prod', cidr: '10.30.0.0/24' },
+  { name: 'staging', cidr: '172.16.0.0/16' },
+];
+
+describe('validateVpcCidr', () => {
+  it('accepts private blocks from /16 down to /28 that nothing else uses', () => {
+    expect(validateVpcCidr('10.1.0.0/16', others)).toBeNull();
+    expect(validateVpcCidr('10.1.0.0/28', others)).toBeNull();
+    expect(validateVpcCidr('172.17.0.0/24', others)).toBeNull();
+    expect(validateVpcCidr('192.168.0.0/16', others)).toBeNull();
+    // Right next to prod, but not inside it
+    expect(validateVpcCidr('10.30.1.0/24', others)).toBeNull();
+  });
+
+  it('only takes IPv4 blocks written as CIDR', () => {
+    const message = 'Enter an IPv4 block in CIDR form, e.g. 10.10.0.0/24';
+    expect(validateVpcCidr('10.1.0.0', others)).toBe(message);
+    expect(validateVpcCidr('fd00::/64', others)).toBe(message);
+  });
+
+  it('rejects addresses that are not the start of their network', () => {
+    expect(validateVpcCidr('10.1.0.5/24')).toBe('"10.1.0.5/24" has host bits set; did you mean 10.1.0.0/24?');
+    expect(validateVpcCidr('10.1.0.0/15')).toBe('"10.1.0.0/15" has host bits set; did you mean 10.0.0.0/15?');
+  });
+
+  it('rejects out-of-range octets and prefixes', () => {
+    expect(validateVpcCidr('10.256.0.0/16')).toBe('"10.256.0.0/16" is not a valid IPv4 address');
+    expect(validateVpcCidr('10.1.0.0/33')).toBe('Prefix length in "10.1.0.0/33" must be between 0 and 32');
+  });
+
+  it('rejects blocks too big or too small to be a VPC, /0 and /32 included', () => {
+    expect(validateVpcCidr('0.0.0.0/0')).toBe('Use a block between /16 and /28');
+    expect(validateVpcCidr('10.0.0.0/8')).toBe('Use a block between /16 and /28');
+    expect(validateVpcCidr('10.1.0.0/29')).toBe('Use a block between /16 and /28');
+    expect(validateVpcCidr('10.1.0.1/32')).toBe('Use a block between /16 and /28');
+  });
+
+  it('rejects public ranges', () => {
+    expect(validateVpcCidr('8.8.8.0/24')).toBe('Use a private range: 10.0.0.0/8, 172.16.0.0/12, 192.168.0.0/16');
+    // The last /24 of 172.16.0.0/12, then the first one past it
+    expect(validateVpcCidr('172.31.255.0/24')).toBeNull();
+    expect(validateVpcCidr('172.32.0.0/24')).toMatch(/^Use a private range/);
+  });
+
+  it('keeps clear of the built-in private network', () => {
+    expect(validateVpcCidr('10.20.5.0/24')).toBe("10.20.0.0/16 is reserved for each server's built-in private address");
+    expect(validateVpcCidr('10.20.0.0/16')).toMatch(/is reserved/);
+  });
+
+  it('rejects ranges overlapping another VPC, inside, around or equal to it', () => {
+    expect(validateVpcCidr('10.30.0.0/24', others)).toBe('Overlaps prod (10.30.0.0/24)');
+    expect(validateVpcCidr('10.30.0.128/25', others)).toBe('Overlaps prod (10.30.0.0/24)');
+    expect(validateVpcCidr('10.30.0.0/16', others)).toBe('Overlaps prod (10.30.0.0/24)');
+    expect(validateVpcCidr('172.16.5.0/24', others)).toBe('Overlaps staging (172.16.0.0/16)');
+  });
+});
+
+describe('suggestVpcCidr', () => {
+  it('offers the first free 10.x.0.0/24', () => {
+    expect(suggestVpcCidr([])).toBe('10.10.0.0/24');
+    expect(suggestVpcCidr([{ name: 'a', cidr: '10.10.0.0/24' }, { name: 'b', cidr: '10.11.0.0/16' }])).toBe('10.12.0.0/24');
+  });
+});
+
+describe('VPC addresses', () => {
+  it('keeps the first host for the gateway and never hands out the broadcast address', () => {
+    expect(vpcGateway('10.1.0.0/28')).toBe('10.1.0.1');
+    expect(nextVpcAddress('10.1.0.0/28', [])).toBe('10.1.0.2');
+    expect(nextVpcAddress('10.1.0.0/28', ['10.1.0.2', '10.1.0.3'])).toBe('10.1.0.4');
+    // A /28 has 13 addresses for servers: .2 to .14
+    const taken = Array.from({ length: 13 }, (_, i) => `10.1.0.${i + 2}`);
+    expect(nextVpcAddress('10.1.0.0/28', taken.slice(0, -1))).toBe('10.1.0.14');
+    expect(nextVpcAddress('10.1.0.0/28', taken)).toBeNull();
+  });
+});
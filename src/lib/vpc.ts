@@ -0,0 +1,59 @@
+import { Vpc } from '../types';
+import { PRIVATE_NETWORKS, validateCidr } from './firewall';
+import { intToIpv4, ipv4ToInt, networkContains, networksOverlap, parseIpv4, parseIpv4Cidr } from './ipAddress';
+
+// /16 gives 65k addresses, /28 the 13 usable ones a small cluster needs
+export const VPC_MIN_PREFIX = 16;
+export const VPC_MAX_PREFIX = 28;
+
+// Every server's built-in private address comes from here, so VPCs must stay clear of it
+export const DEFAULT_PRIVATE_NETWORK = '10.20.0.0/16';
+
+/**
+ * Check a VPC's IPv4 range: a private (RFC 1918) block of a usable size that doesn't
+ * overlap the built-in private network or the account's other VPCs, since routes
+ * between overlapping networks are ambiguous. Returns a user-facing message or null.
+ */
+export const validateVpcCidr = (cidr: string, others: Pick<Vpc, 'name' | 'cidr'>[] = []): string | null => {
+  const value = cidr.trim();
+  if (!value.includes('/') || value.includes(':')) return 'Enter an IPv4 block in CIDR form, e.g. 10.10.0.0/24';
+  const cidrError = validateCidr(value);
+  if (cidrError) return cidrError;
+
+  const network = parseIpv4Cidr(value)!;
+  if (network.prefix < VPC_MIN_PREFIX || network.prefix > VPC_MAX_PREFIX) {
+    return `Use a block between /${VPC_MIN_PREFIX} and /${VPC_MAX_PREFIX}`;
+  }
+  if (!PRIVATE_NETWORKS.some((range) => networkContains(parseIpv4Cidr(range)!, network))) {
+    return `Use a private range: ${PRIVATE_NETWORKS.join(', ')}`;
+  }
+  if (networksOverlap(network, parseIpv4Cidr(DEFAULT_PRIVATE_NETWORK)!)) {
+    return `${DEFAULT_PRIVATE_NETWORK} is reserved for each server's built-in private address`;
+  }
+  const clash = others.find((other) => {
+    const otherNetwork = parseIpv4Cidr(other.cidr);
+    return otherNetwork && networksOverlap(network, otherNetwork);
+  });
+  return clash ? `Overlaps ${clash.name} (${clash.cidr})` : null;
+};
+
+// First free 10.x.0.0/24 for the create form, skipping the reserved and taken blocks
+export const suggestVpcCidr = (others: Pick<Vpc, 'name' | 'cidr'>[]) => {
+  for (let second = 10; second < 256; second++) {
+    const candidate = `10.${second}.0.0/24`;
+    if (!validateVpcCidr(candidate, others)) return candidate;
+  }
+  return '';
+};
+
+// The first address is the network and the second the VPC router; the last is broadcast
+export const vpcGateway = (cidr: string) => intToIpv4(parseIpv4Cidr(cidr)!.network + 1);
+
+export const nextVpcAddress = (cidr: string, taken: string[]) => {
+  const { network, size } = parseIpv4Cidr(cidr)!;
+  const used = new Set(taken.map((address) => ipv4ToInt(parseIpv4(address) ?? [])));
+  for (let host = network + 2; host < network + size - 1; host++) {
+    if (!used.has(host)) return intToIpv4(host);
+  }
+  return null;
+};
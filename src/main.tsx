@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 import { useUserStore } from './store/authStore'; // Import useUserStore
+import api from './api/axiosInstance';
 
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
@@ -24,4 +25,14 @@ function Main() {
   );
 }
 
-createRoot(document.getElementById('root')!).render(<Main />);
+// VITE_USE_MOCK_API=true serves every API call from in-memory fixtures (no backend needed)
+async function prepare() {
+  if (import.meta.env.VITE_USE_MOCK_API === 'true') {
+    const { enableMockApi } = await import('./mocks');
+    enableMockApi(api);
+  }
+}
+
+prepare().then(() => {
+  createRoot(document.getElementById('root')!).render(<Main />);
+});
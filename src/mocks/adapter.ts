@@ -0,0 +1,104 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { userFromAuthHeader } from './auth';
+import { applyTransitions, getMockDb } from './db';
+import { handlers } from './handlers';
+import { HttpMethod, matchPath, MockHttpError } from './router';
+
+export interface MockAdapterOptions {
+  // Artificial latency so loading states are visible; use 0 in tests
+  delayMs?: number;
+}
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+// Strip the configured baseURL so handlers only see "/servers/..." style paths
+const resolvePath = (config: InternalAxiosRequestConfig) => {
+  const base = (config.baseURL ?? '').replace(/\/+$/, '');
+  const rawUrl = config.url ?? '';
+  const full = /^https?:\/\//.test(rawUrl) ? rawUrl : `${base}/${rawUrl.replace(/^\/+/, '')}`;
+  const url = new URL(full, 'http://mock.local');
+  const basePath = new URL(base || '/', 'http://mock.local').pathname.replace(/\/+$/, '');
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname;
+
+  const query: Record<string, string> = Object.fromEntries(url.searchParams.entries());
+  for (const [key, value] of Object.entries((config.params ?? {}) as Record<string, unknown>)) {
+    if (value !== undefined && value !== null && value !== '') query[key] = String(value);
+  }
+  return { path: path || '/', query };
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CanceledError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    });
+  });
+
+export const createMockAdapter = ({ delayMs = 300 }: MockAdapterOptions = {}): AxiosAdapter => {
+  return async (config) => {
+    await wait(delayMs, config.signal as AbortSignal | undefined);
+
+    const method = (config.method ?? 'get').toLowerCase() as HttpMethod;
+    const { path, query } = resolvePath(config);
+    const headers = AxiosHeaders.from(config.headers);
+
+    const respond = (status: number, data: unknown): AxiosResponse => ({
+      status,
+      statusText: String(status),
+      data,
+      headers: {},
+      config,
+    });
+
+    const fail = (status: number, detail: unknown) => {
+      const response = respond(status, { detail });
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response
+      );
+    };
+
+    applyTransitions();
+
+    for (const candidate of handlers) {
+      if (candidate.method !== method) continue;
+      const params = matchPath(candidate.pattern, path);
+      if (!params) continue;
+
+      try {
+        const result = await candidate.handler({
+          method,
+          path,
+          params,
+          query,
+          body: parseBody(config.data),
+          headers: Object.fromEntries(Object.entries(headers.toJSON()).map(([k, v]) => [k.toLowerCase(), String(v)])),
+          db: getMockDb(),
+          currentUser: userFromAuthHeader(headers.get('Authorization')?.toString()),
+        });
+        // Hand back copies so callers can't mutate the in-memory tables by accident
+        const data = result?.data === undefined ? null : JSON.parse(JSON.stringify(result.data));
+        return respond(result?.status ?? 200, data);
+      } catch (error) {
+        if (error instanceof MockHttpError) return fail(error.status, error.detail);
+        console.error(`[mock api] ${method.toUpperCase()} ${path} crashed:`, error);
+        return fail(500, 'Internal Server Error');
+      }
+    }
+
+    return fail(404, `No mock handler for ${method.toUpperCase()} ${path}`);
+  };
+};
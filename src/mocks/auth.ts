@@ -0,0 +1,26 @@
+import { getMockDb } from './db';
+import { User } from '../types';
+
+// Short-lived so the refresh flow gets exercised during a normal dev session
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+export const issueTokens = (user: User) => ({
+  access_token: `mock-access.${user.id}.${Date.now() + ACCESS_TOKEN_TTL_MS}`,
+  refresh_token: `mock-refresh.${user.id}`,
+  token_type: 'bearer',
+});
+
+// Resolve the user behind an `Authorization: Bearer ...` header, or null when missing/expired
+export const userFromAuthHeader = (header: string | undefined): User | null => {
+  const token = header?.replace(/^Bearer\s+/i, '');
+  const [kind, userId, expiresAt] = token?.split('.') ?? [];
+  if (kind !== 'mock-access' || Number(expiresAt) < Date.now()) return null;
+  return getMockDb().users.find((u) => u.id === userId) ?? null;
+};
+
+export const userFromRefreshToken = (token: unknown): User | null => {
+  if (typeof token !== 'string') return null;
+  const [kind, userId] = token.split('.');
+  if (kind !== 'mock-refresh') return null;
+  return getMockDb().users.find((u) => u.id === userId) ?? null;
+};
@@ -0,0 +1,235 @@
+import { imageLabel } from '../api/images';
+import { invoiceBuyer } from '../lib/invoices';
+import { roundMoney, withTax } from '../lib/pricing';
+import { Invoice, InvoiceItem, ServerActivity, ServerJob, ServerStatus, UserServer } from '../types';
+import { createSeedData, MOCK_PASSWORD, SeedData, serverAddresses } from './fixtures';
+
+// A status change the mock backend applies once `at` has passed (e.g. provisioning -> active)
+export interface PendingTransition {
+  serverId: string;
+  status: ServerStatus;
+  at: number;
+}
+
+// A running provision, rebuild or snapshot restore: what ends up on the disk once `completesAt` passes
+export interface PendingRebuild {
+  jobId: string;
+  // Rebuilds install an image...
+  imageId?: string;
+  // Replaces the server's installed keys; empty when a root password was used instead
+  sshKeyIds?: string[];
+  // ...restores copy a snapshot back
+  snapshotId?: string;
+  startedAt: number;
+  completesAt: number;
+}
+
+export interface MockDb extends SeedData {
+  passwords: Record<string, string>;
+  transitions: PendingTransition[];
+  jobs: ServerJob[];
+  rebuilds: PendingRebuild[];
+  sequence: number;
+}
+
+// How long a newly created server stays in `provisioning`
+export const PROVISIONING_MS = 20000;
+
+// How long a rebuild job takes from queued to completed
+export const REBUILD_MS = 15000;
+
+// How long an on-demand snapshot stays in `creating`
+export const SNAPSHOT_MS = 8000;
+
+export const BACKUP_INTERVAL_MS = { daily: 86400000, weekly: 7 * 86400000 };
+
+const createDb = (): MockDb => {
+  const seed = createSeedData();
+  return {
+    ...seed,
+    passwords: Object.fromEntries(seed.users.map((u) => [u.id, MOCK_PASSWORD])),
+    transitions: seed.servers
+      .filter((s) => s.status === 'provisioning')
+      .map((s) => ({ serverId: s.id, status: 'active' as ServerStatus, at: Date.now() + PROVISIONING_MS })),
+    jobs: [],
+    rebuilds: [],
+    sequence: 1000,
+  };
+};
+
+let db = createDb();
+
+export const getMockDb = () => db;
+
+// Restore the seeded fixtures, e.g. between tests
+export const resetMockDb = () => {
+  db = createDb();
+  return db;
+};
+
+export const nextId = (prefix: string) => `${prefix}_${++db.sequence}`;
+
+const JOB_STEPS = {
+  provision: ['Allocating resources', 'Installing image', 'Configuring network'],
+  rebuild: ['Wiping disk', 'Installing image', 'Configuring access'],
+  restore: ['Preparing disk', 'Copying snapshot', 'Starting server'],
+};
+
+// Move provision/rebuild/restore jobs forward: progress grows with elapsed time, then the disk is replaced
+const advanceRebuilds = (now: number) => {
+  for (const rebuild of db.rebuilds) {
+    const job = db.jobs.find((j) => j.id === rebuild.jobId);
+    if (!job) continue;
+    const elapsed = now - rebuild.startedAt;
+    const steps = JOB_STEPS[job.type];
+    job.status = 'running';
+    job.progress = Math.min(99, Math.floor((elapsed / (rebuild.completesAt - rebuild.startedAt)) * 100));
+    job.message = job.progress < 30 ? steps[0] : job.progress < 80 ? steps[1] : steps[2];
+  }
+
+  const done = db.rebuilds.filter((r) => r.completesAt <= now);
+  db.rebuilds = db.rebuilds.filter((r) => r.completesAt > now);
+  for (const rebuild of done) {
+    const job = db.jobs.find((j) => j.id === rebuild.jobId);
+    const server = job && db.servers.find((s) => s.id === job.server_id);
+    if (!job || !server) continue;
+    const completedAt = new Date(now).toISOString();
+
+    // New servers go active (and get their addresses) through their pending transition
+    if (job.type === 'provision') {
+      Object.assign(job, { status: 'completed', progress: 100, message: 'Server ready', completed_at: completedAt });
+      const order = db.orders.find((o) => o.provision_job_id === job.id);
+      if (order) Object.assign(order, { status: 'completed', completed_at: completedAt });
+      continue;
+    }
+
+    const snapshot = rebuild.snapshotId && db.snapshots.find((s) => s.id === rebuild.snapshotId);
+    if (snapshot) {
+      Object.assign(job, { status: 'completed', progress: 100, message: 'Restore complete', completed_at: completedAt });
+      Object.assign(server, { status: 'active', os_type: snapshot.os_type });
+      logActivity(server, 'restore', `Restored from snapshot "${snapshot.name}"`);
+      continue;
+    }
+
+    const image = db.images.find((i) => i.id === rebuild.imageId);
+    if (!image) continue;
+    const osType = imageLabel(image);
+    Object.assign(job, { status: 'completed', progress: 100, message: 'Rebuild complete', completed_at: completedAt });
+    Object.assign(server, { status: 'active', os_type: osType, os_image_id: image.id, ssh_key_ids: rebuild.sshKeyIds });
+    logActivity(server, 'rebuild', `Rebuilt with ${osType}`);
+  }
+};
+
+// Finish on-demand snapshots, and take scheduled backups that are due
+const advanceSnapshots = (now: number) => {
+  for (const snapshot of db.snapshots) {
+    if (snapshot.status !== 'creating' || Date.parse(snapshot.created_at) + SNAPSHOT_MS > now) continue;
+    snapshot.status = 'available';
+    const server = db.servers.find((s) => s.id === snapshot.server_id);
+    if (server) logActivity(server, 'snapshot', `Snapshot "${snapshot.name}" created`);
+  }
+
+  for (const policy of db.backupPolicies) {
+    const server = db.servers.find((s) => s.id === policy.server_id);
+    if (!server || !policy.enabled || !policy.next_run_at || Date.parse(policy.next_run_at) > now) continue;
+    if (server.status === 'provisioning') continue;
+
+    // One catch-up backup rather than one per missed run
+    const at = new Date(now).toISOString();
+    db.snapshots.push({
+      id: nextId('snap'),
+      server_id: server.id,
+      user_id: server.user_id,
+      name: `${policy.frequency === 'daily' ? 'Daily' : 'Weekly'} backup ${at.slice(0, 10)}`,
+      kind: 'scheduled',
+      status: 'available',
+      size_gb: Math.round(server.storage_gb * 0.25),
+      os_type: server.os_type,
+      created_at: at,
+    });
+    pruneScheduledBackups(server.id, policy.retention);
+    policy.last_run_at = at;
+    policy.next_run_at = new Date(now + BACKUP_INTERVAL_MS[policy.frequency]).toISOString();
+  }
+};
+
+// Keep only the newest `retention` scheduled backups; manual snapshots are never pruned
+export const pruneScheduledBackups = (serverId: string, retention: number) => {
+  const scheduled = db.snapshots
+    .filter((s) => s.server_id === serverId && s.kind === 'scheduled')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const expired = new Set(scheduled.slice(retention).map((s) => s.id));
+  db.snapshots = db.snapshots.filter((s) => !expired.has(s.id));
+};
+
+// Apply every transition whose time has come; called before each request is handled
+export const applyTransitions = (now = Date.now()) => {
+  advanceRebuilds(now);
+  advanceSnapshots(now);
+
+  const due = db.transitions.filter((t) => t.at <= now);
+  if (due.length === 0) return;
+
+  db.transitions = db.transitions.filter((t) => t.at > now);
+  for (const transition of due) {
+    const server = db.servers.find((s) => s.id === transition.serverId);
+    if (!server) continue;
+    server.status = transition.status;
+    if (transition.status === 'active' && !server.ip_address) {
+      const n = (db.sequence % 200) + 20;
+      server.ip_address = `103.21.59.${n}`;
+      // Keep any additional IPv4s ordered at checkout, after the new primaries
+      server.ip_addresses = [
+        ...serverAddresses(server.id, server.ip_address, 200 + n, new Date(now).toISOString()),
+        ...(server.ip_addresses ?? []),
+      ];
+      logActivity(server, 'provision', `Provisioned with ${server.os_type}`);
+    }
+  }
+};
+
+// Append an entry to a server's activity log, as the real backend does for every action
+export const logActivity = (
+  server: UserServer,
+  action: string,
+  message: string,
+  actorEmail?: string,
+  status: ServerActivity['status'] = 'success'
+) => {
+  const entry: ServerActivity = {
+    id: nextId('act'),
+    server_id: server.id,
+    action,
+    message,
+    status,
+    actor_email: actorEmail,
+    created_at: new Date().toISOString(),
+  };
+  db.serverActivity.push(entry);
+  return entry;
+};
+
+// Raise a pending invoice for a charge outside any order, e.g. block storage; taxed for the user's billing details
+export const createInvoice = (userId: string, items: InvoiceItem[]) => {
+  const buyer = db.users.find((u) => u.id === userId);
+  const amount = roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+  const { tax, breakdown, total } = withTax(amount, buyer);
+  const now = new Date();
+  const invoice: Invoice = {
+    id: nextId('inv'),
+    user_id: userId,
+    invoice_number: `INV-${now.getUTCFullYear()}${String(db.sequence).padStart(4, '0')}`,
+    amount,
+    tax_amount: tax,
+    total_amount: total,
+    tax_breakdown: breakdown,
+    buyer_gstin: buyer?.gstin ?? null,
+    billed_to: buyer && invoiceBuyer(buyer),
+    status: 'pending',
+    due_date: new Date(now.getTime() + 7 * 86400000).toISOString(),
+    items,
+    created_at: now.toISOString(),
+  };
+  db.invoices.unshift(invoice);
+  return invoice;
+};
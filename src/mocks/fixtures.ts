@@ -0,0 +1,766 @@
+import {
+  AddOn,
+  BackupPolicy,
+  BillingCycle,
+  Coupon,
+  DnsZone,
+  Firewall,
+  HostingPlan,
+  Invoice,
+  LoadBalancer,
+  Order,
+  OrderStatus,
+  OsImage,
+  PaymentStatus,
+  ServerActivity,
+  ServerIpAddress,
+  ServerStatus,
+  Snapshot,
+  SshKey,
+  SupportTicket,
+  TicketMessage,
+  TicketPriority,
+  TicketStatus,
+  User,
+  UserServer,
+  Volume,
+  VolumeSnapshot,
+  Vpc,
+} from '../types';
+import { FALLBACK_CATALOG } from '../lib/catalog';
+import { planPrice } from '../lib/proration';
+import { invoiceBuyer } from '../lib/invoices';
+import { withTax } from '../lib/pricing';
+import { DEFAULT_REGION, REGIONS, isPlanAvailable } from '../lib/regions';
+import { volumePrice } from '../lib/volumes';
+import { DEFAULT_HEALTH_CHECK, DEFAULT_STICKY_SESSIONS } from '../lib/loadBalancers';
+
+// Every fixture is derived from this seed and date so two runs render identical data
+export const MOCK_SEED = 20251001;
+const SEED_DATE = Date.parse('2025-10-01T00:00:00.000Z');
+const DAY = 86400000;
+
+// Password for every seeded account (matches the Supabase demo users)
+export const MOCK_PASSWORD = '1234';
+
+// mulberry32: tiny deterministic PRNG
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min,
+    pick: <T,>(items: T[]): T => items[Math.floor(next() * items.length)],
+  };
+};
+
+const isoDaysAgo = (days: number) => new Date(SEED_DATE - days * DAY).toISOString();
+const isoDaysAfter = (iso: string, days: number) => new Date(Date.parse(iso) + days * DAY).toISOString();
+
+// ============================================================
+// Plans (the bundled catalog, so pricing pages and the backend agree)
+// ============================================================
+
+const seedPlans = (): HostingPlan[] =>
+  structuredClone(FALLBACK_CATALOG.plans).map((plan) => ({ ...plan, created_at: isoDaysAgo(365), updated_at: isoDaysAgo(30) }));
+
+// ============================================================
+// Users
+// ============================================================
+
+const FIRST_NAMES = ['Aarav', 'Priya', 'Rohan', 'Ananya', 'Vikram', 'Isha', 'Karan', 'Meera', 'Arjun', 'Sneha'];
+const LAST_NAMES = ['Sharma', 'Verma', 'Iyer', 'Patel', 'Reddy', 'Nair', 'Gupta', 'Singh', 'Das', 'Menon'];
+
+const seedUsers = (random: ReturnType<typeof createRandom>): User[] => {
+  const fixed: User[] = [
+    {
+      id: 'usr_admin',
+      email: 'admin@test.com',
+      full_name: 'Site Admin',
+      role: 'admin',
+      account_status: 'active',
+      referral_code: 'ADMIN001',
+      created_at: isoDaysAgo(400),
+      updated_at: isoDaysAgo(10),
+    },
+    {
+      id: 'usr_super',
+      email: 'super@test.com',
+      full_name: 'Super Admin',
+      role: 'super_admin',
+      account_status: 'active',
+      referral_code: 'SUPER001',
+      created_at: isoDaysAgo(420),
+      updated_at: isoDaysAgo(12),
+    },
+    {
+      id: 'usr_demo',
+      email: 'user@test.com',
+      full_name: 'Demo Customer',
+      role: 'customer',
+      account_status: 'active',
+      phone: '+91 98765 43210',
+      company_name: 'Demo Labs Pvt Ltd',
+      address: '4th Floor, Lotus Business Park, Andheri East',
+      city: 'Mumbai',
+      country: 'India',
+      billing_state: '27',
+      gstin: '27AABCD1234E1Z8',
+      referral_code: 'DEMO1234',
+      created_at: isoDaysAgo(300),
+      updated_at: isoDaysAgo(5),
+    },
+  ];
+
+  const generated: User[] = Array.from({ length: 8 }, (_, i) => {
+    const first = random.pick(FIRST_NAMES);
+    const last = random.pick(LAST_NAMES);
+    const created = isoDaysAgo(random.int(1, 240));
+    return {
+      id: `usr_${String(i + 1).padStart(3, '0')}`,
+      email: `${first}.${last}${i + 1}@example.com`.toLowerCase(),
+      full_name: `${first} ${last}`,
+      role: 'customer',
+      account_status: random.next() > 0.8 ? 'suspended' : random.next() > 0.85 ? 'pending' : 'active',
+      referral_code: `${first.slice(0, 3)}${1000 + i}`.toUpperCase(),
+      created_at: created,
+      updated_at: created,
+    };
+  });
+
+  return [...fixed, ...generated];
+};
+
+// ============================================================
+// OS image catalog
+// ============================================================
+
+const distro = (family: string, name: string, version: string, isDeprecated = false): OsImage => ({
+  id: `img_${family}-${version.split(' ')[0]}`,
+  slug: `${family}-${version.split(' ')[0]}`,
+  name,
+  version,
+  family,
+  category: 'distribution',
+  is_deprecated: isDeprecated || undefined,
+});
+
+const appImage = (slug: string, name: string, description: string, minRamGb: number): OsImage => ({
+  id: `img_${slug}`,
+  slug,
+  name,
+  version: 'latest',
+  family: 'ubuntu',
+  category: 'application',
+  description,
+  base_image: 'Ubuntu 22.04 LTS',
+  min_ram_gb: minRamGb,
+});
+
+export const seedImages = (): OsImage[] => [
+  distro('ubuntu', 'Ubuntu', '24.04 LTS'),
+  distro('ubuntu', 'Ubuntu', '22.04 LTS'),
+  distro('ubuntu', 'Ubuntu', '20.04 LTS', true),
+  distro('debian', 'Debian', '12'),
+  distro('debian', 'Debian', '11'),
+  distro('almalinux', 'AlmaLinux', '9'),
+  distro('rockylinux', 'Rocky Linux', '9'),
+  distro('centos', 'CentOS Stream', '9'),
+  appImage('lamp', 'LAMP Stack', 'Apache, MySQL and PHP ready for WordPress-style sites', 1),
+  appImage('lemp', 'LEMP Stack', 'Nginx, MySQL and PHP-FPM', 1),
+  appImage('docker', 'Docker', 'Docker Engine with the Compose plugin', 2),
+  appImage('nodejs', 'Node.js', 'Node.js LTS with PM2 and Nginx reverse proxy', 2),
+  appImage('cpanel', 'cPanel & WHM', 'Licensed separately; needs at least 4 GB RAM', 4),
+];
+
+// Real keys (private halves discarded) so fingerprints match `ssh-keygen -l`
+const seedSshKeys = (): SshKey[] => [
+  {
+    id: 'key_demo_laptop',
+    user_id: 'usr_demo',
+    name: 'Work laptop',
+    public_key: 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIP8iqH3KI1EcoOkcQ3hdovMfL5EAJ5paMnyufLAlyWam demo@laptop',
+    key_type: 'ssh-ed25519',
+    bits: 256,
+    fingerprint: 'SHA256:NuSmRj5GcpSAjcO+DeyjLHaVdce1FdXqrIMmcXksIYQ',
+    created_at: isoDaysAgo(250),
+    last_used_at: isoDaysAgo(240),
+  },
+  {
+    id: 'key_demo_ci',
+    user_id: 'usr_demo',
+    name: 'CI deploy',
+    public_key:
+      'ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBDZhGNtktbcjCsQpgnTQ3c71KppW4w3vmyi2N4nsGXT1jego3Mjd6UpgBNsihPhXla40cgNEnW9ivD7PKUCfgMQ= ci-deploy',
+    key_type: 'ecdsa-sha2-nistp256',
+    bits: 256,
+    fingerprint: 'SHA256:dIyW7n4CDJTkqpLOs7WgbfevlR4MgVptBfqPWxFSm/o',
+    created_at: isoDaysAgo(90),
+  },
+];
+
+const seedAddOns = (): AddOn[] => structuredClone(FALLBACK_CATALOG.add_ons);
+
+// One code of each kind, plus an expired and a used-up one to show why a code is refused
+const seedCoupons = (): Coupon[] => {
+  const coupon = (fields: Partial<Coupon> & Pick<Coupon, 'id' | 'code' | 'discount_type' | 'discount_value'>): Coupon => ({
+    first_order_only: false,
+    plan_ids: [],
+    billing_cycles: [],
+    max_redemptions: null,
+    redemptions: 0,
+    expires_at: null,
+    is_active: true,
+    created_at: isoDaysAgo(120),
+    updated_at: isoDaysAgo(120),
+    ...fields,
+  });
+  return [
+    coupon({
+      id: 'cpn_welcome',
+      code: 'WELCOME20',
+      description: '20% off your first server',
+      discount_type: 'percent',
+      discount_value: 20,
+      first_order_only: true,
+      redemptions: 41,
+    }),
+    coupon({
+      id: 'cpn_annual',
+      code: 'ANNUAL1000',
+      description: '₹1,000 off any yearly plan',
+      discount_type: 'flat',
+      discount_value: 1000,
+      billing_cycles: ['annually'],
+      max_redemptions: 500,
+      redemptions: 63,
+    }),
+    coupon({
+      id: 'cpn_gplus',
+      code: 'GPLUS15',
+      description: '15% off G.8GB and G.16GB',
+      discount_type: 'percent',
+      discount_value: 15,
+      plan_ids: ['plan_g-8gb', 'plan_g-16gb'],
+      redemptions: 12,
+    }),
+    coupon({
+      id: 'cpn_diwali',
+      code: 'DIWALI2024',
+      description: 'Festive offer',
+      discount_type: 'percent',
+      discount_value: 25,
+      expires_at: isoDaysAgo(330),
+      redemptions: 208,
+      created_at: isoDaysAgo(360),
+      updated_at: isoDaysAgo(360),
+    }),
+    coupon({
+      id: 'cpn_launch',
+      code: 'LAUNCH50',
+      description: 'Launch week, first 100 customers',
+      discount_type: 'percent',
+      discount_value: 50,
+      max_redemptions: 100,
+      redemptions: 100,
+      created_at: isoDaysAgo(300),
+      updated_at: isoDaysAgo(300),
+    }),
+  ];
+};
+
+// ============================================================
+// Servers, orders, invoices
+// ============================================================
+
+const OS_IMAGES = ['Ubuntu 22.04 LTS', 'Debian 12', 'AlmaLinux 9', 'Rocky Linux 9'];
+const imageIdFor = (osType: string) => seedImages().find((i) => `${i.name} ${i.version}` === osType)?.id;
+
+interface ServerSeed {
+  id: string;
+  userId: string;
+  planSlug: string;
+  name: string;
+  hostname: string;
+  status: ServerStatus;
+  daysAgo: number;
+  // Defaults to Mumbai, where all the demo account's networking lives
+  region?: string;
+  os?: string;
+  cycle?: BillingCycle;
+}
+
+const DEMO_SERVERS: ServerSeed[] = [
+  { id: 'srv_web01', userId: 'usr_demo', planSlug: 'g-8gb', name: 'Production Web Server', hostname: 'web-prod-01.ramaera.cloud', status: 'active', daysAgo: 260 },
+  { id: 'srv_db01', userId: 'usr_demo', planSlug: 'm-16gb', name: 'Database Server', hostname: 'db-prod-01.ramaera.cloud', status: 'active', daysAgo: 240, cycle: 'annual' },
+  { id: 'srv_dev01', userId: 'usr_demo', planSlug: 'g-4gb', name: 'Development Server', hostname: 'dev-01.ramaera.cloud', status: 'stopped', daysAgo: 200 },
+  { id: 'srv_stg01', userId: 'usr_demo', planSlug: 'c-4gb', name: 'Staging Server', hostname: 'staging-01.ramaera.cloud', status: 'provisioning', daysAgo: 0 },
+];
+
+/**
+ * Addresses a server gets when it is provisioned: its public IPv4, the first address of
+ * a routed IPv6 /64 and one on the private network. `n` makes them unique per server.
+ */
+export const serverAddresses = (serverId: string, ipv4: string, n: number, createdAt: string): ServerIpAddress[] => {
+  const subnet = (0x100 + n).toString(16);
+  const base = { server_id: serverId, role: 'primary' as const, created_at: createdAt };
+  return [
+    { ...base, id: `ip_${serverId}_v4`, address: ipv4, version: 4, prefix_length: 32, gateway: ipv4.replace(/\.\d+$/, '.1'), scope: 'public' },
+    { ...base, id: `ip_${serverId}_v6`, address: `2401:4900:1c2f:${subnet}::1`, version: 6, prefix_length: 64, gateway: 'fe80::1', scope: 'public' },
+    { ...base, id: `ip_${serverId}_private`, address: `10.20.${Math.floor(n / 250)}.${(n % 250) + 2}`, version: 4, prefix_length: 16, scope: 'private' },
+  ];
+};
+
+// The demo web and database servers each sit behind a typical rule set
+const seedFirewalls = (): Firewall[] => [
+  {
+    id: 'fw_demo_web',
+    user_id: 'usr_demo',
+    name: 'Public web',
+    rules: [
+      { id: 'fwr_web_ssh', direction: 'inbound', protocol: 'tcp', ports: '22', addresses: ['0.0.0.0/0', '::/0'], description: 'SSH' },
+      { id: 'fwr_web_http', direction: 'inbound', protocol: 'tcp', ports: '80', addresses: ['0.0.0.0/0', '::/0'], description: 'HTTP' },
+      { id: 'fwr_web_https', direction: 'inbound', protocol: 'tcp', ports: '443', addresses: ['0.0.0.0/0', '::/0'], description: 'HTTPS' },
+      { id: 'fwr_web_ping', direction: 'inbound', protocol: 'icmp', ports: '', addresses: ['0.0.0.0/0'], description: 'Ping' },
+    ],
+    server_ids: ['srv_web01'],
+    created_at: isoDaysAgo(250),
+    updated_at: isoDaysAgo(40),
+  },
+  {
+    id: 'fw_demo_db',
+    user_id: 'usr_demo',
+    name: 'Database (private only)',
+    rules: [
+      { id: 'fwr_db_ssh', direction: 'inbound', protocol: 'tcp', ports: '22', addresses: ['203.0.113.10/32'], description: 'Office VPN' },
+      { id: 'fwr_db_mysql', direction: 'inbound', protocol: 'tcp', ports: '3306', addresses: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16'], description: 'MySQL' },
+    ],
+    server_ids: ['srv_db01'],
+    created_at: isoDaysAgo(238),
+    updated_at: isoDaysAgo(238),
+  },
+];
+
+// The demo account hosts its company domain with us, pointed at the production web server
+const seedDnsZones = (web: UserServer): DnsZone[] => {
+  const ipv6 = web.ip_addresses!.find((a) => a.version === 6)!.address;
+  const record = (id: string, fields: Omit<DnsZone['records'][number], 'id' | 'zone_id' | 'ttl'>, ttl = 3600) => ({
+    id: `dnsr_acme_${id}`,
+    zone_id: 'dnsz_acme',
+    ttl,
+    ...fields,
+  });
+  return [
+    {
+      id: 'dnsz_acme',
+      user_id: 'usr_demo',
+      domain: 'acme-demo.in',
+      default_ttl: 3600,
+      nameservers: ['ns1.ramaera.cloud', 'ns2.ramaera.cloud'],
+      records: [
+        record('apex_a', { type: 'A', name: '@', value: web.ip_address! }),
+        record('apex_aaaa', { type: 'AAAA', name: '@', value: ipv6 }),
+        record('www', { type: 'CNAME', name: 'www', value: 'acme-demo.in' }),
+        record('mx', { type: 'MX', name: '@', value: 'mail.acme-demo.in', priority: 10 }),
+        record('mail', { type: 'A', name: 'mail', value: web.ip_address! }),
+        record('spf', { type: 'TXT', name: '@', value: `v=spf1 ip4:${web.ip_address} -all` }),
+        record('dmarc', { type: 'TXT', name: '_dmarc', value: 'v=DMARC1; p=quarantine; rua=mailto:dmarc@acme-demo.in' }),
+        record('caa', { type: 'CAA', name: '@', value: 'letsencrypt.org', flags: 0, tag: 'issue' }, 86400),
+      ],
+      created_at: isoDaysAgo(255),
+      updated_at: isoDaysAgo(60),
+    },
+  ];
+};
+
+export interface SeedData {
+  users: User[];
+  plans: HostingPlan[];
+  servers: UserServer[];
+  orders: Order[];
+  invoices: Invoice[];
+  tickets: SupportTicket[];
+  ticketMessages: TicketMessage[];
+  serverActivity: ServerActivity[];
+  images: OsImage[];
+  sshKeys: SshKey[];
+  addOns: AddOn[];
+  snapshots: Snapshot[];
+  backupPolicies: BackupPolicy[];
+  firewalls: Firewall[];
+  dnsZones: DnsZone[];
+  vpcs: Vpc[];
+  volumes: Volume[];
+  volumeSnapshots: VolumeSnapshot[];
+  loadBalancers: LoadBalancer[];
+  coupons: Coupon[];
+}
+
+export const createSeedData = (seed = MOCK_SEED): SeedData => {
+  const random = createRandom(seed);
+  const users = seedUsers(random);
+  const plans = seedPlans();
+  const planBySlug = (slug: string) => plans.find((p) => p.slug === slug)!;
+  const emailFor = (userId: string) => users.find((u) => u.id === userId)?.email;
+
+  const generatedServers: ServerSeed[] = users
+    .filter((u) => u.role === 'customer' && u.id !== 'usr_demo')
+    .slice(0, 6)
+    .map((u, i) => {
+      const name = random.pick(['Apollo', 'Hermes', 'Zephyr', 'Orion', 'Nimbus', 'Atlas', 'Vulcan', 'Nova']);
+      const planSlug = random.pick(plans.filter((p) => p.plan_type !== 'dedicated')).slug;
+      // Spread customers over the data centers without drawing from `random`, which would reshuffle the rest of the seed
+      const regions = REGIONS.filter((r) => isPlanAvailable(r.slug, planSlug));
+      return {
+        id: `srv_${String(i + 1).padStart(3, '0')}`,
+        userId: u.id,
+        planSlug,
+        region: regions[i % regions.length].slug,
+        name: `${name} ${i + 1}`,
+        hostname: `${name.toLowerCase()}-${i + 1}.ramaera.cloud`,
+        status: u.account_status === 'suspended' ? 'suspended' : random.pick<ServerStatus>(['active', 'active', 'stopped']),
+        daysAgo: random.int(5, 200),
+        os: random.pick(OS_IMAGES),
+      };
+    });
+
+  const servers = [...DEMO_SERVERS, ...generatedServers].map((s, i) => {
+    const plan = planBySlug(s.planSlug);
+    const created = isoDaysAgo(s.daysAgo);
+    const ipv4 = s.status === 'provisioning' ? undefined : `103.21.${58 + Math.floor(i / 200)}.${10 + i}`;
+    return {
+      id: s.id,
+      user_id: s.userId,
+      plan_id: plan.id,
+      server_name: s.name,
+      hostname: s.hostname,
+      region: s.region ?? DEFAULT_REGION,
+      ip_address: ipv4,
+      ip_addresses: ipv4 ? serverAddresses(s.id, ipv4, i, created) : [],
+      status: s.status,
+      os_type: s.os ?? 'Ubuntu 22.04 LTS',
+      os_image_id: imageIdFor(s.os ?? 'Ubuntu 22.04 LTS'),
+      billing_cycle: s.cycle ?? 'monthly',
+      ssh_key_ids: s.userId === 'usr_demo' && s.daysAgo >= 240 ? ['key_demo_laptop'] : undefined,
+      vcpu: plan.vcpu,
+      ram_gb: plan.ram_gb,
+      storage_gb: plan.storage_gb,
+      bandwidth_tb: plan.bandwidth_tb,
+      created_at: created,
+      expires_at: isoDaysAfter(created, 730),
+      user_email: emailFor(s.userId),
+      plan,
+    };
+  });
+
+  const orders: Order[] = servers.map((server, i) => {
+    const plan = server.plan;
+    const pending = server.status === 'provisioning';
+    return {
+      id: `ord_${String(i + 1).padStart(3, '0')}`,
+      user_id: server.user_id,
+      order_number: `ORD-${2025}${String(i + 1).padStart(4, '0')}`,
+      order_type: 'new',
+      plan_id: plan.id,
+      billing_cycle: server.billing_cycle,
+      region: server.region,
+      amount: planPrice(FALLBACK_CATALOG, plan, server.billing_cycle, server.region),
+      status: (pending ? 'processing' : 'completed') as OrderStatus,
+      payment_method: random.pick(['upi', 'card', 'netbanking']),
+      payment_status: 'paid' as PaymentStatus,
+      created_at: server.created_at,
+      completed_at: pending ? undefined : server.created_at,
+      user_email: server.user_email,
+      plan,
+    };
+  });
+
+  // A couple of abandoned / failed checkouts so the admin filters have something to show
+  orders.push(
+    {
+      id: 'ord_900',
+      user_id: 'usr_001',
+      order_number: 'ORD-20250900',
+      plan_id: 'plan_c-8gb',
+      billing_cycle: 'annual',
+      amount: planBySlug('c-8gb').annual_price,
+      status: 'pending',
+      payment_status: 'pending',
+      created_at: isoDaysAgo(2),
+      user_email: emailFor('usr_001'),
+      plan: planBySlug('c-8gb'),
+    },
+    {
+      id: 'ord_901',
+      user_id: 'usr_002',
+      order_number: 'ORD-20250901',
+      plan_id: 'plan_g-16gb',
+      billing_cycle: 'monthly',
+      amount: planBySlug('g-16gb').monthly_price,
+      status: 'cancelled',
+      payment_status: 'failed',
+      created_at: isoDaysAgo(9),
+      user_email: emailFor('usr_002'),
+      plan: planBySlug('g-16gb'),
+    }
+  );
+
+  // Three months of invoices per completed order
+  const invoices: Invoice[] = orders
+    .filter((o) => o.status === 'completed')
+    .flatMap((order) =>
+      [0, 1, 2].map((month) => {
+        const amount = order.amount;
+        const buyer = users.find((u) => u.id === order.user_id);
+        const { tax, breakdown, total } = withTax(amount, buyer);
+        const created = isoDaysAgo(month * 30 + 1);
+        return {
+          id: `inv_${order.id.slice(4)}_${month}`,
+          user_id: order.user_id,
+          order_id: order.id,
+          invoice_number: `INV-${order.order_number.slice(4)}-${month + 1}`,
+          amount,
+          tax_amount: tax,
+          total_amount: total,
+          tax_breakdown: breakdown,
+          buyer_gstin: buyer?.gstin ?? null,
+          billed_to: buyer && invoiceBuyer(buyer),
+          status: month === 0 && order.user_id === 'usr_demo' ? 'pending' : 'paid',
+          due_date: isoDaysAfter(created, 7),
+          paid_at: month === 0 && order.user_id === 'usr_demo' ? undefined : isoDaysAfter(created, 1),
+          items: [
+            {
+              description: `${order.plan?.name} - Monthly Subscription`,
+              sac_code: order.plan?.sac_code,
+              quantity: 1,
+              unit_price: amount,
+              amount,
+            },
+          ],
+          created_at: created,
+        };
+      })
+    );
+
+  const ticketSeeds: [string, string, string, TicketStatus, TicketPriority][] = [
+    ['usr_demo', 'Server connectivity issue', 'web-prod-01 is dropping SSH connections intermittently since this morning.', 'open', 'high'],
+    ['usr_demo', 'Billing inquiry', 'Please share a GST invoice for last month.', 'resolved', 'medium'],
+    ['usr_demo', 'Upgrade request', 'We would like to move the dev server to G.8GB.', 'closed', 'low'],
+    ['usr_001', 'Cannot reach console', 'The console button shows a blank screen.', 'in_progress', 'urgent'],
+    ['usr_003', 'Reverse DNS for mail server', 'Please set PTR for our mail IP.', 'open', 'medium'],
+  ];
+
+  const tickets: SupportTicket[] = ticketSeeds.map(([userId, subject, description, status, priority], i) => {
+    const created = isoDaysAgo(random.int(0, 20));
+    return {
+      id: `tkt_${String(i + 1).padStart(3, '0')}`,
+      user_id: userId,
+      ticket_number: `TICK-${String(i + 1).padStart(3, '0')}`,
+      subject,
+      description,
+      category: subject.toLowerCase().includes('billing') ? 'billing' : 'technical',
+      priority,
+      status,
+      created_at: created,
+      updated_at: created,
+      resolved_at: status === 'resolved' || status === 'closed' ? isoDaysAfter(created, 1) : undefined,
+      user_email: emailFor(userId),
+    };
+  });
+
+  const ticketMessages: TicketMessage[] = tickets.map((t) => ({
+    id: `msg_${t.id.slice(4)}_1`,
+    ticket_id: t.id,
+    user_id: t.user_id,
+    message: t.description ?? t.subject,
+    is_internal: false,
+    created_at: t.created_at,
+  }));
+
+  // Creation + provisioning for every server, and a few power events on the long-running ones
+  const serverActivity: ServerActivity[] = servers.flatMap((server) => {
+    const entry = (n: number, action: string, message: string, at: string): ServerActivity => ({
+      id: `act_${server.id.slice(4)}_${n}`,
+      server_id: server.id,
+      action,
+      message,
+      status: 'success',
+      actor_email: server.user_email,
+      created_at: at,
+    });
+    const events = [entry(1, 'create', `Server ${server.server_name} created`, server.created_at)];
+    if (server.status === 'provisioning') return events;
+
+    events.push(entry(2, 'provision', `Provisioned with ${server.os_type}`, isoDaysAfter(server.created_at, 0.01)));
+    const powerEvents = random.int(0, 3);
+    for (let n = 0; n < powerEvents; n++) {
+      const action = random.pick(['reboot', 'stop', 'start']);
+      events.push(entry(3 + n, action, `Server ${action} requested`, isoDaysAgo(random.int(1, 30))));
+    }
+    return events;
+  });
+
+  // The demo web and database servers talk over a private network
+  const vpcs: Vpc[] = [
+    {
+      id: 'vpc_demo_prod',
+      user_id: 'usr_demo',
+      name: 'production',
+      description: 'Web to database traffic',
+      region: 'mumbai',
+      cidr: '10.10.0.0/24',
+      server_ids: ['srv_web01', 'srv_db01'],
+      created_at: isoDaysAgo(240),
+      updated_at: isoDaysAgo(240),
+    },
+  ];
+  vpcs[0].server_ids.forEach((id, i) => {
+    const server = servers.find((s) => s.id === id)!;
+    server.ip_addresses.push({
+      id: `ip_${id}_vpc`,
+      server_id: id,
+      address: `10.10.0.${i + 2}`,
+      version: 4,
+      prefix_length: 24,
+      gateway: '10.10.0.1',
+      role: 'secondary',
+      scope: 'private',
+      vpc_id: vpcs[0].id,
+      created_at: vpcs[0].created_at,
+    });
+  });
+
+  // The database keeps its data on a separate volume so the VM can be rebuilt
+  const volumes: Volume[] = [
+    {
+      id: 'vol_pg_data',
+      user_id: 'usr_demo',
+      name: 'pg-data',
+      region: 'mumbai',
+      size_gb: 200,
+      status: 'attached',
+      server_id: 'srv_db01',
+      monthly_price: volumePrice(200),
+      created_at: isoDaysAgo(230),
+      updated_at: isoDaysAgo(60),
+    },
+    {
+      id: 'vol_media_archive',
+      user_id: 'usr_demo',
+      name: 'media-archive',
+      region: 'mumbai',
+      size_gb: 100,
+      status: 'available',
+      monthly_price: volumePrice(100),
+      created_at: isoDaysAgo(90),
+      updated_at: isoDaysAgo(30),
+    },
+  ];
+  const volumeSnapshots: VolumeSnapshot[] = [
+    {
+      id: 'vsnap_pg_data_1',
+      volume_id: 'vol_pg_data',
+      user_id: 'usr_demo',
+      name: 'Before Postgres 16 upgrade',
+      size_gb: 200,
+      created_at: isoDaysAgo(45),
+    },
+  ];
+
+  // The demo shop sits behind a load balancer; the stopped dev server shows as a failing backend
+  const loadBalancers: LoadBalancer[] = [
+    {
+      id: 'lb_demo_web',
+      user_id: 'usr_demo',
+      user_email: emailFor('usr_demo'),
+      name: 'web-lb',
+      region: 'mumbai',
+      size: 'lb-small',
+      status: 'degraded',
+      ip_address: '103.21.61.10',
+      algorithm: 'round_robin',
+      forwarding_rules: [
+        { id: 'fr_demo_http', entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80, tls_passthrough: false },
+        { id: 'fr_demo_https', entry_protocol: 'https', entry_port: 443, target_protocol: 'http', target_port: 80, tls_passthrough: false },
+      ],
+      health_check: { ...DEFAULT_HEALTH_CHECK, path: '/healthz' },
+      sticky_sessions: { ...DEFAULT_STICKY_SESSIONS, enabled: true },
+      backends: [
+        { server_id: 'srv_web01', health: 'unknown' },
+        { server_id: 'srv_dev01', health: 'unknown' },
+      ],
+      monthly_price: 999,
+      created_at: isoDaysAgo(120),
+      updated_at: isoDaysAgo(14),
+    },
+  ];
+
+  // The production web server has a week of daily backups plus one manual snapshot
+  const webServer = servers.find((s) => s.id === 'srv_web01')!;
+  // ...and sends mail, so its reverse DNS already matches its hostname
+  webServer.ip_addresses[0].ptr_record = webServer.hostname;
+  const backupPolicies: BackupPolicy[] = [
+    {
+      server_id: webServer.id,
+      enabled: true,
+      frequency: 'daily',
+      retention: 7,
+      monthly_price: 1.5 * webServer.storage_gb,
+      last_run_at: isoDaysAgo(1),
+      next_run_at: isoDaysAgo(0),
+    },
+  ];
+  const snapshots: Snapshot[] = [
+    ...Array.from({ length: 7 }, (_, i): Snapshot => ({
+      id: `snap_web01_d${i + 1}`,
+      server_id: webServer.id,
+      user_id: webServer.user_id,
+      name: `Daily backup ${isoDaysAgo(i + 1).slice(0, 10)}`,
+      kind: 'scheduled',
+      status: 'available',
+      size_gb: 38 + i,
+      os_type: webServer.os_type,
+      created_at: isoDaysAgo(i + 1),
+    })),
+    {
+      id: 'snap_web01_m1',
+      server_id: webServer.id,
+      user_id: webServer.user_id,
+      name: 'Before PHP 8.3 upgrade',
+      kind: 'manual',
+      status: 'available',
+      size_gb: 35,
+      os_type: webServer.os_type,
+      created_at: isoDaysAgo(20),
+    },
+  ];
+
+  return {
+    users,
+    plans,
+    servers,
+    orders,
+    invoices,
+    tickets,
+    ticketMessages,
+    serverActivity,
+    images: seedImages(),
+    sshKeys: seedSshKeys(),
+    addOns: seedAddOns(),
+    snapshots,
+    backupPolicies,
+    firewalls: seedFirewalls(),
+    dnsZones: seedDnsZones(webServer),
+    vpcs,
+    volumes,
+    volumeSnapshots,
+    loadBalancers,
+    coupons: seedCoupons(),
+  };
+};
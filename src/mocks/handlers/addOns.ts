@@ -0,0 +1,8 @@
+import { route } from '../router';
+
+export const addOnsHandlers = [
+  // Public, like /plans: add-on prices show on the pricing pages too
+  route('get', '/add-ons', ({ db }) => ({
+    data: db.addOns.filter((a) => a.is_active),
+  })),
+];
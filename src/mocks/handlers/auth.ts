@@ -0,0 +1,83 @@
+import { isIndia, normalizeGstin, validateGstBuyer } from '../../lib/gst';
+import { issueTokens, userFromRefreshToken } from '../auth';
+import { nextId } from '../db';
+import { MockHttpError, requireFields, requireUser, route, validationError } from '../router';
+import { ProfileUpdate, User } from '../../types';
+
+export const authHandlers = [
+  route('post', '/auth/login', ({ body, db }) => {
+    const { email, password } = requireFields(body, ['email', 'password']);
+    const user = db.users.find((u) => u.email.toLowerCase() === String(email).toLowerCase());
+    if (!user || db.passwords[user.id] !== password) {
+      throw new MockHttpError(401, 'Incorrect email or password');
+    }
+    if (user.account_status === 'suspended') {
+      throw new MockHttpError(403, 'Account suspended. Please contact support.');
+    }
+    return { data: { ...issueTokens(user), user } };
+  }),
+
+  route('post', '/auth/register', ({ body, db }) => {
+    const { email, password, full_name, referral_code } = requireFields(body, ['email', 'password', 'full_name']);
+    if (!String(email).includes('@')) validationError({ email: 'value is not a valid email address' });
+    if (String(password).length < 6) validationError({ password: 'Password must be at least 6 characters' });
+    if (db.users.some((u) => u.email.toLowerCase() === String(email).toLowerCase())) {
+      throw new MockHttpError(409, 'An account with this email already exists');
+    }
+
+    const now = new Date().toISOString();
+    const referrer = db.users.find((u) => u.referral_code === referral_code);
+    const user: User = {
+      id: nextId('usr'),
+      email: String(email),
+      full_name: String(full_name),
+      role: 'customer',
+      account_status: 'active',
+      referral_code: `RAM${db.sequence}`,
+      referred_by: referrer?.id ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    db.users.push(user);
+    db.passwords[user.id] = String(password);
+    return { status: 201, data: { ...issueTokens(user), user } };
+  }),
+
+  route('post', '/auth/refresh', ({ body }) => {
+    const user = userFromRefreshToken((body as { refresh_token?: unknown } | undefined)?.refresh_token);
+    if (!user || user.account_status === 'suspended') {
+      throw new MockHttpError(401, 'Invalid refresh token');
+    }
+    return { data: issueTokens(user) };
+  }),
+
+  route('get', '/auth/me', (req) => ({ data: requireUser(req) })),
+
+  // Customers keep their own contact and billing details; role and status stay with admins
+  route('put', '/auth/me', (req) => {
+    const user = requireUser(req);
+    const body = (req.body ?? {}) as ProfileUpdate;
+    const update = { ...user, ...body };
+    const billing = {
+      country: update.country?.trim() || undefined,
+      billing_state: update.billing_state || null,
+      gstin: update.gstin ? normalizeGstin(update.gstin) : null,
+    };
+    // Neither a state nor a GSTIN means anything for an address abroad
+    if (!isIndia(billing.country)) billing.billing_state = null;
+    const errors = validateGstBuyer(billing);
+    if (!update.full_name?.trim()) errors.full_name = 'Enter your name';
+    if (Object.keys(errors).length > 0) validationError(errors);
+
+    Object.assign(user, {
+      full_name: update.full_name.trim(),
+      phone: body.phone ?? user.phone,
+      company_name: body.company ?? user.company_name,
+      address: update.address,
+      city: update.city,
+      ...billing,
+      updated_at: new Date().toISOString(),
+    });
+    return { data: user };
+  }),
+];
@@ -0,0 +1,199 @@
+import { addOnMonthlyPrice } from '../../api/addOns';
+import { BACKUP_RETENTION_OPTIONS } from '../../api/backups';
+import { isValidHostname } from '../../lib/dns';
+import { planPrice } from '../../lib/proration';
+import { BACKUP_INTERVAL_MS, MockDb, PROVISIONING_MS, REBUILD_MS, logActivity, nextId, pruneScheduledBackups } from '../db';
+import { BackupFrequency, BackupPolicy, Order, ServerJob, Snapshot, UserServer } from '../../types';
+import { MockHttpError, MockRequest, findOwned, notFound, requireFields, route, validationError } from '../router';
+import { mockCatalog } from './catalog';
+
+// On-demand snapshots kept per server before older ones must be deleted
+const MAX_MANUAL_SNAPSHOTS = 10;
+
+const findSnapshot = (req: MockRequest, server: UserServer) =>
+  req.db.snapshots.find((s) => s.id === req.params.snapshotId && s.server_id === server.id) ?? notFound('Snapshot');
+
+const requireIdle = (server: UserServer, action: string) => {
+  if (server.status !== 'active' && server.status !== 'stopped') {
+    throw new MockHttpError(409, `Cannot ${action} a server that is ${server.status}`);
+  }
+};
+
+const backupAddOn = (db: MockDb, frequency: BackupFrequency) =>
+  db.addOns.find((a) => a.slug === `backups-${frequency}`);
+
+export const backupsHandlers = [
+  route('get', '/servers/:id/snapshots', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    return {
+      data: req.db.snapshots
+        .filter((s) => s.server_id === server.id)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    };
+  }),
+
+  route('post', '/servers/:id/snapshots', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    requireIdle(server, 'snapshot');
+    const { name } = requireFields(req.body, ['name']);
+    const manual = req.db.snapshots.filter((s) => s.server_id === server.id && s.kind === 'manual');
+    if (manual.length >= MAX_MANUAL_SNAPSHOTS) {
+      throw new MockHttpError(409, `A server can keep at most ${MAX_MANUAL_SNAPSHOTS} snapshots; delete one first`);
+    }
+
+    const snapshot: Snapshot = {
+      id: nextId('snap'),
+      server_id: server.id,
+      user_id: server.user_id,
+      name: String(name).trim(),
+      kind: 'manual',
+      status: 'creating',
+      size_gb: Math.round(server.storage_gb * 0.25),
+      os_type: server.os_type,
+      created_at: new Date().toISOString(),
+    };
+    req.db.snapshots.push(snapshot);
+    logActivity(server, 'snapshot', `Snapshot "${snapshot.name}" requested`, req.currentUser?.email, 'pending');
+    return { status: 202, data: snapshot };
+  }),
+
+  route('delete', '/servers/:id/snapshots/:snapshotId', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const snapshot = findSnapshot(req, server);
+    req.db.snapshots = req.db.snapshots.filter((s) => s.id !== snapshot.id);
+    logActivity(server, 'snapshot', `Snapshot "${snapshot.name}" deleted`, req.currentUser?.email);
+    return { status: 204 };
+  }),
+
+  route('post', '/servers/:id/snapshots/:snapshotId/restore', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    requireIdle(server, 'restore');
+    const snapshot = findSnapshot(req, server);
+    if (snapshot.status !== 'available') {
+      throw new MockHttpError(409, 'Only completed snapshots can be restored');
+    }
+
+    const now = Date.now();
+    const job: ServerJob = {
+      id: nextId('job'),
+      server_id: server.id,
+      type: 'restore',
+      status: 'queued',
+      progress: 0,
+      message: 'Queued',
+      created_at: new Date(now).toISOString(),
+    };
+    req.db.jobs.push(job);
+    req.db.rebuilds.push({ jobId: job.id, snapshotId: snapshot.id, startedAt: now, completesAt: now + REBUILD_MS });
+    server.status = 'restoring';
+    logActivity(server, 'restore', `Restore from snapshot "${snapshot.name}" requested`, req.currentUser?.email, 'pending');
+    return { status: 202, data: job };
+  }),
+
+  route('post', '/servers/:id/snapshots/:snapshotId/clone', (req) => {
+    const source = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const snapshot = findSnapshot(req, source);
+    if (snapshot.status !== 'available') {
+      throw new MockHttpError(409, 'Only completed snapshots can be used to create a server');
+    }
+    const body = requireFields(req.body, ['server_name', 'hostname']);
+    const hostname = String(body.hostname).trim().toLowerCase();
+    if (!isValidHostname(hostname)) validationError({ hostname: 'Enter a valid hostname, e.g. web-02.example.com' });
+    if (req.db.servers.some((s) => s.hostname === hostname)) validationError({ hostname: 'Hostname is already in use' });
+
+    const now = new Date();
+    const server: UserServer = {
+      ...source,
+      id: nextId('srv'),
+      server_name: String(body.server_name).trim(),
+      hostname,
+      ip_address: undefined,
+      ip_addresses: [],
+      status: 'provisioning',
+      os_type: snapshot.os_type,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + 730 * 86400000).toISOString(),
+      last_reboot: undefined,
+    };
+    req.db.servers.push(server);
+    req.db.transitions.push({ serverId: server.id, status: 'active', at: now.getTime() + PROVISIONING_MS });
+
+    const cycle = server.billing_cycle ?? 'monthly';
+    const order: Order = {
+      id: nextId('ord'),
+      user_id: server.user_id,
+      order_number: `ORD-${req.db.sequence}`,
+      order_type: 'new',
+      server_id: server.id,
+      plan_id: server.plan_id,
+      billing_cycle: cycle,
+      region: server.region,
+      amount: server.plan ? planPrice(mockCatalog(req.db), server.plan, cycle, server.region) : 0,
+      status: 'processing',
+      payment_status: 'pending',
+      created_at: now.toISOString(),
+      user_email: server.user_email,
+      plan: server.plan,
+    };
+    req.db.orders.unshift(order);
+    logActivity(
+      server,
+      'create',
+      `Server ${server.server_name} created from snapshot "${snapshot.name}" of ${source.server_name}`,
+      req.currentUser?.email
+    );
+    return { status: 201, data: server };
+  }),
+
+  route('get', '/servers/:id/backup-policy', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const policy: BackupPolicy = req.db.backupPolicies.find((p) => p.server_id === server.id) ?? {
+      server_id: server.id,
+      enabled: false,
+      frequency: 'weekly',
+      retention: BACKUP_RETENTION_OPTIONS.weekly[0],
+      monthly_price: 0,
+    };
+    return { data: policy };
+  }),
+
+  route('put', '/servers/:id/backup-policy', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const body = (req.body ?? {}) as { enabled?: boolean; frequency?: BackupFrequency; retention?: number };
+    const frequency = body.frequency ?? validationError({ frequency: 'Field required' });
+    const addOn = backupAddOn(req.db, frequency) ?? validationError({ frequency: 'Choose daily or weekly' });
+    const retention = Number(body.retention);
+    if (!BACKUP_RETENTION_OPTIONS[frequency].includes(retention)) {
+      validationError({ retention: `Keep ${BACKUP_RETENTION_OPTIONS[frequency].join(', ')} ${frequency} backups` });
+    }
+
+    let policy = req.db.backupPolicies.find((p) => p.server_id === server.id);
+    if (!policy) {
+      policy = { server_id: server.id, enabled: false, frequency, retention, monthly_price: 0 };
+      req.db.backupPolicies.push(policy);
+    }
+    const enabled = Boolean(body.enabled);
+    // Switching schedule (or turning backups on) starts the clock again
+    const reschedule = enabled && (!policy.enabled || policy.frequency !== frequency);
+    Object.assign(policy, {
+      enabled,
+      frequency,
+      retention,
+      monthly_price: enabled ? addOnMonthlyPrice(addOn, server.storage_gb) : 0,
+      next_run_at: enabled
+        ? reschedule
+          ? new Date(Date.now() + BACKUP_INTERVAL_MS[frequency]).toISOString()
+          : policy.next_run_at
+        : undefined,
+    });
+    if (enabled) pruneScheduledBackups(server.id, retention);
+
+    logActivity(
+      server,
+      'backups',
+      enabled ? `${addOn.name} enabled, keeping ${retention}` : 'Scheduled backups disabled',
+      req.currentUser?.email
+    );
+    return { data: policy };
+  }),
+];
@@ -0,0 +1,21 @@
+import { BILLING_CYCLES, PLAN_TYPES, buildPlanPricing } from '../../lib/catalog';
+import { PlanCatalog } from '../../types';
+import { MockDb } from '../db';
+import { route } from '../router';
+
+// What GET /catalog serves; checkout is priced from the same copy
+export const mockCatalog = (db: MockDb): PlanCatalog => {
+  const plans = db.plans.filter((p) => p.is_active).sort((a, b) => a.display_order - b.display_order);
+  return {
+    plan_types: PLAN_TYPES,
+    plans,
+    billing_cycles: BILLING_CYCLES,
+    plan_pricing: buildPlanPricing(plans, BILLING_CYCLES),
+    add_ons: db.addOns.filter((a) => a.is_active),
+  };
+};
+
+export const catalogHandlers = [
+  // Public, like /plans; prices follow any plan an admin has edited
+  route('get', '/catalog', ({ db }) => ({ data: mockCatalog(db) })),
+];
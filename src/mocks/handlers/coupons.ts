@@ -0,0 +1,98 @@
+import { CouponContext, CouponInput, couponIneligibility, normalizeCouponCode, validateCoupon } from '../../lib/coupons';
+import { MockDb, nextId } from '../db';
+import { AppliedCoupon, CatalogCycle, Coupon } from '../../types';
+import { notFound, requireAdmin, requireFields, route, validationError } from '../router';
+
+// A customer's first order is any order placed before they have paid for one
+export const isFirstOrder = (db: MockDb, userId: string) =>
+  !db.orders.some((o) => o.user_id === userId && o.payment_status === 'paid');
+
+// The coupon behind `code` when it applies to this order; otherwise a 422 on `field` saying why
+export const redeemableCoupon = (db: MockDb, code: string, context: CouponContext, field = 'code'): Coupon => {
+  const normalized = normalizeCouponCode(code);
+  const coupon =
+    db.coupons.find((c) => c.code === normalized) ?? validationError({ [field]: `${normalized} is not a valid code` });
+  const reason = couponIneligibility(coupon, context);
+  if (reason) validationError({ [field]: reason });
+  return coupon;
+};
+
+export const appliedCoupon = ({ code, description, discount_type, discount_value }: Coupon): AppliedCoupon => ({
+  code,
+  description,
+  discount_type,
+  discount_value,
+});
+
+// Partial updates fill in from `base`; every field is checked the way the admin form checks it
+const readCoupon = (db: MockDb, body: unknown, base?: Coupon): CouponInput => {
+  const input = { ...base, ...(body as Partial<CouponInput>) };
+  const coupon: CouponInput = {
+    code: normalizeCouponCode(String(input.code ?? '')),
+    description: input.description || undefined,
+    discount_type: input.discount_type === 'flat' ? 'flat' : 'percent',
+    discount_value: Number(input.discount_value),
+    first_order_only: Boolean(input.first_order_only),
+    plan_ids: Array.isArray(input.plan_ids) ? input.plan_ids.map(String) : [],
+    billing_cycles: Array.isArray(input.billing_cycles) ? (input.billing_cycles as CatalogCycle[]) : [],
+    max_redemptions:
+      input.max_redemptions === null || input.max_redemptions === undefined ? null : Number(input.max_redemptions),
+    expires_at: input.expires_at || null,
+    is_active: input.is_active ?? true,
+  };
+  const errors = validateCoupon(coupon);
+  const unknownPlan = coupon.plan_ids.find((id) => !db.plans.some((p) => p.id === id));
+  if (unknownPlan) errors.plan_ids = `Plan ${unknownPlan} not found`;
+  if (db.coupons.some((c) => c.code === coupon.code && c.id !== base?.id)) {
+    errors.code = `Another coupon already uses ${coupon.code}`;
+  }
+  if (Object.keys(errors).length > 0) validationError(errors);
+  return coupon;
+};
+
+export const couponsHandlers = [
+  route('get', '/coupons', (req) => {
+    requireAdmin(req);
+    return { data: [...req.db.coupons].sort((a, b) => b.created_at.localeCompare(a.created_at)) };
+  }),
+
+  // Public so the calculator can try a code before sign-in; first-order codes are checked again at checkout
+  route('post', '/coupons/validate', (req) => {
+    const body = requireFields(req.body, ['code', 'plan_id', 'billing_cycle']);
+    const plan = req.db.plans.find((p) => p.id === body.plan_id && p.is_active) ?? notFound('Plan');
+    const coupon = redeemableCoupon(req.db, String(body.code), {
+      planId: plan.id,
+      cycle: body.billing_cycle as CatalogCycle,
+      isFirstOrder: req.currentUser ? isFirstOrder(req.db, req.currentUser.id) : undefined,
+    });
+    return { data: appliedCoupon(coupon) };
+  }),
+
+  route('post', '/coupons', (req) => {
+    requireAdmin(req);
+    const now = new Date().toISOString();
+    const coupon: Coupon = {
+      ...readCoupon(req.db, req.body),
+      id: nextId('cpn'),
+      redemptions: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    req.db.coupons.push(coupon);
+    return { status: 201, data: coupon };
+  }),
+
+  route('put', '/coupons/:id', (req) => {
+    requireAdmin(req);
+    const coupon = req.db.coupons.find((c) => c.id === req.params.id) ?? notFound('Coupon');
+    Object.assign(coupon, readCoupon(req.db, req.body, coupon), { updated_at: new Date().toISOString() });
+    return { data: coupon };
+  }),
+
+  route('delete', '/coupons/:id', (req) => {
+    requireAdmin(req);
+    if (!req.db.coupons.some((c) => c.id === req.params.id)) notFound('Coupon');
+    req.db.coupons = req.db.coupons.filter((c) => c.id !== req.params.id);
+    return { status: 204 };
+  }),
+];
@@ -0,0 +1,198 @@
+import { parseZoneFile } from '../../lib/bindZone';
+import {
+  DEFAULT_TTL,
+  DnsRecordInput,
+  MAX_TTL,
+  MIN_TTL,
+  RAMAERA_NAMESERVERS,
+  findRecordConflicts,
+  formatRecordValue,
+  isValidHostname,
+  normalizeDnsRecord,
+  normalizeHostname,
+  validateDnsRecord,
+} from '../../lib/dns';
+import { logActivity, nextId } from '../db';
+import { DnsRecord, DnsZone } from '../../types';
+import {
+  MockHttpError,
+  MockRequest,
+  findOwned,
+  notFound,
+  requireFields,
+  requireUser,
+  route,
+  scopeToUser,
+  validationError,
+} from '../router';
+
+const MAX_RECORDS = 500;
+
+const NUMERIC_FIELDS = ['ttl', 'priority', 'weight', 'port', 'flags'] as const;
+
+// Body -> canonical record; numeric fields arrive as strings from some clients
+const readRecord = (body: unknown, zone: DnsZone): DnsRecordInput => {
+  const raw = requireFields(body, ['type', 'name', 'value']);
+  const record = {
+    type: String(raw.type).toUpperCase(),
+    name: String(raw.name),
+    value: String(raw.value),
+    ttl: zone.default_ttl,
+    tag: raw.tag === undefined ? undefined : String(raw.tag),
+  } as DnsRecordInput;
+  for (const field of NUMERIC_FIELDS) {
+    if (raw[field] !== undefined && raw[field] !== '') record[field] = Number(raw[field]);
+  }
+  const normalized = normalizeDnsRecord(record, zone.domain);
+  const errors = validateDnsRecord(normalized);
+  if (Object.keys(errors).length > 0) validationError(errors);
+  return normalized;
+};
+
+// Zone-wide checks for a proposed record set; reports the first conflict against `field`
+const checkConflicts = (records: DnsRecordInput[], field: string) => {
+  if (records.length > MAX_RECORDS) validationError({ [field]: `A zone can have at most ${MAX_RECORDS} records` });
+  const conflict = Object.values(findRecordConflicts(records))[0];
+  if (conflict) validationError({ [field]: conflict });
+};
+
+const findRecord = (req: MockRequest, zone: DnsZone) =>
+  zone.records.find((r) => r.id === req.params.recordId) ?? notFound('DNS record');
+
+const store = (zone: DnsZone, record: DnsRecordInput): DnsRecord => ({
+  ...record,
+  id: record.id ?? nextId('dnsr'),
+  zone_id: zone.id,
+});
+
+const sameRecord = (a: DnsRecordInput, b: DnsRecordInput) =>
+  a.type === b.type && a.name === b.name && formatRecordValue(a) === formatRecordValue(b);
+
+const touch = (zone: DnsZone) => {
+  zone.updated_at = new Date().toISOString();
+  return zone;
+};
+
+export const dnsHandlers = [
+  route('get', '/dns/zones', (req) => ({
+    data: scopeToUser(req, req.db.dnsZones).sort((a, b) => a.domain.localeCompare(b.domain)),
+  })),
+
+  route('post', '/dns/zones', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['domain']);
+    const domain = normalizeHostname(String(body.domain));
+    if (!isValidHostname(domain) || !domain.includes('.')) {
+      validationError({ domain: 'Enter a registered domain, e.g. example.com' });
+    }
+    if (domain === 'ramaera.cloud' || domain.endsWith('.ramaera.cloud')) {
+      validationError({ domain: 'Server host names under ramaera.cloud are managed for you' });
+    }
+    if (req.db.dnsZones.some((z) => z.domain === domain)) {
+      throw new MockHttpError(409, `${domain} is already hosted on Ramaera DNS`);
+    }
+    const ttl = body.default_ttl === undefined ? DEFAULT_TTL : Number(body.default_ttl);
+    if (!Number.isInteger(ttl) || ttl < MIN_TTL || ttl > MAX_TTL) {
+      validationError({ default_ttl: `TTL must be between ${MIN_TTL} and ${MAX_TTL} seconds` });
+    }
+    const now = new Date().toISOString();
+    const zone: DnsZone = {
+      id: nextId('dnsz'),
+      user_id: user.id,
+      domain,
+      default_ttl: ttl,
+      nameservers: [...RAMAERA_NAMESERVERS],
+      records: [],
+      created_at: now,
+      updated_at: now,
+    };
+    req.db.dnsZones.push(zone);
+    return { status: 201, data: zone };
+  }),
+
+  route('get', '/dns/zones/:id', (req) => ({ data: findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone') })),
+
+  route('delete', '/dns/zones/:id', (req) => {
+    const zone = findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone');
+    req.db.dnsZones = req.db.dnsZones.filter((z) => z.id !== zone.id);
+    return { status: 204 };
+  }),
+
+  route('post', '/dns/zones/:id/records', (req) => {
+    const zone = findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone');
+    const record = store(zone, readRecord(req.body, zone));
+    checkConflicts([...zone.records, record], 'name');
+    zone.records.push(record);
+    touch(zone);
+    return { status: 201, data: record };
+  }),
+
+  route('put', '/dns/zones/:id/records/:recordId', (req) => {
+    const zone = findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone');
+    const existing = findRecord(req, zone);
+    const record = store(zone, { ...readRecord(req.body, zone), id: existing.id });
+    const records = zone.records.map((r) => (r.id === existing.id ? record : r));
+    checkConflicts(records, 'name');
+    zone.records = records;
+    touch(zone);
+    return { data: record };
+  }),
+
+  route('delete', '/dns/zones/:id/records/:recordId', (req) => {
+    const zone = findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone');
+    const record = findRecord(req, zone);
+    zone.records = zone.records.filter((r) => r.id !== record.id);
+    touch(zone);
+    return { status: 204 };
+  }),
+
+  route('post', '/dns/zones/:id/import', (req) => {
+    const zone = findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone');
+    const body = requireFields(req.body, ['zone_file']);
+    const { records, errors, warnings } = parseZoneFile(String(body.zone_file), zone.domain, zone.default_ttl);
+    if (errors.length > 0) {
+      const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+      validationError({ zone_file: `Line ${errors[0].line}: ${errors[0].message}${more}` });
+    }
+
+    const kept = body.replace ? [] : zone.records;
+    const added = records.filter(
+      (r, i) => !kept.some((k) => sameRecord(k, r)) && !records.slice(0, i).some((p) => sameRecord(p, r))
+    );
+    const next = [...kept, ...added.map((r) => store(zone, r))];
+    checkConflicts(next, 'zone_file');
+    zone.records = next;
+    touch(zone);
+    return { data: { zone, imported: added.length, warnings } };
+  }),
+
+  route('post', '/dns/zones/:id/point', (req) => {
+    const zone = findOwned(req, req.db.dnsZones, req.params.id, 'DNS zone');
+    const { server_id, include_www } = requireFields(req.body, ['server_id']);
+    const server = findOwned(req, req.db.servers, String(server_id), 'Server');
+    if (server.user_id !== zone.user_id) validationError({ server_id: 'Server belongs to another account' });
+    const primaries = (server.ip_addresses ?? []).filter((a) => a.role === 'primary' && a.scope === 'public');
+    if (primaries.length === 0) throw new MockHttpError(409, 'Wait until the server has finished provisioning');
+
+    const apex = primaries.map((a) =>
+      store(zone, { type: a.version === 6 ? 'AAAA' : 'A', name: '@', ttl: zone.default_ttl, value: a.address })
+    );
+    let records = [...zone.records.filter((r) => !(r.name === '@' && (r.type === 'A' || r.type === 'AAAA'))), ...apex];
+    if (include_www) {
+      // www follows the apex, whatever it held before
+      records = [
+        ...records.filter((r) => r.name !== 'www'),
+        store(zone, { type: 'CNAME', name: 'www', ttl: zone.default_ttl, value: zone.domain }),
+      ];
+    }
+    checkConflicts(records, 'server_id');
+    zone.records = records;
+    logActivity(
+      server,
+      'dns',
+      `${zone.domain}${include_www ? ` and www.${zone.domain}` : ''} pointed at this server`,
+      req.currentUser?.email
+    );
+    return { data: touch(zone) };
+  }),
+];
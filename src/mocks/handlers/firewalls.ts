@@ -0,0 +1,131 @@
+import { FirewallRuleInput, describeRule, diffRules, normalizeCidr, validateRule } from '../../lib/firewall';
+import { logActivity, nextId } from '../db';
+import { Firewall, FirewallRule, UserServer } from '../../types';
+import { MockRequest, findOwned, requireFields, requireUser, route, scopeToUser, validationError } from '../router';
+
+const MAX_RULES = 50;
+
+const DIRECTIONS = ['inbound', 'outbound'];
+const PROTOCOLS = ['tcp', 'udp', 'icmp'];
+
+// Same checks the editor runs, so a hand-crafted request can't store a bad rule
+const parseRules = (input: unknown, existing: FirewallRule[] = []): FirewallRule[] => {
+  if (!Array.isArray(input)) return validationError({ rules: 'Rules must be a list' });
+  if (input.length > MAX_RULES) validationError({ rules: `A firewall can have at most ${MAX_RULES} rules` });
+
+  return input.map((raw, i) => {
+    const rule = (raw ?? {}) as Partial<FirewallRuleInput>;
+    const direction = DIRECTIONS.includes(String(rule.direction))
+      ? (rule.direction as FirewallRule['direction'])
+      : validationError({ [`rules.${i}.direction`]: 'Choose inbound or outbound' });
+    const protocol = PROTOCOLS.includes(String(rule.protocol))
+      ? (rule.protocol as FirewallRule['protocol'])
+      : validationError({ [`rules.${i}.protocol`]: 'Choose TCP, UDP or ICMP' });
+    const ports = String(rule.ports ?? '').trim();
+    const addresses = Array.isArray(rule.addresses) ? rule.addresses.map((a) => String(a).trim()).filter(Boolean) : [];
+
+    const errors = validateRule({ direction, protocol, ports, addresses });
+    if (Object.keys(errors).length > 0) {
+      validationError(Object.fromEntries(Object.entries(errors).map(([field, msg]) => [`rules.${i}.${field}`, msg])));
+    }
+    return {
+      id: rule.id && existing.some((r) => r.id === rule.id) ? rule.id : nextId('fwr'),
+      direction,
+      protocol,
+      ports,
+      addresses: addresses.map(normalizeCidr),
+      description: rule.description?.trim() || undefined,
+    };
+  });
+};
+
+// Firewalls can only protect servers owned by the same account
+const findServerFor = (req: MockRequest, firewall: Firewall, serverId: unknown): UserServer => {
+  const server = findOwned(req, req.db.servers, String(serverId), 'Server');
+  if (server.user_id !== firewall.user_id) validationError({ server_id: 'Server belongs to another account' });
+  return server;
+};
+
+export const firewallsHandlers = [
+  route('get', '/firewalls', (req) => {
+    const { server_id } = req.query;
+    return {
+      data: scopeToUser(req, req.db.firewalls)
+        .filter((f) => !server_id || f.server_ids.includes(server_id))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }),
+
+  route('post', '/firewalls', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['name']);
+    const now = new Date().toISOString();
+    const firewall: Firewall = {
+      id: nextId('fw'),
+      user_id: user.id,
+      name: String(body.name).trim(),
+      rules: parseRules(body.rules ?? []),
+      server_ids: [],
+      created_at: now,
+      updated_at: now,
+    };
+    const servers = Array.isArray(body.server_ids) ? body.server_ids.map((id) => findServerFor(req, firewall, id)) : [];
+    firewall.server_ids = servers.map((s) => s.id);
+    req.db.firewalls.push(firewall);
+    servers.forEach((s) => logActivity(s, 'firewall', `Firewall "${firewall.name}" attached`, user.email));
+    return { status: 201, data: firewall };
+  }),
+
+  route('put', '/firewalls/:id', (req) => {
+    const firewall = findOwned(req, req.db.firewalls, req.params.id, 'Firewall');
+    const body = (req.body ?? {}) as { name?: string; rules?: unknown };
+    if (body.name !== undefined) {
+      firewall.name = String(body.name).trim() || validationError({ name: 'Field required' });
+    }
+    if (body.rules !== undefined) {
+      const rules = parseRules(body.rules, firewall.rules);
+      const { added, removed } = diffRules(firewall.rules, rules);
+      firewall.rules = rules;
+      if (added.length + removed.length > 0) {
+        const changes = [...added.map((r) => `+ ${describeRule(r)}`), ...removed.map((r) => `- ${describeRule(r)}`)];
+        req.db.servers
+          .filter((s) => firewall.server_ids.includes(s.id))
+          .forEach((s) =>
+            logActivity(s, 'firewall', `Firewall "${firewall.name}" updated: ${changes.join('; ')}`, req.currentUser?.email)
+          );
+      }
+    }
+    firewall.updated_at = new Date().toISOString();
+    return { data: firewall };
+  }),
+
+  route('post', '/firewalls/:id/servers', (req) => {
+    const firewall = findOwned(req, req.db.firewalls, req.params.id, 'Firewall');
+    const { server_id } = requireFields(req.body, ['server_id']);
+    const server = findServerFor(req, firewall, server_id);
+    if (!firewall.server_ids.includes(server.id)) {
+      firewall.server_ids.push(server.id);
+      logActivity(server, 'firewall', `Firewall "${firewall.name}" attached`, req.currentUser?.email);
+    }
+    return { data: firewall };
+  }),
+
+  route('delete', '/firewalls/:id/servers/:serverId', (req) => {
+    const firewall = findOwned(req, req.db.firewalls, req.params.id, 'Firewall');
+    const server = findServerFor(req, firewall, req.params.serverId);
+    if (firewall.server_ids.includes(server.id)) {
+      firewall.server_ids = firewall.server_ids.filter((id) => id !== server.id);
+      logActivity(server, 'firewall', `Firewall "${firewall.name}" detached`, req.currentUser?.email);
+    }
+    return { data: firewall };
+  }),
+
+  route('delete', '/firewalls/:id', (req) => {
+    const firewall = findOwned(req, req.db.firewalls, req.params.id, 'Firewall');
+    req.db.servers
+      .filter((s) => firewall.server_ids.includes(s.id))
+      .forEach((s) => logActivity(s, 'firewall', `Firewall "${firewall.name}" deleted`, req.currentUser?.email));
+    req.db.firewalls = req.db.firewalls.filter((f) => f.id !== firewall.id);
+    return { status: 204 };
+  }),
+];
@@ -0,0 +1,8 @@
+import { route } from '../router';
+
+export const imagesHandlers = [
+  // Public, like /plans: the deploy flow shows images before checkout
+  route('get', '/images', ({ db }) => ({
+    data: db.images.filter((i) => !i.is_deprecated),
+  })),
+];
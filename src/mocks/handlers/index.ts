@@ -0,0 +1,47 @@
+import { MockRoute } from '../router';
+import { authHandlers } from './auth';
+import { usersHandlers } from './users';
+import { serversHandlers } from './servers';
+import { backupsHandlers } from './backups';
+import { metricsHandlers } from './metrics';
+import { firewallsHandlers } from './firewalls';
+import { ipAddressesHandlers } from './ipAddresses';
+import { vpcsHandlers } from './vpcs';
+import { volumesHandlers } from './volumes';
+import { loadBalancersHandlers } from './loadBalancers';
+import { dnsHandlers } from './dns';
+import { ordersHandlers } from './orders';
+import { invoicesHandlers } from './invoices';
+import { plansHandlers } from './plans';
+import { catalogHandlers } from './catalog';
+import { couponsHandlers } from './coupons';
+import { imagesHandlers } from './images';
+import { addOnsHandlers } from './addOns';
+import { sshKeysHandlers } from './sshKeys';
+import { ticketsHandlers } from './tickets';
+import { referralsHandlers } from './referrals';
+
+// Routes are matched in order, so literal paths (e.g. /users/stats) precede /:id patterns
+export const handlers: MockRoute[] = [
+  ...authHandlers,
+  ...usersHandlers,
+  ...serversHandlers,
+  ...backupsHandlers,
+  ...metricsHandlers,
+  ...firewallsHandlers,
+  ...ipAddressesHandlers,
+  ...vpcsHandlers,
+  ...volumesHandlers,
+  ...loadBalancersHandlers,
+  ...dnsHandlers,
+  ...ordersHandlers,
+  ...invoicesHandlers,
+  ...plansHandlers,
+  ...catalogHandlers,
+  ...couponsHandlers,
+  ...imagesHandlers,
+  ...addOnsHandlers,
+  ...sshKeysHandlers,
+  ...ticketsHandlers,
+  ...referralsHandlers,
+];
@@ -0,0 +1,11 @@
+import { findOwned, route, scopeToUser } from '../router';
+
+export const invoicesHandlers = [
+  route('get', '/invoices', (req) => ({
+    data: scopeToUser(req, req.db.invoices),
+  })),
+
+  route('get', '/invoices/:id', (req) => ({
+    data: findOwned(req, req.db.invoices, req.params.id, 'Invoice'),
+  })),
+];
@@ -0,0 +1,133 @@
+import { MAX_ADDITIONAL_IPV4 } from '../../api/ipAddresses';
+import { normalizeHostname, relativeName, validatePtrRecord } from '../../lib/dns';
+import { MockDb, logActivity, nextId } from '../db';
+import { AddOn, Order, ServerIpAddress, UserServer } from '../../types';
+import { MockHttpError, MockRequest, findOwned, notFound, route, validationError } from '../router';
+
+// Addresses handed out for additional IPv4 orders; the primaries come from 103.21.58-59.x
+const ADDITIONAL_POOL = '103.21.60';
+
+/**
+ * A/AAAA lookup against what the mock knows about: every server answers for its own
+ * hostname with its public addresses, and hosted zones answer from their records,
+ * following CNAMEs the way a resolver would.
+ */
+export const resolveForward = (db: MockDb, name: string, depth = 0): string[] => {
+  const host = normalizeHostname(name);
+  const fromServers = db.servers
+    .filter((s) => s.hostname === host)
+    .flatMap((s) => (s.ip_addresses ?? []).filter((a) => a.scope === 'public').map((a) => a.address));
+
+  // The most specific hosted zone wins, e.g. shop.example.com over example.com
+  const zone = db.dnsZones
+    .filter((z) => host === z.domain || host.endsWith(`.${z.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+  if (!zone) return fromServers;
+  const records = zone.records.filter((r) => r.name === relativeName(host, zone.domain));
+  const cname = records.find((r) => r.type === 'CNAME');
+  if (cname) return depth < 8 ? resolveForward(db, cname.value, depth + 1) : [];
+  return [...fromServers, ...records.filter((r) => r.type === 'A' || r.type === 'AAAA').map((r) => r.value.toLowerCase())];
+};
+
+// Next free address from the additional pool, billed under the add-on
+export const allocateAdditionalIpv4 = (db: MockDb, server: UserServer, addOn: AddOn): ServerIpAddress => {
+  const taken = new Set(db.servers.flatMap((s) => (s.ip_addresses ?? []).map((a) => a.address)));
+  const host = Array.from({ length: 250 }, (_, i) => i + 2).find((h) => !taken.has(`${ADDITIONAL_POOL}.${h}`));
+  if (host === undefined) throw new MockHttpError(409, 'No IPv4 addresses are free in this region');
+  return {
+    id: nextId('ip'),
+    server_id: server.id,
+    address: `${ADDITIONAL_POOL}.${host}`,
+    version: 4,
+    prefix_length: 32,
+    gateway: `${ADDITIONAL_POOL}.1`,
+    role: 'secondary',
+    scope: 'public',
+    add_on_id: addOn.id,
+    created_at: new Date().toISOString(),
+  };
+};
+
+const findAddress = (req: MockRequest, server: UserServer) =>
+  (server.ip_addresses ?? []).find((a) => a.id === req.params.ipId) ?? notFound('IP address');
+
+export const ipAddressesHandlers = [
+  route('post', '/servers/:id/ip-addresses', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const { version } = (req.body ?? {}) as { version?: number };
+    if (version !== 4) validationError({ version: 'Only additional IPv4 addresses can be ordered' });
+    if (!server.ip_address) {
+      throw new MockHttpError(409, 'Wait until the server has finished provisioning');
+    }
+    const addresses = server.ip_addresses ?? [];
+    if (addresses.filter((a) => a.role === 'secondary' && a.scope === 'public').length >= MAX_ADDITIONAL_IPV4) {
+      throw new MockHttpError(409, `A server can have at most ${MAX_ADDITIONAL_IPV4} additional IPv4 addresses`);
+    }
+    const addOn = req.db.addOns.find((a) => a.slug === 'additional-ipv4' && a.is_active);
+    if (!addOn) throw new MockHttpError(409, 'Additional IPv4 addresses are not available right now');
+
+    const address = allocateAdditionalIpv4(req.db, server, addOn);
+    const now = address.created_at;
+    server.ip_addresses = [...addresses, address];
+
+    const order: Order = {
+      id: nextId('ord'),
+      user_id: server.user_id,
+      order_number: `ORD-${req.db.sequence}`,
+      order_type: 'add_on',
+      server_id: server.id,
+      add_on_id: addOn.id,
+      add_on: addOn,
+      plan_id: server.plan_id,
+      billing_cycle: 'monthly',
+      amount: addOn.price_per_unit,
+      status: 'completed',
+      payment_status: 'pending',
+      created_at: now,
+      completed_at: now,
+      user_email: server.user_email,
+      plan: server.plan,
+    };
+    req.db.orders.unshift(order);
+    logActivity(server, 'ip_address', `Additional IPv4 ${address.address} assigned (${order.order_number})`, req.currentUser?.email);
+    return { status: 201, data: address };
+  }),
+
+  route('delete', '/servers/:id/ip-addresses/:ipId', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const address = findAddress(req, server);
+    if (address.role === 'primary') {
+      throw new MockHttpError(409, 'Primary addresses stay with the server until it is deleted');
+    }
+    if (address.vpc_id) throw new MockHttpError(409, 'Detach the server from its VPC to release this address');
+    server.ip_addresses = (server.ip_addresses ?? []).filter((a) => a.id !== address.id);
+    logActivity(server, 'ip_address', `Additional IPv4 ${address.address} released`, req.currentUser?.email);
+    return { status: 204 };
+  }),
+
+  route('put', '/servers/:id/ip-addresses/:ipId/ptr', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const address = findAddress(req, server);
+    if (address.scope !== 'public') validationError({ ptr_record: 'Private addresses have no reverse DNS' });
+
+    const value = String((req.body as { ptr_record?: unknown } | undefined)?.ptr_record ?? '');
+    if (!value.trim()) {
+      address.ptr_record = undefined;
+      logActivity(server, 'rdns', `Reverse DNS for ${address.address} reset to default`, req.currentUser?.email);
+      return { data: address };
+    }
+
+    const error = validatePtrRecord(value);
+    if (error) validationError({ ptr_record: error });
+    const name = normalizeHostname(value);
+    // Forward-confirmed reverse DNS: mail receivers reject a PTR whose name doesn't point back
+    if (!resolveForward(req.db, name).includes(address.address)) {
+      validationError({
+        ptr_record: `${name} does not resolve to ${address.address}. Add an ${address.version === 6 ? 'AAAA' : 'A'} record for it first.`,
+      });
+    }
+    address.ptr_record = name;
+    logActivity(server, 'rdns', `Reverse DNS for ${address.address} set to ${name}`, req.currentUser?.email);
+    return { data: address };
+  }),
+];
@@ -0,0 +1,198 @@
+import { REGIONS, regionName } from '../../lib/regions';
+import {
+  DEFAULT_HEALTH_CHECK,
+  DEFAULT_STICKY_SESSIONS,
+  ForwardingRuleInput,
+  loadBalancerSize,
+  loadBalancerStatus,
+  validateForwardingRules,
+  validateHealthCheck,
+  validateStickySessions,
+} from '../../lib/loadBalancers';
+import { MockDb, logActivity, nextId } from '../db';
+import {
+  ForwardingRule,
+  LoadBalancer,
+  LoadBalancerBackend,
+  LoadBalancerHealthCheck,
+  StickySessions,
+  UserServer,
+} from '../../types';
+import { MockRequest, findOwned, requireFields, requireUser, route, scopeToUser, validationError } from '../router';
+
+// Public addresses for load balancers; servers use 103.21.58-59.x and additional IPs 103.21.60.x
+const LB_POOL = '103.21.61';
+
+const portInRange = (ports: string, port: number) => {
+  const [from, to = from] = ports.split('-').map(Number);
+  return port >= from && port <= to;
+};
+
+// What the health checker would see right now; a firewall that doesn't open the check port fails it
+const checkBackend = (db: MockDb, server: UserServer, check: LoadBalancerHealthCheck): LoadBalancerBackend => {
+  const result = (health: LoadBalancerBackend['health'], reason?: string): LoadBalancerBackend => ({
+    server_id: server.id,
+    health,
+    reason,
+    last_checked_at: new Date().toISOString(),
+  });
+  if (['provisioning', 'rebuilding', 'restoring'].includes(server.status)) return result('unknown', `Server is ${server.status}`);
+  if (server.status !== 'active') return result('unhealthy', `Server is ${server.status}`);
+  const firewalls = db.firewalls.filter((f) => f.server_ids.includes(server.id));
+  const allowed = firewalls.some((f) =>
+    f.rules.some((r) => r.direction === 'inbound' && r.protocol === 'tcp' && portInRange(r.ports, check.port))
+  );
+  if (firewalls.length > 0 && !allowed) return result('unhealthy', `Firewall blocks port ${check.port}`);
+  return result('healthy');
+};
+
+const refreshHealth = (db: MockDb, lb: LoadBalancer) => {
+  lb.backends = lb.backends.flatMap((b) => {
+    const server = db.servers.find((s) => s.id === b.server_id);
+    return server ? [checkBackend(db, server, lb.health_check)] : [];
+  });
+  lb.status = loadBalancerStatus(lb.backends);
+  return lb;
+};
+
+const readRules = (value: unknown, maxRules: number): ForwardingRule[] => {
+  if (!Array.isArray(value)) validationError({ forwarding_rules: 'Expected a list of rules' });
+  const rules = (value as ForwardingRuleInput[]).map((r) => ({
+    id: r.id || nextId('fr'),
+    entry_protocol: r.entry_protocol,
+    entry_port: Number(r.entry_port),
+    target_protocol: r.target_protocol,
+    target_port: Number(r.target_port),
+    tls_passthrough: Boolean(r.tls_passthrough),
+  }));
+  const error = validateForwardingRules(rules, maxRules);
+  if (error) validationError({ forwarding_rules: error });
+  return rules;
+};
+
+// Partial settings fill in from `base`: the defaults on create, the current values on update
+const readHealthCheck = (value: unknown, base = DEFAULT_HEALTH_CHECK): LoadBalancerHealthCheck => {
+  const check = { ...base, ...(value as Partial<LoadBalancerHealthCheck>) };
+  const error = validateHealthCheck(check);
+  if (error) validationError({ health_check: error });
+  return check;
+};
+
+const readStickySessions = (value: unknown, rules: ForwardingRule[], base = DEFAULT_STICKY_SESSIONS): StickySessions => {
+  const sticky = { ...base, ...(value as Partial<StickySessions>) };
+  const error = validateStickySessions(sticky, rules);
+  if (error) validationError({ sticky_sessions: error });
+  return sticky;
+};
+
+const readSize = (value: unknown) => loadBalancerSize(String(value)) ?? validationError({ size: 'Choose one of the sizes' });
+
+// Backends must belong to the load balancer's account and region, and fit within its size
+const readBackends = (req: MockRequest, lb: Pick<LoadBalancer, 'user_id' | 'region' | 'size'>, value: unknown): string[] => {
+  if (!Array.isArray(value)) validationError({ server_ids: 'Expected a list of server ids' });
+  const ids = [...new Set((value as unknown[]).map(String))];
+  const size = loadBalancerSize(lb.size)!;
+  if (ids.length > size.max_backends) validationError({ server_ids: `This size allows up to ${size.max_backends} backends` });
+  for (const id of ids) {
+    const server = findOwned(req, req.db.servers, id, 'Server');
+    if (server.user_id !== lb.user_id) validationError({ server_ids: `${server.server_name} belongs to another account` });
+    if (server.region !== lb.region) {
+      validationError({ server_ids: `${server.server_name} is in ${regionName(server.region)}, not ${regionName(lb.region)}` });
+    }
+  }
+  return ids;
+};
+
+export const loadBalancersHandlers = [
+  route('get', '/load-balancers', (req) => ({
+    data: scopeToUser(req, req.db.loadBalancers)
+      .map((lb) => refreshHealth(req.db, lb))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  })),
+
+  route('get', '/load-balancers/:id', (req) => ({
+    data: refreshHealth(req.db, findOwned(req, req.db.loadBalancers, req.params.id, 'Load balancer')),
+  })),
+
+  route('post', '/load-balancers', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['name', 'region', 'size', 'forwarding_rules']);
+    const region = String(body.region);
+    if (!REGIONS.some((r) => r.slug === region)) validationError({ region: 'Choose one of our regions' });
+    const size = readSize(body.size);
+    const rules = readRules(body.forwarding_rules, size.max_rules);
+
+    const now = new Date().toISOString();
+    const lb: LoadBalancer = {
+      id: nextId('lb'),
+      user_id: user.id,
+      user_email: user.email,
+      name: String(body.name).trim(),
+      region,
+      size: size.slug,
+      status: 'down',
+      ip_address: `${LB_POOL}.${(req.db.sequence % 200) + 20}`,
+      algorithm: body.algorithm === 'least_connections' ? 'least_connections' : 'round_robin',
+      forwarding_rules: rules,
+      health_check: readHealthCheck(body.health_check),
+      sticky_sessions: readStickySessions(body.sticky_sessions, rules),
+      backends: [],
+      monthly_price: size.monthly_price,
+      created_at: now,
+      updated_at: now,
+    };
+    lb.backends = readBackends(req, lb, body.server_ids ?? []).map((id) => ({ server_id: id, health: 'unknown' }));
+    req.db.loadBalancers.push(lb);
+    return { status: 201, data: refreshHealth(req.db, lb) };
+  }),
+
+  route('put', '/load-balancers/:id', (req) => {
+    const lb = findOwned(req, req.db.loadBalancers, req.params.id, 'Load balancer');
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const size = body.size !== undefined ? readSize(body.size) : loadBalancerSize(lb.size)!;
+    // Shrinking must still fit the rules and backends already configured
+    if (lb.backends.length > size.max_backends) {
+      validationError({ size: `${size.name} allows ${size.max_backends} backends; remove some first` });
+    }
+    const rules = body.forwarding_rules !== undefined ? readRules(body.forwarding_rules, size.max_rules) : lb.forwarding_rules;
+    if (rules.length > size.max_rules) validationError({ size: `${size.name} allows ${size.max_rules} forwarding rules` });
+
+    const name = body.name !== undefined ? String(body.name).trim() || validationError({ name: 'Field required' }) : lb.name;
+    const healthCheck = body.health_check !== undefined ? readHealthCheck(body.health_check, lb.health_check) : lb.health_check;
+    // Re-checked against the new rules even when unchanged, e.g. if the last HTTP rule was removed
+    const sticky = readStickySessions(body.sticky_sessions, rules, lb.sticky_sessions);
+
+    lb.name = name;
+    if (body.algorithm !== undefined) lb.algorithm = body.algorithm === 'least_connections' ? 'least_connections' : 'round_robin';
+    lb.health_check = healthCheck;
+    lb.sticky_sessions = sticky;
+    lb.forwarding_rules = rules;
+    lb.size = size.slug;
+    lb.monthly_price = size.monthly_price;
+    lb.updated_at = new Date().toISOString();
+    return { data: refreshHealth(req.db, lb) };
+  }),
+
+  route('put', '/load-balancers/:id/backends', (req) => {
+    const lb = findOwned(req, req.db.loadBalancers, req.params.id, 'Load balancer');
+    const { server_ids } = requireFields(req.body, ['server_ids']);
+    const ids = readBackends(req, lb, server_ids);
+    const before = lb.backends.map((b) => b.server_id);
+    for (const server of req.db.servers) {
+      if (ids.includes(server.id) && !before.includes(server.id)) {
+        logActivity(server, 'load_balancer', `Added to load balancer "${lb.name}"`, req.currentUser?.email);
+      } else if (!ids.includes(server.id) && before.includes(server.id)) {
+        logActivity(server, 'load_balancer', `Removed from load balancer "${lb.name}"`, req.currentUser?.email);
+      }
+    }
+    lb.backends = ids.map((id) => ({ server_id: id, health: 'unknown' }));
+    lb.updated_at = new Date().toISOString();
+    return { data: refreshHealth(req.db, lb) };
+  }),
+
+  route('delete', '/load-balancers/:id', (req) => {
+    const lb = findOwned(req, req.db.loadBalancers, req.params.id, 'Load balancer');
+    req.db.loadBalancers = req.db.loadBalancers.filter((l) => l.id !== lb.id);
+    return { status: 204 };
+  }),
+];
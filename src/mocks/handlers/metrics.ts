@@ -0,0 +1,111 @@
+import { bandwidthPeriod, projectUsage } from '../../lib/metrics';
+import { MetricsPoint, MetricsRange, ServerMetrics, UserServer } from '../../types';
+import { findOwned, route, validationError } from '../router';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RANGES: Record<MetricsRange, { durationMs: number; stepSeconds: number }> = {
+  '1h': { durationMs: HOUR_MS, stepSeconds: 60 },
+  '24h': { durationMs: DAY_MS, stepSeconds: 15 * 60 },
+  '7d': { durationMs: 7 * DAY_MS, stepSeconds: 60 * 60 },
+  '30d': { durationMs: 30 * DAY_MS, stepSeconds: 4 * 60 * 60 },
+};
+
+// FNV-1a, scaled to [0, 1), so the same server and time bucket always give the same sample
+const noise = (key: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 2 ** 32;
+};
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Average transfer rate (Mbps) that would use `share` of the allowance over a 30-day month
+const transferRate = (server: UserServer) => {
+  const share = 0.3 + noise(`${server.id}:transfer`) * 0.9;
+  return (server.bandwidth_tb * 1000 * share * 8000) / (30 * 24 * 3600);
+};
+
+// Traffic peaks mid-afternoon IST and bottoms out overnight; averages to 1 over a day
+const diurnal = (t: number) => {
+  const istHour = (new Date(t).getUTCHours() + new Date(t).getUTCMinutes() / 60 + 5.5) % 24;
+  return 1 + 0.5 * Math.sin((2 * Math.PI * (istHour - 8)) / 24);
+};
+
+const sample = (server: UserServer, t: number, running: boolean): MetricsPoint => {
+  const timestamp = new Date(t).toISOString();
+  if (!running) {
+    return {
+      timestamp,
+      cpu_percent: 0,
+      ram_percent: 0,
+      disk_read_mbps: 0,
+      disk_write_mbps: 0,
+      net_in_mbps: 0,
+      net_out_mbps: 0,
+    };
+  }
+  const load = diurnal(t) * (0.8 + 0.4 * noise(`${server.id}:${t}`));
+  const cpuBase = 10 + noise(`${server.id}:cpu`) * 45;
+  const ramBase = 30 + noise(`${server.id}:ram`) * 40;
+  const diskBase = 2 + noise(`${server.id}:disk`) * 20;
+  const net = transferRate(server) * load;
+  return {
+    timestamp,
+    cpu_percent: round(clamp(cpuBase * load, 0.5, 100), 1),
+    ram_percent: round(clamp(ramBase + 10 * (load - 1), 5, 98), 1),
+    disk_read_mbps: round(diskBase * load),
+    disk_write_mbps: round(diskBase * 0.6 * load),
+    // Mostly egress: these are serving traffic, not downloading it
+    net_in_mbps: round(net * 0.3),
+    net_out_mbps: round(net * 0.7),
+  };
+};
+
+export const metricsHandlers = [
+  route('get', '/servers/:id/metrics', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const range = (req.query.range ?? '24h') as MetricsRange;
+    const { durationMs, stepSeconds } =
+      RANGES[range] ?? validationError({ range: `Choose one of ${Object.keys(RANGES).join(', ')}` });
+
+    const now = Date.now();
+    const stepMs = stepSeconds * 1000;
+    // Nothing is metered until the server has finished provisioning
+    const created = server.status === 'provisioning' ? now : new Date(server.created_at).getTime();
+    // The mock doesn't record when a server went down, so treat it as off for the last hour
+    const offSince = server.status === 'active' ? Infinity : now - HOUR_MS;
+    const points: MetricsPoint[] = [];
+    for (let t = Math.floor((now - durationMs) / stepMs) * stepMs; t <= now; t += stepMs) {
+      if (t >= created) points.push(sample(server, t, t < offSince));
+    }
+
+    const period = bandwidthPeriod(new Date(now));
+    const since = new Date(Math.max(period.start.getTime(), created));
+    const elapsedSeconds = Math.max(0, now - since.getTime()) / 1000;
+    const usedGb = round(
+      ((transferRate(server) * elapsedSeconds) / 8000) * (0.95 + 0.1 * noise(`${server.id}:${period.start.getTime()}`)),
+      1
+    );
+
+    const metrics: ServerMetrics = {
+      server_id: server.id,
+      range,
+      step_seconds: stepSeconds,
+      points,
+      bandwidth: {
+        period_start: period.start.toISOString(),
+        period_end: period.end.toISOString(),
+        used_gb: usedGb,
+        allowance_gb: server.bandwidth_tb * 1000,
+        projected_gb: projectUsage(usedGb, since, period.end, new Date(now)),
+      },
+    };
+    return { data: metrics };
+  }),
+];
@@ -0,0 +1,309 @@
+import { BACKUP_RETENTION_OPTIONS } from '../../api/backups';
+import { MAX_ADDITIONAL_IPV4 } from '../../api/ipAddresses';
+import { addOnMonthlyPrice } from '../../api/addOns';
+import { imageLabel } from '../../api/images';
+import { fromOrderCycle } from '../../lib/catalog';
+import { DEPLOY_ADD_ON_SLUGS, PAYMENT_METHODS, quoteDeploy } from '../../lib/checkout';
+import { isValidHostname } from '../../lib/dns';
+import { DEFAULT_REGION, getRegion, isPlanAvailable, regionName } from '../../lib/regions';
+import { BACKUP_INTERVAL_MS, MockDb, PROVISIONING_MS, createInvoice, logActivity, nextId } from '../db';
+import { mockCatalog } from './catalog';
+import { isFirstOrder, redeemableCoupon } from './coupons';
+import { resolveSshKeyIds } from './sshKeys';
+import { allocateAdditionalIpv4 } from './ipAddresses';
+import {
+  MockHttpError,
+  MockRequest,
+  findOwned,
+  notFound,
+  requireAdmin,
+  requireFields,
+  requireUser,
+  route,
+  scopeToUser,
+  validationError,
+} from '../router';
+import {
+  BackupFrequency,
+  BillingCycle,
+  HostingPlan,
+  InvoiceItem,
+  Order,
+  OrderAddOnLine,
+  OrderStatus,
+  PaymentStatus,
+  ServerJob,
+  UserServer,
+} from '../../types';
+
+// Root passwords from checkout wait here until the order is paid; they are never sent back
+const pendingRootPasswords = new Map<string, string>();
+
+// The add-ons bought at checkout: known, orderable, one backup schedule at most
+const readAddOns = (req: MockRequest, value: unknown): OrderAddOnLine[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) validationError({ add_ons: 'Expected a list of add-ons' });
+  const lines = (value as OrderAddOnLine[]).map((line) => ({ add_on_id: String(line?.add_on_id), quantity: Number(line?.quantity) }));
+  for (const line of lines) {
+    const addOn = req.db.addOns.find((a) => a.id === line.add_on_id && a.is_active);
+    if (!addOn || !DEPLOY_ADD_ON_SLUGS.includes(addOn.slug)) validationError({ add_ons: 'Unknown add-on' });
+    const max = addOn!.slug === 'additional-ipv4' ? MAX_ADDITIONAL_IPV4 : 1;
+    if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > max) {
+      validationError({ add_ons: `Order between 1 and ${max} of ${addOn!.name}` });
+    }
+  }
+  const backups = lines.filter((line) => req.db.addOns.find((a) => a.id === line.add_on_id)!.slug.startsWith('backups-'));
+  if (backups.length > 1) validationError({ add_ons: 'Choose daily or weekly backups, not both' });
+  return lines;
+};
+
+// Everything needed to build the server, checked before anyone is asked to pay
+const readDeployConfig = (req: MockRequest, userId: string, plan: HostingPlan) => {
+  const body = requireFields(req.body, ['server_name', 'hostname', 'os_image_id']);
+  const hostname = String(body.hostname).trim().toLowerCase();
+  if (!isValidHostname(hostname)) validationError({ hostname: 'Enter a valid hostname, e.g. web-02.example.com' });
+  if (req.db.servers.some((s) => s.hostname === hostname)) validationError({ hostname: 'Hostname is already in use' });
+
+  const image = req.db.images.find((i) => i.id === body.os_image_id) ?? validationError({ os_image_id: 'Unknown image' });
+  if (image.is_deprecated) validationError({ os_image_id: `${imageLabel(image)} is no longer offered for new servers` });
+  if (image.min_ram_gb && plan.ram_gb < image.min_ram_gb) {
+    validationError({ os_image_id: `${image.name} needs at least ${image.min_ram_gb} GB RAM` });
+  }
+
+  const sshKeyIds = resolveSshKeyIds(req.db, userId, body.ssh_key_ids);
+  const rootPassword = typeof body.root_password === 'string' ? body.root_password : '';
+  if (!rootPassword && sshKeyIds.length === 0) {
+    validationError({ root_password: 'Provide a root password or select an SSH key' });
+  }
+  if (rootPassword && rootPassword.length < 12) {
+    validationError({ root_password: 'Root password must be at least 12 characters' });
+  }
+
+  return {
+    server_name: String(body.server_name).trim(),
+    hostname,
+    os_image_id: image.id,
+    ssh_key_ids: sshKeyIds,
+    root_password: rootPassword,
+    add_ons: readAddOns(req, body.add_ons),
+  };
+};
+
+// Payment received: build the server the order describes and start provisioning it
+const provisionOrder = (db: MockDb, order: Order, actorEmail?: string) => {
+  const plan = order.plan!;
+  const image = db.images.find((i) => i.id === order.os_image_id)!;
+  const now = new Date();
+  const server: UserServer = {
+    id: nextId('srv'),
+    user_id: order.user_id,
+    plan_id: plan.id,
+    server_name: order.server_name!,
+    hostname: order.hostname!,
+    region: order.region ?? DEFAULT_REGION,
+    ip_addresses: [],
+    status: 'provisioning',
+    os_type: imageLabel(image),
+    os_image_id: image.id,
+    vcpu: plan.vcpu,
+    ram_gb: plan.ram_gb,
+    storage_gb: plan.storage_gb,
+    bandwidth_tb: plan.bandwidth_tb,
+    root_password: pendingRootPasswords.get(order.id),
+    ssh_key_ids: order.ssh_key_ids,
+    billing_cycle: order.billing_cycle,
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + 730 * 86400000).toISOString(),
+    user_email: order.user_email,
+    plan,
+  };
+  pendingRootPasswords.delete(order.id);
+  // Listed first so each additional address sees the ones already handed out
+  db.servers.push(server);
+
+  for (const line of order.add_ons ?? []) {
+    const addOn = db.addOns.find((a) => a.id === line.add_on_id)!;
+    if (addOn.slug === 'additional-ipv4') {
+      for (let i = 0; i < line.quantity; i++) {
+        server.ip_addresses = [...server.ip_addresses!, allocateAdditionalIpv4(db, server, addOn)];
+      }
+    } else {
+      const frequency = addOn.slug.replace('backups-', '') as BackupFrequency;
+      db.backupPolicies.push({
+        server_id: server.id,
+        enabled: true,
+        frequency,
+        retention: BACKUP_RETENTION_OPTIONS[frequency][0],
+        monthly_price: addOnMonthlyPrice(addOn, server.storage_gb),
+        next_run_at: new Date(now.getTime() + BACKUP_INTERVAL_MS[frequency]).toISOString(),
+      });
+    }
+  }
+
+  const job: ServerJob = {
+    id: nextId('job'),
+    server_id: server.id,
+    type: 'provision',
+    status: 'queued',
+    progress: 0,
+    message: 'Queued',
+    created_at: now.toISOString(),
+  };
+  db.jobs.push(job);
+  db.rebuilds.push({ jobId: job.id, imageId: image.id, startedAt: now.getTime(), completesAt: now.getTime() + PROVISIONING_MS });
+  db.transitions.push({ serverId: server.id, status: 'active', at: now.getTime() + PROVISIONING_MS });
+  logActivity(server, 'create', `Server ${server.server_name} ordered (${order.order_number})`, actorEmail);
+
+  Object.assign(order, { server_id: server.id, provision_job_id: job.id, status: 'processing' });
+};
+
+// Codes are checked when the order is placed and again at payment, since one may expire or run out in between
+const orderCoupon = (db: MockDb, code: string, userId: string, planId: string, cycle: BillingCycle) =>
+  redeemableCoupon(
+    db,
+    code,
+    { planId, cycle: fromOrderCycle(cycle), isFirstOrder: isFirstOrder(db, userId) },
+    'coupon_code'
+  );
+
+const invoiceLine = (description: string, amount: number, sac_code?: string): InvoiceItem => ({
+  description,
+  sac_code,
+  quantity: 1,
+  unit_price: amount,
+  amount,
+});
+
+// Completing an upgrade/downgrade order is what actually moves the server to the new plan
+const applyResize = (db: MockDb, order: Order, actorEmail?: string) => {
+  const server = order.server_id && db.servers.find((s) => s.id === order.server_id);
+  const plan = db.plans.find((p) => p.id === order.plan_id);
+  if (!server || !plan || (order.order_type !== 'upgrade' && order.order_type !== 'downgrade')) return;
+  Object.assign(server, {
+    plan_id: plan.id,
+    plan,
+    vcpu: plan.vcpu,
+    ram_gb: plan.ram_gb,
+    storage_gb: plan.storage_gb,
+    bandwidth_tb: plan.bandwidth_tb,
+  });
+  logActivity(server, 'resize', `Resized to ${plan.name} (${order.order_number})`, actorEmail);
+};
+
+export const ordersHandlers = [
+  route('get', '/orders', (req) => {
+    const { search = '', status, payment_status } = req.query;
+    const q = search.toLowerCase();
+    return {
+      data: scopeToUser(req, req.db.orders).filter(
+        (o) =>
+          (!q ||
+            o.order_number.toLowerCase().includes(q) ||
+            (o.user_email ?? '').toLowerCase().includes(q) ||
+            (o.plan?.name ?? '').toLowerCase().includes(q)) &&
+          (!status || o.status === status) &&
+          (!payment_status || o.payment_status === payment_status)
+      ),
+    };
+  }),
+
+  route('get', '/orders/:id', (req) => ({
+    data: findOwned(req, req.db.orders, req.params.id, 'Order'),
+  })),
+
+  route('post', '/orders', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['plan_id', 'billing_cycle']);
+    const plan = req.db.plans.find((p) => p.id === body.plan_id && p.is_active) ?? notFound('Plan');
+    const billingCycle = body.billing_cycle as BillingCycle;
+    if (billingCycle !== 'monthly' && billingCycle !== 'annual') validationError({ billing_cycle: 'Choose monthly or annual' });
+    const region = typeof body.region === 'string' && body.region ? body.region : DEFAULT_REGION;
+    if (!getRegion(region)) validationError({ region: 'Choose one of our regions' });
+    if (!isPlanAvailable(region, plan.slug)) {
+      validationError({ region: `${plan.name} is not available in ${regionName(region)}` });
+    }
+    const { root_password, ...config } = readDeployConfig(req, user.id, plan);
+    const coupon = body.coupon_code ? orderCoupon(req.db, String(body.coupon_code), user.id, plan.id, billingCycle) : null;
+    const quote = quoteDeploy(mockCatalog(req.db), plan, billingCycle, region, config.add_ons, coupon, user);
+
+    const order: Order = {
+      id: nextId('ord'),
+      user_id: user.id,
+      order_number: `ORD-${req.db.sequence}`,
+      order_type: 'new',
+      plan_id: plan.id,
+      billing_cycle: billingCycle,
+      region,
+      amount: quote.taxable,
+      status: 'pending',
+      payment_method: body.payment_method as string | undefined,
+      payment_status: 'pending',
+      ...config,
+      ...(coupon && { coupon_code: coupon.code, discount_amount: quote.coupon_discount }),
+      created_at: new Date().toISOString(),
+      user_email: user.email,
+      plan,
+    };
+    if (root_password) pendingRootPasswords.set(order.id, root_password);
+    req.db.orders.unshift(order);
+    return { status: 201, data: order };
+  }),
+
+  // Stands in for the payment gateway: the charge always succeeds and the server is built
+  route('post', '/orders/:id/pay', (req) => {
+    const order = findOwned(req, req.db.orders, req.params.id, 'Order');
+    if (order.status !== 'pending' || order.payment_status === 'paid') {
+      throw new MockHttpError(409, `Order ${order.order_number} is ${order.status} and cannot be paid again`);
+    }
+    if (order.order_type !== 'new' || !order.hostname || !order.plan) {
+      throw new MockHttpError(409, `Order ${order.order_number} does not describe a server to build`);
+    }
+    const { payment_method } = requireFields(req.body, ['payment_method']);
+    if (!PAYMENT_METHODS.some((m) => m.id === payment_method)) validationError({ payment_method: 'Choose UPI, card or net banking' });
+    if (req.db.servers.some((s) => s.hostname === order.hostname)) {
+      throw new MockHttpError(409, `${order.hostname} was taken since this order was placed; start a new order`);
+    }
+
+    const coupon = order.coupon_code
+      ? orderCoupon(req.db, order.coupon_code, order.user_id, order.plan_id, order.billing_cycle)
+      : null;
+    const region = order.region ?? DEFAULT_REGION;
+    const buyer = req.db.users.find((u) => u.id === order.user_id);
+    const quote = quoteDeploy(mockCatalog(req.db), order.plan, order.billing_cycle, region, order.add_ons, coupon, buyer);
+    // Itemised as checkout showed it: each line at the monthly rate, then the cycle discount
+    const items = quote.lines.map((line) => invoiceLine(line.description, line.list, line.sac_code));
+    if (quote.cycle_discount > 0) items.push(invoiceLine('Billing cycle discount', -quote.cycle_discount));
+    if (coupon) {
+      items.push(invoiceLine(`Coupon ${coupon.code}`, -quote.coupon_discount));
+      coupon.redemptions += 1;
+    }
+    const invoice = createInvoice(order.user_id, items);
+    const paidAt = new Date().toISOString();
+    Object.assign(invoice, { order_id: order.id, status: 'paid', paid_at: paidAt });
+    Object.assign(order, { payment_method: String(payment_method), payment_status: 'paid' });
+    provisionOrder(req.db, order, req.currentUser?.email);
+    return { data: order };
+  }),
+
+  route('patch', '/orders/:id', (req) => {
+    requireAdmin(req);
+    const order = findOwned(req, req.db.orders, req.params.id, 'Order');
+    const { status, payment_status } = (req.body ?? {}) as { status?: OrderStatus; payment_status?: PaymentStatus };
+    if (status) order.status = status;
+    if (payment_status) order.payment_status = payment_status;
+    if (status === 'completed' && !order.completed_at) {
+      order.completed_at = new Date().toISOString();
+      applyResize(req.db, order, req.currentUser?.email);
+    }
+    return { data: order };
+  }),
+
+  route('post', '/orders/:id/cancel', (req) => {
+    const order = findOwned(req, req.db.orders, req.params.id, 'Order');
+    if (order.status === 'completed' || order.status === 'refunded') {
+      throw new MockHttpError(409, `A ${order.status} order cannot be cancelled`);
+    }
+    order.status = 'cancelled';
+    return { data: order };
+  }),
+];
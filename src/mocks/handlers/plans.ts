@@ -0,0 +1,47 @@
+import { nextId } from '../db';
+import { notFound, requireAdmin, requireFields, route } from '../router';
+import { HostingPlan } from '../../types';
+
+export const plansHandlers = [
+  // Public: the pricing pages load plans before anyone signs in
+  route('get', '/plans', ({ db }) => ({
+    data: [...db.plans].sort((a, b) => a.display_order - b.display_order),
+  })),
+
+  route('get', '/plans/:id', ({ db, params }) => ({
+    data: db.plans.find((p) => p.id === params.id) ?? notFound('Plan'),
+  })),
+
+  route('post', '/plans', (req) => {
+    requireAdmin(req);
+    const body = requireFields(req.body, ['name', 'plan_type', 'monthly_price']) as Partial<HostingPlan>;
+    const now = new Date().toISOString();
+    const plan = {
+      features: [],
+      is_active: true,
+      is_featured: false,
+      display_order: req.db.plans.length + 1,
+      ...body,
+      id: nextId('plan'),
+      slug: body.slug || String(body.name).toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      created_at: now,
+      updated_at: now,
+    } as HostingPlan;
+    req.db.plans.push(plan);
+    return { status: 201, data: plan };
+  }),
+
+  route('put', '/plans/:id', (req) => {
+    requireAdmin(req);
+    const plan = req.db.plans.find((p) => p.id === req.params.id) ?? notFound('Plan');
+    Object.assign(plan, req.body, { id: plan.id, updated_at: new Date().toISOString() });
+    return { data: plan };
+  }),
+
+  route('delete', '/plans/:id', (req) => {
+    requireAdmin(req);
+    if (!req.db.plans.some((p) => p.id === req.params.id)) notFound('Plan');
+    req.db.plans = req.db.plans.filter((p) => p.id !== req.params.id);
+    return { status: 204 };
+  }),
+];
@@ -0,0 +1,49 @@
+import { requireAdmin, requireUser, route } from '../router';
+
+// Enough of /referrals for the dashboard to render offline; payouts are not simulated
+export const referralsHandlers = [
+  route('get', '/referrals/stats', (req) => {
+    const user = requireUser(req);
+    const referred = req.db.users.filter((u) => u.referred_by === user.id);
+    return {
+      data: {
+        referral_code: user.referral_code ?? '',
+        total_referrals: referred.length,
+        l1_referrals: referred.length,
+        l2_referrals: 0,
+        l3_referrals: 0,
+        total_earnings: 0,
+        available_balance: 0,
+        total_withdrawn: 0,
+        can_request_payout: false,
+      },
+    };
+  }),
+
+  route('get', '/referrals/earnings', (req) => {
+    requireUser(req);
+    return { data: [] };
+  }),
+
+  route('get', '/referrals/payouts', (req) => {
+    requireUser(req);
+    return { data: [] };
+  }),
+
+  route('get', '/admin/referrals/stats', (req) => {
+    requireAdmin(req);
+    return {
+      data: {
+        totalReferrals: req.db.users.filter((u) => u.referred_by).length,
+        totalEarnings: 0,
+        pendingPayouts: 0,
+        completedPayouts: 0,
+      },
+    };
+  }),
+
+  route('get', '/admin/referrals/payouts', (req) => {
+    requireAdmin(req);
+    return { data: [] };
+  }),
+];
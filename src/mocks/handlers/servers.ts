@@ -0,0 +1,207 @@
+import { imageLabel } from '../../api/images';
+import { REBUILD_MS, logActivity, nextId } from '../db';
+import { quoteResize, resizeOptions } from '../../lib/proration';
+import { isPlanAvailable, regionName } from '../../lib/regions';
+import { ConsoleType, Order, ServerJob } from '../../types';
+import { mockCatalog } from './catalog';
+import { resolveSshKeyIds } from './sshKeys';
+import {
+  MockHttpError,
+  findOwned,
+  notFound,
+  requireAdmin,
+  requireFields,
+  route,
+  scopeToUser,
+  validationError,
+} from '../router';
+
+export const serversHandlers = [
+  route('get', '/servers', (req) => {
+    const { search = '', status, user_id } = req.query;
+    const q = search.toLowerCase();
+    return {
+      data: scopeToUser(req, req.db.servers).filter(
+        (s) =>
+          (!q ||
+            s.server_name.toLowerCase().includes(q) ||
+            s.hostname.toLowerCase().includes(q) ||
+            (s.ip_addresses ?? []).some((a) => a.address.includes(q)) ||
+            (s.user_email ?? '').toLowerCase().includes(q)) &&
+          (!status || s.status === status) &&
+          (!user_id || s.user_id === user_id)
+      ),
+    };
+  }),
+
+  route('get', '/servers/:id', (req) => ({
+    data: findOwned(req, req.db.servers, req.params.id, 'Server'),
+  })),
+
+  route('get', '/servers/:id/activity', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    return {
+      data: req.db.serverActivity
+        .filter((a) => a.server_id === server.id)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    };
+  }),
+
+  route('post', '/servers/:id/start', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    if (server.status !== 'stopped') {
+      throw new MockHttpError(409, `Cannot start a server that is ${server.status}`);
+    }
+    server.status = 'active';
+    logActivity(server, 'start', 'Server started', req.currentUser?.email);
+    return { data: server };
+  }),
+
+  route('post', '/servers/:id/stop', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    if (server.status !== 'active') {
+      throw new MockHttpError(409, `Cannot stop a server that is ${server.status}`);
+    }
+    server.status = 'stopped';
+    logActivity(server, 'stop', 'Server stopped', req.currentUser?.email);
+    return { data: server };
+  }),
+
+  route('post', '/servers/:id/reboot', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    if (server.status !== 'active') {
+      throw new MockHttpError(409, `Cannot reboot a server that is ${server.status}`);
+    }
+    server.last_reboot = new Date().toISOString();
+    logActivity(server, 'reboot', 'Server rebooted', req.currentUser?.email);
+    return { data: server };
+  }),
+
+  route('post', '/servers/:id/rebuild', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    if (server.status !== 'active' && server.status !== 'stopped') {
+      throw new MockHttpError(409, `Cannot rebuild a server that is ${server.status}`);
+    }
+    const body = (req.body ?? {}) as { image_id?: string; root_password?: string; ssh_key_ids?: string[] };
+    const image = req.db.images.find((i) => i.id === body.image_id) ?? validationError({ image_id: 'Unknown image' });
+    if (image.min_ram_gb && server.ram_gb < image.min_ram_gb) {
+      validationError({ image_id: `${image.name} needs at least ${image.min_ram_gb} GB RAM` });
+    }
+    const sshKeyIds = resolveSshKeyIds(req.db, server.user_id, body.ssh_key_ids);
+    if (!body.root_password && sshKeyIds.length === 0) {
+      validationError({ root_password: 'Provide a root password or select an SSH key' });
+    }
+    if (body.root_password && body.root_password.length < 12) {
+      validationError({ root_password: 'Root password must be at least 12 characters' });
+    }
+
+    const now = Date.now();
+    const job: ServerJob = {
+      id: nextId('job'),
+      server_id: server.id,
+      type: 'rebuild',
+      status: 'queued',
+      progress: 0,
+      message: 'Queued',
+      created_at: new Date(now).toISOString(),
+    };
+    req.db.jobs.push(job);
+    req.db.rebuilds.push({ jobId: job.id, imageId: image.id, sshKeyIds, startedAt: now, completesAt: now + REBUILD_MS });
+    server.status = 'rebuilding';
+    logActivity(server, 'rebuild', `Rebuild to ${imageLabel(image)} requested`, req.currentUser?.email, 'pending');
+    return { status: 202, data: job };
+  }),
+
+  route('post', '/servers/:id/resize', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    if (server.status === 'suspended' || server.status === 'provisioning') {
+      throw new MockHttpError(409, `Cannot resize a server that is ${server.status}`);
+    }
+    const currentPlan = req.db.plans.find((p) => p.id === server.plan_id) ?? notFound('Plan');
+    const { plan_id } = requireFields(req.body, ['plan_id']);
+    const targetPlan =
+      resizeOptions(req.db.plans, currentPlan).find((p) => p.id === plan_id) ??
+      validationError({ plan_id: `Choose another ${currentPlan.name.split('.')[0]}. plan to resize to` });
+    if (!isPlanAvailable(server.region, targetPlan.slug)) {
+      validationError({ plan_id: `${targetPlan.name} is not available in ${regionName(server.region)}` });
+    }
+    const open = req.db.orders.find(
+      (o) => o.server_id === server.id && (o.status === 'pending' || o.status === 'processing')
+    );
+    if (open) {
+      throw new MockHttpError(409, `Resize order ${open.order_number} for this server is still open`);
+    }
+
+    const quote = quoteResize(mockCatalog(req.db), server, currentPlan, targetPlan);
+    const order: Order = {
+      id: nextId('ord'),
+      user_id: server.user_id,
+      order_number: `ORD-${req.db.sequence}`,
+      order_type: targetPlan.monthly_price > currentPlan.monthly_price ? 'upgrade' : 'downgrade',
+      server_id: server.id,
+      plan_id: targetPlan.id,
+      billing_cycle: quote.billing_cycle,
+      amount: quote.amount,
+      status: 'pending',
+      // Credits need no payment; they are applied to the account when the order completes
+      payment_status: quote.amount > 0 ? 'pending' : 'paid',
+      created_at: new Date().toISOString(),
+      user_email: server.user_email,
+      plan: targetPlan,
+    };
+    req.db.orders.unshift(order);
+    logActivity(
+      server,
+      'resize',
+      `Resize from ${currentPlan.name} to ${targetPlan.name} requested (${order.order_number})`,
+      req.currentUser?.email,
+      'pending'
+    );
+    return { status: 201, data: order };
+  }),
+
+  route('get', '/servers/:id/jobs/:jobId', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    const job = req.db.jobs.find((j) => j.id === req.params.jobId && j.server_id === server.id);
+    if (!job) throw new MockHttpError(404, 'Job not found');
+    return { data: job };
+  }),
+
+  // Points at a local stand-in (see scripts/console-echo-server.mjs) instead of a real console proxy
+  route('post', '/servers/:id/console', (req) => {
+    const server = findOwned(req, req.db.servers, req.params.id, 'Server');
+    if (server.status !== 'active') {
+      throw new MockHttpError(409, `Console is unavailable while the server is ${server.status}`);
+    }
+    const type = ((req.body as { type?: ConsoleType } | undefined)?.type ?? 'serial') as ConsoleType;
+    const base = import.meta.env.VITE_CONSOLE_WS_URL || 'ws://localhost:6080';
+    const token = `console-${server.id}-${Date.now()}`;
+    logActivity(server, 'console', `${type === 'vnc' ? 'VNC' : 'Serial'} console session opened`, req.currentUser?.email);
+    return {
+      status: 201,
+      data: {
+        type,
+        url: `${base}/?server=${encodeURIComponent(server.id)}&type=${type}&token=${token}`,
+        token,
+        expires_at: new Date(Date.now() + 60000).toISOString(),
+      },
+    };
+  }),
+
+  route('delete', '/servers/:id', (req) => {
+    requireAdmin(req);
+    findOwned(req, req.db.servers, req.params.id, 'Server');
+    req.db.servers = req.db.servers.filter((s) => s.id !== req.params.id);
+    req.db.firewalls.forEach((f) => (f.server_ids = f.server_ids.filter((id) => id !== req.params.id)));
+    req.db.vpcs.forEach((v) => (v.server_ids = v.server_ids.filter((id) => id !== req.params.id)));
+    req.db.loadBalancers.forEach((lb) => (lb.backends = lb.backends.filter((b) => b.server_id !== req.params.id)));
+    // Volumes outlive the server and stay billed until deleted
+    req.db.volumes
+      .filter((v) => v.server_id === req.params.id)
+      .forEach((v) => {
+        v.status = 'available';
+        v.server_id = undefined;
+      });
+    return { status: 204 };
+  }),
+];
@@ -0,0 +1,64 @@
+import { formatSshPublicKey, parseSshPublicKey, sshKeyFingerprint } from '../../lib/sshKeys';
+import { MockDb, nextId } from '../db';
+import { SshKey } from '../../types';
+import { MockHttpError, findOwned, requireFields, requireUser, route, scopeToUser, validationError } from '../router';
+
+// Keys picked at deploy/rebuild must belong to the server's owner, not just exist
+export const resolveSshKeyIds = (db: MockDb, userId: string, ids: unknown) => {
+  if (ids === undefined) return [];
+  if (!Array.isArray(ids) || ids.some((id) => !db.sshKeys.some((k) => k.id === id && k.user_id === userId))) {
+    return validationError({ ssh_key_ids: 'Unknown SSH key' });
+  }
+  const now = new Date().toISOString();
+  db.sshKeys.filter((k) => ids.includes(k.id)).forEach((k) => (k.last_used_at = now));
+  return ids as string[];
+};
+
+export const sshKeysHandlers = [
+  route('get', '/ssh-keys', (req) => ({
+    data: scopeToUser(req, req.db.sshKeys).sort((a, b) => a.name.localeCompare(b.name)),
+  })),
+
+  route('post', '/ssh-keys', async (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['name', 'public_key']);
+    let parsed;
+    try {
+      parsed = parseSshPublicKey(String(body.public_key));
+    } catch (err) {
+      return validationError({ public_key: (err as Error).message });
+    }
+    const fingerprint = await sshKeyFingerprint(parsed);
+    const existing = req.db.sshKeys.find((k) => k.user_id === user.id && k.fingerprint === fingerprint);
+    if (existing) {
+      throw new MockHttpError(409, `This key is already saved as "${existing.name}"`);
+    }
+
+    const key: SshKey = {
+      id: nextId('key'),
+      user_id: user.id,
+      name: String(body.name).trim(),
+      public_key: formatSshPublicKey(parsed),
+      key_type: parsed.type,
+      bits: parsed.bits,
+      fingerprint,
+      created_at: new Date().toISOString(),
+    };
+    req.db.sshKeys.push(key);
+    return { status: 201, data: key };
+  }),
+
+  route('patch', '/ssh-keys/:id', (req) => {
+    const key = findOwned(req, req.db.sshKeys, req.params.id, 'SSH key');
+    const { name } = requireFields(req.body, ['name']);
+    key.name = String(name).trim();
+    return { data: key };
+  }),
+
+  // Servers keep their installed authorized_keys; only the saved copy goes away
+  route('delete', '/ssh-keys/:id', (req) => {
+    findOwned(req, req.db.sshKeys, req.params.id, 'SSH key');
+    req.db.sshKeys = req.db.sshKeys.filter((k) => k.id !== req.params.id);
+    return { status: 204 };
+  }),
+];
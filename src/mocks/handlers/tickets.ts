@@ -0,0 +1,89 @@
+import { nextId } from '../db';
+import { findOwned, isAdmin, requireAdmin, requireFields, requireUser, route, scopeToUser } from '../router';
+import { SupportTicket, TicketCategory, TicketMessage, TicketPriority } from '../../types';
+
+export const ticketsHandlers = [
+  route('get', '/tickets', (req) => {
+    const { search = '', status, priority } = req.query;
+    const q = search.toLowerCase();
+    return {
+      data: scopeToUser(req, req.db.tickets)
+        .filter(
+          (t) =>
+            (!q || t.subject.toLowerCase().includes(q) || (t.description ?? '').toLowerCase().includes(q)) &&
+            (!status || t.status === status) &&
+            (!priority || t.priority === priority)
+        )
+        .sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at)),
+    };
+  }),
+
+  route('get', '/tickets/:id', (req) => ({
+    data: findOwned(req, req.db.tickets, req.params.id, 'Ticket'),
+  })),
+
+  route('post', '/tickets', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['subject', 'message']);
+    const now = new Date().toISOString();
+    const ticket: SupportTicket = {
+      id: nextId('tkt'),
+      user_id: user.id,
+      ticket_number: `TICK-${req.db.sequence}`,
+      subject: String(body.subject),
+      description: String(body.message),
+      category: (body.category as TicketCategory) || 'general',
+      priority: (body.priority as TicketPriority) || 'medium',
+      status: 'open',
+      created_at: now,
+      updated_at: now,
+      user_email: user.email,
+    };
+    req.db.tickets.unshift(ticket);
+    req.db.ticketMessages.push({
+      id: nextId('msg'),
+      ticket_id: ticket.id,
+      user_id: user.id,
+      message: ticket.description ?? '',
+      is_internal: false,
+      created_at: now,
+    });
+    return { status: 201, data: ticket };
+  }),
+
+  route('patch', '/tickets/:id', (req) => {
+    requireAdmin(req);
+    const ticket = findOwned(req, req.db.tickets, req.params.id, 'Ticket');
+    Object.assign(ticket, req.body, { updated_at: new Date().toISOString() });
+    if (ticket.status === 'resolved' && !ticket.resolved_at) ticket.resolved_at = ticket.updated_at;
+    return { data: ticket };
+  }),
+
+  route('get', '/tickets/:id/messages', (req) => {
+    const user = requireUser(req);
+    findOwned(req, req.db.tickets, req.params.id, 'Ticket');
+    return {
+      data: req.db.ticketMessages.filter(
+        (m) => m.ticket_id === req.params.id && (isAdmin(user) || !m.is_internal)
+      ),
+    };
+  }),
+
+  route('post', '/tickets/:id/messages', (req) => {
+    const user = requireUser(req);
+    const ticket = findOwned(req, req.db.tickets, req.params.id, 'Ticket');
+    const { message } = requireFields(req.body, ['message']);
+    const reply: TicketMessage = {
+      id: nextId('msg'),
+      ticket_id: ticket.id,
+      user_id: user.id,
+      message: String(message),
+      is_internal: false,
+      created_at: new Date().toISOString(),
+    };
+    req.db.ticketMessages.push(reply);
+    ticket.updated_at = reply.created_at;
+    if (isAdmin(user) && ticket.status === 'open') ticket.status = 'waiting';
+    return { status: 201, data: reply };
+  }),
+];
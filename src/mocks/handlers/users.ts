@@ -0,0 +1,100 @@
+import { nextId } from '../db';
+import { MockHttpError, notFound, requireAdmin, requireFields, route } from '../router';
+import { AccountStatus, User, UserRole } from '../../types';
+
+const DAY = 86400000;
+
+export const usersHandlers = [
+  // Must come before /users/:id
+  route('get', '/users/stats', (req) => {
+    requireAdmin(req);
+    const now = Date.now();
+    const createdWithin = (u: User, days: number) => !!u.created_at && now - Date.parse(u.created_at) <= days * DAY;
+    const users = req.db.users;
+    return {
+      data: {
+        total_users: users.length,
+        active_users: users.filter((u) => u.account_status === 'active').length,
+        suspended_users: users.filter((u) => u.account_status === 'suspended').length,
+        new_users_today: users.filter((u) => createdWithin(u, 1)).length,
+        new_users_this_week: users.filter((u) => createdWithin(u, 7)).length,
+        new_users_this_month: users.filter((u) => createdWithin(u, 30)).length,
+      },
+    };
+  }),
+
+  route('get', '/users', (req) => {
+    requireAdmin(req);
+    const { search = '', role, status } = req.query;
+    const q = search.toLowerCase();
+    return {
+      data: req.db.users.filter(
+        (u) =>
+          (!q || u.email.toLowerCase().includes(q) || u.full_name.toLowerCase().includes(q)) &&
+          (!role || u.role === role) &&
+          (!status || u.account_status === status)
+      ),
+    };
+  }),
+
+  route('get', '/users/:id', (req) => {
+    requireAdmin(req);
+    return { data: req.db.users.find((u) => u.id === req.params.id) ?? notFound('User') };
+  }),
+
+  route('post', '/users', (req) => {
+    requireAdmin(req);
+    const body = requireFields(req.body, ['email', 'full_name', 'password']);
+    if (req.db.users.some((u) => u.email.toLowerCase() === String(body.email).toLowerCase())) {
+      throw new MockHttpError(409, 'An account with this email already exists');
+    }
+    const now = new Date().toISOString();
+    const user: User = {
+      id: nextId('usr'),
+      email: String(body.email),
+      full_name: String(body.full_name),
+      role: (body.role as UserRole) || 'customer',
+      account_status: (body.account_status as AccountStatus) || 'active',
+      phone: (body.phone as string) ?? null,
+      company_name: (body.company as string) ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    req.db.users.push(user);
+    req.db.passwords[user.id] = String(body.password);
+    return { status: 201, data: user };
+  }),
+
+  route('put', '/users/:id', (req) => {
+    requireAdmin(req);
+    const user = req.db.users.find((u) => u.id === req.params.id) ?? notFound('User');
+    const { company, ...rest } = (req.body ?? {}) as Partial<User> & { company?: string };
+    Object.assign(user, rest, company !== undefined ? { company_name: company } : {}, {
+      updated_at: new Date().toISOString(),
+    });
+    return { data: user };
+  }),
+
+  route('delete', '/users/:id', (req) => {
+    const admin = requireAdmin(req);
+    if (admin.id === req.params.id) throw new MockHttpError(400, 'You cannot delete your own account');
+    const exists = req.db.users.some((u) => u.id === req.params.id);
+    if (!exists) notFound('User');
+    req.db.users = req.db.users.filter((u) => u.id !== req.params.id);
+    return { status: 204 };
+  }),
+
+  route('post', '/users/:id/suspend', (req) => {
+    requireAdmin(req);
+    const user = req.db.users.find((u) => u.id === req.params.id) ?? notFound('User');
+    user.account_status = 'suspended';
+    return { data: user };
+  }),
+
+  route('post', '/users/:id/activate', (req) => {
+    requireAdmin(req);
+    const user = req.db.users.find((u) => u.id === req.params.id) ?? notFound('User');
+    user.account_status = 'active';
+    return { data: user };
+  }),
+];
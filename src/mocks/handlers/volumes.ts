@@ -0,0 +1,183 @@
+import { SAC_CODES } from '../../lib/gst';
+import { REGIONS, regionName } from '../../lib/regions';
+import {
+  MAX_VOLUMES_PER_SERVER,
+  STORAGE_PRICE_PER_GB,
+  quoteStorageCharge,
+  validateVolumeName,
+  validateVolumeSize,
+  volumePrice,
+} from '../../lib/volumes';
+import { createInvoice, logActivity, nextId } from '../db';
+import { UserServer, Volume, VolumeSnapshot } from '../../types';
+import {
+  MockHttpError,
+  MockRequest,
+  findOwned,
+  notFound,
+  requireFields,
+  requireUser,
+  route,
+  scopeToUser,
+  validationError,
+} from '../router';
+
+// Volumes can only be attached to servers of the same account, in the volume's region
+const findServerFor = (req: MockRequest, volume: Volume, serverId: unknown): UserServer => {
+  const server = findOwned(req, req.db.servers, String(serverId), 'Server');
+  if (server.user_id !== volume.user_id) validationError({ server_id: 'Server belongs to another account' });
+  if (server.region !== volume.region) {
+    validationError({ server_id: `${server.server_name} is in ${regionName(server.region)}, not ${regionName(volume.region)}` });
+  }
+  return server;
+};
+
+const attachTo = (req: MockRequest, volume: Volume, server: UserServer) => {
+  if (!server.ip_address) throw new MockHttpError(409, 'Wait until the server has finished provisioning');
+  const attached = req.db.volumes.filter((v) => v.server_id === server.id).length;
+  if (attached >= MAX_VOLUMES_PER_SERVER) {
+    throw new MockHttpError(409, `${server.server_name} already has ${MAX_VOLUMES_PER_SERVER} volumes attached`);
+  }
+  volume.status = 'attached';
+  volume.server_id = server.id;
+  volume.updated_at = new Date().toISOString();
+  logActivity(server, 'volume', `Attached volume "${volume.name}" (${volume.size_gb} GB)`, req.currentUser?.email);
+};
+
+// The rest of this month for storage added now; the next monthly invoice covers the full size
+const billStorage = (volume: Volume, addedGb: number, label: string) => {
+  const quote = quoteStorageCharge(addedGb);
+  createInvoice(volume.user_id, [
+    {
+      description: `${label} "${volume.name}" (${addedGb} GB, prorated ${quote.days_remaining}/${quote.days_in_period} days)`,
+      sac_code: SAC_CODES.hosting,
+      quantity: addedGb,
+      unit_price: STORAGE_PRICE_PER_GB,
+      amount: quote.amount,
+    },
+  ]);
+};
+
+export const volumesHandlers = [
+  route('get', '/volumes', (req) => {
+    const volumes = scopeToUser(req, req.db.volumes).filter((v) => !req.query.server_id || v.server_id === req.query.server_id);
+    return { data: volumes.sort((a, b) => a.name.localeCompare(b.name)) };
+  }),
+
+  route('post', '/volumes', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['name', 'size_gb', 'region']);
+    const name = String(body.name).trim();
+    const nameError = validateVolumeName(name);
+    if (nameError) validationError({ name: nameError });
+    if (req.db.volumes.some((v) => v.user_id === user.id && v.name === name)) {
+      throw new MockHttpError(409, `You already have a volume named ${name}`);
+    }
+    const region = String(body.region);
+    if (!REGIONS.some((r) => r.slug === region)) validationError({ region: 'Choose one of our regions' });
+    const size = Number(body.size_gb);
+    const sizeError = validateVolumeSize(size);
+    if (sizeError) validationError({ size_gb: sizeError });
+
+    if (body.snapshot_id) {
+      const snapshot = findOwned(req, req.db.volumeSnapshots, String(body.snapshot_id), 'Snapshot');
+      if (size < snapshot.size_gb) validationError({ size_gb: `Must be at least the snapshot's ${snapshot.size_gb} GB` });
+      const source = req.db.volumes.find((v) => v.id === snapshot.volume_id);
+      if (source && source.region !== region) validationError({ region: `Snapshots can only be restored in ${regionName(source.region)}` });
+    }
+
+    const now = new Date().toISOString();
+    const volume: Volume = {
+      id: nextId('vol'),
+      user_id: user.id,
+      name,
+      region,
+      size_gb: size,
+      status: 'available',
+      monthly_price: volumePrice(size),
+      created_at: now,
+      updated_at: now,
+    };
+    if (body.server_id) attachTo(req, volume, findServerFor(req, volume, body.server_id));
+    req.db.volumes.push(volume);
+    billStorage(volume, size, 'Block storage volume');
+    return { status: 201, data: volume };
+  }),
+
+  route('post', '/volumes/:id/attach', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    const { server_id } = requireFields(req.body, ['server_id']);
+    const server = findServerFor(req, volume, server_id);
+    if (volume.server_id === server.id) return { data: volume };
+    if (volume.server_id) throw new MockHttpError(409, `${volume.name} is attached to another server; detach it first`);
+    attachTo(req, volume, server);
+    return { data: volume };
+  }),
+
+  route('post', '/volumes/:id/detach', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    const server = req.db.servers.find((s) => s.id === volume.server_id);
+    volume.status = 'available';
+    volume.server_id = undefined;
+    volume.updated_at = new Date().toISOString();
+    if (server) logActivity(server, 'volume', `Detached volume "${volume.name}"`, req.currentUser?.email);
+    return { data: volume };
+  }),
+
+  route('post', '/volumes/:id/resize', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    const { size_gb } = requireFields(req.body, ['size_gb']);
+    const size = Number(size_gb);
+    const sizeError = validateVolumeSize(size, volume.size_gb);
+    if (sizeError) validationError({ size_gb: sizeError });
+
+    const added = size - volume.size_gb;
+    volume.size_gb = size;
+    volume.monthly_price = volumePrice(size);
+    volume.updated_at = new Date().toISOString();
+    billStorage(volume, added, 'Block storage resize');
+    const server = req.db.servers.find((s) => s.id === volume.server_id);
+    if (server) logActivity(server, 'volume', `Resized volume "${volume.name}" to ${size} GB`, req.currentUser?.email);
+    return { data: volume };
+  }),
+
+  route('delete', '/volumes/:id', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    if (volume.server_id) throw new MockHttpError(409, `Detach ${volume.name} before deleting it`);
+    req.db.volumes = req.db.volumes.filter((v) => v.id !== volume.id);
+    req.db.volumeSnapshots = req.db.volumeSnapshots.filter((s) => s.volume_id !== volume.id);
+    return { status: 204 };
+  }),
+
+  route('get', '/volumes/:id/snapshots', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    return {
+      data: req.db.volumeSnapshots
+        .filter((s) => s.volume_id === volume.id)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    };
+  }),
+
+  route('post', '/volumes/:id/snapshots', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    const { name } = requireFields(req.body, ['name']);
+    const snapshot: VolumeSnapshot = {
+      id: nextId('vsnap'),
+      volume_id: volume.id,
+      user_id: volume.user_id,
+      name: String(name).trim(),
+      size_gb: volume.size_gb,
+      created_at: new Date().toISOString(),
+    };
+    req.db.volumeSnapshots.push(snapshot);
+    return { status: 201, data: snapshot };
+  }),
+
+  route('delete', '/volumes/:id/snapshots/:snapshotId', (req) => {
+    const volume = findOwned(req, req.db.volumes, req.params.id, 'Volume');
+    const snapshot = findOwned(req, req.db.volumeSnapshots, req.params.snapshotId, 'Snapshot');
+    if (snapshot.volume_id !== volume.id) notFound('Snapshot');
+    req.db.volumeSnapshots = req.db.volumeSnapshots.filter((s) => s.id !== snapshot.id);
+    return { status: 204 };
+  }),
+];
@@ -0,0 +1,113 @@
+import { REGIONS, regionName } from '../../lib/regions';
+import { nextVpcAddress, validateVpcCidr, vpcGateway } from '../../lib/vpc';
+import { parseIpv4Cidr } from '../../lib/ipAddress';
+import { logActivity, nextId } from '../db';
+import { UserServer, Vpc } from '../../types';
+import { MockHttpError, MockRequest, findOwned, requireFields, requireUser, route, scopeToUser, validationError } from '../router';
+
+// VPCs can only connect servers owned by the same account, in the same data center
+const findServerFor = (req: MockRequest, vpc: Vpc, serverId: unknown): UserServer => {
+  const server = findOwned(req, req.db.servers, String(serverId), 'Server');
+  if (server.user_id !== vpc.user_id) validationError({ server_id: 'Server belongs to another account' });
+  if (server.region !== vpc.region) {
+    validationError({ server_id: `${server.server_name} is in ${regionName(server.region)}, not ${regionName(vpc.region)}` });
+  }
+  return server;
+};
+
+export const vpcsHandlers = [
+  route('get', '/vpcs', (req) => ({
+    data: scopeToUser(req, req.db.vpcs).sort((a, b) => a.name.localeCompare(b.name)),
+  })),
+
+  route('post', '/vpcs', (req) => {
+    const user = requireUser(req);
+    const body = requireFields(req.body, ['name', 'region', 'cidr']);
+    const region = String(body.region);
+    if (!REGIONS.some((r) => r.slug === region)) validationError({ region: 'Choose one of our regions' });
+    const cidr = String(body.cidr).trim();
+    // Host bits are rejected, so the trimmed value is already the canonical network
+    const cidrError = validateVpcCidr(cidr, req.db.vpcs.filter((v) => v.user_id === user.id));
+    if (cidrError) validationError({ cidr: cidrError });
+
+    const now = new Date().toISOString();
+    const vpc: Vpc = {
+      id: nextId('vpc'),
+      user_id: user.id,
+      name: String(body.name).trim(),
+      description: body.description ? String(body.description).trim() : undefined,
+      region,
+      cidr,
+      server_ids: [],
+      created_at: now,
+      updated_at: now,
+    };
+    req.db.vpcs.push(vpc);
+    return { status: 201, data: vpc };
+  }),
+
+  route('put', '/vpcs/:id', (req) => {
+    const vpc = findOwned(req, req.db.vpcs, req.params.id, 'VPC');
+    const body = (req.body ?? {}) as { name?: string; description?: string };
+    if (body.name !== undefined) vpc.name = String(body.name).trim() || validationError({ name: 'Field required' });
+    if (body.description !== undefined) vpc.description = String(body.description).trim() || undefined;
+    vpc.updated_at = new Date().toISOString();
+    return { data: vpc };
+  }),
+
+  route('post', '/vpcs/:id/servers', (req) => {
+    const vpc = findOwned(req, req.db.vpcs, req.params.id, 'VPC');
+    const { server_id } = requireFields(req.body, ['server_id']);
+    const server = findServerFor(req, vpc, server_id);
+    if (vpc.server_ids.includes(server.id)) return { data: vpc };
+    if (!server.ip_address) throw new MockHttpError(409, 'Wait until the server has finished provisioning');
+    const current = req.db.vpcs.find((v) => v.server_ids.includes(server.id));
+    if (current) throw new MockHttpError(409, `${server.server_name} is already in ${current.name}; detach it first`);
+
+    const taken = req.db.servers.flatMap((s) => (s.ip_addresses ?? []).filter((a) => a.vpc_id === vpc.id).map((a) => a.address));
+    const address = nextVpcAddress(vpc.cidr, taken);
+    if (!address) throw new MockHttpError(409, `${vpc.cidr} has no free addresses left`);
+
+    server.ip_addresses = [
+      ...(server.ip_addresses ?? []),
+      {
+        id: nextId('ip'),
+        server_id: server.id,
+        address,
+        version: 4,
+        prefix_length: parseIpv4Cidr(vpc.cidr)!.prefix,
+        gateway: vpcGateway(vpc.cidr),
+        role: 'secondary',
+        scope: 'private',
+        vpc_id: vpc.id,
+        created_at: new Date().toISOString(),
+      },
+    ];
+    vpc.server_ids.push(server.id);
+    vpc.updated_at = new Date().toISOString();
+    logActivity(server, 'vpc', `Joined VPC "${vpc.name}" as ${address}`, req.currentUser?.email);
+    return { data: vpc };
+  }),
+
+  route('delete', '/vpcs/:id/servers/:serverId', (req) => {
+    const vpc = findOwned(req, req.db.vpcs, req.params.id, 'VPC');
+    const server = findServerFor(req, vpc, req.params.serverId);
+    if (vpc.server_ids.includes(server.id)) {
+      server.ip_addresses = (server.ip_addresses ?? []).filter((a) => a.vpc_id !== vpc.id);
+      vpc.server_ids = vpc.server_ids.filter((id) => id !== server.id);
+      vpc.updated_at = new Date().toISOString();
+      logActivity(server, 'vpc', `Left VPC "${vpc.name}"`, req.currentUser?.email);
+    }
+    return { data: vpc };
+  }),
+
+  route('delete', '/vpcs/:id', (req) => {
+    const vpc = findOwned(req, req.db.vpcs, req.params.id, 'VPC');
+    if (vpc.server_ids.length > 0) {
+      const count = vpc.server_ids.length;
+      throw new MockHttpError(409, `Detach the ${count} server${count === 1 ? '' : 's'} in ${vpc.name} before deleting it`);
+    }
+    req.db.vpcs = req.db.vpcs.filter((v) => v.id !== vpc.id);
+    return { status: 204 };
+  }),
+];
@@ -0,0 +1,14 @@
+import { AxiosInstance } from 'axios';
+import { createMockAdapter, MockAdapterOptions } from './adapter';
+
+export { resetMockDb, getMockDb } from './db';
+export { MOCK_PASSWORD } from './fixtures';
+
+/**
+ * Serve every request made through `instance` from the in-memory mock backend.
+ * Enabled in the app with VITE_USE_MOCK_API=true; tests can call it directly.
+ */
+export const enableMockApi = (instance: AxiosInstance, options?: MockAdapterOptions) => {
+  instance.defaults.adapter = createMockAdapter(options);
+  console.info('[mock api] Serving API requests from in-memory fixtures');
+};
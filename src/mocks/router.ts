@@ -0,0 +1,125 @@
+import { MockDb } from './db';
+import { User } from '../types';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface MockRequest {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+  headers: Record<string, string>;
+  db: MockDb;
+  // Resolved from the bearer token; null for anonymous requests
+  currentUser: User | null;
+}
+
+export interface MockResponse {
+  status?: number;
+  data?: unknown;
+}
+
+// Handlers may be async when they need e.g. WebCrypto (SSH key fingerprints)
+export type MockHandler = (req: MockRequest) => MockResponse | void | Promise<MockResponse | void>;
+
+export interface MockRoute {
+  method: HttpMethod;
+  pattern: string;
+  handler: MockHandler;
+}
+
+// Thrown by handlers; the adapter turns it into a FastAPI-shaped error response
+export class MockHttpError extends Error {
+  status: number;
+  detail: unknown;
+
+  constructor(status: number, detail: unknown) {
+    super(typeof detail === 'string' ? detail : `HTTP ${status}`);
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+export const route = (method: HttpMethod, pattern: string, handler: MockHandler): MockRoute => ({
+  method,
+  pattern,
+  handler,
+});
+
+// Match "/servers/:id/start" against "/servers/srv_1/start"
+export const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (part !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// ============================================================
+// Handler helpers
+// ============================================================
+
+export const requireUser = (req: MockRequest): User => {
+  if (!req.currentUser) throw new MockHttpError(401, 'Not authenticated');
+  return req.currentUser;
+};
+
+export const requireAdmin = (req: MockRequest): User => {
+  const user = requireUser(req);
+  if (user.role !== 'admin' && user.role !== 'super_admin') {
+    throw new MockHttpError(403, 'Admin privileges required');
+  }
+  return user;
+};
+
+export const isAdmin = (user: User) => user.role === 'admin' || user.role === 'super_admin';
+
+export const notFound = (resource: string): never => {
+  throw new MockHttpError(404, `${resource} not found`);
+};
+
+// Raise a FastAPI-style 422 for the given body fields
+export const validationError = (fields: Record<string, string>): never => {
+  throw new MockHttpError(
+    422,
+    Object.entries(fields).map(([field, msg]) => ({ loc: ['body', field], msg, type: 'value_error' }))
+  );
+};
+
+export const requireFields = (body: unknown, fields: string[]) => {
+  const record = (body ?? {}) as Record<string, unknown>;
+  const missing: Record<string, string> = {};
+  for (const field of fields) {
+    if (record[field] === undefined || record[field] === null || record[field] === '') {
+      missing[field] = 'Field required';
+    }
+  }
+  if (Object.keys(missing).length > 0) validationError(missing);
+  return record;
+};
+
+// Customers only ever see their own records; admins see everything
+export const scopeToUser = <T extends { user_id: string }>(req: MockRequest, items: T[]): T[] => {
+  const user = requireUser(req);
+  return isAdmin(user) ? items : items.filter((item) => item.user_id === user.id);
+};
+
+export const findOwned = <T extends { id: string; user_id: string }>(
+  req: MockRequest,
+  items: T[],
+  id: string,
+  resource: string
+): T => {
+  const item = scopeToUser(req, items).find((i) => i.id === id);
+  return item ?? notFound(resource);
+};
@@ -1,49 +1,16 @@
+import { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Server, Cpu, HardDrive, Network, Shield, CheckCircle } from 'lucide-react';
+import { plansOfType } from '../lib/catalog';
+import { useCatalogStore } from '../store/catalogStore';
 
 export function DedicatedServers() {
-  const servers = [
-    {
-      name: 'Entry Server',
-      price: 8960,
-      specs: {
-        cpu: 'Intel Xeon E-2136',
-        cores: '6 Cores / 12 Threads',
-        ram: '32GB DDR4',
-        storage: '2x 512GB NVMe SSD',
-        bandwidth: '10TB @ 1Gbps',
-        ipv4: '1 IPv4',
-      },
-      features: ['Full Root Access', 'IPMI Access', 'DDoS Protection', '24/7 Support'],
-    },
-    {
-      name: 'Professional Server',
-      price: 15680,
-      specs: {
-        cpu: 'Intel Xeon E-2288G',
-        cores: '8 Cores / 16 Threads',
-        ram: '64GB DDR4',
-        storage: '2x 1TB NVMe SSD',
-        bandwidth: '20TB @ 1Gbps',
-        ipv4: '5 IPv4',
-      },
-      features: ['Full Root Access', 'IPMI Access', 'Advanced DDoS Protection', 'Priority Support'],
-      popular: true,
-    },
-    {
-      name: 'Enterprise Server',
-      price: 26880,
-      specs: {
-        cpu: 'Intel Xeon Silver 4214',
-        cores: '12 Cores / 24 Threads',
-        ram: '128GB DDR4',
-        storage: '4x 1TB NVMe SSD',
-        bandwidth: '50TB @ 10Gbps',
-        ipv4: '16 IPv4',
-      },
-      features: ['Full Root Access', 'IPMI Access', 'Enterprise DDoS Protection', 'Dedicated Manager'],
-    },
-  ];
+  const { catalog, fetchCatalog } = useCatalogStore();
+  const servers = plansOfType(catalog, 'dedicated');
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
 
   return (
     <div className="">
@@ -91,14 +58,14 @@ export function DedicatedServers() {
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            {servers.map((server, index) => (
+            {servers.map((server) => (
               <div
-                key={index}
+                key={server.id}
                 className={`bg-slate-900 rounded-xl shadow-lg overflow-hidden hover:shadow-cyan-500/30 transition ${
-                  server.popular ? 'ring-2 ring-cyan-500 transform scale-105 border-2 border-cyan-500' : 'border-2 border-cyan-500'
+                  server.is_featured ? 'ring-2 ring-cyan-500 transform scale-105 border-2 border-cyan-500' : 'border-2 border-cyan-500'
                 }`}
               >
-                {server.popular && (
+                {server.is_featured && (
                   <div className="bg-gradient-to-r from-cyan-500 to-teal-500 text-white text-center py-2 text-sm font-semibold">
                     Most Popular
                   </div>
@@ -111,31 +78,31 @@ export function DedicatedServers() {
                     {server.name}
                   </h3>
                   <div className="text-center mb-6">
-                    <span className="text-4xl font-bold text-white">₹{server.price}</span>
+                    <span className="text-4xl font-bold text-white">₹{server.monthly_price.toLocaleString()}</span>
                     <span className="text-slate-400">/month</span>
                   </div>
 
                   <div className="space-y-3 mb-6 bg-slate-950 p-4 rounded-lg border-2 border-cyan-500/50">
                     <div>
                       <p className="text-sm text-slate-400">Processor</p>
-                      <p className="font-semibold text-white">{server.specs.cpu}</p>
-                      <p className="text-sm text-slate-400">{server.specs.cores}</p>
+                      <p className="font-semibold text-white">{server.hardware?.cpu}</p>
+                      <p className="text-sm text-slate-400">{server.hardware?.cores}</p>
                     </div>
                     <div>
                       <p className="text-sm text-slate-400">Memory</p>
-                      <p className="font-semibold text-white">{server.specs.ram}</p>
+                      <p className="font-semibold text-white">{server.hardware?.memory}</p>
                     </div>
                     <div>
                       <p className="text-sm text-slate-400">Storage</p>
-                      <p className="font-semibold text-white">{server.specs.storage}</p>
+                      <p className="font-semibold text-white">{server.hardware?.storage}</p>
                     </div>
                     <div>
                       <p className="text-sm text-slate-400">Bandwidth</p>
-                      <p className="font-semibold text-white">{server.specs.bandwidth}</p>
+                      <p className="font-semibold text-white">{server.hardware?.network}</p>
                     </div>
                     <div>
                       <p className="text-sm text-slate-400">IP Addresses</p>
-                      <p className="font-semibold text-white">{server.specs.ipv4}</p>
+                      <p className="font-semibold text-white">{server.hardware?.ipv4_count} IPv4</p>
                     </div>
                   </div>
 
@@ -149,9 +116,9 @@ export function DedicatedServers() {
                   </ul>
 
                   <Link
-                    to="/signup"
+                    to={`/dashboard/deploy?plan=${server.slug}`}
                     className={`block w-full text-center px-6 py-3 rounded-lg font-semibold transition ${
-                      server.popular
+                      server.is_featured
                         ? 'bg-gradient-to-r from-cyan-500 to-teal-500 text-white hover:from-cyan-400 hover:to-teal-400'
                         : 'bg-slate-800 text-white hover:bg-slate-700 border-2 border-cyan-500/50'
                     }`}
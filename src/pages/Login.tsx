@@ -1,7 +1,9 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Server } from 'lucide-react';
 import { useUserStore } from '../store/authStore'; // Import useUserStore
+import { getErrorMessage } from '../api/errors';
+import { safeNextPath } from '../lib/auth';
 
 export function Login() {
   const [email, setEmail] = useState(''); // Changed from username to email
@@ -9,8 +11,11 @@ export function Login() {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const login = useUserStore((state) => state.login); // Get the login action from the store
-  const user = useUserStore((state) => state.user); // Get the user from the store
+  const sessionExpired = useUserStore((state) => state.sessionExpired);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  const next = safeNextPath(searchParams);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,13 +27,15 @@ export function Login() {
       // After successful login, the user state in the store will be updated
       // We can then check the user's role for navigation
       const loggedInUser = useUserStore.getState().user; // Get the updated user state
-      if (loggedInUser?.role === 'admin' || loggedInUser?.role === 'super_admin') {
+      if (next) {
+        navigate(next, { replace: true });
+      } else if (loggedInUser?.role === 'admin' || loggedInUser?.role === 'super_admin') {
         navigate('/admin');
       } else {
         navigate('/dashboard');
       }
-    } catch (err: any) {
-      setError(err.response?.data?.detail || err.message || 'Failed to sign in');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to sign in'));
     } finally {
       setLoading(false);
     }
@@ -47,6 +54,12 @@ export function Login() {
         </div>
 
         <div className="bg-slate-900/60 backdrop-blur-xl rounded-xl shadow-2xl p-8 border border-cyan-500/30">
+          {sessionExpired && !error && (
+            <div className="mb-6 bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 px-4 py-3 rounded-lg text-sm">
+              Your session has expired. Please sign in again to continue.
+            </div>
+          )}
+
           {error && (
             <div className="mb-6 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
               {error}
@@ -109,7 +122,7 @@ export function Login() {
           <div className="mt-6 text-center">
             <p className="text-sm text-slate-400">
               Don't have an account?{' '}
-              <Link to="/signup" className="text-cyan-400 hover:text-cyan-300 font-semibold">
+              <Link to={next ? `/signup?next=${encodeURIComponent(next)}` : '/signup'} className="text-cyan-400 hover:text-cyan-300 font-semibold">
                 Sign up
               </Link>
             </p>
@@ -1,518 +1,57 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
-import { CheckCircle, Server, Zap, Database, MapPin, Clock, Shield, Award, HardDrive, Cpu, MemoryStick, Network } from 'lucide-react';
+import { CheckCircle, Server, Zap, Database, MapPin, Clock, Shield, Award, HardDrive, Cpu, MemoryStick, Network, Shuffle } from 'lucide-react';
 import { MobileFilters } from '../components/pricing/MobileFilters';
-
-type BillingCycle = 'monthly' | 'quarterly' | 'semiannually' | 'annually' | 'biennially' | 'triennially';
-
-interface Plan {
-  name: string;
-  ram: number;
-  vcpu: number;
-  storage: number;
-  bandwidth: number;
-  prices: {
-    monthly: number;
-    quarterly: number;
-    semiannually: number;
-    annually: number;
-    biennially: number;
-    triennially: number;
-  };
-  features: string[];
-  popular?: boolean;
-}
+import { LoadBalancerPlans } from '../components/pricing/LoadBalancerPlans';
+import { planTypeIcon } from '../components/pricing/planTypeIcons';
+import { BILLING_CYCLES, plansOfType, termPrice, toOrderCycle } from '../lib/catalog';
+import { planItem, quotePrice } from '../lib/pricing';
+import { DEFAULT_REGION, REGIONS, getRegion, isPlanAvailable, regionName } from '../lib/regions';
+import { useCatalogStore } from '../store/catalogStore';
+import { CatalogCycle, HostingPlan, PlanType } from '../types';
 
 export function Pricing() {
   const [searchParams] = useSearchParams();
   const typeParam = searchParams.get('type');
-  const [billingCycle, setBillingCycle] = useState<BillingCycle>('monthly');
+  const { catalog, fetchCatalog } = useCatalogStore();
+  const [billingCycle, setBillingCycle] = useState<CatalogCycle>('monthly');
   const [selectedType, setSelectedType] = useState(typeParam || 'general_purpose');
+  const regionParam = searchParams.get('region');
+  const [region, setRegion] = useState(regionParam && getRegion(regionParam) ? regionParam : DEFAULT_REGION);
 
-  const planTypes = [
-    { id: 'general_purpose', name: 'General Purpose VM', icon: Server, color: 'blue' },
-    { id: 'cpu_optimized', name: 'CPU Optimized VM', icon: Zap, color: 'orange' },
-    { id: 'memory_optimized', name: 'Memory Optimized VM', icon: Database, color: 'green' },
-  ];
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
 
-  const billingCycles = [
-    { id: 'monthly' as BillingCycle, name: 'Monthly', discount: 5 },
-    { id: 'quarterly' as BillingCycle, name: 'Quarterly', discount: 10 },
-    { id: 'semiannually' as BillingCycle, name: 'Semi-Annually', discount: 15 },
-    { id: 'annually' as BillingCycle, name: 'Annually', discount: 20 },
-    { id: 'biennially' as BillingCycle, name: 'Biennially', discount: 25 },
-    { id: 'triennially' as BillingCycle, name: 'Triennially', discount: 35 },
+  // Dedicated servers have a page of their own; load balancers are priced per size, not per plan
+  const planTypes = [
+    ...catalog.plan_types
+      .filter((type) => type.slug !== 'dedicated')
+      .map((type) => ({ id: type.slug as string, name: type.name, icon: planTypeIcon(type.icon), color: type.color })),
+    { id: 'load_balancer', name: 'Load Balancer', icon: Shuffle, color: 'purple' },
   ];
 
-  const plans: Record<string, Plan[]> = {
-    general_purpose: [
-      {
-        name: 'G.4GB',
-        ram: 4,
-        vcpu: 2,
-        storage: 80,
-        bandwidth: 1,
-        prices: {
-          monthly: 1120,
-          quarterly: 3360,
-          semiannually: 6720,
-          annually: 13440,
-          biennially: 26880,
-          triennially: 40320,
-        },
-        features: ['2 vCPU', '4GB RAM', '80GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.8GB',
-        ram: 8,
-        vcpu: 4,
-        storage: 160,
-        bandwidth: 1,
-        prices: {
-          monthly: 2240,
-          quarterly: 6720,
-          semiannually: 13440,
-          annually: 26880,
-          biennially: 53760,
-          triennially: 80640,
-        },
-        features: ['4 vCPU', '8GB RAM', '160GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-        popular: true,
-      },
-      {
-        name: 'G.16GB',
-        ram: 16,
-        vcpu: 6,
-        storage: 320,
-        bandwidth: 1,
-        prices: {
-          monthly: 4080,
-          quarterly: 12240,
-          semiannually: 24480,
-          annually: 48960,
-          biennially: 97920,
-          triennially: 146880,
-        },
-        features: ['6 vCPU', '16GB RAM', '320GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.32GB',
-        ram: 32,
-        vcpu: 8,
-        storage: 480,
-        bandwidth: 1,
-        prices: {
-          monthly: 6720,
-          quarterly: 20160,
-          semiannually: 40320,
-          annually: 80640,
-          biennially: 161280,
-          triennially: 241920,
-        },
-        features: ['8 vCPU', '32GB RAM', '480GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.48GB',
-        ram: 48,
-        vcpu: 10,
-        storage: 512,
-        bandwidth: 1,
-        prices: {
-          monthly: 8848,
-          quarterly: 26544,
-          semiannually: 53088,
-          annually: 106176,
-          biennially: 212352,
-          triennially: 318528,
-        },
-        features: ['10 vCPU', '48GB RAM', '512GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.64GB',
-        ram: 64,
-        vcpu: 12,
-        storage: 640,
-        bandwidth: 1,
-        prices: {
-          monthly: 11360,
-          quarterly: 34080,
-          semiannually: 68160,
-          annually: 136320,
-          biennially: 272640,
-          triennially: 408960,
-        },
-        features: ['12 vCPU', '64GB RAM', '640GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.96GB',
-        ram: 96,
-        vcpu: 16,
-        storage: 740,
-        bandwidth: 1,
-        prices: {
-          monthly: 15760,
-          quarterly: 47280,
-          semiannually: 94560,
-          annually: 189120,
-          biennially: 378240,
-          triennially: 567360,
-        },
-        features: ['16 vCPU', '96GB RAM', '740GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.128GB',
-        ram: 128,
-        vcpu: 16,
-        storage: 840,
-        bandwidth: 1,
-        prices: {
-          monthly: 19360,
-          quarterly: 58080,
-          semiannually: 116160,
-          annually: 232320,
-          biennially: 464640,
-          triennially: 696960,
-        },
-        features: ['16 vCPU', '128GB RAM', '840GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'G.256GB',
-        ram: 256,
-        vcpu: 24,
-        storage: 1280,
-        bandwidth: 1,
-        prices: {
-          monthly: 35520,
-          quarterly: 106560,
-          semiannually: 213120,
-          annually: 426240,
-          biennially: 852480,
-          triennially: 1278720,
-        },
-        features: ['24 vCPU', '256GB RAM', '1280GB SSD Storage', '1TB Bandwidth', 'IPv4 Address', 'Console Access', 'Full Root Access'],
-      },
-    ],
-    cpu_optimized: [
-      {
-        name: 'C.4GB',
-        ram: 4,
-        vcpu: 2,
-        storage: 80,
-        bandwidth: 1,
-        prices: {
-          monthly: 1520,
-          quarterly: 4560,
-          semiannually: 9120,
-          annually: 18240,
-          biennially: 36480,
-          triennially: 54720,
-        },
-        features: ['2 Dedicated vCPU', '4GB RAM', '80GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.8GB',
-        ram: 8,
-        vcpu: 4,
-        storage: 160,
-        bandwidth: 1,
-        prices: {
-          monthly: 3040,
-          quarterly: 9120,
-          semiannually: 18240,
-          annually: 36480,
-          biennially: 72960,
-          triennially: 109440,
-        },
-        features: ['4 Dedicated vCPU', '8GB RAM', '160GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-        popular: true,
-      },
-      {
-        name: 'C.16GB',
-        ram: 16,
-        vcpu: 6,
-        storage: 320,
-        bandwidth: 1,
-        prices: {
-          monthly: 5280,
-          quarterly: 15840,
-          semiannually: 31680,
-          annually: 63360,
-          biennially: 126720,
-          triennially: 190080,
-        },
-        features: ['6 Dedicated vCPU', '16GB RAM', '320GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.32GB',
-        ram: 32,
-        vcpu: 8,
-        storage: 480,
-        bandwidth: 1,
-        prices: {
-          monthly: 8320,
-          quarterly: 24960,
-          semiannually: 49920,
-          annually: 99840,
-          biennially: 199680,
-          triennially: 299520,
-        },
-        features: ['8 Dedicated vCPU', '32GB RAM', '480GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.48GB',
-        ram: 48,
-        vcpu: 10,
-        storage: 512,
-        bandwidth: 1,
-        prices: {
-          monthly: 10848,
-          quarterly: 32544,
-          semiannually: 65088,
-          annually: 130176,
-          biennially: 260352,
-          triennially: 390528,
-        },
-        features: ['10 Dedicated vCPU', '48GB RAM', '512GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.64GB',
-        ram: 64,
-        vcpu: 12,
-        storage: 640,
-        bandwidth: 1,
-        prices: {
-          monthly: 13760,
-          quarterly: 41280,
-          semiannually: 82560,
-          annually: 165120,
-          biennially: 330240,
-          triennially: 495360,
-        },
-        features: ['12 Dedicated vCPU', '64GB RAM', '640GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.96GB',
-        ram: 96,
-        vcpu: 16,
-        storage: 740,
-        bandwidth: 1,
-        prices: {
-          monthly: 18960,
-          quarterly: 56880,
-          semiannually: 113760,
-          annually: 227520,
-          biennially: 455040,
-          triennially: 682560,
-        },
-        features: ['16 Dedicated vCPU', '96GB RAM', '740GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.128GB',
-        ram: 128,
-        vcpu: 16,
-        storage: 840,
-        bandwidth: 1,
-        prices: {
-          monthly: 22560,
-          quarterly: 67680,
-          semiannually: 135360,
-          annually: 270720,
-          biennially: 541440,
-          triennially: 812160,
-        },
-        features: ['16 Dedicated vCPU', '128GB RAM', '840GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'C.256GB',
-        ram: 256,
-        vcpu: 24,
-        storage: 1280,
-        bandwidth: 1,
-        prices: {
-          monthly: 40320,
-          quarterly: 120960,
-          semiannually: 241920,
-          annually: 483840,
-          biennially: 967680,
-          triennially: 1451520,
-        },
-        features: ['24 Dedicated vCPU', '256GB RAM', '1280GB SSD Storage', '1TB Bandwidth', 'Intel® Xeon® Gold', 'Console Access', 'Full Root Access'],
-      },
-    ],
-    memory_optimized: [
-      {
-        name: 'M.8GB',
-        ram: 8,
-        vcpu: 1,
-        storage: 80,
-        bandwidth: 1,
-        prices: {
-          monthly: 1320,
-          quarterly: 3960,
-          semiannually: 7920,
-          annually: 15840,
-          biennially: 31680,
-          triennially: 47520,
-        },
-        features: ['1 vCPU', '8GB RAM', '80GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.16GB',
-        ram: 16,
-        vcpu: 2,
-        storage: 160,
-        bandwidth: 1,
-        prices: {
-          monthly: 2640,
-          quarterly: 7920,
-          semiannually: 15840,
-          annually: 31680,
-          biennially: 63360,
-          triennially: 95040,
-        },
-        features: ['2 vCPU', '16GB RAM', '160GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-        popular: true,
-      },
-      {
-        name: 'M.32GB',
-        ram: 32,
-        vcpu: 4,
-        storage: 320,
-        bandwidth: 1,
-        prices: {
-          monthly: 5280,
-          quarterly: 15840,
-          semiannually: 31680,
-          annually: 63360,
-          biennially: 126720,
-          triennially: 190080,
-        },
-        features: ['4 vCPU', '32GB RAM', '320GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.64GB',
-        ram: 64,
-        vcpu: 6,
-        storage: 480,
-        bandwidth: 1,
-        prices: {
-          monthly: 9520,
-          quarterly: 28560,
-          semiannually: 57120,
-          annually: 114240,
-          biennially: 228480,
-          triennially: 342720,
-        },
-        features: ['6 vCPU', '64GB RAM', '480GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.96GB',
-        ram: 96,
-        vcpu: 8,
-        storage: 512,
-        bandwidth: 1,
-        prices: {
-          monthly: 13248,
-          quarterly: 39744,
-          semiannually: 79488,
-          annually: 158976,
-          biennially: 317952,
-          triennially: 476928,
-        },
-        features: ['8 vCPU', '96GB RAM', '512GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.128GB',
-        ram: 128,
-        vcpu: 10,
-        storage: 640,
-        bandwidth: 1,
-        prices: {
-          monthly: 17360,
-          quarterly: 52080,
-          semiannually: 104160,
-          annually: 208320,
-          biennially: 416640,
-          triennially: 624960,
-        },
-        features: ['10 vCPU', '128GB RAM', '640GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.192GB',
-        ram: 192,
-        vcpu: 12,
-        storage: 740,
-        bandwidth: 1,
-        prices: {
-          monthly: 24560,
-          quarterly: 73680,
-          semiannually: 147360,
-          annually: 294720,
-          biennially: 589440,
-          triennially: 884160,
-        },
-        features: ['12 vCPU', '192GB RAM', '740GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.256GB',
-        ram: 256,
-        vcpu: 16,
-        storage: 840,
-        bandwidth: 1,
-        prices: {
-          monthly: 32160,
-          quarterly: 36480,
-          semiannually: 72960,
-          annually: 145920,
-          biennially: 291840,
-          triennially: 437760,
-        },
-        features: ['16 vCPU', '256GB RAM', '840GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-      {
-        name: 'M.384GB',
-        ram: 384,
-        vcpu: 24,
-        storage: 1280,
-        bandwidth: 1,
-        prices: {
-          monthly: 48320,
-          quarterly: 144960,
-          semiannually: 289920,
-          annually: 579840,
-          biennially: 1159680,
-          triennially: 1739520,
-        },
-        features: ['24 vCPU', '384GB RAM', '1280GB SSD Storage', '1TB Bandwidth', 'High Memory Ratio', 'Console Access', 'Full Root Access'],
-      },
-    ],
-  };
+  const billingCycles = [...catalog.billing_cycles]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((cycle) => ({ id: cycle.slug, name: cycle.name, discount: cycle.discount_percent, months: cycle.months }));
 
-  const currentPlans = plans[selectedType as keyof typeof plans];
+  const currentPlans = selectedType === 'load_balancer' ? [] : plansOfType(catalog, selectedType as PlanType);
   const selectedPlanType = planTypes.find(type => type.id === selectedType);
+  const selectedCycle = billingCycles.find(c => c.id === billingCycle);
+
+  const getDiscountPercent = () => selectedCycle?.discount || 0;
 
-  const getDiscountPercent = () => {
-    const cycle = billingCycles.find(c => c.id === billingCycle);
-    return cycle?.discount || 0;
-  };
+  const cycleTerms = catalog.billing_cycles.find(c => c.slug === billingCycle) ?? BILLING_CYCLES[0];
+  const orderCycle = toOrderCycle(billingCycle);
 
-  const calculateOriginalPrice = (plan: Plan) => {
-    const basePrice = plan.prices[billingCycle];
-    const months = billingCycle === 'monthly' ? 1 : billingCycle === 'quarterly' ? 3 : billingCycle === 'semiannually' ? 6 : billingCycle === 'annually' ? 12 : billingCycle === 'biennially' ? 24 : 36;
-    return Math.round(basePrice / months);
-  };
+  const quotePlan = (plan: HostingPlan) =>
+    quotePrice([planItem(plan, termPrice(catalog, plan, billingCycle), region)], cycleTerms);
 
-  const calculateDisplayPrice = (plan: Plan) => {
-    const originalPrice = calculateOriginalPrice(plan);
-    const discount = getDiscountPercent();
-    return Math.round(originalPrice * (1 - discount / 100));
-  };
+  const calculateOriginalPrice = (plan: HostingPlan) => quotePlan(plan).list / cycleTerms.months;
 
-  const getTotalPrice = (plan: Plan) => {
-    const basePrice = plan.prices[billingCycle];
-    const discount = getDiscountPercent();
-    return Math.round(basePrice * (1 - discount / 100));
-  };
+  const getTotalPrice = (plan: HostingPlan) => quotePlan(plan).subtotal;
+
+  const calculateDisplayPrice = (plan: HostingPlan) => quotePlan(plan).effective_monthly;
 
   return (
     <div className="bg-slate-950">
@@ -523,6 +62,8 @@ export function Pricing() {
         setSelectedType={setSelectedType}
         planTypes={planTypes}
         billingCycles={billingCycles}
+        region={region}
+        setRegion={setRegion}
       />
 
       <section className=" text-white py-20">
@@ -538,14 +79,14 @@ export function Pricing() {
               Deploy in 5 minutes • Full Root Access • 1TB Bandwidth • 99.9% Uptime SLA
             </p>
             <div className="flex flex-wrap justify-center gap-4 text-sm">
-              <div className="flex items-center space-x-2 bg-white/10 px-4 py-2 rounded-lg backdrop-blur-sm">
-                <MapPin className="h-4 w-4 text-cyan-300" />
-                <span>Noida, India</span>
-              </div>
-              <div className="flex items-center space-x-2 bg-white/10 px-4 py-2 rounded-lg backdrop-blur-sm">
-                <MapPin className="h-4 w-4 text-cyan-300" />
-                <span>Milton Keynes, UK</span>
-              </div>
+              {REGIONS.map((r) => (
+                <div key={r.slug} className="flex items-center space-x-2 bg-white/10 px-4 py-2 rounded-lg backdrop-blur-sm">
+                  <MapPin className="h-4 w-4 text-cyan-300" />
+                  <span>
+                    {r.name}, {r.country}
+                  </span>
+                </div>
+              ))}
               <div className="flex items-center space-x-2 bg-white/10 px-4 py-2 rounded-lg backdrop-blur-sm">
                 <Clock className="h-4 w-4 text-cyan-300" />
                 <span>24/7 Support</span>
@@ -587,6 +128,32 @@ export function Pricing() {
             </div>
           </div>
 
+          <div className="flex justify-center mb-8">
+            <div className="inline-flex flex-wrap items-center bg-slate-950 rounded-xl p-2 shadow-lg border-2 border-cyan-500 gap-2">
+              {REGIONS.map((r) => (
+                <button
+                  key={r.slug}
+                  onClick={() => setRegion(r.slug)}
+                  className={`flex items-center px-4 py-2.5 rounded-lg font-semibold text-sm transition-all ${
+                    region === r.slug
+                      ? 'bg-cyan-600 text-white shadow-md'
+                      : 'text-slate-300 hover:text-white hover:bg-slate-800 border border-cyan-500/30'
+                  }`}
+                >
+                  <MapPin className="h-4 w-4 mr-1.5" />
+                  {r.name}
+                  {r.price_multiplier !== 1 && (
+                    <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
+                      region === r.slug ? 'bg-white/20' : 'bg-slate-800 text-slate-400'
+                    }`}>
+                      +{Math.round((r.price_multiplier - 1) * 100)}%
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="flex justify-center flex-wrap gap-4 mb-12">
             {planTypes.map((type) => (
               <button
@@ -613,94 +180,109 @@ export function Pricing() {
               {selectedPlanType?.name} Plans
             </h2>
             <p className="text-lg text-slate-400">
-              Save up to {getDiscountPercent()}% on {billingCycle} billing • Pricing shown per month
+              {selectedType === 'load_balancer'
+                ? 'Put several servers behind one address • Pricing shown per month'
+                : `Save up to ${getDiscountPercent()}% on ${billingCycle} billing • ${regionName(region)} pricing shown per month`}
             </p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {currentPlans.map((plan, index) => (
-              <div
-                key={index}
-                className={`bg-slate-900 rounded-2xl shadow-lg overflow-hidden transition-all transform hover:scale-105 hover:shadow-2xl hover:shadow-cyan-500/30 ${
-                  plan.popular ? 'ring-2 ring-cyan-500 border-2 border-cyan-500' : 'border-2 border-cyan-500'
-                }`}
-              >
-                {plan.popular && (
-                  <div className="bg-gradient-to-r from-cyan-600 to-teal-600 text-white text-center py-2.5 text-sm font-bold">
-                    ⭐ MOST POPULAR
-                  </div>
-                )}
-                <div className="p-6">
-                  <div className="flex justify-between items-start mb-4">
-                    <h3 className="text-2xl font-bold text-white">{plan.name}</h3>
-                    {getDiscountPercent() > 0 && (
-                      <div className="bg-green-100 text-green-700 px-2 py-1 rounded-md text-xs font-bold">
-                        SAVE {getDiscountPercent()}%
+          {selectedType === 'load_balancer' ? (
+            <LoadBalancerPlans />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {currentPlans.map((plan) => {
+                const available = isPlanAvailable(region, plan.slug);
+                return (
+                  <div
+                    key={plan.id}
+                    className={`bg-slate-900 rounded-2xl shadow-lg overflow-hidden transition-all transform ${
+                      available ? 'hover:scale-105 hover:shadow-2xl hover:shadow-cyan-500/30' : 'opacity-50'
+                    } ${plan.is_featured ? 'ring-2 ring-cyan-500 border-2 border-cyan-500' : 'border-2 border-cyan-500'}`}
+                  >
+                    {plan.is_featured && (
+                      <div className="bg-gradient-to-r from-cyan-600 to-teal-600 text-white text-center py-2.5 text-sm font-bold">
+                        ⭐ MOST POPULAR
                       </div>
                     )}
-                  </div>
+                    <div className="p-6">
+                      <div className="flex justify-between items-start mb-4">
+                        <h3 className="text-2xl font-bold text-white">{plan.name}</h3>
+                        {getDiscountPercent() > 0 && (
+                          <div className="bg-green-100 text-green-700 px-2 py-1 rounded-md text-xs font-bold">
+                            SAVE {getDiscountPercent()}%
+                          </div>
+                        )}
+                      </div>
 
-                  <div className="mb-6">
-                    {getDiscountPercent() > 0 && (
-                      <div className="text-sm text-slate-500 line-through mb-1">
-                        ₹{calculateOriginalPrice(plan).toLocaleString()}/month
+                      <div className="mb-6">
+                        {getDiscountPercent() > 0 && (
+                          <div className="text-sm text-slate-500 line-through mb-1">
+                            ₹{calculateOriginalPrice(plan).toLocaleString()}/month
+                          </div>
+                        )}
+                        <div className="flex items-baseline">
+                          <span className="text-4xl font-bold text-white">
+                            ₹{calculateDisplayPrice(plan).toLocaleString()}
+                          </span>
+                          <span className="text-slate-400 ml-2">/month</span>
+                        </div>
+                        {billingCycle !== 'monthly' && (
+                          <p className="text-sm text-green-600 mt-2 font-medium">
+                            Total: ₹{getTotalPrice(plan).toLocaleString()} for {billingCycle}
+                          </p>
+                        )}
                       </div>
-                    )}
-                    <div className="flex items-baseline">
-                      <span className="text-4xl font-bold text-white">
-                        ₹{calculateDisplayPrice(plan).toLocaleString()}
-                      </span>
-                      <span className="text-slate-400 ml-2">/month</span>
-                    </div>
-                    {billingCycle !== 'monthly' && (
-                      <p className="text-sm text-green-600 mt-2 font-medium">
-                        Total: ₹{getTotalPrice(plan).toLocaleString()} for {billingCycle}
-                      </p>
-                    )}
-                  </div>
 
-                  <div className="space-y-3 mb-6 border-t border-b border-cyan-500/30 py-4">
-                    <div className="flex items-center text-sm">
-                      <Cpu className="h-4 w-4 text-cyan-400 mr-2 flex-shrink-0" />
-                      <span className="font-semibold text-white">{plan.vcpu} vCPU</span>
-                    </div>
-                    <div className="flex items-center text-sm">
-                      <MemoryStick className="h-4 w-4 text-green-600 mr-2 flex-shrink-0" />
-                      <span className="font-semibold text-white">{plan.ram}GB RAM</span>
-                    </div>
-                    <div className="flex items-center text-sm">
-                      <HardDrive className="h-4 w-4 text-orange-600 mr-2 flex-shrink-0" />
-                      <span className="font-semibold text-white">{plan.storage}GB SSD</span>
-                    </div>
-                    <div className="flex items-center text-sm">
-                      <Network className="h-4 w-4 text-purple-600 mr-2 flex-shrink-0" />
-                      <span className="font-semibold text-white">{plan.bandwidth}TB Bandwidth</span>
-                    </div>
-                  </div>
+                      <div className="space-y-3 mb-6 border-t border-b border-cyan-500/30 py-4">
+                        <div className="flex items-center text-sm">
+                          <Cpu className="h-4 w-4 text-cyan-400 mr-2 flex-shrink-0" />
+                          <span className="font-semibold text-white">{plan.vcpu} vCPU</span>
+                        </div>
+                        <div className="flex items-center text-sm">
+                          <MemoryStick className="h-4 w-4 text-green-600 mr-2 flex-shrink-0" />
+                          <span className="font-semibold text-white">{plan.ram_gb}GB RAM</span>
+                        </div>
+                        <div className="flex items-center text-sm">
+                          <HardDrive className="h-4 w-4 text-orange-600 mr-2 flex-shrink-0" />
+                          <span className="font-semibold text-white">{plan.storage_gb}GB SSD</span>
+                        </div>
+                        <div className="flex items-center text-sm">
+                          <Network className="h-4 w-4 text-purple-600 mr-2 flex-shrink-0" />
+                          <span className="font-semibold text-white">{plan.bandwidth_tb}TB Bandwidth</span>
+                        </div>
+                      </div>
 
-                  <ul className="space-y-2 mb-6">
-                    {plan.features.slice(4).map((feature, i) => (
-                      <li key={i} className="flex items-start text-sm">
-                        <CheckCircle className="h-4 w-4 text-green-500 mr-2 flex-shrink-0 mt-0.5" />
-                        <span className="text-slate-300">{feature}</span>
-                      </li>
-                    ))}
-                  </ul>
+                      <ul className="space-y-2 mb-6">
+                        {plan.features.slice(4).map((feature, i) => (
+                          <li key={i} className="flex items-start text-sm">
+                            <CheckCircle className="h-4 w-4 text-green-500 mr-2 flex-shrink-0 mt-0.5" />
+                            <span className="text-slate-300">{feature}</span>
+                          </li>
+                        ))}
+                      </ul>
 
-                  <Link
-                    to="/signup"
-                    className={`block w-full text-center px-6 py-3.5 rounded-lg font-bold transition-all ${
-                      plan.popular
-                        ? 'bg-gradient-to-r from-cyan-600 to-teal-600 text-white hover:from-cyan-500 hover:to-teal-500 shadow-md'
-                        : 'bg-slate-800 text-cyan-400 hover:bg-slate-700 border-2 border-cyan-500'
-                    }`}
-                  >
-                    Deploy Now
-                  </Link>
-                </div>
-              </div>
-            ))}
-          </div>
+                      {available && orderCycle ? (
+                        <Link
+                          to={`/dashboard/deploy?plan=${plan.slug}&cycle=${orderCycle}&region=${region}`}
+                          className={`block w-full text-center px-6 py-3.5 rounded-lg font-bold transition-all ${
+                            plan.is_featured
+                              ? 'bg-gradient-to-r from-cyan-600 to-teal-600 text-white hover:from-cyan-500 hover:to-teal-500 shadow-md'
+                              : 'bg-slate-800 text-cyan-400 hover:bg-slate-700 border-2 border-cyan-500'
+                          }`}
+                        >
+                          Deploy Now
+                        </Link>
+                      ) : (
+                        <div className="block w-full text-center px-6 py-3.5 rounded-lg font-bold bg-slate-800 text-slate-500 border-2 border-slate-700">
+                          {available ? 'Order monthly or annually' : `Not available in ${regionName(region)}`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       </section>
 
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Server } from 'lucide-react';
 import { useUserStore } from '../store/authStore'; // Import useUserStore
+import { getErrorMessage } from '../api/errors';
+import { safeNextPath } from '../lib/auth';
 
 export function Signup() {
   const [searchParams] = useSearchParams();
@@ -14,6 +16,7 @@ export function Signup() {
   const [loading, setLoading] = useState(false);
   const signUp = useUserStore((state) => state.signUp); // Get the signUp action from the store
   const navigate = useNavigate();
+  const next = safeNextPath(searchParams);
 
   useEffect(() => {
     const refCode = searchParams.get('ref');
@@ -40,9 +43,10 @@ export function Signup() {
 
     try {
       await signUp(email, password, fullName, referralCode || undefined);
-      navigate('/'); // Navigate to home page after successful signup
-    } catch (err: any) {
-      setError(err.response?.data?.detail || err.message || 'Failed to create account');
+      // Back to whatever sent them here (e.g. checkout), otherwise the home page
+      navigate(next ?? '/', { replace: !!next });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create account'));
     } finally {
       setLoading(false);
     }
@@ -172,7 +176,7 @@ export function Signup() {
           <div className="mt-6 text-center">
             <p className="text-sm text-slate-400">
               Already have an account?{' '}
-              <Link to="/login" className="text-cyan-400 hover:text-cyan-300 font-semibold">
+              <Link to={next ? `/login?next=${encodeURIComponent(next)}` : '/login'} className="text-cyan-400 hover:text-cyan-300 font-semibold">
                 Sign in
               </Link>
             </p>
@@ -196,7 +196,7 @@
 //                   <div className="flex items-start justify-between">
 //                     <div>
 //                       <p className="font-medium text-white">{activity.message}</p>
-//                       <p className="text-sm text-slate-400 mt-1">{activity.time}</p>
+//                       <p className="text-sm text-slate-400 mt-1">{new Date(activity.at).toLocaleString()}</p>
 //                     </div>
 //                     <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
 //                       activity.type === 'user' ? 'bg-blue-500/20 text-blue-400' : 'bg-green-500/20 text-green-400'
@@ -296,6 +296,18 @@ import {
   AlertTriangle,
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { usersApi } from '../../api/users';
+import { serversApi } from '../../api/servers';
+import { ordersApi } from '../../api/orders';
+import { ticketsApi } from '../../api/tickets';
+import { getErrorMessage } from '../../api/errors';
+
+interface ActivityItem {
+  id: string;
+  type: 'user' | 'order' | 'ticket' | 'server';
+  message: string;
+  at: string;
+}
 
 export function AdminDashboard() {
   const [stats, setStats] = useState({
@@ -308,53 +320,78 @@ export function AdminDashboard() {
   });
 
   const [loading, setLoading] = useState(true);
-  const [recentActivity, setRecentActivity] = useState<any[]>([]);
+  const [error, setError] = useState('');
+  const [recentActivity, setRecentActivity] = useState<ActivityItem[]>([]);
 
   useEffect(() => {
-    // Simulate data fetching delay
-    const timer = setTimeout(() => {
-      const dummyStats = {
-        totalUsers: 1248,
-        activeServers: 82,
-        totalOrders: 356,
-        openTickets: 7,
-        monthlyRevenue: 94250,
-        newUsersThisMonth: 46,
-      };
-
-      const dummyActivities = [
-        {
-          id: 'user-1',
-          type: 'user',
-          message: 'New user registration: Abhishek Rajput',
-          time: '2025-11-05 10:30 AM',
-        },
-        {
-          id: 'order-1',
-          type: 'order',
-          message: 'New order placed - ₹1,299',
-          time: '2025-11-05 09:45 AM',
-        },
-        {
-          id: 'ticket-1',
-          type: 'ticket',
-          message: 'Support ticket opened by user1234',
-          time: '2025-11-04 07:12 PM',
-        },
-        {
-          id: 'server-1',
-          type: 'server',
-          message: 'New VPS instance activated',
-          time: '2025-11-04 03:20 PM',
-        },
-      ];
-
-      setStats(dummyStats);
-      setRecentActivity(dummyActivities);
-      setLoading(false);
-    }, 1000);
-
-    return () => clearTimeout(timer);
+    const controller = new AbortController();
+    const options = { signal: controller.signal };
+
+    const fetchDashboardData = async () => {
+      try {
+        const [userStats, users, servers, orders, tickets] = await Promise.all([
+          usersApi.stats(options),
+          usersApi.list({}, options),
+          serversApi.list({}, options),
+          ordersApi.list({}, options),
+          ticketsApi.list({}, options),
+        ]);
+
+        const monthStart = new Date();
+        monthStart.setDate(1);
+        monthStart.setHours(0, 0, 0, 0);
+        const monthlyRevenue = orders
+          .filter((o) => o.payment_status === 'paid' && new Date(o.created_at) >= monthStart)
+          .reduce((sum, o) => sum + Number(o.amount || 0), 0);
+
+        setStats({
+          totalUsers: userStats.total_users,
+          activeServers: servers.filter((s) => s.status === 'active').length,
+          totalOrders: orders.length,
+          openTickets: tickets.filter((t) => t.status === 'open' || t.status === 'in_progress').length,
+          monthlyRevenue,
+          newUsersThisMonth: userStats.new_users_this_month,
+        });
+
+        const activities: ActivityItem[] = [
+          ...users
+            .filter((u) => u.created_at)
+            .map((u) => ({
+              id: `user-${u.id}`,
+              type: 'user' as const,
+              message: `New user registration: ${u.full_name || u.email}`,
+              at: u.created_at as string,
+            })),
+          ...orders.map((o) => ({
+            id: `order-${o.id}`,
+            type: 'order' as const,
+            message: `New order ${o.order_number} - ₹${Number(o.amount).toLocaleString()}`,
+            at: o.created_at,
+          })),
+          ...tickets.map((t) => ({
+            id: `ticket-${t.id}`,
+            type: 'ticket' as const,
+            message: `Support ticket opened: ${t.subject}`,
+            at: t.created_at,
+          })),
+          ...servers.map((s) => ({
+            id: `server-${s.id}`,
+            type: 'server' as const,
+            message: `Server ${s.server_name} created`,
+            at: s.created_at,
+          })),
+        ];
+
+        setRecentActivity(activities.sort((a, b) => +new Date(b.at) - +new Date(a.at)).slice(0, 5));
+      } catch (err) {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load dashboard data'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchDashboardData();
+    return () => controller.abort();
   }, []);
 
   const statCards = [
@@ -441,6 +478,12 @@ export function AdminDashboard() {
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
       {/* Stat Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {statCards.map((stat, index) => {
@@ -484,7 +527,7 @@ export function AdminDashboard() {
                   <div className="flex items-start justify-between">
                     <div>
                       <p className="font-medium text-white">{activity.message}</p>
-                      <p className="text-sm text-slate-400 mt-1">{activity.time}</p>
+                      <p className="text-sm text-slate-400 mt-1">{new Date(activity.at).toLocaleString()}</p>
                     </div>
                     <span
                       className={`px-3 py-1 rounded-full text-xs font-semibold ${
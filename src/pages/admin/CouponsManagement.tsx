@@ -0,0 +1,502 @@
+import { useState, useEffect } from 'react';
+import { Ticket, Search, Edit, Trash2, Plus, ToggleLeft, ToggleRight } from 'lucide-react';
+import { couponsApi } from '../../api/coupons';
+import { plansApi } from '../../api/plans';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { CouponInput, validateCoupon } from '../../lib/coupons';
+import { useCatalogStore } from '../../store/catalogStore';
+import { CatalogCycle, Coupon, CouponDiscountType, HostingPlan } from '../../types';
+
+// Form state: a new coupon has no id yet
+type CouponDraft = CouponInput & { id?: string };
+
+type CouponState = 'active' | 'inactive' | 'expired' | 'used_up';
+
+const STATE_BADGES: Record<CouponState, { label: string; className: string }> = {
+  active: { label: 'ACTIVE', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  inactive: { label: 'INACTIVE', className: 'bg-gray-500/20 text-gray-400 border-gray-500/30' },
+  expired: { label: 'EXPIRED', className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' },
+  used_up: { label: 'USED UP', className: 'bg-purple-500/20 text-purple-400 border-purple-500/30' },
+};
+
+const couponState = (coupon: Coupon): CouponState => {
+  if (!coupon.is_active) return 'inactive';
+  if (coupon.expires_at && new Date(coupon.expires_at) <= new Date()) return 'expired';
+  if (coupon.max_redemptions !== null && coupon.redemptions >= coupon.max_redemptions) return 'used_up';
+  return 'active';
+};
+
+// Redemptions and timestamps are server-owned, so keep them out of the payload we send back
+const toDraft = (coupon: Coupon): CouponDraft => {
+  const draft: Partial<Coupon> = { ...coupon };
+  delete draft.redemptions;
+  delete draft.created_at;
+  delete draft.updated_at;
+  return draft as CouponDraft;
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-IN');
+
+// Expiry is picked as a day and lasts until the end of it, local time
+const toExpiry = (day: string) => (day ? new Date(`${day}T23:59:59`).toISOString() : null);
+
+const toDayInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const discountLabel = (coupon: Pick<Coupon, 'discount_type' | 'discount_value'>) =>
+  coupon.discount_type === 'percent' ? `${coupon.discount_value}% off` : `₹${coupon.discount_value.toLocaleString()} off`;
+
+export function CouponsManagement() {
+  const { catalog, fetchCatalog } = useCatalogStore();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [plans, setPlans] = useState<HostingPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [stateFilter, setStateFilter] = useState<string>('all');
+  const [editingCoupon, setEditingCoupon] = useState<CouponDraft | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchCatalog();
+    const controller = new AbortController();
+    const options = { signal: controller.signal };
+    Promise.all([couponsApi.list(options), plansApi.list(options)])
+      .then(([couponList, planList]) => {
+        setCoupons(couponList);
+        setPlans(planList);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load coupons'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [fetchCatalog]);
+
+  const closeModal = () => {
+    setEditingCoupon(null);
+    setFormErrors({});
+  };
+
+  const handleSaveCoupon = async () => {
+    if (!editingCoupon) return;
+    const { id, ...data } = editingCoupon;
+    const errors = validateCoupon(data);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSaving(true);
+    try {
+      if (!id) {
+        const created = await couponsApi.create(data);
+        setCoupons((prev) => [created, ...prev]);
+      } else {
+        const updated = await couponsApi.update(id, data);
+        setCoupons((prev) => prev.map((c) => (c.id === id ? updated : c)));
+      }
+      setError('');
+      closeModal();
+    } catch (err) {
+      const apiError = toApiError(err);
+      if (Object.keys(apiError.fieldErrors).length > 0) {
+        setFormErrors(apiError.fieldErrors);
+      } else {
+        setFormErrors({ form: apiError.message || 'Failed to save coupon' });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteCoupon = async (coupon: Coupon) => {
+    if (!confirm(`Delete ${coupon.code}? Orders that used it keep their discount.`)) return;
+    try {
+      await couponsApi.remove(coupon.id);
+      setCoupons((prev) => prev.filter((c) => c.id !== coupon.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete coupon'));
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const updated = await couponsApi.update(coupon.id, { is_active: !coupon.is_active });
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? updated : c)));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update coupon'));
+    }
+  };
+
+  const handleNewCoupon = () => {
+    setEditingCoupon({
+      code: '',
+      description: '',
+      discount_type: 'percent',
+      discount_value: 10,
+      first_order_only: false,
+      plan_ids: [],
+      billing_cycles: [],
+      max_redemptions: null,
+      expires_at: null,
+      is_active: true,
+    });
+    setFormErrors({});
+  };
+
+  const toggleIn = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const planName = (planId: string) => plans.find((p) => p.id === planId)?.name ?? planId;
+  const cycleName = (slug: CatalogCycle) => catalog.billing_cycles.find((c) => c.slug === slug)?.name ?? slug;
+
+  const filteredCoupons = coupons.filter((coupon) => {
+    const q = searchTerm.toLowerCase();
+    const matchesSearch =
+      coupon.code.toLowerCase().includes(q) || (coupon.description || '').toLowerCase().includes(q);
+    return matchesSearch && (stateFilter === 'all' || couponState(coupon) === stateFilter);
+  });
+
+  const inputClass =
+    'w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white';
+  const fieldError = (field: string) =>
+    formErrors[field] && <p className="text-sm text-red-400 mt-1">{formErrors[field]}</p>;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+            <Ticket className="h-7 w-7 text-cyan-400" />
+            Coupons Management
+          </h2>
+          <p className="text-slate-400">Promo codes customers can apply at checkout</p>
+        </div>
+        <button
+          onClick={handleNewCoupon}
+          className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold flex items-center gap-2"
+        >
+          <Plus className="h-5 w-5" />
+          Add Coupon
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 p-6">
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Search codes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
+            />
+          </div>
+
+          <select
+            value={stateFilter}
+            onChange={(e) => setStateFilter(e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+          >
+            <option value="all">All Coupons</option>
+            {Object.entries(STATE_BADGES).map(([value, badge]) => (
+              <option key={value} value={value}>
+                {badge.label.charAt(0) + badge.label.slice(1).toLowerCase()}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-cyan-500 border-r-transparent"></div>
+            <p className="text-slate-400 mt-4">Loading coupons...</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {filteredCoupons.map((coupon) => {
+              const badge = STATE_BADGES[couponState(coupon)];
+              return (
+                <div
+                  key={coupon.id}
+                  className="bg-slate-800/50 border border-cyan-500/30 rounded-lg p-6 hover:border-cyan-500/50 transition"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="text-xl font-bold text-white font-mono">{coupon.code}</h3>
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold border bg-cyan-500/20 text-cyan-400 border-cyan-500/30">
+                          {discountLabel(coupon).toUpperCase()}
+                        </span>
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${badge.className}`}>
+                          {badge.label}
+                        </span>
+                      </div>
+                      {coupon.description && <p className="text-slate-400 mb-4">{coupon.description}</p>}
+
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div>
+                          <div className="text-sm text-slate-400">Redemptions</div>
+                          <div className="text-white font-semibold">
+                            {coupon.redemptions}
+                            {coupon.max_redemptions !== null && ` / ${coupon.max_redemptions}`}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-slate-400">Plans</div>
+                          <div className="text-white font-semibold">
+                            {coupon.plan_ids.length > 0 ? coupon.plan_ids.map(planName).join(', ') : 'All plans'}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-slate-400">Billing</div>
+                          <div className="text-white font-semibold">
+                            {coupon.billing_cycles.length > 0 ? coupon.billing_cycles.map(cycleName).join(', ') : 'Any cycle'}
+                            {coupon.first_order_only && <span className="block text-xs text-slate-400">First order only</span>}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-slate-400">Expires</div>
+                          <div className="text-white font-semibold">
+                            {coupon.expires_at ? formatDate(coupon.expires_at) : 'Never'}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2 ml-4">
+                      <button
+                        onClick={() => handleToggleActive(coupon)}
+                        className={`p-2 rounded-lg transition ${
+                          coupon.is_active ? 'text-green-400 hover:bg-green-500/20' : 'text-gray-400 hover:bg-gray-500/20'
+                        }`}
+                        title={coupon.is_active ? 'Deactivate' : 'Activate'}
+                      >
+                        {coupon.is_active ? <ToggleRight className="h-5 w-5" /> : <ToggleLeft className="h-5 w-5" />}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingCoupon(toDraft(coupon));
+                          setFormErrors({});
+                        }}
+                        className="p-2 text-cyan-400 hover:bg-cyan-500/20 rounded-lg transition"
+                      >
+                        <Edit className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteCoupon(coupon)}
+                        className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {filteredCoupons.length === 0 && (
+              <div className="text-center py-12">
+                <Ticket className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+                <p className="text-slate-400">No coupons found</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {editingCoupon && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+          <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-2xl w-full my-8">
+            <h3 className="text-xl font-bold text-white mb-4">{editingCoupon.id ? 'Edit Coupon' : 'Add New Coupon'}</h3>
+
+            {formErrors.form && (
+              <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm mb-4">
+                {formErrors.form}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Code</label>
+                <input
+                  type="text"
+                  value={editingCoupon.code}
+                  onChange={(e) => setEditingCoupon({ ...editingCoupon, code: e.target.value.toUpperCase() })}
+                  placeholder="WELCOME20"
+                  className={`${inputClass} font-mono`}
+                />
+                {fieldError('code')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={editingCoupon.description ?? ''}
+                  onChange={(e) => setEditingCoupon({ ...editingCoupon, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Discount Type</label>
+                <select
+                  value={editingCoupon.discount_type}
+                  onChange={(e) =>
+                    setEditingCoupon({ ...editingCoupon, discount_type: e.target.value as CouponDiscountType })
+                  }
+                  className={inputClass}
+                >
+                  <option value="percent">Percentage of the order</option>
+                  <option value="flat">Fixed amount (₹)</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">
+                  {editingCoupon.discount_type === 'percent' ? 'Discount (%)' : 'Discount (₹)'}
+                </label>
+                <input
+                  type="number"
+                  value={editingCoupon.discount_value}
+                  onChange={(e) =>
+                    setEditingCoupon({ ...editingCoupon, discount_value: parseFloat(e.target.value || '0') })
+                  }
+                  className={inputClass}
+                />
+                {fieldError('discount_value')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Max Redemptions</label>
+                <input
+                  type="number"
+                  value={editingCoupon.max_redemptions ?? ''}
+                  onChange={(e) =>
+                    setEditingCoupon({
+                      ...editingCoupon,
+                      max_redemptions: e.target.value === '' ? null : parseInt(e.target.value, 10),
+                    })
+                  }
+                  placeholder="No limit"
+                  className={inputClass}
+                />
+                {fieldError('max_redemptions')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Expires</label>
+                <input
+                  type="date"
+                  value={toDayInput(editingCoupon.expires_at)}
+                  onChange={(e) => setEditingCoupon({ ...editingCoupon, expires_at: toExpiry(e.target.value) })}
+                  className={inputClass}
+                />
+                {fieldError('expires_at')}
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-300 mb-2">
+                  Plans <span className="font-normal text-slate-500">(none ticked means every plan)</span>
+                </label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-40 overflow-y-auto bg-slate-800 border border-cyan-500/30 rounded-lg p-3">
+                  {plans.map((plan) => (
+                    <label key={plan.id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={editingCoupon.plan_ids.includes(plan.id)}
+                        onChange={() =>
+                          setEditingCoupon({ ...editingCoupon, plan_ids: toggleIn(editingCoupon.plan_ids, plan.id) })
+                        }
+                        className="w-4 h-4 text-cyan-500 border-cyan-500/30 rounded focus:ring-cyan-500 bg-slate-800"
+                      />
+                      {plan.name}
+                    </label>
+                  ))}
+                </div>
+                {fieldError('plan_ids')}
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-300 mb-2">
+                  Billing Cycles <span className="font-normal text-slate-500">(none ticked means any cycle)</span>
+                </label>
+                <div className="flex flex-wrap gap-4">
+                  {catalog.billing_cycles.map((cycle) => (
+                    <label key={cycle.slug} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={editingCoupon.billing_cycles.includes(cycle.slug)}
+                        onChange={() =>
+                          setEditingCoupon({
+                            ...editingCoupon,
+                            billing_cycles: toggleIn(editingCoupon.billing_cycles, cycle.slug),
+                          })
+                        }
+                        className="w-4 h-4 text-cyan-500 border-cyan-500/30 rounded focus:ring-cyan-500 bg-slate-800"
+                      />
+                      {cycle.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={editingCoupon.first_order_only}
+                    onChange={(e) => setEditingCoupon({ ...editingCoupon, first_order_only: e.target.checked })}
+                    className="w-5 h-5 text-cyan-500 border-cyan-500/30 rounded focus:ring-cyan-500 bg-slate-800"
+                  />
+                  <span className="ml-2 text-slate-300 font-semibold">First order only</span>
+                </label>
+              </div>
+
+              <div className="flex items-center">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={editingCoupon.is_active}
+                    onChange={(e) => setEditingCoupon({ ...editingCoupon, is_active: e.target.checked })}
+                    className="w-5 h-5 text-cyan-500 border-cyan-500/30 rounded focus:ring-cyan-500 bg-slate-800"
+                  />
+                  <span className="ml-2 text-slate-300 font-semibold">Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={handleSaveCoupon}
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingCoupon.id ? 'Save Changes' : 'Create Coupon'}
+              </button>
+              <button
+                onClick={closeModal}
+                className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
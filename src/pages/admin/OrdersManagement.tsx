@@ -1,107 +1,60 @@
 import { useState, useEffect } from 'react';
 import { ShoppingCart, Search, Eye, CheckCircle, XCircle } from 'lucide-react';
+import { ordersApi, OrderUpdate } from '../../api/orders';
+import { getErrorMessage } from '../../api/errors';
+import { Order, OrderStatus, PaymentStatus } from '../../types';
 
-type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled';
-type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
-
-interface Order {
-  id: string;
-  user_id: string;
-  plan_id: string;
-  order_status: OrderStatus;
-  total_amount: number;
-  payment_status: PaymentStatus;
-  server_details: any;
-  created_at: string;
-  user_email?: string;
-  plan_name?: string;
-}
-
-// ------- Mock helpers -------
-const rid = (prefix = 'ord_') => prefix + Math.random().toString(36).slice(2, 10);
-const pick = <T,>(arr: T[]) => arr[Math.floor(Math.random() * arr.length)];
 const INR = (n: number) => `₹${n.toFixed(2)}`;
 
-const makeMockOrder = (overrides: Partial<Order> = {}): Order => {
-  const users = [
-    'abhishek@example.com',
-    'user1234@example.com',
-    'ops@example.com',
-    'admin@example.com',
-    'jane.roe@example.com',
-    'john.doe@example.com',
-  ];
-  const plans = ['Shared Starter', 'VPS Developer', 'Cloud Scale', 'Dedicated Pro'];
-  const statuses: OrderStatus[] = ['pending', 'processing', 'completed', 'cancelled'];
-  const payStatuses: PaymentStatus[] = ['pending', 'paid', 'failed', 'refunded'];
-
-  const base: Order = {
-    id: rid(),
-    user_id: 'u_' + Math.random().toString(36).slice(2, 10),
-    plan_id: 'p_' + Math.random().toString(36).slice(2, 10),
-    order_status: pick(statuses),
-    total_amount: pick([99, 199, 399, 799, 1499, 2999]),
-    payment_status: pick(payStatuses),
-    server_details: { region: pick(['Mumbai', 'Delhi', 'Bangalore', 'Singapore']), cpu: pick(['2 vCPU', '4 vCPU']) },
-    created_at: new Date(Date.now() - Math.floor(Math.random() * 45) * 86400000).toISOString(),
-    user_email: pick(users),
-    plan_name: pick(plans),
-  };
-
-  return { ...base, ...overrides };
-};
-
-const SEED_ORDERS: Order[] = [
-  makeMockOrder({ order_status: 'pending', payment_status: 'pending', total_amount: 799, plan_name: 'VPS Developer' }),
-  makeMockOrder({ order_status: 'processing', payment_status: 'paid', total_amount: 1499, plan_name: 'Cloud Scale' }),
-  makeMockOrder({ order_status: 'completed', payment_status: 'paid', total_amount: 2999, plan_name: 'Dedicated Pro' }),
-  makeMockOrder({ order_status: 'cancelled', payment_status: 'refunded', total_amount: 399, plan_name: 'Shared Starter' }),
-  makeMockOrder({ order_status: 'completed', payment_status: 'paid', total_amount: 199 }),
-  makeMockOrder({ order_status: 'pending', payment_status: 'failed', total_amount: 99 }),
-];
-
 export function OrdersManagement() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [paymentFilter, setPaymentFilter] = useState<string>('all');
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showModal, setShowModal] = useState(false);
 
-  // Simulate initial fetch
   useEffect(() => {
-    setLoading(true);
-    const t = setTimeout(() => {
-      const extras = Array.from({ length: 8 }, () => makeMockOrder());
-      const data = [...SEED_ORDERS, ...extras].sort(
-        (a, b) => +new Date(b.created_at) - +new Date(a.created_at)
-      );
-      setOrders(data);
-      setLoading(false);
-    }, 700);
-    return () => clearTimeout(t);
+    const controller = new AbortController();
+    ordersApi
+      .list({}, { signal: controller.signal })
+      .then((data) => {
+        setOrders(data.sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at)));
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load orders'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
   }, []);
 
-  // Local state updates (no backend)
-  const handleUpdateOrderStatus = (orderId: string, newStatus: OrderStatus) => {
-    setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, order_status: newStatus } : o)));
-    setSelectedOrder((prev) => (prev && prev.id === orderId ? { ...prev, order_status: newStatus } : prev));
+  const applyUpdate = async (orderId: string, changes: OrderUpdate) => {
+    try {
+      const updated = await ordersApi.update(orderId, changes);
+      setOrders((prev) => prev.map((o) => (o.id === orderId ? updated : o)));
+      setSelectedOrder((prev) => (prev && prev.id === orderId ? updated : prev));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update order'));
+    }
   };
 
-  const handleUpdatePaymentStatus = (orderId: string, newStatus: PaymentStatus) => {
-    setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, payment_status: newStatus } : o)));
-    setSelectedOrder((prev) => (prev && prev.id === orderId ? { ...prev, payment_status: newStatus } : prev));
-  };
+  const handleUpdateOrderStatus = (orderId: string, newStatus: OrderStatus) => applyUpdate(orderId, { status: newStatus });
+
+  const handleUpdatePaymentStatus = (orderId: string, newStatus: PaymentStatus) =>
+    applyUpdate(orderId, { payment_status: newStatus });
 
   const filteredOrders = orders.filter((order) => {
     const q = searchTerm.toLowerCase();
     const matchesSearch =
       (order.user_email || '').toLowerCase().includes(q) ||
-      (order.plan_name || '').toLowerCase().includes(q) ||
-      order.id.toLowerCase().includes(q);
-    const matchesStatus = statusFilter === 'all' || order.order_status === (statusFilter as OrderStatus);
-    const matchesPayment = paymentFilter === 'all' || order.payment_status === (paymentFilter as PaymentStatus);
+      (order.plan?.name || '').toLowerCase().includes(q) ||
+      order.order_number.toLowerCase().includes(q);
+    const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
+    const matchesPayment = paymentFilter === 'all' || order.payment_status === paymentFilter;
     return matchesSearch && matchesStatus && matchesPayment;
   });
 
@@ -115,6 +68,8 @@ export function OrdersManagement() {
         return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
       case 'cancelled':
         return 'bg-red-500/20 text-red-400 border-red-500/30';
+      case 'refunded':
+        return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
       default:
         return 'bg-gray-500/20 text-gray-400 border-gray-500/30';
     }
@@ -137,11 +92,11 @@ export function OrdersManagement() {
 
   const stats = (() => {
     const total = orders.length;
-    const pending = orders.filter((o) => o.order_status === 'pending').length;
-    const completed = orders.filter((o) => o.order_status === 'completed').length;
+    const pending = orders.filter((o) => o.status === 'pending').length;
+    const completed = orders.filter((o) => o.status === 'completed').length;
     const revenue = orders
       .filter((o) => o.payment_status === 'paid')
-      .reduce((sum, o) => sum + Number(o.total_amount), 0);
+      .reduce((sum, o) => sum + Number(o.amount), 0);
     return { total, pending, completed, revenue };
   })();
 
@@ -155,6 +110,12 @@ export function OrdersManagement() {
         <p className="text-slate-400">Track and manage customer orders</p>
       </div>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-slate-900 border-2 border-cyan-500 rounded-xl p-4">
@@ -241,16 +202,23 @@ export function OrdersManagement() {
                 {filteredOrders.map((order) => (
                   <tr key={order.id} className="hover:bg-slate-800/50 transition">
                     <td className="py-4 px-4">
-                      <div className="font-mono text-sm text-cyan-400">{order.id.slice(0, 8)}...</div>
+                      <div className="font-mono text-sm text-cyan-400">{order.order_number}</div>
                     </td>
                     <td className="py-4 px-4 text-slate-300">{order.user_email}</td>
-                    <td className="py-4 px-4 text-slate-300">{order.plan_name}</td>
+                    <td className="py-4 px-4 text-slate-300">
+                      {order.plan?.name ?? order.plan_id}
+                      {order.server_id && (
+                        <div className="text-xs text-slate-500 first-letter:uppercase">
+                          {order.add_on ? `${order.add_on.name} for` : `${order.order_type} of`} {order.server_id}
+                        </div>
+                      )}
+                    </td>
                     <td className="py-4 px-4">
-                      <span className="text-white font-semibold">{INR(Number(order.total_amount))}</span>
+                      <span className="text-white font-semibold">{INR(Number(order.amount))}</span>
                     </td>
                     <td className="py-4 px-4">
-                      <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusBadgeColor(order.order_status)}`}>
-                        {order.order_status.toUpperCase()}
+                      <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusBadgeColor(order.status)}`}>
+                        {order.status.toUpperCase()}
                       </span>
                     </td>
                     <td className="py-4 px-4">
@@ -273,7 +241,7 @@ export function OrdersManagement() {
                         >
                           <Eye className="h-4 w-4" />
                         </button>
-                        {order.order_status === 'pending' && (
+                        {order.status === 'pending' && (
                           <button
                             onClick={() => handleUpdateOrderStatus(order.id, 'completed')}
                             className="p-2 text-green-400 hover:bg-green-500/20 rounded-lg transition"
@@ -282,7 +250,7 @@ export function OrdersManagement() {
                             <CheckCircle className="h-4 w-4" />
                           </button>
                         )}
-                        {order.order_status !== 'cancelled' && (
+                        {order.status !== 'cancelled' && order.status !== 'refunded' && (
                           <button
                             onClick={() => handleUpdateOrderStatus(order.id, 'cancelled')}
                             className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
@@ -317,7 +285,7 @@ export function OrdersManagement() {
             <div className="grid grid-cols-2 gap-4 mb-6">
               <div>
                 <div className="text-sm text-slate-400 mb-1">Order ID</div>
-                <div className="text-white font-mono text-sm">{selectedOrder.id}</div>
+                <div className="text-white font-mono text-sm">{selectedOrder.order_number}</div>
               </div>
               <div>
                 <div className="text-sm text-slate-400 mb-1">Customer</div>
@@ -325,16 +293,25 @@ export function OrdersManagement() {
               </div>
               <div>
                 <div className="text-sm text-slate-400 mb-1">Plan</div>
-                <div className="text-white">{selectedOrder.plan_name}</div>
+                <div className="text-white">
+                  {selectedOrder.plan?.name ?? selectedOrder.plan_id} ({selectedOrder.billing_cycle})
+                </div>
+                {selectedOrder.server_id && (
+                  <div className="text-xs text-slate-400 mt-1">
+                    {selectedOrder.add_on
+                      ? `${selectedOrder.add_on.name} billed monthly for server ${selectedOrder.server_id}`
+                      : `Completing this ${selectedOrder.order_type} moves server ${selectedOrder.server_id} to the new plan`}
+                  </div>
+                )}
               </div>
               <div>
                 <div className="text-sm text-slate-400 mb-1">Amount</div>
-                <div className="text-cyan-400 font-bold">{INR(Number(selectedOrder.total_amount))}</div>
+                <div className="text-cyan-400 font-bold">{INR(Number(selectedOrder.amount))}</div>
               </div>
               <div>
                 <div className="text-sm text-slate-400 mb-1">Order Status</div>
                 <select
-                  value={selectedOrder.order_status}
+                  value={selectedOrder.status}
                   onChange={(e) => handleUpdateOrderStatus(selectedOrder.id, e.target.value as OrderStatus)}
                   className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                 >
@@ -342,6 +319,7 @@ export function OrdersManagement() {
                   <option value="processing">Processing</option>
                   <option value="completed">Completed</option>
                   <option value="cancelled">Cancelled</option>
+                  <option value="refunded">Refunded</option>
                 </select>
               </div>
               <div>
@@ -1,167 +1,119 @@
 import { useState, useEffect } from 'react';
 import { Package, Search, Edit, Trash2, Plus, ToggleLeft, ToggleRight } from 'lucide-react';
-
-type PlanType = 'shared' | 'vps' | 'dedicated' | 'cloud';
-
-interface Plan {
-  id: string;
-  name: string;
-  description: string;
-  plan_type: PlanType;
-  cpu_cores: number;
-  ram_gb: number;
-  storage_gb: number;
-  bandwidth_gb: number;
-  base_price: number;
-  is_active: boolean;
-  created_at: string;
-}
-
-// -------- Mock helpers --------
-const randomId = () => 'plan_' + Math.random().toString(36).slice(2, 10);
-const pick = <T,>(arr: T[]) => arr[Math.floor(Math.random() * arr.length)];
-
-const makeMockPlan = (overrides: Partial<Plan> = {}): Plan => {
-  const names = [
-    'Starter',
-    'Basic',
-    'Developer',
-    'Pro',
-    'Business',
-    'Scale',
-    'Ultra',
-    'Enterprise',
-  ];
-  const types: PlanType[] = ['shared', 'vps', 'dedicated', 'cloud'];
-
-  const base: Plan = {
-    id: randomId(),
-    name: `${pick(names)} ${Math.floor(Math.random() * 900 + 100)}`,
-    description: 'Reliable hosting with great performance and 24/7 support.',
-    plan_type: pick(types),
-    cpu_cores: pick([1, 2, 4, 8]),
-    ram_gb: pick([1, 2, 4, 8, 16]),
-    storage_gb: pick([20, 40, 80, 160, 320]),
-    bandwidth_gb: pick([100, 250, 500, 1000]),
-    base_price: pick([99, 199, 399, 799, 1499, 2999]),
-    is_active: Math.random() > 0.2,
-    created_at: new Date(
-      Date.now() - Math.floor(Math.random() * 60) * 86400000
-    ).toISOString(),
-  };
-
-  return { ...base, ...overrides };
+import { plansApi, PlanInput } from '../../api/plans';
+import { getErrorMessage } from '../../api/errors';
+import { HostingPlan, PlanType } from '../../types';
+
+// Form state: a new plan has no id yet
+type PlanDraft = PlanInput & { id?: string };
+
+const PLAN_TYPE_LABELS: Record<PlanType, string> = {
+  general_purpose: 'General Purpose',
+  cpu_optimized: 'CPU Optimized',
+  memory_optimized: 'Memory Optimized',
+  storage_optimized: 'Storage Optimized',
+  dedicated: 'Dedicated Server',
 };
 
-// Seed a few fixed-looking plans + some randoms
-const SEED_PLANS: Plan[] = [
-  makeMockPlan({
-    name: 'Shared Starter',
-    plan_type: 'shared',
-    cpu_cores: 1,
-    ram_gb: 1,
-    storage_gb: 20,
-    bandwidth_gb: 100,
-    base_price: 99,
-    is_active: true,
-  }),
-  makeMockPlan({
-    name: 'VPS Developer',
-    plan_type: 'vps',
-    cpu_cores: 2,
-    ram_gb: 4,
-    storage_gb: 80,
-    bandwidth_gb: 500,
-    base_price: 799,
-    is_active: true,
-  }),
-  makeMockPlan({
-    name: 'Dedicated Pro',
-    plan_type: 'dedicated',
-    cpu_cores: 8,
-    ram_gb: 16,
-    storage_gb: 320,
-    bandwidth_gb: 1000,
-    base_price: 2999,
-    is_active: false,
-  }),
-  makeMockPlan({
-    name: 'Cloud Scale',
-    plan_type: 'cloud',
-    cpu_cores: 4,
-    ram_gb: 8,
-    storage_gb: 160,
-    bandwidth_gb: 1000,
-    base_price: 1499,
-    is_active: true,
-  }),
-];
+// Timestamps are server-owned, so keep them out of the payload we send back
+const toDraft = (plan: HostingPlan): PlanDraft => {
+  const draft: Partial<HostingPlan> = { ...plan };
+  delete draft.created_at;
+  delete draft.updated_at;
+  return draft as PlanDraft;
+};
 
 export function PlansManagement() {
-  const [plans, setPlans] = useState<Plan[]>([]);
+  const [plans, setPlans] = useState<HostingPlan[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
-  const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+  const [editingPlan, setEditingPlan] = useState<PlanDraft | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [isNewPlan, setIsNewPlan] = useState(false);
 
   useEffect(() => {
-    setLoading(true);
-    const t = setTimeout(() => {
-      const extra = Array.from({ length: 6 }, () => makeMockPlan());
-      const seeded = [...SEED_PLANS, ...extra].sort(
-        (a, b) => +new Date(b.created_at) - +new Date(a.created_at)
-      );
-      setPlans(seeded);
-      setLoading(false);
-    }, 600);
-    return () => clearTimeout(t);
+    const controller = new AbortController();
+    plansApi
+      .list({ signal: controller.signal })
+      .then(setPlans)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load plans'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
   }, []);
 
-  const handleSavePlan = () => {
-    if (!editingPlan) return;
-
-    if (isNewPlan) {
-      const planToAdd = {
-        ...editingPlan,
-        id: randomId(),
-        created_at: new Date().toISOString(),
-      };
-      setPlans((prev) => [planToAdd, ...prev]);
-    } else {
-      setPlans((prev) => prev.map((p) => (p.id === editingPlan.id ? editingPlan : p)));
-    }
-
+  const closeModal = () => {
     setShowModal(false);
     setEditingPlan(null);
     setIsNewPlan(false);
   };
 
-  const handleDeletePlan = (planId: string) => {
+  const handleSavePlan = async () => {
+    if (!editingPlan) return;
+    const { id, ...data } = editingPlan;
+
+    setSaving(true);
+    try {
+      if (isNewPlan || !id) {
+        const created = await plansApi.create({
+          ...data,
+          slug: data.slug || data.name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        });
+        setPlans((prev) => [...prev, created]);
+      } else {
+        const updated = await plansApi.update(id, data);
+        setPlans((prev) => prev.map((p) => (p.id === id ? updated : p)));
+      }
+      setError('');
+      closeModal();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save plan'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePlan = async (planId: string) => {
     if (!confirm('Are you sure you want to delete this plan?')) return;
-    setPlans((prev) => prev.filter((p) => p.id !== planId));
+    try {
+      await plansApi.remove(planId);
+      setPlans((prev) => prev.filter((p) => p.id !== planId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete plan'));
+    }
   };
 
-  const handleToggleActive = (planId: string, currentStatus: boolean) => {
-    setPlans((prev) =>
-      prev.map((p) => (p.id === planId ? { ...p, is_active: !currentStatus } : p))
-    );
+  const handleToggleActive = async (planId: string, currentStatus: boolean) => {
+    try {
+      const updated = await plansApi.update(planId, { is_active: !currentStatus });
+      setPlans((prev) => prev.map((p) => (p.id === planId ? updated : p)));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update plan'));
+    }
   };
 
   const handleNewPlan = () => {
     setEditingPlan({
-      id: '',
       name: '',
+      slug: '',
       description: '',
-      plan_type: 'shared',
-      cpu_cores: 1,
+      plan_type: 'general_purpose',
+      vcpu: 1,
       ram_gb: 1,
-      storage_gb: 10,
-      bandwidth_gb: 100,
-      base_price: 0,
+      storage_gb: 25,
+      bandwidth_tb: 1,
+      monthly_price: 0,
+      annual_price: 0,
+      features: [],
       is_active: true,
-      created_at: new Date().toISOString(),
+      is_featured: false,
+      display_order: plans.length + 1,
     });
     setIsNewPlan(true);
     setShowModal(true);
@@ -172,20 +124,22 @@ export function PlansManagement() {
     const matchesSearch =
       plan.name.toLowerCase().includes(q) ||
       (plan.description || '').toLowerCase().includes(q);
-    const matchesType = typeFilter === 'all' || plan.plan_type === (typeFilter as PlanType);
+    const matchesType = typeFilter === 'all' || plan.plan_type === typeFilter;
     return matchesSearch && matchesType;
   });
 
   const getTypeBadgeColor = (type: string) => {
     switch (type) {
-      case 'shared':
+      case 'general_purpose':
         return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
-      case 'vps':
+      case 'cpu_optimized':
         return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
-      case 'dedicated':
+      case 'memory_optimized':
         return 'bg-red-500/20 text-red-400 border-red-500/30';
-      case 'cloud':
+      case 'storage_optimized':
         return 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30';
+      case 'dedicated':
+        return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
       default:
         return 'bg-gray-500/20 text-gray-400 border-gray-500/30';
     }
@@ -210,6 +164,12 @@ export function PlansManagement() {
         </button>
       </div>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
       <div className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 p-6">
         <div className="flex flex-col md:flex-row gap-4 mb-6">
           <div className="flex-1 relative">
@@ -229,10 +189,11 @@ export function PlansManagement() {
             className="px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
           >
             <option value="all">All Types</option>
-            <option value="shared">Shared</option>
-            <option value="vps">VPS</option>
-            <option value="dedicated">Dedicated</option>
-            <option value="cloud">Cloud</option>
+            {Object.entries(PLAN_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
           </select>
         </div>
 
@@ -257,7 +218,7 @@ export function PlansManagement() {
                           plan.plan_type
                         )}`}
                       >
-                        {plan.plan_type.toUpperCase()}
+                        {PLAN_TYPE_LABELS[plan.plan_type].toUpperCase()}
                       </span>
                       {plan.is_active ? (
                         <span className="px-3 py-1 rounded-full text-xs font-semibold border bg-green-500/20 text-green-400 border-green-500/30">
@@ -273,8 +234,8 @@ export function PlansManagement() {
 
                     <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                       <div>
-                        <div className="text-sm text-slate-400">CPU Cores</div>
-                        <div className="text-white font-semibold">{plan.cpu_cores}</div>
+                        <div className="text-sm text-slate-400">vCPU</div>
+                        <div className="text-white font-semibold">{plan.vcpu}</div>
                       </div>
                       <div>
                         <div className="text-sm text-slate-400">RAM</div>
@@ -286,11 +247,11 @@ export function PlansManagement() {
                       </div>
                       <div>
                         <div className="text-sm text-slate-400">Bandwidth</div>
-                        <div className="text-white font-semibold">{plan.bandwidth_gb} GB</div>
+                        <div className="text-white font-semibold">{plan.bandwidth_tb} TB</div>
                       </div>
                       <div>
                         <div className="text-sm text-slate-400">Price</div>
-                        <div className="text-cyan-400 font-bold text-lg">₹{plan.base_price}</div>
+                        <div className="text-cyan-400 font-bold text-lg">₹{plan.monthly_price}/mo</div>
                       </div>
                     </div>
                   </div>
@@ -311,7 +272,7 @@ export function PlansManagement() {
                     </button>
                     <button
                       onClick={() => {
-                        setEditingPlan(plan);
+                        setEditingPlan(toDraft(plan));
                         setIsNewPlan(false);
                         setShowModal(true);
                       }}
@@ -377,32 +338,45 @@ export function PlansManagement() {
                   }
                   className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                 >
-                  <option value="shared">Shared</option>
-                  <option value="vps">VPS</option>
-                  <option value="dedicated">Dedicated</option>
-                  <option value="cloud">Cloud</option>
+                  {Object.entries(PLAN_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
                 </select>
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-slate-300 mb-2">Base Price (₹)</label>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Monthly Price (₹)</label>
+                <input
+                  type="number"
+                  value={editingPlan.monthly_price}
+                  onChange={(e) =>
+                    setEditingPlan({ ...editingPlan, monthly_price: parseFloat(e.target.value || '0') })
+                  }
+                  className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Annual Price (₹)</label>
                 <input
                   type="number"
-                  value={editingPlan.base_price}
+                  value={editingPlan.annual_price}
                   onChange={(e) =>
-                    setEditingPlan({ ...editingPlan, base_price: parseFloat(e.target.value || '0') })
+                    setEditingPlan({ ...editingPlan, annual_price: parseFloat(e.target.value || '0') })
                   }
                   className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                 />
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-slate-300 mb-2">CPU Cores</label>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">vCPU</label>
                 <input
                   type="number"
-                  value={editingPlan.cpu_cores}
+                  value={editingPlan.vcpu}
                   onChange={(e) =>
-                    setEditingPlan({ ...editingPlan, cpu_cores: parseInt(e.target.value || '0', 10) })
+                    setEditingPlan({ ...editingPlan, vcpu: parseInt(e.target.value || '0', 10) })
                   }
                   className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                 />
@@ -433,14 +407,14 @@ export function PlansManagement() {
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-slate-300 mb-2">Bandwidth (GB)</label>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Bandwidth (TB)</label>
                 <input
                   type="number"
-                  value={editingPlan.bandwidth_gb}
+                  value={editingPlan.bandwidth_tb}
                   onChange={(e) =>
                     setEditingPlan({
                       ...editingPlan,
-                      bandwidth_gb: parseInt(e.target.value || '0', 10),
+                      bandwidth_tb: parseFloat(e.target.value || '0'),
                     })
                   }
                   className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
@@ -463,16 +437,13 @@ export function PlansManagement() {
             <div className="flex gap-3 mt-6">
               <button
                 onClick={handleSavePlan}
-                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold"
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50"
               >
-                {isNewPlan ? 'Create Plan' : 'Save Changes'}
+                {saving ? 'Saving...' : isNewPlan ? 'Create Plan' : 'Save Changes'}
               </button>
               <button
-                onClick={() => {
-                  setShowModal(false);
-                  setEditingPlan(null);
-                  setIsNewPlan(false);
-                }}
+                onClick={closeModal}
                 className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold"
               >
                 Cancel
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Users, DollarSign, TrendingUp, CheckCircle, XCircle } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
-import { adminApprovePayout, adminRejectPayout, formatCurrency, getStatusColor } from '../../lib/referral';
+import { formatCurrency, getStatusColor } from '../../lib/referral';
+import { referralRepository } from '../../repositories';
 import { ReferralPayout } from '../../types';
 
 export function ReferralManagement() {
@@ -26,25 +26,16 @@ export function ReferralManagement() {
 
   const loadData = async () => {
     try {
-      const [payoutsRes, statsRes] = await Promise.all([
-        supabase
-          .from('referral_payouts')
-          .select(`
-            *,
-            users_profiles!referral_payouts_user_id_fkey(full_name, referral_code)
-          `)
-          .order('created_at', { ascending: false }),
-        supabase.rpc('get_admin_referral_stats')
+      const [payouts, adminStats] = await Promise.all([
+        referralRepository.getAllPayouts(),
+        referralRepository.getAdminStats(),
       ]);
 
-      if (payoutsRes.data) {
-        const payouts = payoutsRes.data as any[];
-        setPendingPayouts(payouts.filter(p => p.status === 'requested' || p.status === 'under_review'));
-        setAllPayouts(payouts);
-      }
+      setPendingPayouts(payouts.filter(p => p.status === 'requested' || p.status === 'under_review'));
+      setAllPayouts(payouts);
 
-      if (statsRes.data) {
-        setStats(statsRes.data);
+      if (adminStats) {
+        setStats(adminStats);
       }
     } catch (error) {
       console.error('Failed to load admin data:', error);
@@ -61,7 +52,11 @@ export function ReferralManagement() {
 
     setProcessing(true);
     try {
-      await adminApprovePayout(payoutId, paymentReference);
+      const result = await referralRepository.approvePayout(payoutId, paymentReference);
+      if (!result.success) {
+        alert(result.error || 'Failed to approve payout');
+        return;
+      }
       setSelectedPayout(null);
       setPaymentReference('');
       await loadData();
@@ -81,7 +76,11 @@ export function ReferralManagement() {
 
     setProcessing(true);
     try {
-      await adminRejectPayout(payoutId, rejectReason);
+      const result = await referralRepository.rejectPayout(payoutId, rejectReason);
+      if (!result.success) {
+        alert(result.error || 'Failed to reject payout');
+        return;
+      }
       setSelectedPayout(null);
       setRejectReason('');
       await loadData();
@@ -195,7 +194,7 @@ export function ReferralManagement() {
             </div>
           ) : (
             <div className="space-y-4">
-              {displayPayouts.map((payout: any) => (
+              {displayPayouts.map((payout) => (
                 <div
                   key={payout.id}
                   className="bg-slate-800 rounded-lg p-6 border border-cyan-500/30"
@@ -204,10 +203,10 @@ export function ReferralManagement() {
                     <div className="flex-1">
                       <div className="flex items-center space-x-2 mb-2">
                         <span className="font-semibold text-white">
-                          {payout.users_profiles?.full_name || 'Unknown User'}
+                          {payout.user?.full_name || 'Unknown User'}
                         </span>
                         <span className="text-sm text-slate-400">
-                          ({payout.users_profiles?.referral_code})
+                          ({payout.user?.referral_code})
                         </span>
                         <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusColor(payout.status)}`}>
                           {payout.status.replace('_', ' ')}
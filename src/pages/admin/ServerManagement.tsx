@@ -1,156 +1,89 @@
-import { useState, useEffect } from 'react';
-import { Server, Search, Play, Pause, RotateCw, Trash2, Plus } from 'lucide-react';
-
-type ServerStatus = 'active' | 'provisioning' | 'suspended' | 'terminated';
-type ServerType = 'VPS' | 'Dedicated' | 'Shared';
-
-interface ServerData {
-  id: string;
-  user_id: string;
-  server_name: string;
-  ip_address: string | null;
-  server_status: ServerStatus;
-  server_type: ServerType;
-  specs: {
-    cpu: string;
-    ram: string;
-    storage: string;
-    region: string;
-    os: string;
-  };
-  created_at: string; // ISO
-  user_email?: string;
-}
-
-// ---- Mock helpers ----
-const randomId = () => 'srv_' + Math.random().toString(36).slice(2, 10);
-const randomIP = () =>
-  `${Math.floor(Math.random() * 223) + 1}.${Math.floor(Math.random() * 255)}.${Math.floor(
-    Math.random() * 255
-  )}.${Math.floor(Math.random() * 255)}`;
-const pick = <T,>(arr: T[]) => arr[Math.floor(Math.random() * arr.length)];
-
-const makeMockServer = (overrides: Partial<ServerData> = {}): ServerData => {
-  const names = ['Apollo', 'Hermes', 'Zephyr', 'Orion', 'Nimbus', 'Atlas', 'Vulcan', 'Nova'];
-  const types: ServerType[] = ['VPS', 'Dedicated', 'Shared'];
-  const statuses: ServerStatus[] = ['active', 'provisioning', 'suspended'];
-
-  const base: ServerData = {
-    id: randomId(),
-    user_id: 'u_' + Math.random().toString(36).slice(2, 10),
-    server_name: `Server-${pick(names)}-${Math.floor(Math.random() * 900 + 100)}`,
-    ip_address: Math.random() > 0.2 ? randomIP() : null, // 20% “Pending”
-    server_status: pick(statuses),
-    server_type: pick(types),
-    specs: {
-      cpu: pick(['2 vCPU', '4 vCPU', '8 vCPU']),
-      ram: pick(['4 GB', '8 GB', '16 GB']),
-      storage: pick(['80 GB SSD', '160 GB SSD', '320 GB NVMe']),
-      region: pick(['Mumbai', 'Delhi', 'Bangalore', 'Singapore']),
-      os: pick(['Ubuntu 22.04', 'Debian 12', 'CentOS 9 Stream']),
-    },
-    created_at: new Date(
-      Date.now() - Math.floor(Math.random() * 45) * 24 * 60 * 60 * 1000
-    ).toISOString(),
-    user_email: pick([
-      'admin@example.com',
-      'ops@example.com',
-      'user1234@example.com',
-      'abhishek@example.com',
-    ]),
-  };
-
-  return { ...base, ...overrides };
-};
-
-// Seed
-const SEED_SERVERS: ServerData[] = [
-  makeMockServer({ server_name: 'Server-Orion-101', server_status: 'active', server_type: 'VPS' }),
-  makeMockServer({
-    server_name: 'Server-Atlas-202',
-    server_status: 'provisioning',
-    server_type: 'Dedicated',
-    ip_address: null,
-  }),
-  makeMockServer({
-    server_name: 'Server-Nimbus-303',
-    server_status: 'suspended',
-    server_type: 'Shared',
-  }),
-  makeMockServer({ server_name: 'Server-Vulcan-404', server_status: 'active', server_type: 'VPS' }),
-  makeMockServer({ server_name: 'Server-Apollo-505', server_status: 'active', server_type: 'VPS' }),
-];
+import { useState, useEffect, useCallback } from 'react';
+import { Server, Search, Play, Pause, RotateCw, Trash2, Shuffle } from 'lucide-react';
+import { serversApi, ServerPowerAction } from '../../api/servers';
+import { loadBalancersApi } from '../../api/loadBalancers';
+import { getErrorMessage } from '../../api/errors';
+import { getHealthColor, loadBalancerSize } from '../../lib/loadBalancers';
+import { REGIONS, regionName } from '../../lib/regions';
+import { LoadBalancer, UserServer } from '../../types';
 
 export function ServerManagement() {
-  const [servers, setServers] = useState<ServerData[]>([]);
+  const [servers, setServers] = useState<UserServer[]>([]);
+  const [loadBalancers, setLoadBalancers] = useState<LoadBalancer[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [regionFilter, setRegionFilter] = useState<string>('all');
+
+  const loadServers = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const data = await serversApi.list({}, { signal });
+      setServers(data.sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at)));
+      setError('');
+    } catch (err) {
+      if (!signal?.aborted) setError(getErrorMessage(err, 'Failed to load servers'));
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, []);
 
   useEffect(() => {
-    // Simulate async load
-    const t = setTimeout(() => {
-      setServers(
-        SEED_SERVERS.sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at))
-      );
-      setLoading(false);
-    }, 700);
-    return () => clearTimeout(t);
+    const controller = new AbortController();
+    loadServers(controller.signal);
+    return () => controller.abort();
+  }, [loadServers]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadBalancersApi
+      .list({ signal: controller.signal })
+      .then(setLoadBalancers)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load load balancers'));
+      });
+    return () => controller.abort();
   }, []);
 
-  // Local state updates for actions
-  const handleServerAction = (serverId: string, action: 'start' | 'stop' | 'restart' | 'terminate') => {
-    setServers((prev) =>
-      prev.map((s) => {
-        if (s.id !== serverId) return s;
-        if (action === 'start') return { ...s, server_status: 'active', ip_address: s.ip_address || randomIP() };
-        if (action === 'stop') return { ...s, server_status: 'suspended' };
-        if (action === 'restart') {
-          // brief “provisioning” impression then back to active
-          return { ...s, server_status: 'active', ip_address: s.ip_address || randomIP() };
-        }
-        if (action === 'terminate') return { ...s, server_status: 'terminated' };
-        return s;
-      })
-    );
+  const handleServerAction = async (serverId: string, action: ServerPowerAction) => {
+    try {
+      const updated = await serversApi.power(serverId, action);
+      setServers((prev) => prev.map((s) => (s.id === serverId ? updated : s)));
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to ${action} server`));
+    }
   };
 
-  const handleDeleteServer = (serverId: string) => {
+  const handleDeleteServer = async (serverId: string) => {
     if (!confirm('Are you sure you want to delete this server?')) return;
-    setServers((prev) => prev.filter((s) => s.id !== serverId));
+    try {
+      await serversApi.remove(serverId);
+      setServers((prev) => prev.filter((s) => s.id !== serverId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete server'));
+    }
   };
 
-  const handleProvision = () => {
-    // Create a provisioning server and put it at the top
-    const newSrv = makeMockServer({
-      server_status: 'provisioning',
-      ip_address: null,
-      server_name: `Server-${pick(['Nova', 'Helios', 'Lyra', 'Quantum'])}-${Math.floor(
-        Math.random() * 900 + 100
-      )}`,
-      created_at: new Date().toISOString(),
-    });
-    setServers((prev) => [newSrv, ...prev]);
-    // Auto-complete provisioning after a moment
-    setTimeout(() => {
-      setServers((prev) =>
-        prev.map((s) =>
-          s.id === newSrv.id
-            ? { ...s, server_status: 'active', ip_address: randomIP() }
-            : s
-        )
-      );
-    }, 1500);
+  const handleDeleteLoadBalancer = async (lb: LoadBalancer) => {
+    if (!confirm(`Delete the load balancer ${lb.name} (${lb.ip_address})? Its traffic stops immediately.`)) return;
+    try {
+      await loadBalancersApi.remove(lb.id);
+      setLoadBalancers((prev) => prev.filter((l) => l.id !== lb.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete load balancer'));
+    }
   };
 
   const filteredServers = servers.filter((server) => {
     const q = searchTerm.toLowerCase();
     const matchesSearch =
       server.server_name.toLowerCase().includes(q) ||
-      (server.ip_address || '').toLowerCase().includes(q) ||
+      server.hostname.toLowerCase().includes(q) ||
+      (server.ip_addresses ?? []).some((a) => a.address.toLowerCase().includes(q)) ||
       (server.user_email || '').toLowerCase().includes(q);
-    const matchesStatus = statusFilter === 'all' || server.server_status === (statusFilter as ServerStatus);
-    return matchesSearch && matchesStatus;
+    const matchesStatus = statusFilter === 'all' || server.status === statusFilter;
+    const matchesRegion = regionFilter === 'all' || server.region === regionFilter;
+    return matchesSearch && matchesStatus && matchesRegion;
   });
 
   const getStatusBadgeColor = (status: string) => {
@@ -158,10 +91,14 @@ export function ServerManagement() {
       case 'active':
         return 'bg-green-500/20 text-green-400 border-green-500/30';
       case 'provisioning':
+      case 'rebuilding':
+      case 'restoring':
         return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
+      case 'stopped':
+        return 'bg-slate-500/20 text-slate-300 border-slate-500/30';
       case 'suspended':
         return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
-      case 'terminated':
+      case 'error':
         return 'bg-red-500/20 text-red-400 border-red-500/30';
       default:
         return 'bg-gray-500/20 text-gray-400 border-gray-500/30';
@@ -178,15 +115,14 @@ export function ServerManagement() {
           </h2>
           <p className="text-slate-400">Manage all hosted servers</p>
         </div>
-        <button
-          onClick={handleProvision}
-          className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold flex items-center gap-2"
-        >
-          <Plus className="h-5 w-5" />
-          Provision Server
-        </button>
       </div>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
       <div className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 p-6">
         <div className="flex flex-col md:flex-row gap-4 mb-6">
           <div className="flex-1 relative">
@@ -208,8 +144,24 @@ export function ServerManagement() {
             <option value="all">All Status</option>
             <option value="active">Active</option>
             <option value="provisioning">Provisioning</option>
+            <option value="rebuilding">Rebuilding</option>
+            <option value="restoring">Restoring</option>
+            <option value="stopped">Stopped</option>
             <option value="suspended">Suspended</option>
-            <option value="terminated">Terminated</option>
+            <option value="error">Error</option>
+          </select>
+
+          <select
+            value={regionFilter}
+            onChange={(e) => setRegionFilter(e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+          >
+            <option value="all">All Regions</option>
+            {REGIONS.map((r) => (
+              <option key={r.slug} value={r.slug}>
+                {r.name}
+              </option>
+            ))}
           </select>
         </div>
 
@@ -226,7 +178,8 @@ export function ServerManagement() {
                   <th className="text-left py-3 px-4 text-slate-300 font-semibold">Server Name</th>
                   <th className="text-left py-3 px-4 text-slate-300 font-semibold">IP Address</th>
                   <th className="text-left py-3 px-4 text-slate-300 font-semibold">Owner</th>
-                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Type</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Plan</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Region</th>
                   <th className="text-left py-3 px-4 text-slate-300 font-semibold">Status</th>
                   <th className="text-left py-3 px-4 text-slate-300 font-semibold">Created</th>
                   <th className="text-right py-3 px-4 text-slate-300 font-semibold">Actions</th>
@@ -237,17 +190,19 @@ export function ServerManagement() {
                   <tr key={server.id} className="hover:bg-slate-800/50 transition">
                     <td className="py-4 px-4">
                       <div className="font-semibold text-white">{server.server_name}</div>
+                      <div className="text-xs text-slate-400">{server.hostname}</div>
                     </td>
                     <td className="py-4 px-4 text-slate-300">{server.ip_address ?? 'Pending'}</td>
                     <td className="py-4 px-4 text-slate-300">{server.user_email ?? 'N/A'}</td>
-                    <td className="py-4 px-4 text-slate-300">{server.server_type}</td>
+                    <td className="py-4 px-4 text-slate-300">{server.plan?.name ?? `${server.vcpu} vCPU / ${server.ram_gb}GB`}</td>
+                    <td className="py-4 px-4 text-slate-300">{regionName(server.region)}</td>
                     <td className="py-4 px-4">
                       <span
                         className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusBadgeColor(
-                          server.server_status
+                          server.status
                         )}`}
                       >
-                        {server.server_status.toUpperCase()}
+                        {server.status.toUpperCase()}
                       </span>
                     </td>
                     <td className="py-4 px-4 text-slate-300">
@@ -255,7 +210,7 @@ export function ServerManagement() {
                     </td>
                     <td className="py-4 px-4">
                       <div className="flex items-center justify-end gap-2">
-                        {server.server_status === 'suspended' && (
+                        {server.status === 'stopped' && (
                           <button
                             onClick={() => handleServerAction(server.id, 'start')}
                             className="p-2 text-green-400 hover:bg-green-500/20 rounded-lg transition"
@@ -264,10 +219,10 @@ export function ServerManagement() {
                             <Play className="h-4 w-4" />
                           </button>
                         )}
-                        {server.server_status === 'active' && (
+                        {server.status === 'active' && (
                           <>
                             <button
-                              onClick={() => handleServerAction(server.id, 'restart')}
+                              onClick={() => handleServerAction(server.id, 'reboot')}
                               className="p-2 text-blue-400 hover:bg-blue-500/20 rounded-lg transition"
                               title="Restart Server"
                             >
@@ -282,17 +237,10 @@ export function ServerManagement() {
                             </button>
                           </>
                         )}
-                        <button
-                          onClick={() => handleServerAction(server.id, 'terminate')}
-                          className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
-                          title="Terminate Server"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
                         <button
                           onClick={() => handleDeleteServer(server.id)}
                           className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
-                          title="Delete Record"
+                          title="Delete Server"
                         >
                           <Trash2 className="h-4 w-4" />
                         </button>
@@ -312,6 +260,64 @@ export function ServerManagement() {
           </div>
         )}
       </div>
+
+      <div className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 p-6">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+          <Shuffle className="h-5 w-5 text-cyan-400" />
+          Load Balancers
+        </h3>
+        {loadBalancers.length === 0 ? (
+          <p className="text-slate-400 text-center py-6">No load balancers</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-cyan-500/30">
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Name</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Owner</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Region</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Size</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Backends</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-semibold">Status</th>
+                  <th className="text-right py-3 px-4 text-slate-300 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-cyan-500/20">
+                {loadBalancers.map((lb) => (
+                  <tr key={lb.id} className="hover:bg-slate-800/50 transition">
+                    <td className="py-4 px-4">
+                      <div className="font-semibold text-white">{lb.name}</div>
+                      <div className="text-xs text-slate-400">{lb.ip_address}</div>
+                    </td>
+                    <td className="py-4 px-4 text-slate-300">{lb.user_email ?? 'N/A'}</td>
+                    <td className="py-4 px-4 text-slate-300">{regionName(lb.region)}</td>
+                    <td className="py-4 px-4 text-slate-300">{loadBalancerSize(lb.size)?.name ?? lb.size}</td>
+                    <td className="py-4 px-4 text-slate-300">
+                      {lb.backends.filter((b) => b.health === 'healthy').length}/{lb.backends.length} healthy
+                    </td>
+                    <td className="py-4 px-4">
+                      <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getHealthColor(lb.status)}`}>
+                        {lb.status.toUpperCase()}
+                      </span>
+                    </td>
+                    <td className="py-4 px-4">
+                      <div className="flex items-center justify-end">
+                        <button
+                          onClick={() => handleDeleteLoadBalancer(lb)}
+                          className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                          title="Delete Load Balancer"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
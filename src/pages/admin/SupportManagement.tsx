@@ -1,28 +1,15 @@
 import { useState, useEffect } from 'react';
 import { MessageSquare, Search, Eye, CheckCircle, Clock, AlertCircle } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
-
-interface Ticket {
-  id: string;
-  user_id: string;
-  subject: string;
-  description: string;
-  status: string;
-  priority: string;
-  assigned_to: string | null;
-  created_at: string;
-  updated_at: string;
-  user_email?: string;
-  assigned_email?: string;
-}
+import { ticketRepository } from '../../repositories';
+import { SupportTicket, TicketPriority, TicketStatus } from '../../types';
 
 export function SupportManagement() {
-  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [tickets, setTickets] = useState<SupportTicket[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
+  const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null);
   const [showModal, setShowModal] = useState(false);
 
   useEffect(() => {
@@ -32,22 +19,8 @@ export function SupportManagement() {
   const fetchTickets = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('support_tickets')
-        .select(`
-          *,
-          users_profiles!support_tickets_user_id_fkey(email)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const formattedData = (data || []).map(ticket => ({
-        ...ticket,
-        user_email: ticket.users_profiles?.email || 'N/A',
-      }));
-
-      setTickets(formattedData);
+      const data = await ticketRepository.list();
+      setTickets(data);
     } catch (error) {
       console.error('Error fetching tickets:', error);
     } finally {
@@ -55,14 +28,11 @@ export function SupportManagement() {
     }
   };
 
-  const handleUpdateStatus = async (ticketId: string, newStatus: string) => {
+  const handleUpdateStatus = async (ticketId: string, newStatus: TicketStatus) => {
     try {
-      const { error } = await supabase
-        .from('support_tickets')
-        .update({ status: newStatus })
-        .eq('id', ticketId);
+      const { success, error } = await ticketRepository.update(ticketId, { status: newStatus });
 
-      if (error) throw error;
+      if (!success) throw new Error(error);
       await fetchTickets();
       if (selectedTicket && selectedTicket.id === ticketId) {
         setSelectedTicket({ ...selectedTicket, status: newStatus });
@@ -72,14 +42,11 @@ export function SupportManagement() {
     }
   };
 
-  const handleUpdatePriority = async (ticketId: string, newPriority: string) => {
+  const handleUpdatePriority = async (ticketId: string, newPriority: TicketPriority) => {
     try {
-      const { error } = await supabase
-        .from('support_tickets')
-        .update({ priority: newPriority })
-        .eq('id', ticketId);
+      const { success, error } = await ticketRepository.update(ticketId, { priority: newPriority });
 
-      if (error) throw error;
+      if (!success) throw new Error(error);
       await fetchTickets();
       if (selectedTicket && selectedTicket.id === ticketId) {
         setSelectedTicket({ ...selectedTicket, priority: newPriority });
@@ -91,7 +58,7 @@ export function SupportManagement() {
 
   const filteredTickets = tickets.filter(ticket => {
     const matchesSearch = ticket.subject.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         ticket.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (ticket.description || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                          ticket.user_email?.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || ticket.status === statusFilter;
     const matchesPriority = priorityFilter === 'all' || ticket.priority === priorityFilter;
@@ -300,7 +267,7 @@ export function SupportManagement() {
                   <label className="block text-sm font-semibold text-slate-300 mb-2">Status</label>
                   <select
                     value={selectedTicket.status}
-                    onChange={(e) => handleUpdateStatus(selectedTicket.id, e.target.value)}
+                    onChange={(e) => handleUpdateStatus(selectedTicket.id, e.target.value as TicketStatus)}
                     className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                   >
                     <option value="open">Open</option>
@@ -314,7 +281,7 @@ export function SupportManagement() {
                   <label className="block text-sm font-semibold text-slate-300 mb-2">Priority</label>
                   <select
                     value={selectedTicket.priority}
-                    onChange={(e) => handleUpdatePriority(selectedTicket.id, e.target.value)}
+                    onChange={(e) => handleUpdatePriority(selectedTicket.id, e.target.value as TicketPriority)}
                     className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                   >
                     <option value="low">Low</option>
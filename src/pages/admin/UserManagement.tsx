@@ -1,122 +1,43 @@
 import { useState, useEffect } from 'react';
 import { Users, Search, Edit, Trash2, UserPlus } from 'lucide-react';
-import { nanoid } from 'nanoid'; // optional; remove if you don't want this. Or make your own id.
+import { useUserStore } from '../../store/authStore';
+import { AccountStatus, User, UserCreate, UserRole } from '../../types';
 
-interface User {
-  id: string;
-  email: string;
-  full_name: string;
-  role: 'customer' | 'admin' | 'super_admin';
-  account_status: 'active' | 'suspended' | 'inactive';
-  created_at: string; // ISO string
-}
-
-// ---- Mock data ----
-const MOCK_USERS: User[] = [
-  {
-    id: 'u_' + Math.random().toString(36).slice(2),
-    email: 'admin@example.com',
-    full_name: 'Site Admin',
-    role: 'admin',
-    account_status: 'active',
-    created_at: '2025-10-14T09:25:00.000Z',
-  },
-  {
-    id: 'u_' + Math.random().toString(36).slice(2),
-    email: 'super@example.com',
-    full_name: 'Super Admin',
-    role: 'super_admin',
-    account_status: 'active',
-    created_at: '2025-09-21T12:12:00.000Z',
-  },
-  {
-    id: 'u_' + Math.random().toString(36).slice(2),
-    email: 'john.doe@example.com',
-    full_name: 'John Doe',
-    role: 'customer',
-    account_status: 'suspended',
-    created_at: '2025-11-02T14:31:00.000Z',
-  },
-  {
-    id: 'u_' + Math.random().toString(36).slice(2),
-    email: 'jane.roe@example.com',
-    full_name: 'Jane Roe',
-    role: 'customer',
-    account_status: 'active',
-    created_at: '2025-10-30T07:05:00.000Z',
-  },
-  {
-    id: 'u_' + Math.random().toString(36).slice(2),
-    email: 'user1234@example.com',
-    full_name: 'User 1234',
-    role: 'customer',
-    account_status: 'inactive',
-    created_at: '2025-08-10T11:45:00.000Z',
-  },
-];
-
-// Optional helper to quickly create a new mock user
-function makeMockUser(): User {
-  const id = typeof nanoid === 'function' ? nanoid() : 'u_' + Math.random().toString(36).slice(2);
-  const num = Math.floor(Math.random() * 9000) + 1000;
-  const roles: User['role'][] = ['customer', 'admin', 'super_admin'];
-  const statuses: User['account_status'][] = ['active', 'suspended', 'inactive'];
-  const role = roles[Math.floor(Math.random() * roles.length)];
-  const account_status = statuses[Math.floor(Math.random() * statuses.length)];
-  return {
-    id,
-    email: `mock${num}@example.com`,
-    full_name: `Mock User ${num}`,
-    role,
-    account_status,
-    created_at: new Date(Date.now() - Math.floor(Math.random() * 60) * 86400000).toISOString(), // within last ~60 days
-  };
-}
+const EMPTY_NEW_USER: UserCreate = { email: '', full_name: '', password: '', role: 'customer' };
 
 export function UserManagement() {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { users, loading, error, fetchUsers, createUser, updateUser, deleteUser } = useUserStore();
+  const currentUserId = useUserStore((state) => state.user?.id);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [showModal, setShowModal] = useState(false);
+  const [newUser, setNewUser] = useState<UserCreate | null>(null);
 
-  // Simulate fetching from backend
   useEffect(() => {
-    setLoading(true);
-    const t = setTimeout(() => {
-      // seed with a few predefined + a handful of randoms
-      const extras = Array.from({ length: 8 }, () => makeMockUser());
-      const seeded = [...MOCK_USERS, ...extras].sort(
-        (a, b) => +new Date(b.created_at) - +new Date(a.created_at)
-      );
-      setUsers(seeded);
-      setLoading(false);
-    }, 700);
-    return () => clearTimeout(t);
-  }, []);
+    fetchUsers();
+  }, [fetchUsers]);
 
-  // Local-only update
-  const handleUpdateUser = () => {
+  const handleUpdateUser = async () => {
     if (!editingUser) return;
-    setUsers((prev) =>
-      prev.map((u) => (u.id === editingUser.id ? { ...editingUser } : u))
-    );
+    const { id, full_name, role, account_status } = editingUser;
+    await updateUser(id, { full_name, role, account_status });
+    if (useUserStore.getState().error) return;
     setShowModal(false);
     setEditingUser(null);
   };
 
-  // Local-only delete
-  const handleDeleteUser = (userId: string) => {
+  const handleDeleteUser = async (userId: string) => {
     if (!confirm('Are you sure you want to delete this user?')) return;
-    setUsers((prev) => prev.filter((u) => u.id !== userId));
+    await deleteUser(userId);
   };
 
-  // Local-only add
-  const handleAddUser = () => {
-    const newUser = makeMockUser();
-    setUsers((prev) => [newUser, ...prev]);
+  const handleCreateUser = async () => {
+    if (!newUser) return;
+    await createUser(newUser);
+    if (useUserStore.getState().error) return;
+    setNewUser(null);
   };
 
   const filteredUsers = users.filter((user) => {
@@ -145,7 +66,7 @@ export function UserManagement() {
         return 'bg-green-500/20 text-green-400 border-green-500/30';
       case 'suspended':
         return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
-      case 'inactive':
+      case 'pending':
       default:
         return 'bg-gray-500/20 text-gray-400 border-gray-500/30';
     }
@@ -163,7 +84,7 @@ export function UserManagement() {
         </div>
 
         <button
-          onClick={handleAddUser}
+          onClick={() => setNewUser({ ...EMPTY_NEW_USER })}
           className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold flex items-center gap-2"
         >
           <UserPlus className="h-5 w-5" />
@@ -171,6 +92,12 @@ export function UserManagement() {
         </button>
       </div>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
       <div className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 p-6">
         <div className="flex flex-col md:flex-row gap-4 mb-6">
           <div className="flex-1 relative">
@@ -204,12 +131,12 @@ export function UserManagement() {
               <option value="all">All Status</option>
               <option value="active">Active</option>
               <option value="suspended">Suspended</option>
-              <option value="inactive">Inactive</option>
+              <option value="pending">Pending</option>
             </select>
           </div>
         </div>
 
-        {loading ? (
+        {loading && users.length === 0 ? (
           <div className="text-center py-12">
             <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-cyan-500 border-r-transparent"></div>
             <p className="text-slate-400 mt-4">Loading users...</p>
@@ -253,7 +180,7 @@ export function UserManagement() {
                       </span>
                     </td>
                     <td className="py-4 px-4 text-slate-300">
-                      {new Date(user.created_at).toLocaleDateString()}
+                      {user.created_at ? new Date(user.created_at).toLocaleDateString() : '—'}
                     </td>
                     <td className="py-4 px-4">
                       <div className="flex items-center justify-end gap-2">
@@ -268,7 +195,9 @@ export function UserManagement() {
                         </button>
                         <button
                           onClick={() => handleDeleteUser(user.id)}
-                          className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                          disabled={user.id === currentUserId}
+                          className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition disabled:opacity-30 disabled:hover:bg-transparent"
+                          title={user.id === currentUserId ? "You can't delete your own account" : 'Delete User'}
                         >
                           <Trash2 className="h-4 w-4" />
                         </button>
@@ -310,7 +239,7 @@ export function UserManagement() {
                 <select
                   value={editingUser.role}
                   onChange={(e) =>
-                    setEditingUser({ ...editingUser, role: e.target.value as User['role'] })
+                    setEditingUser({ ...editingUser, role: e.target.value as UserRole })
                   }
                   className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                 >
@@ -327,14 +256,14 @@ export function UserManagement() {
                   onChange={(e) =>
                     setEditingUser({
                       ...editingUser,
-                      account_status: e.target.value as User['account_status'],
+                      account_status: e.target.value as AccountStatus,
                     })
                   }
                   className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
                 >
                   <option value="active">Active</option>
                   <option value="suspended">Suspended</option>
-                  <option value="inactive">Inactive</option>
+                  <option value="pending">Pending</option>
                 </select>
               </div>
             </div>
@@ -342,7 +271,8 @@ export function UserManagement() {
             <div className="flex gap-3 mt-6">
               <button
                 onClick={handleUpdateUser}
-                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50"
               >
                 Save Changes
               </button>
@@ -359,6 +289,75 @@ export function UserManagement() {
           </div>
         </div>
       )}
+
+      {newUser && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 max-w-md w-full">
+            <h3 className="text-xl font-bold text-white mb-4">Add User</h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Full Name</label>
+                <input
+                  type="text"
+                  value={newUser.full_name}
+                  onChange={(e) => setNewUser({ ...newUser, full_name: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={newUser.email}
+                  onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Password</label>
+                <input
+                  type="password"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Role</label>
+                <select
+                  value={newUser.role}
+                  onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+                  className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white"
+                >
+                  <option value="customer">Customer</option>
+                  <option value="admin">Admin</option>
+                  <option value="super_admin">Super Admin</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={handleCreateUser}
+                disabled={loading || !newUser.email || !newUser.full_name || !newUser.password}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50"
+              >
+                Create User
+              </button>
+              <button
+                onClick={() => setNewUser(null)}
+                className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
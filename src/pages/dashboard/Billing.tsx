@@ -1,32 +1,55 @@
-import { useState } from 'react';
-import { CreditCard, Download, Clock, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
+import { useState, useEffect, Fragment } from 'react';
+import { CreditCard, Download, Clock, CheckCircle, AlertCircle, XCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { invoicesApi } from '../../api/invoices';
+import { getErrorMessage } from '../../api/errors';
+import { InvoiceBreakdown } from '../../components/billing/InvoiceBreakdown';
+import { invoiceBuyer } from '../../lib/invoices';
+import { downloadInvoicePdf } from '../../lib/invoicePdf';
+import { formatCurrency } from '../../lib/referral';
+import { useUserStore } from '../../store/authStore';
+import { Invoice } from '../../types';
 
 export function Billing() {
   const [activeTab, setActiveTab] = useState<'invoices' | 'payment-methods'>('invoices');
 
-  const invoices = [
-    {
-      id: 'INV-2024-001',
-      date: '2024-10-01',
-      amount: 1299.00,
-      status: 'paid',
-      description: 'G.4GB - Monthly Subscription',
-    },
-    {
-      id: 'INV-2024-002',
-      date: '2024-09-01',
-      amount: 1299.00,
-      status: 'paid',
-      description: 'G.4GB - Monthly Subscription',
-    },
-    {
-      id: 'INV-2024-003',
-      date: '2024-08-01',
-      amount: 1299.00,
-      status: 'paid',
-      description: 'G.4GB - Monthly Subscription',
-    },
-  ];
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const user = useUserStore((state) => state.user);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    invoicesApi
+      .list({ signal: controller.signal })
+      .then((loaded) => setInvoices([...loaded].sort((a, b) => b.created_at.localeCompare(a.created_at))))
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load invoices'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Invoices raised before billing details were frozen onto them print today's details
+  const handleDownload = async (invoice: Invoice) => {
+    const buyer = invoice.billed_to ?? (user && invoiceBuyer(user));
+    if (!buyer) return;
+    setDownloadingId(invoice.id);
+    setError('');
+    try {
+      await downloadInvoicePdf(invoice, buyer);
+    } catch (err) {
+      setError(getErrorMessage(err, `Could not create the PDF for ${invoice.invoice_number}`));
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const outstanding = invoices.filter((i) => i.status === 'pending');
+  const balance = outstanding.reduce((sum, i) => sum + i.total_amount, 0);
 
   const paymentMethods = [
     {
@@ -80,8 +103,12 @@ export function Billing() {
             <p className="text-sm text-slate-400">Your account balance</p>
           </div>
           <div className="text-right">
-            <p className="text-3xl font-bold text-cyan-400">₹0.00</p>
-            <p className="text-sm text-slate-400">No outstanding balance</p>
+            <p className="text-3xl font-bold text-cyan-400">{formatCurrency(balance)}</p>
+            <p className="text-sm text-slate-400">
+              {outstanding.length === 0
+                ? 'No outstanding balance'
+                : `${outstanding.length} unpaid invoice${outstanding.length === 1 ? '' : 's'}`}
+            </p>
           </div>
         </div>
       </div>
@@ -115,7 +142,12 @@ export function Billing() {
         <div className="p-6">
           {activeTab === 'invoices' && (
             <div className="space-y-4">
-              {invoices.length === 0 ? (
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+              )}
+              {loading ? (
+                <div className="text-slate-400 text-center py-12">Loading invoices...</div>
+              ) : invoices.length === 0 ? (
                 <div className="text-center py-12">
                   <CreditCard className="h-12 w-12 text-slate-600 mx-auto mb-4" />
                   <p className="text-slate-400">No invoices yet</p>
@@ -135,36 +167,65 @@ export function Billing() {
                     </thead>
                     <tbody>
                       {invoices.map((invoice) => (
-                        <tr key={invoice.id} className="border-b border-cyan-500/10 hover:bg-slate-950 transition">
-                          <td className="py-4 px-4 text-sm font-medium text-white">{invoice.id}</td>
-                          <td className="py-4 px-4 text-sm text-slate-400">
-                            {new Date(invoice.date).toLocaleDateString()}
-                          </td>
-                          <td className="py-4 px-4 text-sm text-slate-400">{invoice.description}</td>
-                          <td className="py-4 px-4 text-sm font-semibold text-white text-right">
-                            ₹{invoice.amount.toFixed(2)}
-                          </td>
-                          <td className="py-4 px-4">
-                            <div className="flex items-center justify-center">
-                              <span
-                                className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
-                                  invoice.status
-                                )}`}
+                        <Fragment key={invoice.id}>
+                          <tr className="border-b border-cyan-500/10 hover:bg-slate-950 transition">
+                            <td className="py-4 px-4 text-sm font-medium text-white">
+                              <button
+                                onClick={() => setExpandedId(expandedId === invoice.id ? null : invoice.id)}
+                                className="inline-flex items-center space-x-1 hover:text-cyan-400 transition"
+                                title="Show items and tax"
                               >
-                                {getStatusIcon(invoice.status)}
-                                <span className="capitalize">{invoice.status}</span>
-                              </span>
-                            </div>
-                          </td>
-                          <td className="py-4 px-4">
-                            <div className="flex items-center justify-center">
-                              <button className="inline-flex items-center space-x-1 px-3 py-1.5 text-xs font-semibold text-cyan-400 hover:text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition">
-                                <Download className="h-3.5 w-3.5" />
-                                <span>Download</span>
+                                {expandedId === invoice.id ? (
+                                  <ChevronDown className="h-4 w-4" />
+                                ) : (
+                                  <ChevronRight className="h-4 w-4" />
+                                )}
+                                <span>{invoice.invoice_number}</span>
                               </button>
-                            </div>
-                          </td>
-                        </tr>
+                            </td>
+                            <td className="py-4 px-4 text-sm text-slate-400">
+                              {new Date(invoice.created_at).toLocaleDateString()}
+                            </td>
+                            <td className="py-4 px-4 text-sm text-slate-400">
+                              {invoice.items[0]?.description}
+                              {invoice.items.length > 1 && ` + ${invoice.items.length - 1} more`}
+                            </td>
+                            <td className="py-4 px-4 text-sm font-semibold text-white text-right">
+                              {formatCurrency(invoice.total_amount)}
+                            </td>
+                            <td className="py-4 px-4">
+                              <div className="flex items-center justify-center">
+                                <span
+                                  className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
+                                    invoice.status
+                                  )}`}
+                                >
+                                  {getStatusIcon(invoice.status)}
+                                  <span className="capitalize">{invoice.status}</span>
+                                </span>
+                              </div>
+                            </td>
+                            <td className="py-4 px-4">
+                              <div className="flex items-center justify-center">
+                                <button
+                                  onClick={() => handleDownload(invoice)}
+                                  disabled={downloadingId === invoice.id}
+                                  className="inline-flex items-center space-x-1 px-3 py-1.5 text-xs font-semibold text-cyan-400 hover:text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition disabled:opacity-50"
+                                >
+                                  <Download className="h-3.5 w-3.5" />
+                                  <span>{downloadingId === invoice.id ? 'Preparing...' : 'Download'}</span>
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                          {expandedId === invoice.id && (
+                            <tr className="border-b border-cyan-500/10">
+                              <td colSpan={6} className="px-4 pb-4">
+                                <InvoiceBreakdown invoice={invoice} />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -0,0 +1,590 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, Check, MapPin } from 'lucide-react';
+import { imagesApi, imageLabel } from '../../api/images';
+import { addOnMonthlyPrice } from '../../api/addOns';
+import { ordersApi } from '../../api/orders';
+import { serversApi } from '../../api/servers';
+import { MAX_ADDITIONAL_IPV4 } from '../../api/ipAddresses';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { ImagePicker } from '../../components/servers/ImagePicker';
+import { CouponField } from '../../components/coupons/CouponField';
+import { RootAccessFields } from '../../components/servers/RootAccessFields';
+import { fromOrderCycle, plansOfType } from '../../lib/catalog';
+import { DEPLOY_ADD_ON_SLUGS, PAYMENT_METHODS, quoteDeploy } from '../../lib/checkout';
+import { isValidHostname, normalizeHostname } from '../../lib/dns';
+import { placeOfSupplyLabel, taxLines } from '../../lib/gst';
+import { planPrice } from '../../lib/proration';
+import { formatCurrency } from '../../lib/referral';
+import { DEFAULT_REGION, REGIONS, getRegion, isPlanAvailable, regionName } from '../../lib/regions';
+import { AccessMethod, accessError } from '../../lib/rootPassword';
+import { useCatalogStore } from '../../store/catalogStore';
+import { useServersStore } from '../../store/serversStore';
+import { useUserStore } from '../../store/authStore';
+import { AppliedCoupon, BillingCycle, HostingPlan, OsImage, Order, OrderAddOnLine } from '../../types';
+
+type CheckoutStep = 'plan' | 'image' | 'configure' | 'review';
+
+const STEPS: { id: CheckoutStep; label: string }[] = [
+  { id: 'plan', label: 'Plan & Region' },
+  { id: 'image', label: 'Image' },
+  { id: 'configure', label: 'Configure' },
+  { id: 'review', label: 'Review & Pay' },
+];
+
+// Step that owns each field the orders API can reject, so an error sends the user back there
+const FIELD_STEPS: Record<string, CheckoutStep> = {
+  plan_id: 'plan',
+  billing_cycle: 'plan',
+  region: 'plan',
+  os_image_id: 'image',
+  server_name: 'configure',
+  hostname: 'configure',
+  root_password: 'configure',
+  ssh_key_ids: 'configure',
+  add_ons: 'configure',
+  coupon_code: 'review',
+};
+
+const fitsPlan = (image: OsImage, plan: HostingPlan) =>
+  (!image.min_ram_gb || plan.ram_gb >= image.min_ram_gb) &&
+  (!image.min_storage_gb || plan.storage_gb >= image.min_storage_gb);
+
+export function Deploy() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const watchJob = useServersStore((state) => state.watchJob);
+  const user = useUserStore((state) => state.user);
+  const { catalog, fetchCatalog } = useCatalogStore();
+
+  const [images, setImages] = useState<OsImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  const [step, setStep] = useState<CheckoutStep>('plan');
+  // Plans are picked by slug so the choice survives the bundled catalog being swapped for the backend's
+  const [planSlug, setPlanSlug] = useState(searchParams.get('plan') ?? '');
+  const [cycle, setCycle] = useState<BillingCycle>(searchParams.get('cycle') === 'annual' ? 'annual' : 'monthly');
+  const [region, setRegion] = useState(getRegion(searchParams.get('region') ?? '')?.slug ?? DEFAULT_REGION);
+  const [imageId, setImageId] = useState('');
+  const [serverName, setServerName] = useState('');
+  const [hostname, setHostname] = useState('');
+  const [accessMethod, setAccessMethod] = useState<AccessMethod>('password');
+  const [rootPassword, setRootPassword] = useState('');
+  const [sshKeyIds, setSshKeyIds] = useState<string[]>([]);
+  const [backupSlug, setBackupSlug] = useState('');
+  const [extraIpv4, setExtraIpv4] = useState(0);
+  const [paymentMethod, setPaymentMethod] = useState(PAYMENT_METHODS[0].id);
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
+  // Kept after a failed payment so retrying charges the same order instead of placing another
+  const [order, setOrder] = useState<Order | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchCatalog();
+    const controller = new AbortController();
+    imagesApi
+      .list({ signal: controller.signal })
+      .then(setImages)
+      .catch((err) => {
+        if (!controller.signal.aborted) setLoadError(getErrorMessage(err, 'Failed to load images'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [fetchCatalog]);
+
+  const planGroups = catalog.plan_types
+    .map((type) => ({ type, plans: plansOfType(catalog, type.slug) }))
+    .filter((group) => group.plans.length > 0);
+  const addOns = catalog.add_ons.filter((a) => a.is_active && DEPLOY_ADD_ON_SLUGS.includes(a.slug));
+  const plan = catalog.plans.find((p) => p.slug === planSlug && p.is_active);
+  const image = images.find((i) => i.id === imageId);
+  const ipv4AddOn = addOns.find((a) => a.slug === 'additional-ipv4');
+  const backupAddOns = addOns.filter((a) => a.slug.startsWith('backups-'));
+
+  const addOnLines: OrderAddOnLine[] = [
+    ...addOns.filter((a) => a.slug === backupSlug).map((a) => ({ add_on_id: a.id, quantity: 1 })),
+    ...(ipv4AddOn && extraIpv4 > 0 ? [{ add_on_id: ipv4AddOn.id, quantity: extraIpv4 }] : []),
+  ];
+  // Taxed for the billing details on the profile, as the invoice will be
+  const quote = plan
+    ? quoteDeploy(catalog, plan, cycle, region, addOnLines, coupon, user)
+    : null;
+
+  const planReady = !!plan && isPlanAvailable(region, plan.slug);
+  const imageReady = planReady && !!image && fitsPlan(image, plan!);
+  const hostnameError = hostname && !isValidHostname(hostname) ? 'Enter a valid hostname, e.g. web-02.example.com' : '';
+  const configureReady =
+    !!serverName.trim() && !!hostname && !hostnameError && !accessError(accessMethod, rootPassword, sshKeyIds);
+  const ready: Record<CheckoutStep, boolean> = {
+    plan: true,
+    image: planReady,
+    configure: imageReady,
+    review: imageReady && configureReady,
+  };
+
+  // Anything edited after an order was placed needs a new order; the unpaid one is dropped
+  const dropOrder = () => {
+    if (!order) return;
+    ordersApi.cancel(order.id).catch(() => undefined);
+    setOrder(null);
+  };
+
+  const goTo = (target: CheckoutStep) => {
+    if (!ready[target]) return;
+    if (target !== 'review') dropOrder();
+    setStep(target);
+  };
+
+  const changeCoupon = (next: AppliedCoupon | null) => {
+    if (next?.code !== coupon?.code) dropOrder();
+    setCoupon(next);
+    setFormErrors((prev) => {
+      const next = { ...prev };
+      delete next.coupon_code;
+      return next;
+    });
+  };
+
+  const handlePay = async () => {
+    if (!plan || !image) return;
+    setSubmitting(true);
+    setFormErrors({});
+    let placed = order;
+    try {
+      if (!placed) {
+        placed = await ordersApi.create({
+          plan_id: plan.id,
+          billing_cycle: cycle,
+          region,
+          payment_method: paymentMethod,
+          server_name: serverName.trim(),
+          hostname: normalizeHostname(hostname),
+          os_image_id: image.id,
+          ...(accessMethod === 'password' ? { root_password: rootPassword } : { ssh_key_ids: sshKeyIds }),
+          add_ons: addOnLines,
+          coupon_code: coupon?.code,
+        });
+        setOrder(placed);
+      }
+      const paid = await ordersApi.pay(placed.id, paymentMethod);
+      const serverId = paid.server_id!;
+      watchJob(serverId, await serversApi.job(serverId, paid.provision_job_id!));
+      navigate(`/dashboard/servers/${serverId}`);
+    } catch (err) {
+      const apiError = toApiError(err);
+      // An order that can no longer be paid (e.g. its hostname was taken) is replaced on the next try
+      if (placed && apiError.status === 409) setOrder(null);
+      const field = Object.keys(apiError.fieldErrors)[0];
+      if (field) {
+        setFormErrors(apiError.fieldErrors);
+        if (FIELD_STEPS[field]) setStep(FIELD_STEPS[field]);
+      } else {
+        setFormErrors({ form: apiError.message });
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white';
+  const primaryButton =
+    'px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg hover:from-cyan-400 hover:to-teal-400 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed';
+  const secondaryButton = 'px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold';
+  const cardClass = (selected: boolean, disabled = false) =>
+    `p-4 rounded-lg border-2 text-left transition ${
+      disabled
+        ? 'border-slate-700 opacity-50 cursor-not-allowed'
+        : selected
+          ? 'border-cyan-400 bg-cyan-500/10'
+          : 'border-cyan-500/30 hover:border-cyan-500/60'
+    }`;
+  const fieldError = (field: string) =>
+    formErrors[field] && <p className="text-sm text-red-400 mt-1">{formErrors[field]}</p>;
+
+  const stepIndex = STEPS.findIndex((s) => s.id === step);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/dashboard/servers"
+          className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-cyan-400 transition mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          My Servers
+        </Link>
+        <h2 className="text-2xl font-bold text-white">Deploy New Server</h2>
+        <p className="text-slate-400">Pick a plan, an image and how you log in; the server is built as soon as you pay</p>
+      </div>
+
+      {loadError && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {loadError}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {STEPS.map((s, index) => (
+          <div key={s.id} className="flex items-center gap-2">
+            {index > 0 && <span className="text-slate-600">›</span>}
+            <button
+              onClick={() => goTo(s.id)}
+              disabled={!ready[s.id]}
+              className={
+                step === s.id ? 'text-cyan-400 font-semibold' : ready[s.id] ? 'text-slate-300 hover:text-white' : 'text-slate-500'
+              }
+            >
+              {index + 1}. {s.label}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        <div className="lg:col-span-2 bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 space-y-6">
+          {formErrors.form && (
+            <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {formErrors.form}
+            </div>
+          )}
+
+          {step === 'plan' && (
+            <>
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Billing</h3>
+                <div className="flex gap-2">
+                  {(['monthly', 'annual'] as BillingCycle[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setCycle(option)}
+                      className={`px-4 py-2 rounded-lg font-semibold text-sm transition ${
+                        cycle === option ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {option === 'monthly' ? 'Monthly' : 'Annual'}
+                    </button>
+                  ))}
+                </div>
+                {fieldError('billing_cycle')}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Region</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {REGIONS.map((r) => (
+                    <button key={r.slug} onClick={() => setRegion(r.slug)} className={cardClass(region === r.slug)}>
+                      <p className="font-semibold text-white flex items-center gap-1">
+                        <MapPin className="h-4 w-4 text-cyan-400" />
+                        {r.name}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {r.country}
+                        {r.price_multiplier !== 1 && ` • +${Math.round((r.price_multiplier - 1) * 100)}%`}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+                {fieldError('region')}
+              </div>
+
+              {planGroups.map(({ type, plans }) => (
+                <div key={type.slug}>
+                  <h3 className="text-lg font-semibold text-white mb-3">{type.name}</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                    {plans.map((p) => {
+                        const available = isPlanAvailable(region, p.slug);
+                        return (
+                          <button
+                            key={p.id}
+                            onClick={() => available && setPlanSlug(p.slug)}
+                            disabled={!available}
+                            className={cardClass(planSlug === p.slug, !available)}
+                          >
+                            <p className="font-semibold text-white">{p.name}</p>
+                            <p className="text-xs text-slate-400 mt-1">
+                              {p.vcpu} vCPU • {p.ram_gb} GB RAM • {p.storage_gb} GB SSD
+                            </p>
+                            <p className="text-cyan-400 font-semibold mt-2">
+                              {available
+                                ? `${formatCurrency(planPrice(catalog, p, cycle, region))}/${cycle === 'annual' ? 'yr' : 'mo'}`
+                                : `Not available in ${regionName(region)}`}
+                            </p>
+                          </button>
+                        );
+                      })}
+                  </div>
+                </div>
+              ))}
+              {fieldError('plan_id')}
+
+              <div className="flex justify-end">
+                <button onClick={() => goTo('image')} disabled={!ready.image} className={primaryButton}>
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'image' && plan && (
+            <>
+              <ImagePicker
+                images={images}
+                loading={loading}
+                selectedId={imageId}
+                onSelect={setImageId}
+                ramGb={plan.ram_gb}
+                storageGb={plan.storage_gb}
+              />
+              {fieldError('os_image_id')}
+              <div className="flex justify-between gap-3">
+                <button onClick={() => goTo('plan')} className={secondaryButton}>
+                  Back
+                </button>
+                <button onClick={() => goTo('configure')} disabled={!ready.configure} className={primaryButton}>
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'configure' && plan && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-300 mb-2">Server Name</label>
+                  <input
+                    type="text"
+                    value={serverName}
+                    onChange={(e) => setServerName(e.target.value)}
+                    placeholder="web-02"
+                    className={inputClass}
+                  />
+                  {fieldError('server_name')}
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-300 mb-2">Hostname</label>
+                  <input
+                    type="text"
+                    value={hostname}
+                    onChange={(e) => setHostname(e.target.value)}
+                    placeholder="web-02.example.com"
+                    className={inputClass}
+                  />
+                  {hostnameError ? <p className="text-sm text-orange-400 mt-1">{hostnameError}</p> : fieldError('hostname')}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Root Access</h3>
+                <RootAccessFields
+                  method={accessMethod}
+                  onMethodChange={setAccessMethod}
+                  rootPassword={rootPassword}
+                  onRootPasswordChange={setRootPassword}
+                  sshKeyIds={sshKeyIds}
+                  onSshKeyIdsChange={setSshKeyIds}
+                  sshKeyHint="Password login for root is disabled; only the selected keys can log in."
+                />
+                {fieldError('root_password')}
+                {fieldError('ssh_key_ids')}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Add-ons</h3>
+                <div className="space-y-4">
+                  {backupAddOns.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-300 mb-2">Automatic Backups</label>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <button onClick={() => setBackupSlug('')} className={cardClass(backupSlug === '')}>
+                          <p className="font-semibold text-white">None</p>
+                          <p className="text-xs text-slate-400 mt-1">Take snapshots yourself</p>
+                        </button>
+                        {backupAddOns.map((addOn) => (
+                          <button
+                            key={addOn.id}
+                            onClick={() => setBackupSlug(addOn.slug)}
+                            className={cardClass(backupSlug === addOn.slug)}
+                          >
+                            <p className="font-semibold text-white">{addOn.name}</p>
+                            <p className="text-xs text-slate-400 mt-1">
+                              {formatCurrency(addOnMonthlyPrice(addOn, plan.storage_gb))}/mo
+                            </p>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {ipv4AddOn && (
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-300 mb-2">
+                        Additional IPv4 Addresses ({formatCurrency(ipv4AddOn.price_per_unit)}/mo each)
+                      </label>
+                      <select
+                        value={extraIpv4}
+                        onChange={(e) => setExtraIpv4(Number(e.target.value))}
+                        className={`${inputClass} max-w-xs`}
+                      >
+                        {Array.from({ length: MAX_ADDITIONAL_IPV4 + 1 }, (_, count) => (
+                          <option key={count} value={count}>
+                            {count === 0 ? 'None' : count}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {fieldError('add_ons')}
+                </div>
+              </div>
+
+              <div className="flex justify-between gap-3">
+                <button onClick={() => goTo('image')} className={secondaryButton}>
+                  Back
+                </button>
+                <button onClick={() => goTo('review')} disabled={!ready.review} className={primaryButton}>
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'review' && plan && image && quote && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div className="bg-slate-800 rounded-lg p-4">
+                  <p className="text-slate-400">Server</p>
+                  <p className="text-white font-semibold">{serverName.trim()}</p>
+                  <p className="text-slate-300">{normalizeHostname(hostname)}</p>
+                </div>
+                <div className="bg-slate-800 rounded-lg p-4">
+                  <p className="text-slate-400">Image</p>
+                  <p className="text-white font-semibold">{imageLabel(image)}</p>
+                  <p className="text-slate-300">
+                    {accessMethod === 'password' ? 'Root password' : `${sshKeyIds.length} SSH key${sshKeyIds.length === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Payment Method</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {PAYMENT_METHODS.map((method) => (
+                    <button
+                      key={method.id}
+                      onClick={() => setPaymentMethod(method.id)}
+                      className={cardClass(paymentMethod === method.id)}
+                    >
+                      <p className="font-semibold text-white">{method.label}</p>
+                    </button>
+                  ))}
+                </div>
+                {fieldError('payment_method')}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Promo Code</h3>
+                <div className="max-w-md">
+                  <CouponField
+                    planId={plan.id}
+                    cycle={fromOrderCycle(cycle)}
+                    applied={coupon}
+                    onChange={changeCoupon}
+                    error={formErrors.coupon_code}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-between gap-3">
+                <button onClick={() => goTo('configure')} disabled={submitting} className={secondaryButton}>
+                  Back
+                </button>
+                <button onClick={handlePay} disabled={submitting} className={primaryButton}>
+                  {submitting ? 'Processing payment...' : `Pay ${formatCurrency(quote.total)}`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 lg:sticky lg:top-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Order Summary</h3>
+          {plan && quote ? (
+            <div className="space-y-4 text-sm">
+              <ul className="space-y-2">
+                <li className="flex items-center gap-2 text-slate-300">
+                  <MapPin className="h-4 w-4 text-cyan-400" />
+                  {regionName(region)}
+                </li>
+                {image && stepIndex > 0 && (
+                  <li className="flex items-center gap-2 text-slate-300">
+                    <Check className="h-4 w-4 text-cyan-400" />
+                    {imageLabel(image)}
+                  </li>
+                )}
+              </ul>
+              <div className="border-t border-cyan-500/30 pt-4 space-y-2">
+                {quote.lines.map((line) => (
+                  <div key={line.description} className="flex justify-between gap-4">
+                    <span className="text-slate-300">{line.description}</span>
+                    <span className="text-white whitespace-nowrap">{formatCurrency(line.list)}</span>
+                  </div>
+                ))}
+                {quote.cycle_discount > 0 && (
+                  <div className="flex justify-between gap-4">
+                    <span className="text-green-400">Billing cycle discount</span>
+                    <span className="text-green-400 whitespace-nowrap">-{formatCurrency(quote.cycle_discount)}</span>
+                  </div>
+                )}
+                {coupon && quote.coupon_discount > 0 && (
+                  <div className="flex justify-between gap-4">
+                    <span className="text-green-400">Coupon {coupon.code}</span>
+                    <span className="text-green-400 whitespace-nowrap">-{formatCurrency(quote.coupon_discount)}</span>
+                  </div>
+                )}
+              </div>
+              <div className="border-t border-cyan-500/30 pt-4 space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Subtotal</span>
+                  <span className="text-white">{formatCurrency(quote.taxable)}</span>
+                </div>
+                {taxLines(quote.tax_breakdown).map((line) => (
+                  <div key={line.label} className="flex justify-between">
+                    <span className="text-slate-400">{line.label}</span>
+                    <span className="text-white">{formatCurrency(line.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-base font-bold">
+                  <span className="text-white">Total due today</span>
+                  <span className="text-cyan-400">{formatCurrency(quote.total)}</span>
+                </div>
+              </div>
+              <p className="text-xs text-slate-400">
+                Place of supply: {placeOfSupplyLabel(quote.tax_breakdown)}
+                {user?.gstin && <> · GSTIN {user.gstin}</>}.{' '}
+                <Link to="/dashboard/settings" className="text-cyan-400 hover:text-cyan-300">
+                  Billing details
+                </Link>
+              </p>
+              {!planReady && (
+                <p className="text-orange-400">
+                  {plan.name} is not available in {regionName(region)}; pick another plan or region.
+                </p>
+              )}
+              <p className="text-xs text-slate-400">
+                Renews {cycle === 'annual' ? 'every year' : 'every month'} at the same price until you cancel.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400">Choose a plan to see the price.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Globe, Plus, Settings, Trash2, AlertCircle } from 'lucide-react';
+import { dnsApi } from '../../api/dns';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { RAMAERA_NAMESERVERS } from '../../lib/dns';
+import { DnsZone } from '../../types';
+
+export function Dns() {
+  const navigate = useNavigate();
+  const [zones, setZones] = useState<DnsZone[]>([]);
+  const [domain, setDomain] = useState('');
+  const [domainError, setDomainError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    dnsApi
+      .listZones({ signal: controller.signal })
+      .then(setZones)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load DNS zones'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!domain.trim()) return;
+    setBusy(true);
+    setDomainError('');
+    try {
+      const zone = await dnsApi.createZone({ domain: domain.trim() });
+      navigate(`/dashboard/dns/${zone.id}`);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setDomainError(apiError.fieldErrors.domain ?? apiError.message);
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (zone: DnsZone) => {
+    if (!confirm(`Delete the zone for ${zone.domain} and its ${zone.records.length} records? The domain stops resolving.`)) return;
+    setError('');
+    try {
+      await dnsApi.deleteZone(zone.id);
+      setZones((current) => current.filter((z) => z.id !== zone.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete zone'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">DNS</h2>
+        <p className="text-slate-400">Host your domains' DNS records next to your servers</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 flex flex-wrap items-start gap-4"
+      >
+        <div className="flex-1 min-w-[16rem]">
+          <label className="block text-sm font-semibold text-white mb-2">Add a domain</label>
+          <input
+            type="text"
+            value={domain}
+            onChange={(e) => {
+              setDomain(e.target.value);
+              setDomainError('');
+            }}
+            placeholder="example.com"
+            className="w-full px-4 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white font-mono"
+          />
+          {domainError ? (
+            <p className="text-xs text-red-400 mt-1">{domainError}</p>
+          ) : (
+            <p className="text-xs text-slate-500 mt-1">
+              Then set your registrar's nameservers to {RAMAERA_NAMESERVERS.join(' and ')}.
+            </p>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={!domain.trim() || busy}
+          className="mt-7 px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          {busy ? 'Creating...' : 'Create Zone'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="text-slate-400 text-center py-12">Loading DNS zones...</div>
+      ) : zones.length === 0 ? (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+          <Globe className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">You don't host any domains yet</p>
+        </div>
+      ) : (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 divide-y divide-cyan-500/20">
+          {zones.map((zone) => (
+            <div key={zone.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <div className="w-10 h-10 bg-cyan-500/20 rounded-lg flex items-center justify-center">
+                  <Globe className="h-5 w-5 text-cyan-400" />
+                </div>
+                <div>
+                  <p className="font-semibold text-white font-mono">{zone.domain}</p>
+                  <p className="text-sm text-slate-400">
+                    {zone.records.length} record{zone.records.length === 1 ? '' : 's'} · updated{' '}
+                    {new Date(zone.updated_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Link
+                  to={`/dashboard/dns/${zone.id}`}
+                  className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2"
+                >
+                  <Settings className="h-4 w-4" />
+                  Manage
+                </Link>
+                <button
+                  onClick={() => handleDelete(zone)}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                  title="Delete zone"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Globe, Plus, Edit2, Trash2, Upload, Download, Server, AlertCircle } from 'lucide-react';
+import { dnsApi } from '../../api/dns';
+import { getErrorMessage } from '../../api/errors';
+import { serializeZone } from '../../lib/bindZone';
+import { DNS_RECORD_TYPES, absoluteName, formatRecordValue } from '../../lib/dns';
+import { DnsRecordForm } from '../../components/dns/DnsRecordForm';
+import { ImportZoneModal } from '../../components/dns/ImportZoneModal';
+import { PointDomainModal } from '../../components/dns/PointDomainModal';
+import { DnsRecord, DnsZone } from '../../types';
+
+// The apex first, then names alphabetically, grouped by type within a name
+const sortRecords = (records: DnsRecord[]) =>
+  [...records].sort(
+    (a, b) =>
+      (a.name === '@' ? '' : a.name).localeCompare(b.name === '@' ? '' : b.name) ||
+      DNS_RECORD_TYPES.indexOf(a.type) - DNS_RECORD_TYPES.indexOf(b.type)
+  );
+
+export function DnsZoneDetail() {
+  const { zoneId = '' } = useParams();
+  const [zone, setZone] = useState<DnsZone | null>(null);
+  // 'new' for the add form, or the id of the record being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [modal, setModal] = useState<'import' | 'point' | null>(null);
+  const [notice, setNotice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    dnsApi
+      .getZone(zoneId, { signal: controller.signal })
+      .then(setZone)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load DNS zone'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [zoneId]);
+
+  if (!zone) {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-400">Loading DNS zone...</div>
+        </div>
+      );
+    }
+    return (
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+        <Globe className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+        <p className="text-slate-400 mb-6">{error}</p>
+        <Link to="/dashboard/dns" className="text-cyan-400 hover:text-cyan-300 font-semibold">
+          Back to DNS
+        </Link>
+      </div>
+    );
+  }
+
+  const handleSaved = (record: DnsRecord) => {
+    setZone({
+      ...zone,
+      records: zone.records.some((r) => r.id === record.id)
+        ? zone.records.map((r) => (r.id === record.id ? record : r))
+        : [...zone.records, record],
+    });
+    setEditing(null);
+  };
+
+  const handleDelete = async (record: DnsRecord) => {
+    if (!confirm(`Delete the ${record.type} record for ${absoluteName(record.name, zone.domain)}?`)) return;
+    setError('');
+    try {
+      await dnsApi.deleteRecord(zone.id, record.id);
+      setZone({ ...zone, records: zone.records.filter((r) => r.id !== record.id) });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete record'));
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeZone(zone)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${zone.domain}.zone`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const records = sortRecords(zone.records);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/dashboard/dns"
+          className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-cyan-400 transition mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          DNS
+        </Link>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="flex items-start space-x-4">
+            <div className="w-12 h-12 bg-cyan-500/20 rounded-lg flex items-center justify-center">
+              <Globe className="h-6 w-6 text-cyan-400" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white font-mono">{zone.domain}</h2>
+              <p className="text-slate-400">
+                {zone.records.length} record{zone.records.length === 1 ? '' : 's'} · default TTL {zone.default_ttl}s
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setModal('point')}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2"
+            >
+              <Server className="h-4 w-4" />
+              Point at Server
+            </button>
+            <button
+              onClick={() => setModal('import')}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </button>
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="bg-green-500/10 border border-green-500/30 text-green-400 px-4 py-3 rounded-lg text-sm">{notice}</div>
+      )}
+
+      <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4 text-sm text-slate-400">
+        Records are served once your registrar lists these nameservers for {zone.domain}:{' '}
+        {zone.nameservers.map((ns, i) => (
+          <span key={ns}>
+            {i > 0 && ', '}
+            <code className="text-cyan-400 font-mono">{ns}</code>
+          </span>
+        ))}
+        . Changes can take up to the record's TTL to reach visitors.
+      </div>
+
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 overflow-hidden">
+        <div className="px-4 py-3 border-b border-cyan-500/30 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Records</h3>
+          <button
+            onClick={() => setEditing('new')}
+            disabled={editing === 'new'}
+            className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add Record
+          </button>
+        </div>
+
+        {editing === 'new' && (
+          <div className="p-4 border-b border-cyan-500/30">
+            <DnsRecordForm zone={zone} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+          </div>
+        )}
+
+        {records.length === 0 ? (
+          <p className="px-4 py-8 text-center text-slate-400">
+            No records yet. Add one, import a zone file, or point the domain at a server.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400 uppercase border-b border-cyan-500/30">
+                  <th className="px-4 py-2">Type</th>
+                  <th className="px-4 py-2">Name</th>
+                  <th className="px-4 py-2">Value</th>
+                  <th className="px-4 py-2">TTL</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-cyan-500/20">
+                {records.map((record) =>
+                  editing === record.id ? (
+                    <tr key={record.id}>
+                      <td colSpan={5} className="p-4">
+                        <DnsRecordForm
+                          zone={zone}
+                          record={record}
+                          onSaved={handleSaved}
+                          onCancel={() => setEditing(null)}
+                        />
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={record.id} className="hover:bg-slate-800/50">
+                      <td className="px-4 py-2">
+                        <span className="px-2 py-0.5 rounded bg-cyan-500/20 text-cyan-400 text-xs font-semibold">
+                          {record.type}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 font-mono text-white">{record.name}</td>
+                      <td className="px-4 py-2 font-mono text-slate-300 break-all">{formatRecordValue(record)}</td>
+                      <td className="px-4 py-2 text-slate-400">{record.ttl}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => setEditing(record.id)}
+                            className="p-2 text-slate-400 hover:text-cyan-400 transition"
+                            title="Edit record"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(record)}
+                            className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+                            title="Delete record"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {modal === 'import' && (
+        <ImportZoneModal
+          zone={zone}
+          onClose={() => setModal(null)}
+          onImported={(updated, imported) => {
+            setZone(updated);
+            setModal(null);
+            setNotice(`Imported ${imported} record${imported === 1 ? '' : 's'}.`);
+          }}
+        />
+      )}
+      {modal === 'point' && (
+        <PointDomainModal
+          zone={zone}
+          onClose={() => setModal(null)}
+          onPointed={(updated) => {
+            setZone(updated);
+            setModal(null);
+            setNotice(`${zone.domain} now points at the selected server.`);
+          }}
+        />
+      )}
+    </div>
+  );
+}
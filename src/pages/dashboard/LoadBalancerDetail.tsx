@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Shuffle, RefreshCw, Settings, Trash2, AlertCircle } from 'lucide-react';
+import { loadBalancersApi } from '../../api/loadBalancers';
+import { getErrorMessage } from '../../api/errors';
+import { LoadBalancerForm } from '../../components/loadBalancers/LoadBalancerForm';
+import { PROTOCOL_LABELS, describeForwardingRule, getHealthColor, loadBalancerSize } from '../../lib/loadBalancers';
+import { formatCurrency } from '../../lib/referral';
+import { regionName } from '../../lib/regions';
+import { useServersStore } from '../../store/serversStore';
+import { LoadBalancer } from '../../types';
+
+export function LoadBalancerDetail() {
+  const { loadBalancerId = '' } = useParams();
+  const navigate = useNavigate();
+  const { servers, fetchServers } = useServersStore();
+  const [lb, setLb] = useState<LoadBalancer | null>(null);
+  const [editing, setEditing] = useState(false);
+  // The pool being edited; null while showing the saved pool
+  const [pool, setPool] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchServers();
+    loadBalancersApi
+      .get(loadBalancerId, { signal: controller.signal })
+      .then(setLb)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load load balancer'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [loadBalancerId, fetchServers]);
+
+  if (!lb) {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-400">Loading load balancer...</div>
+        </div>
+      );
+    }
+    return (
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+        <Shuffle className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+        <p className="text-slate-400 mb-6">{error}</p>
+        <Link to="/dashboard/load-balancers" className="text-cyan-400 hover:text-cyan-300 font-semibold">
+          Back to Load Balancers
+        </Link>
+      </div>
+    );
+  }
+
+  const run = async (key: string, action: () => Promise<void>, fallback: string) => {
+    setBusy(key);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const size = loadBalancerSize(lb.size);
+  const candidates = servers.filter((s) => s.user_id === lb.user_id && s.region === lb.region && s.ip_address);
+
+  const handleSavePool = () =>
+    run(
+      'pool',
+      async () => {
+        setLb(await loadBalancersApi.setBackends(lb.id, pool ?? []));
+        setPool(null);
+      },
+      'Failed to update backends'
+    );
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${lb.name}? Traffic to ${lb.ip_address} stops immediately.`)) return;
+    run(
+      'delete',
+      async () => {
+        await loadBalancersApi.remove(lb.id);
+        navigate('/dashboard/load-balancers');
+      },
+      'Failed to delete load balancer'
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/dashboard/load-balancers"
+          className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-cyan-400 transition mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Load Balancers
+        </Link>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="flex items-start space-x-4">
+            <div className="w-12 h-12 bg-cyan-500/20 rounded-lg flex items-center justify-center">
+              <Shuffle className="h-6 w-6 text-cyan-400" />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <h2 className="text-2xl font-bold text-white">{lb.name}</h2>
+                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${getHealthColor(lb.status)}`}>{lb.status}</span>
+              </div>
+              <p className="text-slate-400">
+                <span className="font-mono text-cyan-400">{lb.ip_address}</span> · {regionName(lb.region)} ·{' '}
+                {size?.name ?? lb.size} · {formatCurrency(lb.monthly_price)}/month
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => run('refresh', async () => setLb(await loadBalancersApi.get(lb.id)), 'Failed to refresh')}
+              disabled={busy === 'refresh'}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${busy === 'refresh' ? 'animate-spin' : ''}`} />
+              Check Now
+            </button>
+            <button
+              onClick={() => setEditing(!editing)}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2"
+            >
+              <Settings className="h-4 w-4" />
+              Settings
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={busy === 'delete'}
+              className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition"
+              title="Delete load balancer"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {editing ? (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6">
+          <LoadBalancerForm
+            loadBalancer={lb}
+            onSaved={(updated) => {
+              setLb(updated);
+              setEditing(false);
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4">
+            <p className="text-xs text-slate-400 uppercase mb-2">Forwarding rules</p>
+            {lb.forwarding_rules.map((rule) => (
+              <p key={rule.id} className="text-sm text-white font-mono">
+                {describeForwardingRule(rule)}
+              </p>
+            ))}
+            <p className="text-xs text-slate-500 mt-2">
+              {lb.algorithm === 'round_robin' ? 'Round robin' : 'Least connections'}
+            </p>
+          </div>
+          <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4">
+            <p className="text-xs text-slate-400 uppercase mb-2">Health check</p>
+            <p className="text-sm text-white font-mono">
+              {PROTOCOL_LABELS[lb.health_check.protocol]} :{lb.health_check.port}
+              {lb.health_check.protocol !== 'tcp' && lb.health_check.path}
+            </p>
+            <p className="text-xs text-slate-500 mt-2">
+              Every {lb.health_check.interval_seconds}s, {lb.health_check.timeout_seconds}s timeout · healthy after{' '}
+              {lb.health_check.healthy_threshold}, unhealthy after {lb.health_check.unhealthy_threshold}
+            </p>
+          </div>
+          <div className="bg-slate-950 border-2 border-cyan-500/50 rounded-lg p-4">
+            <p className="text-xs text-slate-400 uppercase mb-2">Sticky sessions</p>
+            {lb.sticky_sessions.enabled ? (
+              <>
+                <p className="text-sm text-white font-mono">{lb.sticky_sessions.cookie_name}</p>
+                <p className="text-xs text-slate-500 mt-2">Cookie lasts {lb.sticky_sessions.cookie_ttl_seconds}s</p>
+              </>
+            ) : (
+              <p className="text-sm text-slate-400">Off</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 overflow-hidden">
+        <div className="px-4 py-3 border-b border-cyan-500/30 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Backends</h3>
+          {pool === null ? (
+            <button
+              onClick={() => setPool(lb.backends.map((b) => b.server_id))}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+            >
+              Edit Pool
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPool(null)}
+                className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSavePool}
+                disabled={busy === 'pool'}
+                className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm disabled:opacity-50"
+              >
+                Save Pool
+              </button>
+            </div>
+          )}
+        </div>
+
+        {pool !== null ? (
+          <div className="p-4 space-y-2">
+            <p className="text-xs text-slate-400">
+              Up to {size?.max_backends} backends on this size. Only servers in {regionName(lb.region)} that have finished
+              provisioning are listed.
+            </p>
+            {candidates.map((server) => (
+              <label key={server.id} className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={pool.includes(server.id)}
+                  onChange={(e) =>
+                    setPool(e.target.checked ? [...pool, server.id] : pool.filter((id) => id !== server.id))
+                  }
+                />
+                {server.server_name} <span className="text-slate-500">({server.ip_address})</span>
+              </label>
+            ))}
+          </div>
+        ) : lb.backends.length === 0 ? (
+          <p className="px-4 py-8 text-center text-slate-400">No backends. Add servers to start serving traffic.</p>
+        ) : (
+          <div className="divide-y divide-cyan-500/20">
+            {lb.backends.map((backend) => {
+              const server = servers.find((s) => s.id === backend.server_id);
+              return (
+                <div key={backend.server_id} className="px-4 py-3 flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <Link
+                      to={`/dashboard/servers/${backend.server_id}`}
+                      className="font-semibold text-white hover:text-cyan-400 transition"
+                    >
+                      {server?.server_name ?? backend.server_id}
+                    </Link>
+                    <p className="text-xs text-slate-400 font-mono">{server?.ip_address}</p>
+                  </div>
+                  <div className="text-right">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${getHealthColor(backend.health)}`}>
+                      {backend.health}
+                    </span>
+                    {backend.reason && <p className="text-xs text-slate-400 mt-1">{backend.reason}</p>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
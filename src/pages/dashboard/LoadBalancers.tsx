@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Shuffle, Plus, X } from 'lucide-react';
+import { loadBalancersApi } from '../../api/loadBalancers';
+import { getErrorMessage } from '../../api/errors';
+import { LoadBalancerForm } from '../../components/loadBalancers/LoadBalancerForm';
+import { describeForwardingRule, getHealthColor, loadBalancerSize } from '../../lib/loadBalancers';
+import { formatCurrency } from '../../lib/referral';
+import { regionName } from '../../lib/regions';
+import { useServersStore } from '../../store/serversStore';
+import { LoadBalancer } from '../../types';
+
+export function LoadBalancers() {
+  const { servers, fetchServers } = useServersStore();
+  const navigate = useNavigate();
+  const [loadBalancers, setLoadBalancers] = useState<LoadBalancer[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchServers();
+    loadBalancersApi
+      .list({ signal: controller.signal })
+      .then(setLoadBalancers)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load load balancers'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [fetchServers]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Load Balancers</h2>
+          <p className="text-slate-400">Spread traffic across your servers and route around the ones that fail</p>
+        </div>
+        {!creating && (
+          <button
+            onClick={() => setCreating(true)}
+            className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Create Load Balancer
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {creating && (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white">Create Load Balancer</h3>
+            <button onClick={() => setCreating(false)} className="text-slate-400 hover:text-white">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <LoadBalancerForm
+            servers={servers.filter((s) => s.ip_address)}
+            onSaved={(created) => navigate(`/dashboard/load-balancers/${created.id}`)}
+            onCancel={() => setCreating(false)}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-slate-400 text-center py-12">Loading load balancers...</div>
+      ) : loadBalancers.length === 0 ? (
+        !creating && (
+          <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+            <Shuffle className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400">No load balancers yet. Create one to put several servers behind a single address.</p>
+          </div>
+        )
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {loadBalancers.map((lb) => {
+            const healthy = lb.backends.filter((b) => b.health === 'healthy').length;
+            return (
+              <Link
+                key={lb.id}
+                to={`/dashboard/load-balancers/${lb.id}`}
+                className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 hover:shadow-lg hover:shadow-cyan-500/30 transition"
+              >
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div className="flex items-center gap-2">
+                    <Shuffle className="h-5 w-5 text-cyan-400" />
+                    <h3 className="text-lg font-semibold text-white">{lb.name}</h3>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold ${getHealthColor(lb.status)}`}>{lb.status}</span>
+                </div>
+                <p className="font-mono text-cyan-400">{lb.ip_address}</p>
+                <p className="text-sm text-slate-400 mt-1">
+                  {regionName(lb.region)} · {loadBalancerSize(lb.size)?.name ?? lb.size} · {formatCurrency(lb.monthly_price)}/month
+                </p>
+                <p className="text-sm text-slate-300 mt-3">{lb.forwarding_rules.map(describeForwardingRule).join(', ')}</p>
+                <p className="text-sm text-slate-400 mt-1">
+                  {healthy}/{lb.backends.length} backend{lb.backends.length === 1 ? '' : 's'} healthy
+                </p>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
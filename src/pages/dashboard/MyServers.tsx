@@ -1,61 +1,18 @@
-import { Server, Power, PowerOff, RefreshCw, Settings, MoreVertical } from 'lucide-react';
+import { useEffect } from 'react';
+import { Server, Settings, AlertCircle, MapPin } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { useServersStore } from '../../store/serversStore';
+import { ServerPowerControls } from '../../components/servers/ServerPowerControls';
+import { ServerStatusBadge } from '../../components/servers/ServerStatusBadge';
+import { regionName } from '../../lib/regions';
 
 export function MyServers() {
-  const servers = [
-    {
-      id: 1,
-      name: 'Production Web Server',
-      hostname: 'web-prod-01.ramaera.cloud',
-      status: 'active',
-      ip: '192.168.1.100',
-      plan: 'Professional',
-      vcpu: 4,
-      ram: 8,
-      storage: 160,
-      os: 'Ubuntu 22.04 LTS',
-      created: '2024-01-15',
-      expires: '2025-01-15',
-    },
-    {
-      id: 2,
-      name: 'Database Server',
-      hostname: 'db-prod-01.ramaera.cloud',
-      status: 'active',
-      ip: '192.168.1.101',
-      plan: 'Memory Plus',
-      vcpu: 8,
-      ram: 64,
-      storage: 320,
-      os: 'Ubuntu 22.04 LTS',
-      created: '2024-02-01',
-      expires: '2025-02-01',
-    },
-    {
-      id: 3,
-      name: 'Development Server',
-      hostname: 'dev-01.ramaera.cloud',
-      status: 'stopped',
-      ip: '192.168.1.102',
-      plan: 'Starter',
-      vcpu: 2,
-      ram: 4,
-      storage: 80,
-      os: 'Ubuntu 22.04 LTS',
-      created: '2024-03-10',
-      expires: '2025-03-10',
-    },
-  ];
+  const { servers, loading, error, fetchServers, startPolling } = useServersStore();
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      active: 'bg-green-100 text-green-700',
-      stopped: 'bg-slate-800 text-slate-300',
-      provisioning: 'bg-blue-100 text-blue-700',
-      error: 'bg-red-100 text-red-700',
-    };
-    return colors[status as keyof typeof colors] || colors.stopped;
-  };
+  useEffect(() => {
+    fetchServers();
+    return startPolling();
+  }, [fetchServers, startPolling]);
 
   return (
     <div className="space-y-6">
@@ -65,92 +22,104 @@ export function MyServers() {
           <p className="text-slate-400">Manage and monitor all your servers</p>
         </div>
         <Link
-          to="/pricing"
+          to="/dashboard/deploy"
           className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold border-2 border-cyan-500"
         >
           Deploy New Server
         </Link>
       </div>
 
-      <div className="grid grid-cols-1 gap-6">
-        {servers.map((server) => (
-          <div key={server.id} className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 overflow-hidden hover:shadow-lg hover:shadow-cyan-500/30 transition">
-            <div className="p-6">
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-start space-x-4">
-                  <div className="w-12 h-12 bg-cyan-500/20 rounded-lg flex items-center justify-center">
-                    <Server className="h-6 w-6 text-cyan-400" />
-                  </div>
-                  <div>
-                    <h3 className="text-lg font-semibold text-white mb-1">{server.name}</h3>
-                    <p className="text-sm text-slate-400 mb-2">{server.hostname}</p>
-                    <span className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(server.status)}`}>
-                      {server.status}
-                    </span>
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading && servers.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-cyan-500 border-r-transparent"></div>
+          <p className="text-slate-400 mt-4">Loading servers...</p>
+        </div>
+      ) : servers.length === 0 ? (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+          <Server className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">You don't have any servers yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6">
+          {servers.map((server) => (
+            <div key={server.id} className="bg-slate-900 rounded-xl shadow-sm border-2 border-cyan-500 overflow-hidden hover:shadow-lg hover:shadow-cyan-500/30 transition">
+              <div className="p-6">
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex items-start space-x-4">
+                    <div className="w-12 h-12 bg-cyan-500/20 rounded-lg flex items-center justify-center">
+                      <Server className="h-6 w-6 text-cyan-400" />
+                    </div>
+                    <div>
+                      <h3 className="text-lg font-semibold text-white mb-1">{server.server_name}</h3>
+                      <p className="text-sm text-slate-400 mb-2">{server.hostname}</p>
+                      <ServerStatusBadge server={server} />
+                    </div>
                   </div>
                 </div>
-                <button className="text-slate-400 hover:text-cyan-400">
-                  <MoreVertical className="h-5 w-5" />
-                </button>
-              </div>
 
-              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6 bg-slate-950 p-4 rounded-lg border-2 border-cyan-500/50">
-                <div>
-                  <p className="text-xs text-slate-400 mb-1">Plan</p>
-                  <p className="font-semibold text-white">{server.plan}</p>
-                </div>
-                <div>
-                  <p className="text-xs text-slate-400 mb-1">IP Address</p>
-                  <p className="font-semibold text-white">{server.ip}</p>
-                </div>
-                <div>
-                  <p className="text-xs text-slate-400 mb-1">Resources</p>
-                  <p className="font-semibold text-white">{server.vcpu} vCPU, {server.ram}GB RAM</p>
-                </div>
-                <div>
-                  <p className="text-xs text-slate-400 mb-1">Storage</p>
-                  <p className="font-semibold text-white">{server.storage}GB NVMe</p>
-                </div>
-                <div>
-                  <p className="text-xs text-slate-400 mb-1">Operating System</p>
-                  <p className="font-semibold text-white">{server.os}</p>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6 bg-slate-950 p-4 rounded-lg border-2 border-cyan-500/50">
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Plan</p>
+                    <p className="font-semibold text-white">{server.plan?.name ?? '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Region</p>
+                    <p className="font-semibold text-white flex items-center gap-1">
+                      <MapPin className="h-4 w-4 text-cyan-400" />
+                      {regionName(server.region)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">IP Address</p>
+                    <p className="font-semibold text-white">{server.ip_address ?? 'Assigning...'}</p>
+                    {server.ip_addresses?.some((a) => a.vpc_id) && (
+                      <p className="text-xs text-slate-400 font-mono mt-0.5">
+                        {server.ip_addresses.find((a) => a.vpc_id)!.address} (VPC)
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Resources</p>
+                    <p className="font-semibold text-white">{server.vcpu} vCPU, {server.ram_gb}GB RAM</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Storage</p>
+                    <p className="font-semibold text-white">{server.storage_gb}GB NVMe</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Operating System</p>
+                    <p className="font-semibold text-white">{server.os_type}</p>
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex items-center justify-between pt-4 border-t border-cyan-500">
-                <div className="text-sm text-slate-400">
-                  Created: {new Date(server.created).toLocaleDateString()} •
-                  Expires: {new Date(server.expires).toLocaleDateString()}
-                </div>
-                <div className="flex items-center space-x-2">
-                  {server.status === 'active' ? (
-                    <button className="px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition font-semibold flex items-center space-x-2">
-                      <PowerOff className="h-4 w-4" />
-                      <span>Stop</span>
-                    </button>
-                  ) : (
-                    <button className="px-4 py-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition font-semibold flex items-center space-x-2">
-                      <Power className="h-4 w-4" />
-                      <span>Start</span>
-                    </button>
-                  )}
-                  <button className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition font-semibold flex items-center space-x-2">
-                    <RefreshCw className="h-4 w-4" />
-                    <span>Reboot</span>
-                  </button>
-                  <Link
-                    to={`/dashboard/servers/${server.id}`}
-                    className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold flex items-center space-x-2 border-2 border-cyan-500"
-                  >
-                    <Settings className="h-4 w-4" />
-                    <span>Manage</span>
-                  </Link>
+                <div className="flex items-center justify-between pt-4 border-t border-cyan-500">
+                  <div className="text-sm text-slate-400">
+                    Created: {new Date(server.created_at).toLocaleDateString()} •
+                    Expires: {new Date(server.expires_at).toLocaleDateString()}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <ServerPowerControls server={server} />
+                    <Link
+                      to={`/dashboard/servers/${server.id}`}
+                      className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold flex items-center space-x-2 border-2 border-cyan-500"
+                    >
+                      <Settings className="h-4 w-4" />
+                      <span>Manage</span>
+                    </Link>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import { Server, CreditCard, AlertCircle, TrendingUp } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { regionName } from '../../lib/regions';
 
 export function Overview() {
   const stats = [
@@ -41,6 +42,7 @@ export function Overview() {
       status: 'active',
       ip: '192.168.1.100',
       plan: 'Professional',
+      region: 'mumbai',
     },
     {
       id: 2,
@@ -49,6 +51,7 @@ export function Overview() {
       status: 'active',
       ip: '192.168.1.101',
       plan: 'Memory Plus',
+      region: 'mumbai',
     },
     {
       id: 3,
@@ -57,6 +60,7 @@ export function Overview() {
       status: 'stopped',
       ip: '192.168.1.102',
       plan: 'Starter',
+      region: 'mumbai',
     },
   ];
 
@@ -137,6 +141,8 @@ export function Overview() {
                       <span>{server.ip}</span>
                       <span>•</span>
                       <span>{server.plan}</span>
+                      <span>•</span>
+                      <span>{regionName(server.region)}</span>
                     </div>
                   </div>
                   <span
@@ -196,14 +202,22 @@ export function Overview() {
       <div className="bg-gradient-to-br from-slate-900 via-cyan-900 to-slate-900 rounded-xl shadow-lg p-8 text-white border-2 border-cyan-500">
         <h3 className="text-2xl font-bold mb-2">Need More Resources?</h3>
         <p className="text-cyan-200 mb-6">
-          Upgrade your servers or add new ones to scale your infrastructure
+          Resize any server in place from its page, or add new ones to scale your infrastructure
         </p>
-        <Link
-          to="/pricing"
-          className="inline-block px-6 py-3 bg-white text-cyan-600 rounded-lg font-semibold hover:bg-cyan-50 transition border-2 border-cyan-400"
-        >
-          View Plans
-        </Link>
+        <div className="flex flex-wrap gap-3">
+          <Link
+            to="/dashboard/servers"
+            className="inline-block px-6 py-3 bg-white text-cyan-600 rounded-lg font-semibold hover:bg-cyan-50 transition border-2 border-cyan-400"
+          >
+            Resize a Server
+          </Link>
+          <Link
+            to="/pricing"
+            className="inline-block px-6 py-3 bg-transparent text-white rounded-lg font-semibold hover:bg-white/10 transition border-2 border-cyan-400"
+          >
+            View Plans
+          </Link>
+        </div>
       </div>
     </div>
   );
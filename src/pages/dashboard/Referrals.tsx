@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Users, DollarSign, TrendingUp, Gift, Copy, Check } from 'lucide-react';
-import { getReferralStats, formatCurrency } from '../../lib/referral';
+import { formatCurrency } from '../../lib/referral';
+import { referralRepository } from '../../repositories';
 import { ReferralStats } from '../../types';
 import { ReferralEarningsTab } from '../../components/referrals/ReferralEarningsTab';
 import { ReferralPayoutsTab } from '../../components/referrals/ReferralPayoutsTab';
@@ -17,7 +18,7 @@ export function Referrals() {
 
   const loadStats = async () => {
     try {
-      const data = await getReferralStats();
+      const data = await referralRepository.getStats();
       setStats(data);
     } catch (error) {
       console.error('Failed to load referral stats:', error);
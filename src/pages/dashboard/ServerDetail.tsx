@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Server, AlertCircle, RotateCcw, Maximize2 } from 'lucide-react';
+import { useServersStore } from '../../store/serversStore';
+import { ServerStatusBadge } from '../../components/servers/ServerStatusBadge';
+import { ServerOverviewTab } from '../../components/servers/ServerOverviewTab';
+import { ServerMetricsTab } from '../../components/servers/ServerMetricsTab';
+import { ServerPowerTab } from '../../components/servers/ServerPowerTab';
+import { ServerConsoleTab } from '../../components/servers/ServerConsoleTab';
+import { ServerNetworkingTab } from '../../components/servers/ServerNetworkingTab';
+import { ServerFirewallTab } from '../../components/servers/ServerFirewallTab';
+import { ServerBackupsTab } from '../../components/servers/ServerBackupsTab';
+import { ServerActivityTab } from '../../components/servers/ServerActivityTab';
+import { RebuildWizard } from '../../components/servers/RebuildWizard';
+import { ResizeServerModal } from '../../components/servers/ResizeServerModal';
+import { regionName } from '../../lib/regions';
+import { ServerStatus } from '../../types';
+
+type ServerTab = 'overview' | 'metrics' | 'power' | 'console' | 'networking' | 'firewall' | 'backups' | 'activity';
+
+const TABS: { id: ServerTab; label: string }[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'metrics', label: 'Graphs' },
+  { id: 'power', label: 'Power' },
+  { id: 'console', label: 'Console' },
+  { id: 'networking', label: 'Networking' },
+  { id: 'firewall', label: 'Firewall' },
+  { id: 'backups', label: 'Backups' },
+  { id: 'activity', label: 'Activity' },
+];
+
+// Shown until the first job poll comes back with a step of its own
+const PROGRESS_MESSAGES: Partial<Record<ServerStatus, string>> = {
+  provisioning: 'Provisioning server...',
+  rebuilding: 'Rebuilding server...',
+  restoring: 'Restoring from snapshot...',
+};
+
+export function ServerDetail() {
+  const { id = '' } = useParams();
+  const server = useServersStore((state) => state.servers.find((s) => s.id === id));
+  const { loading, error, fetchServer, startPolling } = useServersStore();
+  const job = useServersStore((state) => state.jobs[id]);
+  const [activeTab, setActiveTab] = useState<ServerTab>('overview');
+  const [showRebuild, setShowRebuild] = useState(false);
+  const [showResize, setShowResize] = useState(false);
+
+  useEffect(() => {
+    fetchServer(id);
+    return startPolling();
+  }, [id, fetchServer, startPolling]);
+
+  if (!server) {
+    if (loading || !error) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-400">Loading server...</div>
+        </div>
+      );
+    }
+    return (
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+        <Server className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+        <p className="text-slate-400 mb-6">{error}</p>
+        <Link to="/dashboard/servers" className="text-cyan-400 hover:text-cyan-300 font-semibold">
+          Back to My Servers
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/dashboard/servers"
+          className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-cyan-400 transition mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          My Servers
+        </Link>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="flex items-start space-x-4">
+            <div className="w-12 h-12 bg-cyan-500/20 rounded-lg flex items-center justify-center">
+              <Server className="h-6 w-6 text-cyan-400" />
+            </div>
+            <div>
+              <div className="flex items-center gap-3 mb-1">
+                <h2 className="text-2xl font-bold text-white">{server.server_name}</h2>
+                <ServerStatusBadge server={server} />
+              </div>
+              <p className="text-slate-400">
+                {server.hostname}
+                {server.ip_address && ` • ${server.ip_address}`} • {regionName(server.region)}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowResize(true)}
+              disabled={server.status === 'suspended' || server.status === 'provisioning'}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Maximize2 className="h-4 w-4" />
+              Resize
+            </button>
+            <button
+              onClick={() => setShowRebuild(true)}
+              disabled={server.status !== 'active' && server.status !== 'stopped'}
+              className="px-4 py-2 bg-slate-800 text-slate-300 border border-cyan-500/30 rounded-lg hover:bg-slate-700 hover:text-white transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Rebuild OS
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {(server.status === 'provisioning' || server.status === 'rebuilding' || server.status === 'restoring') && (
+        <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg px-4 py-3">
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-blue-300 font-semibold">{job?.message || PROGRESS_MESSAGES[server.status]}</span>
+            {job && <span className="text-blue-300">{job.progress}%</span>}
+          </div>
+          <div className="w-full bg-slate-800 rounded-full h-2 overflow-hidden">
+            <div
+              className="h-2 bg-gradient-to-r from-cyan-500 to-teal-500 transition-all duration-500"
+              style={{ width: `${job?.progress ?? 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 overflow-hidden">
+        <div className="border-b border-cyan-500/30 overflow-x-auto">
+          <div className="flex space-x-1 p-1">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-6 py-3 rounded-lg font-semibold transition whitespace-nowrap ${
+                  activeTab === tab.id ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6">
+          {activeTab === 'overview' && <ServerOverviewTab server={server} />}
+          {activeTab === 'metrics' && <ServerMetricsTab server={server} />}
+          {activeTab === 'power' && <ServerPowerTab server={server} />}
+          {activeTab === 'console' && <ServerConsoleTab server={server} />}
+          {activeTab === 'networking' && <ServerNetworkingTab server={server} />}
+          {activeTab === 'firewall' && <ServerFirewallTab server={server} />}
+          {activeTab === 'backups' && <ServerBackupsTab server={server} />}
+          {activeTab === 'activity' && <ServerActivityTab server={server} />}
+        </div>
+      </div>
+
+      {showRebuild && <RebuildWizard server={server} onClose={() => setShowRebuild(false)} />}
+      {showResize && <ResizeServerModal server={server} onClose={() => setShowResize(false)} />}
+    </div>
+  );
+}
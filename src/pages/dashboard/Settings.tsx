@@ -1,10 +1,22 @@
 import { useState } from 'react';
-import { User, Lock, Bell, Shield, Mail } from 'lucide-react';
+import { User, Lock, Bell, Shield, Mail, KeyRound, Receipt } from 'lucide-react';
 import { useUserStore } from '../../store/authStore';
+import { toApiError } from '../../api/errors';
+import { SshKeysSettings } from '../../components/sshKeys/SshKeysSettings';
+import {
+  GST_STATES,
+  GST_TREATMENT_LABELS,
+  gstStateName,
+  gstTreatment,
+  isIndia,
+  normalizeGstin,
+  placeOfSupply,
+  validateGstBuyer,
+} from '../../lib/gst';
 
 export function Settings() {
-  const { user } = useUserStore();
-  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'notifications'>('profile');
+  const { user, updateProfile } = useUserStore();
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'ssh_keys' | 'notifications'>('profile');
   const [isSaving, setIsSaving] = useState(false);
 
   const [profileData, setProfileData] = useState({
@@ -12,7 +24,23 @@ export function Settings() {
     email: user?.email || '',
     phone: user?.phone || '',
     company: user?.company_name || '',
+    address: user?.address || '',
+    city: user?.city || '',
+    country: user?.country || 'India',
+    billingState: user?.billing_state || '',
+    gstin: user?.gstin || '',
   });
+  const [profileErrors, setProfileErrors] = useState<Record<string, string>>({});
+  const [profileMessage, setProfileMessage] = useState('');
+
+  // State and GSTIN only apply to addresses in India; they are hidden and dropped otherwise
+  const inIndia = isIndia(profileData.country);
+  const buyer = {
+    country: profileData.country,
+    billing_state: inIndia ? profileData.billingState || null : null,
+    gstin: inIndia && profileData.gstin.trim() ? normalizeGstin(profileData.gstin) : null,
+  };
+  const treatment = gstTreatment(buyer);
 
   const [securityData, setSecurityData] = useState({
     currentPassword: '',
@@ -28,11 +56,38 @@ export function Settings() {
     marketingEmails: false,
   });
 
+  const updateProfileField = (field: keyof typeof profileData, value: string) => {
+    setProfileData({ ...profileData, [field]: value });
+    setProfileErrors({});
+    setProfileMessage('');
+  };
+
   const handleProfileSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const errors = validateGstBuyer(buyer);
+    if (!profileData.fullName.trim()) errors.full_name = 'Enter your name';
+    setProfileErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     setIsSaving(true);
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setIsSaving(false);
+    setProfileMessage('');
+    try {
+      await updateProfile({
+        full_name: profileData.fullName,
+        phone: profileData.phone,
+        company: profileData.company,
+        address: profileData.address,
+        city: profileData.city,
+        ...buyer,
+      });
+      setProfileMessage('Profile saved');
+    } catch (err) {
+      const apiError = toApiError(err);
+      setProfileErrors(apiError.fieldErrors);
+      if (Object.keys(apiError.fieldErrors).length === 0) setProfileErrors({ form: apiError.message });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleSecuritySubmit = async (e: React.FormEvent) => {
@@ -86,6 +141,17 @@ export function Settings() {
               <Lock className="h-4 w-4" />
               <span>Security</span>
             </button>
+            <button
+              onClick={() => setActiveTab('ssh_keys')}
+              className={`flex items-center space-x-2 px-6 py-4 text-sm font-semibold whitespace-nowrap transition ${
+                activeTab === 'ssh_keys'
+                  ? 'text-cyan-400 bg-cyan-500/10 border-b-2 border-cyan-500'
+                  : 'text-slate-400 hover:text-slate-300 hover:bg-slate-950'
+              }`}
+            >
+              <KeyRound className="h-4 w-4" />
+              <span>SSH Keys</span>
+            </button>
             <button
               onClick={() => setActiveTab('notifications')}
               className={`flex items-center space-x-2 px-6 py-4 text-sm font-semibold whitespace-nowrap transition ${
@@ -121,9 +187,10 @@ export function Settings() {
                   <input
                     type="text"
                     value={profileData.fullName}
-                    onChange={(e) => setProfileData({ ...profileData, fullName: e.target.value })}
+                    onChange={(e) => updateProfileField('fullName', e.target.value)}
                     className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
                   />
+                  {profileErrors.full_name && <p className="text-sm text-red-400 mt-1">{profileErrors.full_name}</p>}
                 </div>
 
                 <div>
@@ -133,9 +200,10 @@ export function Settings() {
                   <input
                     type="email"
                     value={profileData.email}
-                    onChange={(e) => setProfileData({ ...profileData, email: e.target.value })}
-                    className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
+                    disabled
+                    className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg text-slate-400 cursor-not-allowed"
                   />
+                  <p className="text-xs text-slate-500 mt-1">Contact support to change the email you sign in with</p>
                 </div>
 
                 <div>
@@ -145,7 +213,7 @@ export function Settings() {
                   <input
                     type="tel"
                     value={profileData.phone}
-                    onChange={(e) => setProfileData({ ...profileData, phone: e.target.value })}
+                    onChange={(e) => updateProfileField('phone', e.target.value)}
                     className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
                   />
                 </div>
@@ -157,13 +225,105 @@ export function Settings() {
                   <input
                     type="text"
                     value={profileData.company}
-                    onChange={(e) => setProfileData({ ...profileData, company: e.target.value })}
+                    onChange={(e) => updateProfileField('company', e.target.value)}
                     className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
                   />
                 </div>
               </div>
 
-              <div className="flex justify-end">
+              <div className="pt-6 border-t border-cyan-500/30">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Receipt className="h-5 w-5 text-cyan-400" />
+                  <h3 className="text-lg font-semibold text-white">Billing & GST</h3>
+                </div>
+                <p className="text-sm text-slate-400 mb-4">
+                  Printed on your invoices. Add your GSTIN to claim input tax credit on what you pay us.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-semibold text-slate-200 mb-2">Billing Address</label>
+                    <input
+                      type="text"
+                      value={profileData.address}
+                      onChange={(e) => updateProfileField('address', e.target.value)}
+                      className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-200 mb-2">City</label>
+                    <input
+                      type="text"
+                      value={profileData.city}
+                      onChange={(e) => updateProfileField('city', e.target.value)}
+                      className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-200 mb-2">Country</label>
+                    <input
+                      type="text"
+                      value={profileData.country}
+                      onChange={(e) => updateProfileField('country', e.target.value)}
+                      className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white placeholder-slate-400"
+                    />
+                  </div>
+
+                  {inIndia && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-200 mb-2">State</label>
+                        <select
+                          value={profileData.billingState}
+                          onChange={(e) => updateProfileField('billingState', e.target.value)}
+                          className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white"
+                        >
+                          <option value="">Select state</option>
+                          {GST_STATES.map((state) => (
+                            <option key={state.code} value={state.code}>
+                              {state.name}
+                            </option>
+                          ))}
+                        </select>
+                        {profileErrors.billing_state && (
+                          <p className="text-sm text-red-400 mt-1">{profileErrors.billing_state}</p>
+                        )}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-200 mb-2">
+                          GSTIN <span className="font-normal text-slate-500">(optional)</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={profileData.gstin}
+                          onChange={(e) => updateProfileField('gstin', e.target.value)}
+                          placeholder="27AAPFU0939F1ZV"
+                          maxLength={15}
+                          className="w-full px-4 py-3 bg-slate-950 border border-cyan-500/30 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-white uppercase placeholder-slate-500 font-mono"
+                        />
+                        {profileErrors.gstin && <p className="text-sm text-red-400 mt-1">{profileErrors.gstin}</p>}
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <p className="text-sm text-slate-400 mt-4">
+                  {treatment === 'export'
+                    ? 'Services billed outside India are exports: we charge no GST and you account for tax under reverse charge.'
+                    : `Place of supply ${gstStateName(placeOfSupply(buyer))}, so invoices charge ${GST_TREATMENT_LABELS[treatment]}.`}
+                </p>
+              </div>
+
+              {profileErrors.form && (
+                <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+                  {profileErrors.form}
+                </div>
+              )}
+
+              <div className="flex items-center justify-end space-x-4">
+                {profileMessage && <span className="text-sm text-green-400">{profileMessage}</span>}
                 <button
                   type="submit"
                   disabled={isSaving}
@@ -247,6 +407,8 @@ export function Settings() {
             </div>
           )}
 
+          {activeTab === 'ssh_keys' && <SshKeysSettings />}
+
           {activeTab === 'notifications' && (
             <form onSubmit={handleNotificationSubmit} className="space-y-6">
               <div>
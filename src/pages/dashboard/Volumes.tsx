@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react';
+import { HardDrive, Plus, X, AlertCircle } from 'lucide-react';
+import { volumesApi } from '../../api/volumes';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { VolumeCard } from '../../components/volumes/VolumeCard';
+import { formatCurrency } from '../../lib/referral';
+import { DEFAULT_REGION, REGIONS } from '../../lib/regions';
+import {
+  MAX_VOLUMES_PER_SERVER,
+  STORAGE_PRICE_PER_GB,
+  VOLUME_SIZE_PRESETS,
+  quoteStorageCharge,
+  validateVolumeName,
+  validateVolumeSize,
+  volumePrice,
+} from '../../lib/volumes';
+import { useServersStore } from '../../store/serversStore';
+import { Volume, VolumeSnapshot } from '../../types';
+
+export function Volumes() {
+  const { servers, fetchServers } = useServersStore();
+  const [volumes, setVolumes] = useState<Volume[]>([]);
+  const [name, setName] = useState('');
+  const [size, setSize] = useState('100');
+  const [region, setRegion] = useState(DEFAULT_REGION);
+  const [serverId, setServerId] = useState('');
+  const [restoreFrom, setRestoreFrom] = useState<VolumeSnapshot | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [creating, setCreating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchServers();
+    volumesApi
+      .list(undefined, { signal: controller.signal })
+      .then(setVolumes)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load volumes'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [fetchServers]);
+
+  const sizeGb = Number(size);
+  const nameError = name.trim() ? validateVolumeName(name) : null;
+  const sizeError =
+    validateVolumeSize(sizeGb) ??
+    (restoreFrom && sizeGb < restoreFrom.size_gb ? `Must be at least the snapshot's ${restoreFrom.size_gb} GB` : null);
+  const quote = sizeError ? null : quoteStorageCharge(sizeGb);
+
+  // Servers that have finished provisioning and still have a free volume slot
+  const candidates = servers.filter(
+    (s) => s.ip_address && volumes.filter((v) => v.server_id === s.id).length < MAX_VOLUMES_PER_SERVER
+  );
+  const regionCandidates = candidates.filter((s) => s.region === region);
+
+  const replace = (volume: Volume) => setVolumes((current) => current.map((v) => (v.id === volume.id ? volume : v)));
+
+  const handleRestore = (snapshot: VolumeSnapshot, volume: Volume) => {
+    setRestoreFrom(snapshot);
+    setName(`${volume.name}-restore`);
+    setSize(String(snapshot.size_gb));
+    setRegion(volume.region);
+    setServerId('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (nameError || sizeError) return;
+    setCreating(true);
+    setFormErrors({});
+    try {
+      const created = await volumesApi.create({
+        name: name.trim(),
+        size_gb: sizeGb,
+        region,
+        server_id: serverId || undefined,
+        snapshot_id: restoreFrom?.id,
+      });
+      setVolumes((current) => [...current, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setServerId('');
+      setRestoreFrom(null);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setFormErrors(Object.keys(apiError.fieldErrors).length > 0 ? apiError.fieldErrors : { form: apiError.message });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const monthlyTotal = volumes.reduce((sum, v) => sum + v.monthly_price, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Block Storage</h2>
+          <p className="text-slate-400">
+            Volumes you can move between servers, grow on demand and snapshot, at{' '}
+            {formatCurrency(STORAGE_PRICE_PER_GB)}/GB per month
+          </p>
+        </div>
+        {volumes.length > 0 && (
+          <div className="text-right">
+            <p className="text-xs text-slate-400">Monthly storage</p>
+            <p className="text-xl font-bold text-cyan-400">{formatCurrency(monthlyTotal)}</p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white">Create Volume</h3>
+        {restoreFrom && (
+          <div className="flex items-center justify-between gap-2 bg-cyan-500/10 border border-cyan-500/30 text-cyan-300 px-4 py-2 rounded-lg text-sm">
+            <span>
+              Restoring from snapshot "{restoreFrom.name}" ({restoreFrom.size_gb} GB)
+            </span>
+            <button type="button" onClick={() => setRestoreFrom(null)} className="text-cyan-300 hover:text-white">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {formErrors.form && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {formErrors.form}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="pg-data"
+              maxLength={64}
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+            />
+            {(nameError || formErrors.name) && <p className="text-xs text-red-400 mt-1">{nameError ?? formErrors.name}</p>}
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Region</label>
+            <select
+              value={region}
+              onChange={(e) => {
+                setRegion(e.target.value);
+                setServerId('');
+              }}
+              disabled={!!restoreFrom}
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white disabled:opacity-60"
+            >
+              {REGIONS.map((r) => (
+                <option key={r.slug} value={r.slug}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+            {formErrors.region && <p className="text-xs text-red-400 mt-1">{formErrors.region}</p>}
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Attach to (optional)</label>
+            <select
+              value={serverId}
+              onChange={(e) => setServerId(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+            >
+              <option value="">Don't attach yet</option>
+              {regionCandidates.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.server_name} ({s.hostname})
+                </option>
+              ))}
+            </select>
+            {formErrors.server_id && <p className="text-xs text-red-400 mt-1">{formErrors.server_id}</p>}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm text-slate-400 mb-1">Size (GB)</label>
+          <div className="flex flex-wrap items-center gap-2">
+            {VOLUME_SIZE_PRESETS.map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() => setSize(String(preset))}
+                className={`px-3 py-2 rounded-lg text-sm font-semibold transition ${
+                  sizeGb === preset
+                    ? 'bg-cyan-600 text-white'
+                    : 'bg-slate-800 text-slate-300 border border-cyan-500/30 hover:bg-slate-700'
+                }`}
+              >
+                {preset} GB
+              </button>
+            ))}
+            <input
+              type="number"
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+              className="w-28 px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+            />
+          </div>
+          {(sizeError || formErrors.size_gb) && (
+            <p className="text-xs text-red-400 mt-1">{sizeError ?? formErrors.size_gb}</p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-slate-400">
+            {quote && (
+              <>
+                <span className="text-white font-semibold">{formatCurrency(volumePrice(sizeGb))}/month</span> ·{' '}
+                {formatCurrency(quote.amount)} + GST invoiced now for the remaining {quote.days_remaining} days of this
+                month
+              </>
+            )}
+          </p>
+          <button
+            type="submit"
+            disabled={!name.trim() || !!nameError || !!sizeError || creating}
+            className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            {creating ? 'Creating...' : 'Create Volume'}
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="text-slate-400 text-center py-12">Loading volumes...</div>
+      ) : volumes.length === 0 ? (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+          <HardDrive className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">No volumes yet. Create one to keep data separate from any single server.</p>
+        </div>
+      ) : (
+        volumes.map((volume) => (
+          <VolumeCard
+            key={volume.id}
+            volume={volume}
+            servers={servers}
+            candidates={candidates.filter((s) => s.user_id === volume.user_id && s.region === volume.region)}
+            onChange={replace}
+            onRemoved={(id) => setVolumes((current) => current.filter((v) => v.id !== id))}
+            onRestore={handleRestore}
+          />
+        ))
+      )}
+    </div>
+  );
+}
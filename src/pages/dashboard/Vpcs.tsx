@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Network, Plus, Trash2, Unlink, AlertCircle } from 'lucide-react';
+import { vpcsApi } from '../../api/vpcs';
+import { getErrorMessage, toApiError } from '../../api/errors';
+import { DEFAULT_REGION, REGIONS, regionName } from '../../lib/regions';
+import { suggestVpcCidr, validateVpcCidr } from '../../lib/vpc';
+import { useServersStore } from '../../store/serversStore';
+import { Vpc } from '../../types';
+
+export function Vpcs() {
+  const { servers, fetchServers } = useServersStore();
+  const [vpcs, setVpcs] = useState<Vpc[]>([]);
+  const [name, setName] = useState('');
+  const [region, setRegion] = useState(DEFAULT_REGION);
+  const [cidr, setCidr] = useState('');
+  const [description, setDescription] = useState('');
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [attachIds, setAttachIds] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchServers();
+    vpcsApi
+      .list({ signal: controller.signal })
+      .then((loaded) => {
+        setVpcs(loaded);
+        setCidr(suggestVpcCidr(loaded));
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, 'Failed to load VPCs'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [fetchServers]);
+
+  const cidrError = cidr.trim() ? validateVpcCidr(cidr, vpcs) : null;
+
+  const replace = (vpc: Vpc) => setVpcs((current) => current.map((v) => (v.id === vpc.id ? vpc : v)));
+
+  const run = async (key: string, action: () => Promise<void>, fallback: string) => {
+    setBusy(key);
+    setError('');
+    try {
+      await action();
+      // Membership changes add or remove a private address on the server
+      await fetchServers();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cidrError) return;
+    setBusy('create');
+    setFormErrors({});
+    try {
+      const created = await vpcsApi.create({
+        name: name.trim(),
+        region,
+        cidr: cidr.trim(),
+        description: description.trim() || undefined,
+      });
+      const next = [...vpcs, created].sort((a, b) => a.name.localeCompare(b.name));
+      setVpcs(next);
+      setName('');
+      setDescription('');
+      setCidr(suggestVpcCidr(next));
+    } catch (err) {
+      const apiError = toApiError(err);
+      setFormErrors(Object.keys(apiError.fieldErrors).length > 0 ? apiError.fieldErrors : { form: apiError.message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAttach = (vpc: Vpc) => {
+    const serverId = attachIds[vpc.id];
+    if (!serverId) return;
+    run(
+      vpc.id,
+      async () => {
+        replace(await vpcsApi.attach(vpc.id, serverId));
+        setAttachIds((current) => ({ ...current, [vpc.id]: '' }));
+      },
+      'Failed to attach server'
+    );
+  };
+
+  const handleDetach = (vpc: Vpc, serverId: string, serverName: string) => {
+    if (!confirm(`Detach ${serverName} from ${vpc.name}? Its private address in ${vpc.cidr} is released.`)) return;
+    run(vpc.id, async () => replace(await vpcsApi.detach(vpc.id, serverId)), 'Failed to detach server');
+  };
+
+  const handleDelete = (vpc: Vpc) => {
+    if (!confirm(`Delete the VPC "${vpc.name}"?`)) return;
+    run(
+      vpc.id,
+      async () => {
+        await vpcsApi.remove(vpc.id);
+        setVpcs((current) => current.filter((v) => v.id !== vpc.id));
+      },
+      'Failed to delete VPC'
+    );
+  };
+
+  // A server belongs to at most one VPC
+  const unattached = servers.filter((s) => s.ip_address && !vpcs.some((v) => v.server_ids.includes(s.id)));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">VPC Networks</h2>
+        <p className="text-slate-400">Connect your servers over a private network that never leaves the data center</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white">Create VPC</h3>
+        {formErrors.form && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {formErrors.form}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="production"
+              maxLength={64}
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+            />
+            {formErrors.name && <p className="text-xs text-red-400 mt-1">{formErrors.name}</p>}
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Region</label>
+            <select
+              value={region}
+              onChange={(e) => setRegion(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+            >
+              {REGIONS.map((r) => (
+                <option key={r.slug} value={r.slug}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+            {formErrors.region && <p className="text-xs text-red-400 mt-1">{formErrors.region}</p>}
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">IP range</label>
+            <input
+              type="text"
+              value={cidr}
+              onChange={(e) => setCidr(e.target.value)}
+              placeholder="10.10.0.0/24"
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white font-mono"
+            />
+            {(cidrError || formErrors.cidr) && (
+              <p className="text-xs text-red-400 mt-1">{cidrError ?? formErrors.cidr}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[16rem]">
+            <label className="block text-sm text-slate-400 mb-1">Description (optional)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={200}
+              className="w-full px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-white"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim() || !cidr.trim() || !!cidrError || busy === 'create'}
+            className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition font-semibold text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            {busy === 'create' ? 'Creating...' : 'Create VPC'}
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="text-slate-400 text-center py-12">Loading VPCs...</div>
+      ) : vpcs.length === 0 ? (
+        <div className="bg-slate-900 rounded-xl border-2 border-cyan-500 p-12 text-center">
+          <Network className="h-16 w-16 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">No VPCs yet. Create one and attach the servers that should talk privately.</p>
+        </div>
+      ) : (
+        vpcs.map((vpc) => {
+          const members = servers.filter((s) => vpc.server_ids.includes(s.id));
+          const candidates = unattached.filter((s) => s.user_id === vpc.user_id && s.region === vpc.region);
+          return (
+            <div key={vpc.id} className="bg-slate-900 rounded-xl border-2 border-cyan-500 overflow-hidden">
+              <div className="px-6 py-4 border-b border-cyan-500/30 flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Network className="h-5 w-5 text-cyan-400" />
+                    <h3 className="text-lg font-semibold text-white">{vpc.name}</h3>
+                  </div>
+                  <p className="text-sm text-slate-400 mt-1">
+                    <span className="font-mono text-cyan-400">{vpc.cidr}</span> · {regionName(vpc.region)}
+                    {vpc.description && ` · ${vpc.description}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(vpc)}
+                  disabled={vpc.server_ids.length > 0 || busy === vpc.id}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={vpc.server_ids.length > 0 ? 'Detach all servers first' : 'Delete VPC'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="divide-y divide-cyan-500/20">
+                {members.length === 0 && <p className="px-6 py-4 text-sm text-slate-400">No servers attached.</p>}
+                {members.map((server) => (
+                  <div key={server.id} className="px-6 py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <Link
+                        to={`/dashboard/servers/${server.id}`}
+                        className="font-semibold text-white hover:text-cyan-400 transition"
+                      >
+                        {server.server_name}
+                      </Link>
+                      <p className="text-xs text-slate-400">{server.hostname}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-mono text-sm text-white">
+                        {server.ip_addresses?.find((a) => a.vpc_id === vpc.id)?.address ?? '—'}
+                      </span>
+                      <button
+                        onClick={() => handleDetach(vpc, server.id, server.server_name)}
+                        disabled={busy === vpc.id}
+                        className="p-2 text-slate-400 hover:text-white transition"
+                        title="Detach from this VPC"
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {candidates.length > 0 && (
+                <div className="px-6 py-4 bg-slate-950 border-t border-cyan-500/30 flex flex-wrap items-center gap-2">
+                  <select
+                    value={attachIds[vpc.id] ?? ''}
+                    onChange={(e) => setAttachIds((current) => ({ ...current, [vpc.id]: e.target.value }))}
+                    className="px-3 py-2 bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-white"
+                  >
+                    <option value="">Attach a server...</option>
+                    {candidates.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.server_name} ({s.hostname})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleAttach(vpc)}
+                    disabled={!attachIds[vpc.id] || busy === vpc.id}
+                    className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Attach
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
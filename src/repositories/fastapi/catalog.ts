@@ -0,0 +1,13 @@
+import { catalogApi } from '../../api/catalog';
+import { CatalogRepository } from '../types';
+
+export const fastApiCatalogRepository: CatalogRepository = {
+  get: async () => {
+    try {
+      return await catalogApi.get();
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+      return null;
+    }
+  },
+};
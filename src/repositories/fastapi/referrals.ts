@@ -0,0 +1,80 @@
+import { referralsApi } from '../../api/referrals';
+import { getErrorMessage } from '../../api/errors';
+import { ReferralRepository } from '../types';
+
+export const fastApiReferralRepository: ReferralRepository = {
+  getStats: async () => {
+    try {
+      return await referralsApi.stats();
+    } catch (error) {
+      console.error('Error fetching referral stats:', error);
+      return null;
+    }
+  },
+
+  getEarnings: async () => {
+    try {
+      return await referralsApi.earnings();
+    } catch (error) {
+      console.error('Error fetching referral earnings:', error);
+      return [];
+    }
+  },
+
+  getPayouts: async () => {
+    try {
+      return await referralsApi.payouts();
+    } catch (error) {
+      console.error('Error fetching referral payouts:', error);
+      return [];
+    }
+  },
+
+  requestPayout: async (amount, paymentMethod, paymentDetails) => {
+    try {
+      await referralsApi.requestPayout({ amount, payment_method: paymentMethod, ...paymentDetails });
+      return { success: true };
+    } catch (error) {
+      console.error('Error requesting payout:', error);
+      return { success: false, error: getErrorMessage(error) };
+    }
+  },
+
+  getAdminStats: async () => {
+    try {
+      return await referralsApi.adminStats();
+    } catch (error) {
+      console.error('Error fetching admin referral stats:', error);
+      return null;
+    }
+  },
+
+  getAllPayouts: async () => {
+    try {
+      return await referralsApi.adminPayouts();
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+      return [];
+    }
+  },
+
+  approvePayout: async (payoutId, paymentReference) => {
+    try {
+      await referralsApi.approvePayout(payoutId, paymentReference);
+      return { success: true };
+    } catch (error) {
+      console.error('Error approving payout:', error);
+      return { success: false, error: getErrorMessage(error) };
+    }
+  },
+
+  rejectPayout: async (payoutId, rejectedReason) => {
+    try {
+      await referralsApi.rejectPayout(payoutId, rejectedReason);
+      return { success: true };
+    } catch (error) {
+      console.error('Error rejecting payout:', error);
+      return { success: false, error: getErrorMessage(error) };
+    }
+  },
+};
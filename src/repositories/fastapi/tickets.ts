@@ -0,0 +1,24 @@
+import { ticketsApi } from '../../api/tickets';
+import { getErrorMessage } from '../../api/errors';
+import { TicketRepository } from '../types';
+
+export const fastApiTicketRepository: TicketRepository = {
+  list: async () => {
+    try {
+      return await ticketsApi.list();
+    } catch (error) {
+      console.error('Error fetching tickets:', error);
+      return [];
+    }
+  },
+
+  update: async (ticketId, data) => {
+    try {
+      await ticketsApi.update(ticketId, data);
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating ticket:', error);
+      return { success: false, error: getErrorMessage(error) };
+    }
+  },
+};
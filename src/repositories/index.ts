@@ -0,0 +1,23 @@
+import { CatalogRepository, ReferralRepository, TicketRepository } from './types';
+import { fastApiCatalogRepository } from './fastapi/catalog';
+import { fastApiReferralRepository } from './fastapi/referrals';
+import { fastApiTicketRepository } from './fastapi/tickets';
+import { supabaseCatalogRepository } from './supabase/catalog';
+import { supabaseReferralRepository } from './supabase/referrals';
+import { supabaseTicketRepository } from './supabase/tickets';
+
+export type DataBackend = 'fastapi' | 'supabase';
+
+// Login always goes through FastAPI, so that is the default. Set VITE_DATA_BACKEND=supabase
+// only for deployments where users also hold a Supabase session.
+export const DATA_BACKEND: DataBackend =
+  import.meta.env.VITE_DATA_BACKEND === 'supabase' ? 'supabase' : 'fastapi';
+
+export const referralRepository: ReferralRepository =
+  DATA_BACKEND === 'supabase' ? supabaseReferralRepository : fastApiReferralRepository;
+
+export const ticketRepository: TicketRepository =
+  DATA_BACKEND === 'supabase' ? supabaseTicketRepository : fastApiTicketRepository;
+
+export const catalogRepository: CatalogRepository =
+  DATA_BACKEND === 'supabase' ? supabaseCatalogRepository : fastApiCatalogRepository;
@@ -0,0 +1,74 @@
+import { getSupabase } from '../../lib/supabase';
+import { AddOn, CatalogBillingCycle, CatalogPlanType, HostingPlan, PlanPricing } from '../../types';
+import { CatalogRepository } from '../types';
+
+// Columns of the Supabase `plans` table; slugs, prices and ordering are derived from them below
+interface PlanRow {
+  id: string;
+  plan_type_id: string;
+  name: string;
+  ram_gb: number;
+  vcpu: number;
+  storage_gb: number;
+  bandwidth_tb: number;
+  is_popular: boolean;
+  features: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export const supabaseCatalogRepository: CatalogRepository = {
+  get: async () => {
+    const supabase = getSupabase();
+    const [planTypes, plans, billingCycles, planPricing, addOns] = await Promise.all([
+      supabase.from('plan_types').select('id, name, slug, description, icon, color'),
+      supabase.from('plans').select('*').order('ram_gb'),
+      supabase.from('billing_cycles').select('id, name, slug, months, discount_percent, sort_order').order('sort_order'),
+      supabase.from('plan_pricing').select('plan_id, billing_cycle_id, price'),
+      supabase.from('add_ons').select('*').eq('is_active', true),
+    ]);
+
+    const error = planTypes.error || plans.error || billingCycles.error || planPricing.error || addOns.error;
+    if (error) {
+      console.error('Error fetching catalog:', error);
+      return null;
+    }
+
+    const types = planTypes.data as CatalogPlanType[];
+    const cycles = billingCycles.data as CatalogBillingCycle[];
+    const pricing = (planPricing.data as PlanPricing[]).map((p) => ({ ...p, price: Number(p.price) }));
+    const priceFor = (planId: string, cycleSlug: string) => {
+      const cycle = cycles.find((c) => c.slug === cycleSlug);
+      return pricing.find((p) => p.plan_id === planId && p.billing_cycle_id === cycle?.id)?.price;
+    };
+
+    return {
+      plan_types: types,
+      plans: (plans.data as PlanRow[]).map((row, index): HostingPlan => {
+        const monthly = priceFor(row.id, 'monthly') ?? 0;
+        return {
+          id: row.id,
+          name: row.name,
+          slug: row.name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+          description: `${row.vcpu} vCPU, ${row.ram_gb}GB RAM, ${row.storage_gb}GB SSD`,
+          plan_type: types.find((t) => t.id === row.plan_type_id)?.slug ?? 'general_purpose',
+          vcpu: row.vcpu,
+          ram_gb: row.ram_gb,
+          storage_gb: row.storage_gb,
+          bandwidth_tb: Number(row.bandwidth_tb),
+          monthly_price: monthly,
+          annual_price: priceFor(row.id, 'annually') ?? monthly * 12,
+          features: row.features,
+          is_active: true,
+          is_featured: row.is_popular,
+          display_order: index,
+          created_at: row.created_at,
+          updated_at: row.updated_at,
+        };
+      }),
+      billing_cycles: cycles,
+      plan_pricing: pricing,
+      add_ons: (addOns.data as AddOn[]).map((a) => ({ ...a, price_per_unit: Number(a.price_per_unit) })),
+    };
+  },
+};
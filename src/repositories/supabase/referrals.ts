@@ -0,0 +1,159 @@
+import { getSupabase } from '../../lib/supabase';
+import { AdminReferralStats, ReferralEarning, ReferralPayout, UserProfile } from '../../types';
+import { ReferralRepository } from '../types';
+
+// Supabase RLS scopes these queries to the user signed in with supabase.auth
+const getCurrentUserId = async () => {
+  const { data: { user } } = await getSupabase().auth.getUser();
+  return user?.id ?? null;
+};
+
+export const supabaseReferralRepository: ReferralRepository = {
+  getStats: async () => {
+    const userId = await getCurrentUserId();
+    if (!userId) return null;
+
+    const { data, error } = await getSupabase()
+      .from('users_profiles')
+      .select('referral_code, total_referrals, l1_referrals, l2_referrals, l3_referrals, total_earnings, available_balance, total_withdrawn')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching referral stats:', error);
+      return null;
+    }
+
+    return {
+      referral_code: data.referral_code,
+      total_referrals: data.total_referrals || 0,
+      l1_referrals: data.l1_referrals || 0,
+      l2_referrals: data.l2_referrals || 0,
+      l3_referrals: data.l3_referrals || 0,
+      total_earnings: data.total_earnings || 0,
+      available_balance: data.available_balance || 0,
+      total_withdrawn: data.total_withdrawn || 0,
+      can_request_payout: (data.available_balance || 0) >= 500,
+    };
+  },
+
+  getEarnings: async () => {
+    const userId = await getCurrentUserId();
+    if (!userId) return [];
+
+    const { data, error } = await getSupabase()
+      .from('referral_earnings')
+      .select(`
+        *,
+        referral_user:users_profiles!referral_earnings_referral_user_id_fkey(id, full_name, referral_code),
+        order:orders(id, order_number, amount)
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching referral earnings:', error);
+      return [];
+    }
+
+    return data as ReferralEarning[];
+  },
+
+  getPayouts: async () => {
+    const userId = await getCurrentUserId();
+    if (!userId) return [];
+
+    const { data, error } = await getSupabase()
+      .from('referral_payouts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching referral payouts:', error);
+      return [];
+    }
+
+    return data as ReferralPayout[];
+  },
+
+  requestPayout: async (amount, paymentMethod, paymentDetails) => {
+    const userId = await getCurrentUserId();
+    if (!userId) return { success: false, error: 'User not authenticated' };
+
+    const { error } = await getSupabase().rpc('request_referral_payout', {
+      p_amount: amount,
+      p_payment_method: paymentMethod,
+      p_bank_account_details: paymentDetails.bank_account_details || null,
+      p_upi_id: paymentDetails.upi_id || null,
+      p_paypal_email: paymentDetails.paypal_email || null,
+    });
+
+    if (error) {
+      console.error('Error requesting payout:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+
+  getAdminStats: async () => {
+    const { data, error } = await getSupabase().rpc('get_admin_referral_stats');
+
+    if (error) {
+      console.error('Error fetching admin referral stats:', error);
+      return null;
+    }
+
+    return data as AdminReferralStats;
+  },
+
+  getAllPayouts: async () => {
+    const { data, error } = await getSupabase()
+      .from('referral_payouts')
+      .select(`
+        *,
+        users_profiles!referral_payouts_user_id_fkey(full_name, referral_code)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching payouts:', error);
+      return [];
+    }
+
+    // Expose the joined profile under `user`, matching the FastAPI payload
+    return (data || []).map(({ users_profiles, ...payout }) => ({
+      ...payout,
+      user: users_profiles as UserProfile | undefined,
+    })) as ReferralPayout[];
+  },
+
+  approvePayout: async (payoutId, paymentReference) => {
+    const { error } = await getSupabase().rpc('admin_approve_payout', {
+      p_payout_id: payoutId,
+      p_payment_reference: paymentReference,
+    });
+
+    if (error) {
+      console.error('Error approving payout:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+
+  rejectPayout: async (payoutId, rejectedReason) => {
+    const { error } = await getSupabase().rpc('admin_reject_payout', {
+      p_payout_id: payoutId,
+      p_rejected_reason: rejectedReason,
+    });
+
+    if (error) {
+      console.error('Error rejecting payout:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+};
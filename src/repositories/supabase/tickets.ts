@@ -0,0 +1,39 @@
+import { getSupabase } from '../../lib/supabase';
+import { SupportTicket } from '../../types';
+import { TicketRepository } from '../types';
+
+export const supabaseTicketRepository: TicketRepository = {
+  list: async () => {
+    const { data, error } = await getSupabase()
+      .from('support_tickets')
+      .select(`
+        *,
+        users_profiles!support_tickets_user_id_fkey(email)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching tickets:', error);
+      return [];
+    }
+
+    return (data || []).map(({ users_profiles, ...ticket }) => ({
+      ...ticket,
+      user_email: users_profiles?.email || 'N/A',
+    })) as SupportTicket[];
+  },
+
+  update: async (ticketId, data) => {
+    const { error } = await getSupabase()
+      .from('support_tickets')
+      .update(data)
+      .eq('id', ticketId);
+
+    if (error) {
+      console.error('Error updating ticket:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+};
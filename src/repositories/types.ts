@@ -0,0 +1,45 @@
+import {
+  AdminReferralStats,
+  PaymentMethod,
+  PayoutPaymentDetails,
+  PlanCatalog,
+  ReferralEarning,
+  ReferralPayout,
+  ReferralStats,
+  SupportTicket,
+} from '../types';
+import { TicketUpdate } from '../api/tickets';
+
+// Result shape for mutations, so pages can show the backend's message inline
+export interface MutationResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface ReferralRepository {
+  getStats: () => Promise<ReferralStats | null>;
+  getEarnings: () => Promise<ReferralEarning[]>;
+  getPayouts: () => Promise<ReferralPayout[]>;
+  requestPayout: (
+    amount: number,
+    paymentMethod: PaymentMethod,
+    paymentDetails: PayoutPaymentDetails
+  ) => Promise<MutationResult>;
+
+  // Admin
+  getAdminStats: () => Promise<AdminReferralStats | null>;
+  getAllPayouts: () => Promise<ReferralPayout[]>;
+  approvePayout: (payoutId: string, paymentReference: string) => Promise<MutationResult>;
+  rejectPayout: (payoutId: string, rejectedReason: string) => Promise<MutationResult>;
+}
+
+export interface TicketRepository {
+  // Customers get their own tickets, admins get every ticket
+  list: () => Promise<SupportTicket[]>;
+  update: (ticketId: string, data: TicketUpdate) => Promise<MutationResult>;
+}
+
+export interface CatalogRepository {
+  // null when the catalog can't be loaded; callers keep the bundled copy instead
+  get: () => Promise<PlanCatalog | null>;
+}
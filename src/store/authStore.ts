@@ -1,78 +1,17 @@
 import { create } from "zustand";
-import api from "../api/axiosInstance";
-import { UserRole, AccountStatus } from "../types";
-
-// ============================================================
-// 🧩 Interfaces
-// ============================================================
-
-// User model matching FastAPI schema
-export interface User {
-  id: string;
-  email: string;
-  full_name: string;
-  role: UserRole;
-  account_status: AccountStatus;
-  phone?: string | null;
-  company_name?: string | null;
-  address?: string;
-  city?: string;
-  country?: string;
-  referral_code?: string | null;
-  referred_by?: string | null; // Changed to string to match id type
-  subscription_status?: string;
-  created_at?: string;
-  updated_at?: string;
-}
-
-// Create & Update schema (same as your FastAPI pydantic)
-export interface UserCreate {
-  email: string;
-  full_name: string;
-  password: string;
-  role?: string;
-  account_status?: string;
-  phone?: string;
-  company?: string;
-  referral_code?: string | null;
-}
-
-export interface UserUpdate {
-  full_name?: string;
-  email?: string;
-  role?: string;
-  account_status?: string;
-  phone?: string;
-  company?: string;
-}
-
-// Stats response model
-export interface UserStats {
-  total_users: number;
-  active_users: number;
-  suspended_users: number;
-  new_users_today: number;
-  new_users_this_week: number;
-  new_users_this_month: number;
-}
+import { setSessionExpiredHandler } from "../api/axiosInstance";
+import { tokenStorage } from "../api/tokenStorage";
+import { authApi } from "../api/auth";
+import { usersApi, UserFilters } from "../api/users";
+import { getErrorMessage, toApiError } from "../api/errors";
+import { useServersStore } from "./serversStore";
+import { useSshKeysStore } from "./sshKeysStore";
+import { User, UserCreate, UserUpdate, UserStats, LoginCredentials, ProfileUpdate } from "../types";
 
 // ============================================================
 // 🧠 Zustand Store Interface
 // ============================================================
 
-// Login credentials interface
-export interface LoginCredentials {
-  email: string;
-  password: string;
-}
-
-// Auth response interface (assuming API returns token and user info)
-export interface AuthResponse {
-  access_token: string;
-  token_type: string;
-  user: User;
-}
-
 interface UserStore {
   users: User[];
   user: User | null;
@@ -81,23 +20,24 @@ interface UserStore {
   error: string | null;
   token: string | null;
   isAuthenticated: boolean;
+  sessionExpired: boolean;
+  // Why the saved session couldn't be checked (offline, server down); the session is kept
+  authError: string | null;
 
   // Actions
-  fetchUsers: (filters?: {
-    search?: string;
-    role?: string;
-    status?: string;
-  }) => Promise<void>;
-  getUserById: (id: string) => Promise<void>; // Changed id type to string
+  fetchUsers: (filters?: UserFilters) => Promise<void>;
+  getUserById: (id: string) => Promise<void>;
   createUser: (data: UserCreate) => Promise<void>;
-  updateUser: (id: string, data: UserUpdate) => Promise<void>; // Changed id type to string
-  deleteUser: (id: string) => Promise<void>; // Changed id type to string
-  suspendUser: (id: string) => Promise<void>; // Changed id type to string
-  activateUser: (id: string) => Promise<void>; // Changed id type to string
+  updateUser: (id: string, data: UserUpdate) => Promise<void>;
+  deleteUser: (id: string) => Promise<void>;
+  suspendUser: (id: string) => Promise<void>;
+  activateUser: (id: string) => Promise<void>;
   fetchUserStats: () => Promise<void>;
   login: (credentials: LoginCredentials) => Promise<void>;
   logout: () => void;
+  expireSession: () => void;
   checkAuth: () => void;
+  updateProfile: (data: ProfileUpdate) => Promise<void>;
   signUp: (email: string, password: string, fullName: string, referralCode?: string) => Promise<void>;
   getIsAdmin: () => boolean;
   getIsSuperAdmin: () => boolean;
@@ -113,8 +53,10 @@ export const useUserStore = create<UserStore>((set, get) => ({
   stats: null,
   loading: false,
   error: null,
-  token: localStorage.getItem("authToken") || null,
-  isAuthenticated: !!localStorage.getItem("authToken"),
+  token: tokenStorage.getAccessToken(),
+  isAuthenticated: !!tokenStorage.getAccessToken(),
+  sessionExpired: false,
+  authError: null,
 
   // ============================================================
   // AUTHENTICATION ACTIONS
@@ -123,14 +65,11 @@ export const useUserStore = create<UserStore>((set, get) => ({
   login: async (credentials) => {
     set({ loading: true, error: null });
     try {
-      const res = await api.post<AuthResponse>("/auth/login", credentials);
-      const { access_token, user } = res.data;
-      localStorage.setItem("authToken", access_token);
-      set({ user, token: access_token, isAuthenticated: true, loading: false });
-      // Set the Authorization header for future requests
-      api.defaults.headers.common['Authorization'] = `Bearer ${access_token}`;
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+      const { access_token, refresh_token, user } = await authApi.login(credentials);
+      tokenStorage.setTokens(access_token, refresh_token);
+      set({ user, token: access_token, isAuthenticated: true, sessionExpired: false, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
       throw err; // Re-throw to allow components to catch login errors
     }
   },
@@ -139,47 +78,57 @@ export const useUserStore = create<UserStore>((set, get) => ({
     set({ loading: true, error: null });
     try {
         const payload = { email, password, full_name: fullName, referral_code: referralCode };
-        const res = await api.post<AuthResponse>("/auth/register", payload);
-        const { access_token, user } = res.data;
-        localStorage.setItem("authToken", access_token);
-        set({ user, token: access_token, isAuthenticated: true, loading: false });
-        api.defaults.headers.common['Authorization'] = `Bearer ${access_token}`;
-    } catch (err: any) {
-        set({ error: err.message, loading: false });
+        const { access_token, refresh_token, user } = await authApi.register(payload);
+        tokenStorage.setTokens(access_token, refresh_token);
+        set({ user, token: access_token, isAuthenticated: true, sessionExpired: false, loading: false });
+    } catch (err) {
+        set({ error: getErrorMessage(err), loading: false });
         throw err;
     }
   },
 
   logout: () => {
-    localStorage.removeItem("authToken");
+    tokenStorage.clear();
     set({ user: null, token: null, isAuthenticated: false, users: [], stats: null });
-    // Remove the Authorization header
-    delete api.defaults.headers.common['Authorization'];
+    // Don't leave the previous account's servers around for whoever signs in next
+    useServersStore.setState({ servers: [], pending: {}, jobs: {}, error: null });
+    useSshKeysStore.setState({ keys: [], loaded: false, error: null });
+  },
+
+  // Called by the axios interceptor when the refresh token is rejected too.
+  // ProtectedRoute sees isAuthenticated flip and sends the user to /login?next=...
+  expireSession: () => {
+    if (!get().isAuthenticated) return;
+    get().logout();
+    set({ sessionExpired: true });
   },
 
   checkAuth: async () => {
-    const token = localStorage.getItem("authToken");
-    if (token) {
-      set({ loading: true });
+    if (tokenStorage.getAccessToken()) {
+      set({ loading: true, authError: null });
       try {
-        // Verify token and fetch user data if token is valid
-        // Assuming there's an endpoint like /auth/me to get current user
-        const res = await api.get<User>("/auth/me", {
-          headers: { Authorization: `Bearer ${token}` }
-        });
-        set({ user: res.data, token, isAuthenticated: true, loading: false });
-        api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+        // An expired access token is refreshed transparently by the interceptor
+        const user = await authApi.me();
+        set({ user, token: tokenStorage.getAccessToken(), isAuthenticated: true, loading: false });
       } catch (err) {
-        console.error("Auth check failed:", err);
-        localStorage.removeItem("authToken");
-        set({ user: null, token: null, isAuthenticated: false, loading: false });
-        delete api.defaults.headers.common['Authorization'];
+        // A failed refresh has already expired the session in the interceptor; a 401 that
+        // still gets here came with a fresh token, so the session is gone all the same.
+        // Anything else (network, timeout, 5xx) says nothing about the session.
+        if (toApiError(err).status === 401) get().expireSession();
+        else set({ authError: getErrorMessage(err, "Couldn't reach the server to load your account") });
+        set({ loading: false });
       }
     } else {
       set({ isAuthenticated: false, loading: false });
     }
   },
 
+  // Re-throws so the Settings form can show field errors
+  updateProfile: async (data) => {
+    const user = await authApi.updateMe(data);
+    set({ user, users: get().users.map((u) => (u.id === user.id ? user : u)) });
+  },
+
   getIsAdmin: () => get().user?.role === 'admin' || get().user?.role === 'super_admin',
   getIsSuperAdmin: () => get().user?.role === 'super_admin',
 
@@ -189,15 +138,10 @@ export const useUserStore = create<UserStore>((set, get) => ({
   fetchUsers: async (filters = {}) => {
     set({ loading: true, error: null });
     try {
-      const params = new URLSearchParams();
-      if (filters.search) params.append("search", filters.search);
-      if (filters.role) params.append("role", filters.role);
-      if (filters.status) params.append("status", filters.status);
-
-      const res = await api.get<User[]>(`/users?${params.toString()}`);
-      set({ users: res.data, loading: false });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+      const users = await usersApi.list(filters);
+      set({ users, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -207,10 +151,17 @@ export const useUserStore = create<UserStore>((set, get) => ({
   getUserById: async (id) => {
     set({ loading: true, error: null });
     try {
-      const res = await api.get<User>(`/users/${id}`);
-      set({ user: res.data, loading: false });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+      const fetched = await usersApi.get(id);
+      // Only the signed-in user's own record may replace `user`; anyone else is just a list entry
+      set({
+        users: get().users.some((u) => u.id === id)
+          ? get().users.map((u) => (u.id === id ? fetched : u))
+          : [...get().users, fetched],
+        user: get().user?.id === id ? fetched : get().user,
+        loading: false,
+      });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -220,10 +171,10 @@ export const useUserStore = create<UserStore>((set, get) => ({
   createUser: async (data) => {
     set({ loading: true, error: null });
     try {
-      const res = await api.post<User>("/users", data);
-      set({ users: [...get().users, res.data], loading: false });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+      const created = await usersApi.create(data);
+      set({ users: [...get().users, created], loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -233,14 +184,14 @@ export const useUserStore = create<UserStore>((set, get) => ({
   updateUser: async (id, data) => {
     set({ loading: true, error: null });
     try {
-      const res = await api.put<User>(`/users/${id}`, data);
+      const updated = await usersApi.update(id, data);
       set({
-        users: get().users.map((u) => (u.id === id ? res.data : u)),
-        user: res.data,
+        users: get().users.map((u) => (u.id === id ? updated : u)),
+        user: get().user?.id === id ? updated : get().user,
         loading: false,
       });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -250,13 +201,13 @@ export const useUserStore = create<UserStore>((set, get) => ({
   deleteUser: async (id) => {
     set({ loading: true, error: null });
     try {
-      await api.delete(`/users/${id}`);
+      await usersApi.remove(id);
       set({
         users: get().users.filter((u) => u.id !== id),
         loading: false,
       });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -266,15 +217,15 @@ export const useUserStore = create<UserStore>((set, get) => ({
   suspendUser: async (id) => {
     set({ loading: true, error: null });
     try {
-      await api.post(`/users/${id}/suspend`);
+      await usersApi.suspend(id);
       set({
         users: get().users.map((u) =>
           u.id === id ? { ...u, account_status: "suspended" } : u
         ),
         loading: false,
       });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -284,15 +235,15 @@ export const useUserStore = create<UserStore>((set, get) => ({
   activateUser: async (id) => {
     set({ loading: true, error: null });
     try {
-      await api.post(`/users/${id}/activate`);
+      await usersApi.activate(id);
       set({
         users: get().users.map((u) =>
           u.id === id ? { ...u, account_status: "active" } : u
         ),
         loading: false,
       });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 
@@ -302,10 +253,12 @@ export const useUserStore = create<UserStore>((set, get) => ({
   fetchUserStats: async () => {
     set({ loading: true, error: null });
     try {
-      const res = await api.get<UserStats>("/users/stats");
-      set({ stats: res.data, loading: false });
-    } catch (err: any) {
-      set({ error: err.message, loading: false });
+      const stats = await usersApi.stats();
+      set({ stats, loading: false });
+    } catch (err) {
+      set({ error: getErrorMessage(err), loading: false });
     }
   },
 }));
+
+setSessionExpiredHandler(() => useUserStore.getState().expireSession());
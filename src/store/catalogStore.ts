@@ -0,0 +1,40 @@
+import { create } from "zustand";
+import { catalogRepository } from "../repositories";
+import { FALLBACK_CATALOG } from "../lib/catalog";
+import { PlanCatalog } from "../types";
+
+// ============================================================
+// 🧠 Zustand Store Interface
+// ============================================================
+
+interface CatalogStore {
+  // Starts as the bundled copy so pricing pages render before (or without) the backend
+  catalog: PlanCatalog;
+  // True once the backend's catalog replaced the bundled one
+  loaded: boolean;
+  loading: boolean;
+
+  // Actions
+  fetchCatalog: () => Promise<void>;
+}
+
+// ============================================================
+// 🏗️ Zustand Store Implementation
+// ============================================================
+
+export const useCatalogStore = create<CatalogStore>((set, get) => ({
+  catalog: FALLBACK_CATALOG,
+  loaded: false,
+  loading: false,
+
+  // ============================================================
+  // FETCH CATALOG (GET /catalog)
+  // ============================================================
+  // Every page calls this on mount; it does nothing once the backend's catalog is in
+  fetchCatalog: async () => {
+    if (get().loaded || get().loading) return;
+    set({ loading: true });
+    const catalog = await catalogRepository.get();
+    set(catalog ? { catalog, loaded: true, loading: false } : { loading: false });
+  },
+}));
@@ -0,0 +1,247 @@
+import { create } from "zustand";
+import { serversApi, ServerPowerAction, ServerRebuildRequest } from "../api/servers";
+import { backupsApi } from "../api/backups";
+import { getErrorMessage, toApiError } from "../api/errors";
+import { ServerJob, ServerStatus, UserServer } from "../types";
+
+// How often we re-fetch while a server is still changing state
+export const SERVER_POLL_INTERVAL_MS = 5000;
+
+// How often a running job (e.g. rebuild) is checked for progress
+export const JOB_POLL_INTERVAL_MS = 2000;
+
+// Failed checks in a row before we stop following a job
+export const JOB_POLL_MAX_FAILURES = 5;
+
+// Statuses that resolve on their own on the backend, so the list must keep refreshing
+const TRANSITIONAL_STATUSES: ServerStatus[] = ["provisioning", "rebuilding", "restoring"];
+
+export const isJobFinished = (job: ServerJob) => job.status === "completed" || job.status === "failed";
+
+// Status we show immediately after a power action is sent, before the API answers
+const OPTIMISTIC_STATUS: Record<ServerPowerAction, ServerStatus | null> = {
+  start: "active",
+  stop: "stopped",
+  reboot: null,
+};
+
+export const isTransitional = (server: UserServer) => TRANSITIONAL_STATUSES.includes(server.status);
+
+// ============================================================
+// 🧠 Zustand Store Interface
+// ============================================================
+
+interface ServersStore {
+  servers: UserServer[];
+  loading: boolean;
+  error: string | null;
+  // serverId -> power action currently in flight for that server
+  pending: Record<string, ServerPowerAction>;
+  // serverId -> most recent long-running job started from this session
+  jobs: Record<string, ServerJob>;
+
+  // Actions
+  fetchServers: (options?: { silent?: boolean }) => Promise<void>;
+  fetchServer: (id: string) => Promise<void>;
+  powerAction: (id: string, action: ServerPowerAction) => Promise<void>;
+  rebuildServer: (id: string, data: ServerRebuildRequest) => Promise<ServerJob>;
+  restoreSnapshot: (id: string, snapshotId: string) => Promise<ServerJob>;
+  trackJob: (serverId: string, jobId: string) => void;
+  watchJob: (serverId: string, job: ServerJob) => void;
+  startPolling: () => () => void;
+  clearError: () => void;
+}
+
+// One timer shared by every mounted consumer; each startPolling() call holds a reference
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let pollSubscribers = 0;
+let listController: AbortController | null = null;
+
+// ============================================================
+// 🏗️ Zustand Store Implementation
+// ============================================================
+
+export const useServersStore = create<ServersStore>((set, get) => ({
+  servers: [],
+  loading: false,
+  error: null,
+  pending: {},
+  jobs: {},
+
+  // ============================================================
+  // FETCH SERVERS (GET /servers)
+  // ============================================================
+  fetchServers: async ({ silent = false } = {}) => {
+    // A newer fetch supersedes any that is still running
+    listController?.abort();
+    const controller = new AbortController();
+    listController = controller;
+
+    if (!silent) set({ loading: true, error: null });
+    try {
+      const fetched = await serversApi.list({}, { signal: controller.signal });
+      const { pending, servers } = get();
+      // Keep the optimistic row for servers whose action hasn't answered yet
+      set({
+        servers: fetched.map((s) => (pending[s.id] ? servers.find((p) => p.id === s.id) ?? s : s)),
+        loading: false,
+      });
+    } catch (err) {
+      if (toApiError(err).isCancelled) return;
+      set({ error: getErrorMessage(err, "Failed to load servers"), loading: false });
+    } finally {
+      if (listController === controller) listController = null;
+    }
+  },
+
+  // ============================================================
+  // FETCH ONE SERVER (GET /servers/{id})
+  // ============================================================
+  // Upserts into `servers` so the detail page and the list share one source of truth
+  fetchServer: async (id) => {
+    set({ loading: true, error: null });
+    try {
+      const server = await serversApi.get(id);
+      const { servers, pending } = get();
+      const exists = servers.some((s) => s.id === id);
+      set({
+        servers: exists
+          ? servers.map((s) => (s.id === id && !pending[id] ? server : s))
+          : [...servers, server],
+        loading: false,
+      });
+    } catch (err) {
+      set({ error: getErrorMessage(err, "Failed to load server"), loading: false });
+    }
+  },
+
+  // ============================================================
+  // POWER ACTIONS (POST /servers/{id}/start | stop | reboot)
+  // ============================================================
+  powerAction: async (id, action) => {
+    const previous = get().servers.find((s) => s.id === id);
+    if (!previous || get().pending[id]) return;
+
+    const optimistic = OPTIMISTIC_STATUS[action];
+    set({
+      error: null,
+      pending: { ...get().pending, [id]: action },
+      servers: optimistic
+        ? get().servers.map((s) => (s.id === id ? { ...s, status: optimistic } : s))
+        : get().servers,
+    });
+
+    try {
+      const updated = await serversApi.power(id, action);
+      set({ servers: get().servers.map((s) => (s.id === id ? updated : s)) });
+    } catch (err) {
+      // Roll back to what the server looked like before we guessed
+      set({
+        servers: get().servers.map((s) => (s.id === id ? previous : s)),
+        error: getErrorMessage(err, `Failed to ${action} ${previous.server_name}`),
+      });
+    } finally {
+      const rest = { ...get().pending };
+      delete rest[id];
+      set({ pending: rest });
+    }
+  },
+
+  // ============================================================
+  // REBUILD (POST /servers/{id}/rebuild)
+  // ============================================================
+  // Re-throws so the wizard can show field errors (e.g. a weak root password)
+  rebuildServer: async (id, data) => {
+    const job = await serversApi.rebuild(id, data);
+    set({
+      jobs: { ...get().jobs, [id]: job },
+      servers: get().servers.map((s) => (s.id === id ? { ...s, status: "rebuilding" } : s)),
+    });
+    get().trackJob(id, job.id);
+    return job;
+  },
+
+  // ============================================================
+  // RESTORE SNAPSHOT (POST /servers/{id}/snapshots/{snapshotId}/restore)
+  // ============================================================
+  restoreSnapshot: async (id, snapshotId) => {
+    const job = await backupsApi.restoreSnapshot(id, snapshotId);
+    set({
+      jobs: { ...get().jobs, [id]: job },
+      servers: get().servers.map((s) => (s.id === id ? { ...s, status: "restoring" } : s)),
+    });
+    get().trackJob(id, job.id);
+    return job;
+  },
+
+  // Polls GET /servers/{id}/jobs/{jobId} until the job finishes, then reloads the server.
+  // Gives up on a 4xx (the job or server is gone) or after repeated failures.
+  trackJob: (serverId, jobId) => {
+    let failures = 0;
+    const poll = async () => {
+      // Stop once the job was dropped (logout) or superseded by a newer one
+      if (get().jobs[serverId]?.id !== jobId) return;
+      try {
+        const job = await serversApi.job(serverId, jobId);
+        failures = 0;
+        set({ jobs: { ...get().jobs, [serverId]: job } });
+        if (isJobFinished(job)) {
+          await get().fetchServer(serverId);
+          return;
+        }
+      } catch (err) {
+        console.error("Failed to poll server job:", err);
+        const status = toApiError(err).status ?? 0;
+        // Rate limiting is worth waiting out; any other 4xx won't change on a retry
+        const permanent = status >= 400 && status < 500 && status !== 429;
+        failures += 1;
+        if (permanent || failures >= JOB_POLL_MAX_FAILURES) {
+          // A newer job may have started while this check was in flight
+          if (get().jobs[serverId]?.id === jobId) {
+            const rest = { ...get().jobs };
+            delete rest[serverId];
+            set({ jobs: rest });
+          }
+          return;
+        }
+      }
+      setTimeout(poll, JOB_POLL_INTERVAL_MS);
+    };
+    setTimeout(poll, JOB_POLL_INTERVAL_MS);
+  },
+
+  // Follow a job started elsewhere, e.g. provisioning kicked off by paying for an order
+  watchJob: (serverId, job) => {
+    set({ jobs: { ...get().jobs, [serverId]: job } });
+    get().trackJob(serverId, job.id);
+  },
+
+  // ============================================================
+  // POLLING
+  // ============================================================
+  // Refreshes the list in the background while any server is mid-transition
+  // (e.g. provisioning -> active). Returns the matching unsubscribe.
+  startPolling: () => {
+    pollSubscribers += 1;
+    if (!pollTimer) {
+      pollTimer = setInterval(() => {
+        if (get().servers.some(isTransitional)) {
+          get().fetchServers({ silent: true });
+        }
+      }, SERVER_POLL_INTERVAL_MS);
+    }
+
+    let stopped = false;
+    return () => {
+      if (stopped) return;
+      stopped = true;
+      pollSubscribers -= 1;
+      if (pollSubscribers === 0 && pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+  },
+
+  clearError: () => set({ error: null }),
+}));
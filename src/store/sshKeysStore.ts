@@ -0,0 +1,83 @@
+import { create } from "zustand";
+import { sshKeysApi, SshKeyCreate } from "../api/sshKeys";
+import { getErrorMessage } from "../api/errors";
+import { SshKey } from "../types";
+
+// ============================================================
+// 🧠 Zustand Store Interface
+// ============================================================
+
+interface SshKeysStore {
+  keys: SshKey[];
+  loading: boolean;
+  // True once the first fetch finished, so pickers don't refetch on every mount
+  loaded: boolean;
+  error: string | null;
+
+  // Actions
+  fetchKeys: () => Promise<void>;
+  addKey: (data: SshKeyCreate) => Promise<SshKey>;
+  renameKey: (id: string, name: string) => Promise<void>;
+  deleteKey: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+// ============================================================
+// 🏗️ Zustand Store Implementation
+// ============================================================
+
+export const useSshKeysStore = create<SshKeysStore>((set, get) => ({
+  keys: [],
+  loading: false,
+  loaded: false,
+  error: null,
+
+  // ============================================================
+  // FETCH KEYS (GET /ssh-keys)
+  // ============================================================
+  fetchKeys: async () => {
+    set({ loading: true, error: null });
+    try {
+      const keys = await sshKeysApi.list();
+      set({ keys, loading: false, loaded: true });
+    } catch (err) {
+      set({ error: getErrorMessage(err, "Failed to load SSH keys"), loading: false });
+    }
+  },
+
+  // ============================================================
+  // ADD KEY (POST /ssh-keys)
+  // ============================================================
+  // Re-throws so forms can show the field error next to the key input
+  addKey: async (data) => {
+    const key = await sshKeysApi.create(data);
+    set({ keys: [...get().keys, key].sort((a, b) => a.name.localeCompare(b.name)) });
+    return key;
+  },
+
+  // ============================================================
+  // RENAME KEY (PATCH /ssh-keys/{id})
+  // ============================================================
+  renameKey: async (id, name) => {
+    try {
+      const updated = await sshKeysApi.rename(id, name);
+      set({ keys: get().keys.map((k) => (k.id === id ? updated : k)), error: null });
+    } catch (err) {
+      set({ error: getErrorMessage(err, "Failed to rename SSH key") });
+    }
+  },
+
+  // ============================================================
+  // DELETE KEY (DELETE /ssh-keys/{id})
+  // ============================================================
+  deleteKey: async (id) => {
+    try {
+      await sshKeysApi.remove(id);
+      set({ keys: get().keys.filter((k) => k.id !== id), error: null });
+    } catch (err) {
+      set({ error: getErrorMessage(err, "Failed to delete SSH key") });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
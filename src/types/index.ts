@@ -1,9 +1,13 @@
 export type UserRole = 'super_admin' | 'admin' | 'customer';
 export type AccountStatus = 'active' | 'suspended' | 'pending';
-export type ServerStatus = 'active' | 'stopped' | 'suspended' | 'provisioning' | 'error';
-export type PlanType = 'general_purpose' | 'cpu_optimized' | 'memory_optimized' | 'storage_optimized';
+export type ServerStatus = 'active' | 'stopped' | 'suspended' | 'provisioning' | 'rebuilding' | 'restoring' | 'error';
+export type PlanType = 'general_purpose' | 'cpu_optimized' | 'memory_optimized' | 'storage_optimized' | 'dedicated';
 export type BillingCycle = 'monthly' | 'annual';
-export type OrderStatus = 'pending' | 'completed' | 'cancelled' | 'refunded';
+// Every term the catalog quotes; checkout bills the monthly and annual ones
+export type CatalogCycle = 'monthly' | 'quarterly' | 'semiannually' | 'annually' | 'biennially' | 'triennially';
+export type OrderType = 'new' | 'upgrade' | 'downgrade' | 'add_on';
+export type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled' | 'refunded';
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
 export type TicketCategory = 'technical' | 'billing' | 'general' | 'urgent';
 export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
 export type TicketStatus = 'open' | 'in_progress' | 'waiting' | 'resolved' | 'closed';
@@ -18,10 +22,94 @@ export interface UserProfile {
   country?: string;
   role: UserRole;
   account_status: AccountStatus;
+  referral_code?: string;
   created_at: string;
   updated_at: string;
 }
 
+// User model matching FastAPI schema
+export interface User {
+  id: string;
+  email: string;
+  full_name: string;
+  role: UserRole;
+  account_status: AccountStatus;
+  phone?: string | null;
+  company_name?: string | null;
+  address?: string;
+  city?: string;
+  country?: string;
+  // GST state code of the billing address, e.g. '27' for Maharashtra
+  billing_state?: string | null;
+  gstin?: string | null;
+  referral_code?: string | null;
+  referred_by?: string | null;
+  subscription_status?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Create & Update schema (same as the FastAPI pydantic models)
+export interface UserCreate {
+  email: string;
+  full_name: string;
+  password: string;
+  role?: string;
+  account_status?: string;
+  phone?: string;
+  company?: string;
+  referral_code?: string | null;
+}
+
+export interface UserUpdate {
+  full_name?: string;
+  email?: string;
+  role?: string;
+  account_status?: string;
+  phone?: string;
+  company?: string;
+}
+
+// What customers can change on their own profile from Settings
+export interface ProfileUpdate {
+  full_name?: string;
+  phone?: string;
+  company?: string;
+  address?: string;
+  city?: string;
+  country?: string;
+  billing_state?: string | null;
+  gstin?: string | null;
+}
+
+export interface UserStats {
+  total_users: number;
+  active_users: number;
+  suspended_users: number;
+  new_users_today: number;
+  new_users_this_week: number;
+  new_users_this_month: number;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
+  user: User;
+}
+
+// POST /auth/refresh response
+export interface TokenRefreshResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
+}
+
 export interface HostingPlan {
   id: string;
   name: string;
@@ -38,45 +126,555 @@ export interface HostingPlan {
   is_active: boolean;
   is_featured: boolean;
   display_order: number;
+  // Services accounting code printed on invoices; the hosting SAC when unset
+  sac_code?: string;
+  // Only set for dedicated (bare metal) plans
+  hardware?: DedicatedHardware;
   created_at: string;
   updated_at: string;
 }
 
+// Spec sheet of a bare metal plan, as worded on the Dedicated Servers page
+export interface DedicatedHardware {
+  cpu: string;
+  cores: string;
+  memory: string;
+  storage: string;
+  network: string;
+  ipv4_count: number;
+}
+
+// Row of the `plan_types` table
+export interface CatalogPlanType {
+  id: string;
+  name: string;
+  slug: PlanType;
+  description: string;
+  // lucide icon name, e.g. "server"
+  icon: string;
+  color: string;
+}
+
+// Row of the `billing_cycles` table
+export interface CatalogBillingCycle {
+  id: string;
+  name: string;
+  slug: CatalogCycle;
+  months: number;
+  discount_percent: number;
+  sort_order: number;
+}
+
+// Row of the `plan_pricing` table: what a whole cycle costs, discount included
+export interface PlanPricing {
+  plan_id: string;
+  billing_cycle_id: string;
+  price: number;
+}
+
+// Everything the public pricing pages and checkout render from
+export interface PlanCatalog {
+  plan_types: CatalogPlanType[];
+  plans: HostingPlan[];
+  billing_cycles: CatalogBillingCycle[];
+  plan_pricing: PlanPricing[];
+  add_ons: AddOn[];
+}
+
+// Data center customers can deploy into
+export interface Region {
+  slug: string;
+  name: string;
+  country: string;
+  // Applied to every plan's base price; covers local power and transit costs
+  price_multiplier: number;
+  // Plan slugs (e.g. g-256gb) whose hardware isn't stocked here
+  unavailable_plans: string[];
+}
+
 export interface UserServer {
   id: string;
   user_id: string;
   plan_id: string;
   server_name: string;
   hostname: string;
+  // Data center slug from REGIONS; fixed for the server's lifetime
+  region: string;
+  // Primary public IPv4; the full list is in ip_addresses
   ip_address?: string;
+  ip_addresses?: ServerIpAddress[];
   status: ServerStatus;
   os_type: string;
+  os_image_id?: string;
   vcpu: number;
   ram_gb: number;
   storage_gb: number;
   bandwidth_tb: number;
   root_password?: string;
+  // Saved keys installed for root at deploy or last rebuild
+  ssh_key_ids?: string[];
+  billing_cycle?: BillingCycle;
   created_at: string;
   expires_at: string;
   last_reboot?: string;
+  user_email?: string;
   plan?: HostingPlan;
 }
 
+export type IpVersion = 4 | 6;
+
+// Every server has one primary address per family; extra IPv4s are secondary add-ons
+export interface ServerIpAddress {
+  id: string;
+  server_id: string;
+  address: string;
+  version: IpVersion;
+  // 32 for a single IPv4, 64 for the IPv6 range routed to the server
+  prefix_length: number;
+  gateway?: string;
+  role: 'primary' | 'secondary';
+  scope: 'public' | 'private';
+  // Reverse DNS; unset means our default *.ip.ramaera.cloud name
+  ptr_record?: string;
+  // The add-on this address is billed under, for ordered secondary IPs
+  add_on_id?: string;
+  // Set on the private address a server gets when it joins a VPC
+  vpc_id?: string;
+  created_at: string;
+}
+
+export type SshKeyType =
+  | 'ssh-ed25519'
+  | 'ssh-rsa'
+  | 'ecdsa-sha2-nistp256'
+  | 'ecdsa-sha2-nistp384'
+  | 'ecdsa-sha2-nistp521';
+
+// Public key saved on the account and offered when deploying or rebuilding a server
+export interface SshKey {
+  id: string;
+  user_id: string;
+  name: string;
+  public_key: string;
+  key_type: SshKeyType;
+  bits: number;
+  // SHA256 fingerprint as printed by `ssh-keygen -l`
+  fingerprint: string;
+  created_at: string;
+  last_used_at?: string;
+}
+
+export type OsImageCategory = 'distribution' | 'application';
+
+// Entry in the OS image catalog; `os_type` on a server is the image's display name
+export interface OsImage {
+  id: string;
+  slug: string;
+  name: string;
+  version: string;
+  family: string;
+  category: OsImageCategory;
+  description?: string;
+  // Application images name the distro they are built on, e.g. "Ubuntu 22.04 LTS"
+  base_image?: string;
+  min_ram_gb?: number;
+  min_storage_gb?: number;
+  is_deprecated?: boolean;
+}
+
+export type ServerJobType = 'provision' | 'rebuild' | 'restore';
+export type ServerJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Long-running operation on a server (provisioning, rebuild, snapshot restore); poll until completed or failed
+export interface ServerJob {
+  id: string;
+  server_id: string;
+  type: ServerJobType;
+  status: ServerJobStatus;
+  progress: number;
+  message?: string;
+  created_at: string;
+  completed_at?: string;
+}
+
+// Row of the `add_ons` pricing table, e.g. backups priced per GB of server disk
+export interface AddOn {
+  id: string;
+  name: string;
+  slug: string;
+  description: string;
+  unit: string;
+  price_per_unit: number;
+  // Services accounting code printed on invoices; the hosting SAC when unset
+  sac_code?: string;
+  is_active: boolean;
+}
+
+export type SnapshotKind = 'manual' | 'scheduled';
+export type SnapshotStatus = 'creating' | 'available' | 'failed';
+
+// Point-in-time copy of a server's disk; scheduled ones come from its BackupPolicy
+export interface Snapshot {
+  id: string;
+  server_id: string;
+  user_id: string;
+  name: string;
+  kind: SnapshotKind;
+  status: SnapshotStatus;
+  size_gb: number;
+  // OS the server ran when the snapshot was taken
+  os_type: string;
+  created_at: string;
+}
+
+export type BackupFrequency = 'daily' | 'weekly';
+
+export interface BackupPolicy {
+  server_id: string;
+  enabled: boolean;
+  frequency: BackupFrequency;
+  // How many scheduled backups to keep before the oldest is deleted
+  retention: number;
+  // Add-on charge for the server's disk size, per month; 0 when disabled
+  monthly_price: number;
+  last_run_at?: string;
+  next_run_at?: string;
+}
+
+export type ServerActivityStatus = 'success' | 'failed' | 'pending';
+
+// One entry in a server's activity log (power actions, provisioning, etc.)
+export interface ServerActivity {
+  id: string;
+  server_id: string;
+  action: string;
+  message: string;
+  status: ServerActivityStatus;
+  actor_email?: string;
+  created_at: string;
+}
+
+export type ConsoleType = 'serial' | 'vnc';
+
+// Short-lived ticket for the console proxy; `url` is the WebSocket to open
+export interface ConsoleSession {
+  type: ConsoleType;
+  url: string;
+  token: string;
+  expires_at: string;
+}
+
 export interface Order {
   id: string;
   user_id: string;
   order_number: string;
+  // Missing on older orders, which are all new servers
+  order_type?: OrderType;
+  // Set for upgrade/downgrade and add-on orders: the server whose plan changes or gets the add-on
+  server_id?: string;
+  add_on_id?: string;
+  add_on?: AddOn;
   plan_id: string;
   billing_cycle: BillingCycle;
+  // Where a new server is deployed; missing on older orders, which were all Mumbai
+  region?: string;
+  // Negative for a downgrade credited to the account
   amount: number;
   status: OrderStatus;
   payment_method?: string;
-  payment_status: string;
+  payment_status: PaymentStatus;
+  // Keys to install on the server this order provisions
+  ssh_key_ids?: string[];
+  // New-server orders from checkout: what to build once the order is paid
+  server_name?: string;
+  hostname?: string;
+  os_image_id?: string;
+  add_ons?: OrderAddOnLine[];
+  // Promo code applied at checkout and what it took off before GST
+  coupon_code?: string;
+  discount_amount?: number;
+  // Set when payment goes through; poll it to follow the new server's provisioning
+  provision_job_id?: string;
   created_at: string;
   completed_at?: string;
+  user_email?: string;
   plan?: HostingPlan;
 }
 
+// Add-on bought together with a new server, e.g. daily backups or two extra IPv4s
+export interface OrderAddOnLine {
+  add_on_id: string;
+  quantity: number;
+}
+
+export type CouponDiscountType = 'percent' | 'flat';
+
+// Promo code taking a share (percent) or a fixed number of rupees (flat) off an order before GST
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  // Only for customers who have never paid for an order
+  first_order_only: boolean;
+  // Empty means any plan or any billing cycle
+  plan_ids: string[];
+  billing_cycles: CatalogCycle[];
+  // Null means no limit
+  max_redemptions: number | null;
+  redemptions: number;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// What checkout and the calculator learn about a code that applies
+export type AppliedCoupon = Pick<Coupon, 'code' | 'description' | 'discount_type' | 'discount_value'>;
+
+// Prorated cost of moving a server to another plan for the rest of its billing period
+export interface ResizeQuote {
+  server_id: string;
+  current_plan_id: string;
+  target_plan_id: string;
+  billing_cycle: BillingCycle;
+  period_start: string;
+  period_end: string;
+  days_in_period: number;
+  days_remaining: number;
+  unused_credit: number;
+  new_plan_charge: number;
+  // new_plan_charge - unused_credit; negative means a credit
+  amount: number;
+}
+
+export type FirewallDirection = 'inbound' | 'outbound';
+export type FirewallProtocol = 'tcp' | 'udp' | 'icmp';
+
+// Allow rule; anything inbound that no rule matches is dropped
+export interface FirewallRule {
+  id: string;
+  direction: FirewallDirection;
+  protocol: FirewallProtocol;
+  // "22" or "8000-8100"; empty for ICMP
+  ports: string;
+  // Source CIDRs for inbound rules, destination CIDRs for outbound
+  addresses: string[];
+  description?: string;
+}
+
+// Named rule set; one firewall can protect many servers and a server can have several
+export interface Firewall {
+  id: string;
+  user_id: string;
+  name: string;
+  rules: FirewallRule[];
+  server_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Private network between one account's servers; each member gets an address from `cidr`
+export interface Vpc {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string;
+  region: string;
+  cidr: string;
+  server_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type VolumeStatus = 'available' | 'attached';
+
+// Block storage that outlives any one server; billed per GB per month whether attached or not
+export interface Volume {
+  id: string;
+  user_id: string;
+  name: string;
+  region: string;
+  size_gb: number;
+  status: VolumeStatus;
+  server_id?: string;
+  monthly_price: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VolumeSnapshot {
+  id: string;
+  volume_id: string;
+  user_id: string;
+  name: string;
+  size_gb: number;
+  created_at: string;
+}
+
+export type LoadBalancerProtocol = 'http' | 'https' | 'tcp';
+export type LoadBalancerAlgorithm = 'round_robin' | 'least_connections';
+export type LoadBalancerStatus = 'active' | 'degraded' | 'down';
+export type BackendHealth = 'healthy' | 'unhealthy' | 'unknown';
+
+export interface ForwardingRule {
+  id: string;
+  entry_protocol: LoadBalancerProtocol;
+  entry_port: number;
+  target_protocol: LoadBalancerProtocol;
+  target_port: number;
+  // HTTPS only: pass encrypted traffic through to the backends instead of terminating it
+  tls_passthrough: boolean;
+}
+
+export interface LoadBalancerHealthCheck {
+  protocol: LoadBalancerProtocol;
+  port: number;
+  // Requested over HTTP(S); ignored for TCP checks, which only open a connection
+  path: string;
+  interval_seconds: number;
+  timeout_seconds: number;
+  // Consecutive results needed to flip a backend's state
+  healthy_threshold: number;
+  unhealthy_threshold: number;
+}
+
+export interface StickySessions {
+  enabled: boolean;
+  cookie_name: string;
+  cookie_ttl_seconds: number;
+}
+
+export interface LoadBalancerBackend {
+  server_id: string;
+  health: BackendHealth;
+  // Why the last check failed, e.g. "Connection refused on port 80"
+  reason?: string;
+  last_checked_at?: string;
+}
+
+export interface LoadBalancer {
+  id: string;
+  user_id: string;
+  user_email?: string;
+  name: string;
+  region: string;
+  // Slug from LOAD_BALANCER_SIZES; sets the connection and rule limits and the price
+  size: string;
+  // Derived from backend health: degraded while some backends fail, down when all do
+  status: LoadBalancerStatus;
+  ip_address: string;
+  algorithm: LoadBalancerAlgorithm;
+  forwarding_rules: ForwardingRule[];
+  health_check: LoadBalancerHealthCheck;
+  sticky_sessions: StickySessions;
+  backends: LoadBalancerBackend[];
+  monthly_price: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SRV' | 'CAA';
+
+export type CaaTag = 'issue' | 'issuewild' | 'iodef';
+
+export interface DnsRecord {
+  id: string;
+  zone_id: string;
+  type: DnsRecordType;
+  // Relative to the zone: "@" for the apex, "www", "_sip._tcp"
+  name: string;
+  ttl: number;
+  // Address (A/AAAA), target host name without trailing dot (CNAME/MX/SRV), text (TXT) or CAA value
+  value: string;
+  // MX and SRV
+  priority?: number;
+  // SRV only
+  weight?: number;
+  port?: number;
+  // CAA only
+  flags?: number;
+  tag?: CaaTag;
+}
+
+// SOA and apex NS records are managed by us and not stored as records
+export interface DnsZone {
+  id: string;
+  user_id: string;
+  domain: string;
+  default_ttl: number;
+  nameservers: string[];
+  records: DnsRecord[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type MetricsRange = '1h' | '24h' | '7d' | '30d';
+
+// One sample per step; rates are averaged over the step
+export interface MetricsPoint {
+  timestamp: string;
+  cpu_percent: number;
+  ram_percent: number;
+  disk_read_mbps: number;
+  disk_write_mbps: number;
+  net_in_mbps: number;
+  net_out_mbps: number;
+}
+
+// Transfer counted against the plan's bandwidth_tb for the current calendar month
+export interface BandwidthUsage {
+  period_start: string;
+  period_end: string;
+  used_gb: number;
+  allowance_gb: number;
+  // used_gb extrapolated to period_end at the rate seen so far this month
+  projected_gb: number;
+}
+
+export interface ServerMetrics {
+  server_id: string;
+  range: MetricsRange;
+  step_seconds: number;
+  points: MetricsPoint[];
+  bandwidth: BandwidthUsage;
+}
+
+export interface InvoiceItem {
+  description: string;
+  sac_code?: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+// How GST applies to a supply: within our state, to another state, or out of India
+export type GstTreatment = 'intra_state' | 'inter_state' | 'export';
+
+export interface InvoiceBuyer {
+  name: string;
+  company?: string | null;
+  email: string;
+  address?: string;
+  city?: string;
+  // GST state code
+  state?: string | null;
+  country?: string;
+}
+
+export interface TaxBreakdown {
+  treatment: GstTreatment;
+  // GST state code; null for exports
+  place_of_supply: string | null;
+  rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  // Exports carry no GST; the buyer accounts for it in their own country
+  reverse_charge: boolean;
+}
+
 export interface Invoice {
   id: string;
   user_id: string;
@@ -85,10 +683,15 @@ export interface Invoice {
   amount: number;
   tax_amount: number;
   total_amount: number;
+  // How `tax_amount` splits; older invoices predate the split
+  tax_breakdown?: TaxBreakdown;
+  buyer_gstin?: string | null;
+  // The customer's billing details when the invoice was raised
+  billed_to?: InvoiceBuyer;
   status: string;
   due_date: string;
   paid_at?: string;
-  items: any[];
+  items: InvoiceItem[];
   created_at: string;
 }
 
@@ -97,6 +700,7 @@ export interface SupportTicket {
   user_id: string;
   ticket_number: string;
   subject: string;
+  description?: string;
   category: TicketCategory;
   priority: TicketPriority;
   status: TicketStatus;
@@ -104,6 +708,7 @@ export interface SupportTicket {
   created_at: string;
   updated_at: string;
   resolved_at?: string;
+  user_email?: string;
   user?: UserProfile;
   assigned_user?: UserProfile;
 }
@@ -176,3 +781,21 @@ export interface ReferralPayout {
   created_at: string;
   user?: UserProfile;
 }
+
+export interface PayoutPaymentDetails {
+  bank_account_details?: {
+    account_holder: string;
+    account_number: string;
+    ifsc_code: string;
+    bank_name: string;
+  };
+  upi_id?: string;
+  paypal_email?: string;
+}
+
+export interface AdminReferralStats {
+  totalReferrals: number;
+  totalEarnings: number;
+  pendingPayouts: number;
+  completedPayouts: number;
+}
@@ -0,0 +1,26 @@
+// Minimal typings for the parts of noVNC's RFB client we use (the package ships none)
+declare module '@novnc/novnc' {
+  interface RFBOptions {
+    shared?: boolean;
+    credentials?: { username?: string; password?: string; target?: string };
+    wsProtocols?: string[];
+  }
+
+  export default class RFB extends EventTarget {
+    constructor(target: HTMLElement, urlOrChannel: string | WebSocket, options?: RFBOptions);
+
+    scaleViewport: boolean;
+    resizeSession: boolean;
+    viewOnly: boolean;
+    focusOnClick: boolean;
+    background: string;
+
+    disconnect(): void;
+    sendCredentials(credentials: { username?: string; password?: string; target?: string }): void;
+    sendCtrlAltDel(): void;
+    sendKey(keysym: number, code: string | null, down?: boolean): void;
+    clipboardPasteFrom(text: string): void;
+    focus(): void;
+    blur(): void;
+  }
+}
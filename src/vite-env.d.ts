@@ -1,9 +1,17 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_SUPABASE_URL: string;
-  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
   readonly VITE_TAWKTO_PROPERTY_ID?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_DATA_BACKEND?: 'fastapi' | 'supabase';
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_CONSOLE_WS_URL?: string;
+  readonly VITE_SELLER_NAME?: string;
+  readonly VITE_SELLER_GSTIN?: string;
+  readonly VITE_SELLER_ADDRESS?: string;
+  readonly VITE_SELLER_UPI_ID?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,20 @@
+/*
+  # Backup and snapshot add-ons
+
+  1. Data
+    - `add_ons` rows for the server Backups tab
+      - `backups-daily` - daily scheduled backups, priced per GB of server disk per month
+      - `backups-weekly` - weekly scheduled backups, priced per GB of server disk per month
+      - `snapshot-storage` - on-demand snapshots, priced per GB stored per month
+
+  2. Notes
+    - Prices are in INR, matching `plan_pricing`
+    - Safe to re-run: existing slugs are left untouched
+*/
+
+INSERT INTO add_ons (name, slug, description, unit, price_per_unit, is_active)
+VALUES
+  ('Daily Backups', 'backups-daily', 'Automatic daily backups of the whole server disk', 'GB', 1.50, true),
+  ('Weekly Backups', 'backups-weekly', 'Automatic weekly backups of the whole server disk', 'GB', 1.00, true),
+  ('Snapshot Storage', 'snapshot-storage', 'On-demand snapshots, billed for the space they use', 'GB', 3.00, true)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,16 @@
+/*
+  # Additional IPv4 add-on
+
+  1. Data
+    - `add_ons` row for the server Networking tab
+      - `additional-ipv4` - one extra public IPv4 address, priced per address per month
+
+  2. Notes
+    - Prices are in INR, matching `plan_pricing`
+    - Safe to re-run: existing slugs are left untouched
+*/
+
+INSERT INTO add_ons (name, slug, description, unit, price_per_unit, is_active)
+VALUES
+  ('Additional IPv4', 'additional-ipv4', 'An extra public IPv4 address routed to your server', 'IP', 150.00, true)
+ON CONFLICT (slug) DO NOTHING;
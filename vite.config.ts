@@ -1,9 +1,16 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// noVNC (server console) uses top-level await, which needs an ES2022 target
+const target = 'es2022';
+
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
+    esbuildOptions: { target },
+  },
+  build: {
+    target,
   },
 });